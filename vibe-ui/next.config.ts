@@ -1,11 +1,36 @@
 import type { NextConfig } from "next";
 
+// Declarations read at runtime by the type checker and the editor's IntelliSense
+const typeDeclarationFiles = [
+  './node_modules/typescript/lib/*.d.ts',
+  './node_modules/@types/react/**/*',
+  './node_modules/@types/react-dom/**/*',
+  './node_modules/@types/node/**/*',
+  './node_modules/csstype/**/*',
+  './node_modules/undici-types/**/*',
+  './node_modules/next/**/*.d.ts',
+  './node_modules/next/package.json',
+  './node_modules/tailwindcss/**/*.d.ts',
+  './node_modules/tailwindcss/package.json',
+];
+
 const nextConfig: NextConfig = {
   // Enable standalone output for Docker
   output: 'standalone',
   
   // Server external packages (moved from experimental)
   serverExternalPackages: ['@prisma/client'],
+
+  // Files the in-process type checker and linter read at runtime
+  outputFileTracingIncludes: {
+    '/api/trpc/[trpc]': typeDeclarationFiles,
+    '/api/type-definitions': typeDeclarationFiles,
+    // Config the in-process project linter loads, and the plugins it names
+    '/api/**/*': [
+      './project-lint.config.mjs',
+      './node_modules/eslint-config-next/**/*',
+    ],
+  },
   
   // Experimental features for better performance
   experimental: {
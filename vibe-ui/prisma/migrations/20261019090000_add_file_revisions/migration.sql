@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "RevisionAuthor" AS ENUM ('USER', 'AI', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "project_file_revisions" (
+    "id" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "author" "RevisionAuthor" NOT NULL DEFAULT 'USER',
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "fileId" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "project_file_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_file_revisions_fileId_createdAt_idx" ON "project_file_revisions"("fileId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "project_file_revisions" ADD CONSTRAINT "project_file_revisions_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "project_files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_file_revisions" ADD CONSTRAINT "project_file_revisions_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_file_revisions" ADD CONSTRAINT "project_file_revisions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "CheckpointPhase" AS ENUM ('BEFORE', 'AFTER');
+
+-- CreateTable
+CREATE TABLE "project_checkpoints" (
+    "id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "phase" "CheckpointPhase" NOT NULL,
+    "fileCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "project_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "project_checkpoint_files" (
+    "id" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "language" TEXT,
+    "checkpointId" TEXT NOT NULL,
+
+    CONSTRAINT "project_checkpoint_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_checkpoints_projectId_createdAt_idx" ON "project_checkpoints"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_checkpoint_files_checkpointId_path_key" ON "project_checkpoint_files"("checkpointId", "path");
+
+-- AddForeignKey
+ALTER TABLE "project_checkpoints" ADD CONSTRAINT "project_checkpoints_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_checkpoints" ADD CONSTRAINT "project_checkpoints_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_checkpoint_files" ADD CONSTRAINT "project_checkpoint_files_checkpointId_fkey" FOREIGN KEY ("checkpointId") REFERENCES "project_checkpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "forkedFromId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "projects_forkedFromId_idx" ON "projects"("forkedFromId");
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "git_access_tokens" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "git_access_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "git_access_tokens_tokenHash_key" ON "git_access_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "git_access_tokens_userId_idx" ON "git_access_tokens"("userId");
+
+-- AddForeignKey
+ALTER TABLE "git_access_tokens" ADD CONSTRAINT "git_access_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
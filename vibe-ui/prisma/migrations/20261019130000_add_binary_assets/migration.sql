@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "project_files" ADD COLUMN     "binaryContent" BYTEA,
+ADD COLUMN     "isBinary" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "size" INTEGER;
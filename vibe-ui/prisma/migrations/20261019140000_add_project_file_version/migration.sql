@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "project_files" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "project_share_links" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "project_share_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_share_links_tokenHash_key" ON "project_share_links"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "project_share_links_projectId_idx" ON "project_share_links"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "project_share_links" ADD CONSTRAINT "project_share_links_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_share_links" ADD CONSTRAINT "project_share_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
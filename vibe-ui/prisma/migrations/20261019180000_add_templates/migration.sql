@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "framework" TEXT,
+    "styling" TEXT,
+    "tags" TEXT[],
+    "previewImage" TEXT,
+    "isPublic" BOOLEAN NOT NULL DEFAULT false,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "organizationId" TEXT,
+
+    CONSTRAINT "templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "template_files" (
+    "id" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "language" TEXT,
+    "isBinary" BOOLEAN NOT NULL DEFAULT false,
+    "mimeType" TEXT,
+    "size" INTEGER,
+    "binaryContent" BYTEA,
+    "templateId" TEXT NOT NULL,
+
+    CONSTRAINT "template_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "projects_templateId_idx" ON "projects"("templateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "templates_slug_key" ON "templates"("slug");
+
+-- CreateIndex
+CREATE INDEX "templates_createdById_idx" ON "templates"("createdById");
+
+-- CreateIndex
+CREATE INDEX "templates_organizationId_idx" ON "templates"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_files_templateId_path_key" ON "template_files"("templateId", "path");
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "templates" ADD CONSTRAINT "templates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "templates" ADD CONSTRAINT "templates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "template_files" ADD CONSTRAINT "template_files_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "projects_deletedAt_idx" ON "projects"("deletedAt");
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "EnvVarScope" AS ENUM ('SANDBOX', 'PREVIEW', 'PRODUCTION');
+
+-- CreateTable
+CREATE TABLE "project_env_vars" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "encryptedValue" TEXT NOT NULL,
+    "scope" "EnvVarScope" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "project_env_vars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_env_vars_projectId_key_scope_key" ON "project_env_vars"("projectId", "key", "scope");
+
+-- AddForeignKey
+ALTER TABLE "project_env_vars" ADD CONSTRAINT "project_env_vars_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
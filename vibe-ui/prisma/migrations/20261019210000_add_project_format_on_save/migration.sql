@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "formatOnSave" BOOLEAN NOT NULL DEFAULT false;
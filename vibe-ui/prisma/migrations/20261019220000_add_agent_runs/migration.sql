@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "AgentRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'STOPPED');
+
+-- CreateTable
+CREATE TABLE "agent_runs" (
+    "id" TEXT NOT NULL,
+    "task" TEXT NOT NULL,
+    "status" "AgentRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "model" TEXT NOT NULL,
+    "steps" INTEGER NOT NULL DEFAULT 0,
+    "transcript" JSONB NOT NULL DEFAULT '[]',
+    "filesModified" TEXT[],
+    "summary" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "projectId" TEXT NOT NULL,
+    "userId" TEXT,
+    "sandboxId" TEXT,
+
+    CONSTRAINT "agent_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "agent_runs_projectId_createdAt_idx" ON "agent_runs"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "agent_runs" ADD CONSTRAINT "agent_runs_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "agent_runs" ADD CONSTRAINT "agent_runs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
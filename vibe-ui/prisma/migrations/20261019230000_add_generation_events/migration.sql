@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "GenerationEventStatus" AS ENUM ('QUEUED', 'STARTED', 'GENERATED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "generation_events" (
+    "id" SERIAL NOT NULL,
+    "runId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "status" "GenerationEventStatus" NOT NULL,
+    "qualityScore" INTEGER,
+    "durationMs" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "projectId" TEXT NOT NULL,
+
+    CONSTRAINT "generation_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "generation_events_projectId_id_idx" ON "generation_events"("projectId", "id");
+
+-- AddForeignKey
+ALTER TABLE "generation_events" ADD CONSTRAINT "generation_events_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
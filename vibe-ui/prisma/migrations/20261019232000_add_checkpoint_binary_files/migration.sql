@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "project_checkpoint_files" ADD COLUMN     "binaryContent" BYTEA,
+ADD COLUMN     "isBinary" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mimeType" TEXT;
@@ -0,0 +1,10 @@
+-- Keep the first of any events recorded twice by retried steps
+DELETE FROM "generation_events" a
+USING "generation_events" b
+WHERE a."runId" = b."runId"
+  AND a."path" = b."path"
+  AND a."status" = b."status"
+  AND a."id" > b."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "generation_events_runId_path_status_key" ON "generation_events"("runId", "path", "status");
@@ -0,0 +1,11 @@
+-- Fail all but the newest of any runs left RUNNING together
+UPDATE "agent_runs" a
+SET "status" = 'FAILED', "error" = 'The run was interrupted before it finished', "completedAt" = NOW()
+FROM "agent_runs" b
+WHERE a."projectId" = b."projectId"
+  AND a."status" = 'RUNNING'
+  AND b."status" = 'RUNNING'
+  AND (a."createdAt", a."id") < (b."createdAt", b."id");
+
+-- CreateIndex (partial, so Prisma's schema can't describe it)
+CREATE UNIQUE INDEX "agent_runs_one_running_per_project" ON "agent_runs"("projectId") WHERE "status" = 'RUNNING';
@@ -0,0 +1,17 @@
+import { dirname } from "path";
+import { fileURLToPath } from "url";
+import { FlatCompat } from "@eslint/eslintrc";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const compat = new FlatCompat({
+  baseDirectory: __dirname,
+});
+
+// Rules applied to user projects by the in-process linter (src/lib/project-lint.ts)
+const projectLintConfig = [
+  ...compat.extends("next/core-web-vitals"),
+];
+
+export default projectLintConfig;
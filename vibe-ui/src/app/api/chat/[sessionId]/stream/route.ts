@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { ProjectRole, type Prisma } from '@/generated/prisma'
+import { getProjectRole, hasProjectRole } from '@/lib/project-access'
+import { streamAIResponse } from '@/lib/chat-assistant'
+import { chatChangeService, type ChatMessageMetadata } from '@/lib/chat-changes'
+
+export const dynamic = 'force-dynamic'
+
+const streamMessageSchema = z.object({
+  content: z.string().min(1),
+})
+
+const messageUserSelect = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      avatar: true,
+    },
+  },
+} as const
+
+// POST /api/chat/:sessionId/stream sends a message and streams the assistant's
+// reply as server-sent events. Closing the request cancels the reply; whatever
+// arrived by then is saved.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { sessionId } = await params
+
+    const parsed = streamMessageSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid message', message: parsed.error.message },
+        { status: 400 }
+      )
+    }
+
+    const chatSession = await db.chatSession.findFirst({
+      where: {
+        id: sessionId,
+        userId,
+      },
+      include: {
+        messages: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+        project: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            framework: true,
+            styling: true,
+            database: true,
+            initialPrompt: true,
+            aiModels: true,
+          },
+        },
+      },
+    })
+
+    if (!chatSession) {
+      return NextResponse.json(
+        { error: 'Chat session not found' },
+        { status: 404 }
+      )
+    }
+
+    // Access to the project may have been revoked since the chat started.
+    // Only editors get file changes proposed, since only they can accept them.
+    let canEdit = false
+    if (chatSession.project) {
+      const role = await getProjectRole(chatSession.project.id, userId)
+      if (!role) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        )
+      }
+      canEdit = hasProjectRole(role, ProjectRole.EDITOR)
+    }
+
+    const userMessage = await db.message.create({
+      data: {
+        chatSessionId: sessionId,
+        userId,
+        content: parsed.data.content,
+        role: 'USER',
+      },
+      include: messageUserSelect,
+    })
+
+    const projectFiles = canEdit && chatSession.project
+      ? await db.projectFile.findMany({
+          where: { projectId: chatSession.project.id, isBinary: false },
+          select: { path: true, content: true },
+          orderBy: { path: 'asc' },
+        })
+      : undefined
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: Record<string, unknown>) => {
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          } catch {
+            // Client went away
+          }
+        }
+
+        send({ type: 'user-message', message: userMessage })
+
+        let received = ''
+        try {
+          const reply = await streamAIResponse(
+            chatSession.messages.concat(userMessage),
+            chatSession.project,
+            projectFiles,
+            (token) => {
+              received += token
+              send({ type: 'token', content: token })
+            },
+            request.signal
+          )
+
+          // File edits become patches the user reviews before anything is written
+          const proposedChanges = chatSession.project && reply.files.length > 0
+            ? await chatChangeService.proposeChanges(chatSession.project.id, reply.files)
+            : []
+          const metadata: ChatMessageMetadata | undefined = proposedChanges.length > 0 ? { proposedChanges } : undefined
+
+          const aiMessage = await db.message.create({
+            data: {
+              chatSessionId: sessionId,
+              userId, // System messages still need a userId
+              content: reply.content,
+              role: 'ASSISTANT',
+              metadata: metadata as unknown as Prisma.InputJsonValue | undefined,
+            },
+            include: messageUserSelect,
+          })
+          send({ type: 'done', message: aiMessage })
+        } catch (error) {
+          if (request.signal.aborted) {
+            // Cancelled: keep the partial reply so the conversation reads as it happened
+            if (received) {
+              await db.message.create({
+                data: {
+                  chatSessionId: sessionId,
+                  userId,
+                  content: received,
+                  role: 'ASSISTANT',
+                  metadata: { cancelled: true } satisfies ChatMessageMetadata,
+                },
+              })
+            }
+            return
+          }
+
+          console.error('Error streaming AI response:', error)
+          const errorMessage = await db.message.create({
+            data: {
+              chatSessionId: sessionId,
+              userId,
+              content: 'I apologize, but I encountered an error processing your message. Please try again.',
+              role: 'ASSISTANT',
+            },
+            include: messageUserSelect,
+          })
+          send({ type: 'error', message: errorMessage })
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Failed to start chat stream:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to send message',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,64 +1,67 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { db } from '@/lib/db'
+import { ProjectRole } from '@/generated/prisma'
+import { getProjectRole, hasProjectRole } from '@/lib/project-access'
+import { customSandboxService } from '@/lib/custom-sandbox'
 
-const execAsync = promisify(exec);
+export const dynamic = 'force-dynamic'
 
+// GET /api/debug-container/:sandboxId returns the logs, inspect output and stats
+// of a sandbox's container, with the project's secrets masked
 export async function GET(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const containerId = params.id;
-    
-    if (!containerId) {
-      return NextResponse.json({ error: 'Container ID required' }, { status: 400 });
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
     }
 
-    // Get container logs with timestamps
-    const { stdout: logs } = await execAsync(`docker logs --timestamps ${containerId}`, {
-      encoding: 'utf8',
-      maxBuffer: 1024 * 1024
-    });
+    const { id: sandboxId } = await params
 
-    // Get container inspect info
-    const { stdout: inspect } = await execAsync(`docker inspect ${containerId}`, {
-      encoding: 'utf8',
-      maxBuffer: 1024 * 1024
-    });
+    // Only containers recorded for a sandbox are reachable, never a raw id or name
+    const sandbox = await db.sandbox.findUnique({
+      where: { id: sandboxId },
+      select: { projectId: true, e2bId: true },
+    })
 
-    // Get container status
-    const { stdout: status } = await execAsync(`docker inspect ${containerId} --format='{{.State.Status}}'`, {
-      encoding: 'utf8',
-      maxBuffer: 1024 * 1024
-    });
+    const role = sandbox ? await getProjectRole(sandbox.projectId, userId) : null
+    if (!sandbox || !role) {
+      return NextResponse.json(
+        { error: 'Sandbox not found' },
+        { status: 404 }
+      )
+    }
 
-    // Get container restart count
-    const { stdout: restartCount } = await execAsync(`docker inspect ${containerId} --format='{{.RestartCount}}'`, {
-      encoding: 'utf8',
-      maxBuffer: 1024 * 1024
-    });
+    if (!hasProjectRole(role, ProjectRole.EDITOR)) {
+      return NextResponse.json(
+        { error: 'Editor access is required to debug the sandbox' },
+        { status: 403 }
+      )
+    }
 
-    // Get container exit code
-    const { stdout: exitCode } = await execAsync(`docker inspect ${containerId} --format='{{.State.ExitCode}}'`, {
-      encoding: 'utf8',
-      maxBuffer: 1024 * 1024
-    });
+    if (!sandbox.e2bId) {
+      return NextResponse.json(
+        { error: 'Sandbox has no container' },
+        { status: 409 }
+      )
+    }
 
     return NextResponse.json({
-      containerId,
-      status: status.trim(),
-      restartCount: parseInt(restartCount.trim()),
-      exitCode: parseInt(exitCode.trim()),
-      logs: logs.split('\n').filter((line: string) => line.trim()),
-      inspect: JSON.parse(inspect)
-    });
-
+      sandboxId,
+      info: await customSandboxService.getDetailedContainerInfo(sandbox.e2bId),
+    })
   } catch (error) {
-    console.error('Failed to debug container:', error);
+    console.error('❌ Failed to debug container:', error)
     return NextResponse.json(
-      { error: `Failed to debug container: ${error}` },
+      { error: 'Failed to debug container' },
       { status: 500 }
-    );
+    )
   }
-} 
\ No newline at end of file
+}
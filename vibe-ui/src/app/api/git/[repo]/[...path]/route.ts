@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ProjectRole } from '@/generated/prisma'
+import { getProjectRole, hasProjectRole } from '@/lib/project-access'
+import { GitPushTooLargeError, gitAccessTokenService, gitRepositoryService, GIT_SERVICES, type GitService } from '@/lib/git-repository'
+
+// git smart-HTTP endpoints:
+//   GET  /api/git/:projectId.git/info/refs?service=git-upload-pack|git-receive-pack
+//   POST /api/git/:projectId.git/git-upload-pack
+//   POST /api/git/:projectId.git/git-receive-pack
+// Clients authenticate with HTTP Basic using a git access token as the password.
+
+type RouteParams = { params: Promise<{ repo: string; path: string[] }> }
+
+function log(message: string, data?: unknown) {
+  console.log(`[Git HTTP] ${message}`, data || '')
+}
+
+function unauthorized() {
+  return new NextResponse('Authentication required', {
+    status: 401,
+    headers: { 'WWW-Authenticate': 'Basic realm="Jo Vibes"' },
+  })
+}
+
+// Resolve the Basic auth token to a user and verify their role on the project:
+// viewers can clone and pull, editors can also push
+async function authorize(request: NextRequest, repo: string, service: GitService) {
+  const header = request.headers.get('authorization')
+  if (!header?.startsWith('Basic ')) return { error: unauthorized() }
+
+  const decoded = Buffer.from(header.slice('Basic '.length), 'base64').toString('utf8')
+  const token = decoded.slice(decoded.indexOf(':') + 1)
+  const userId = await gitAccessTokenService.verifyToken(token)
+  if (!userId) return { error: unauthorized() }
+
+  const projectId = repo.replace(/\.git$/, '')
+
+  // Same access rules as the project router
+  const role = await getProjectRole(projectId, userId)
+
+  if (!role) {
+    return { error: new NextResponse('Repository not found', { status: 404 }) }
+  }
+
+  if (service === 'git-receive-pack' && !hasProjectRole(role, ProjectRole.EDITOR)) {
+    return { error: new NextResponse('Editor access is required to push', { status: 403 }) }
+  }
+
+  return { projectId, userId }
+}
+
+function noCacheHeaders(contentType: string) {
+  return {
+    'Content-Type': contentType,
+    'Cache-Control': 'no-cache, max-age=0, must-revalidate',
+    'Expires': 'Fri, 01 Jan 1980 00:00:00 GMT',
+    'Pragma': 'no-cache',
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { repo, path } = await params
+    const service = request.nextUrl.searchParams.get('service') as GitService | null
+
+    // Only the smart protocol is supported
+    if (path.join('/') !== 'info/refs' || !service || !GIT_SERVICES.includes(service)) {
+      return new NextResponse('Not found', { status: 404 })
+    }
+
+    const auth = await authorize(request, repo, service)
+    if ('error' in auth) return auth.error
+
+    const body = await gitRepositoryService.advertiseRefs(auth.projectId, service)
+    return new NextResponse(new Uint8Array(body), {
+      headers: noCacheHeaders(`application/x-${service}-advertisement`),
+    })
+  } catch (error) {
+    console.error('❌ Git info/refs failed:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { repo, path } = await params
+    const service = path.join('/') as GitService
+
+    if (!GIT_SERVICES.includes(service) || !request.body) {
+      return new NextResponse('Not found', { status: 404 })
+    }
+
+    const auth = await authorize(request, repo, service)
+    if ('error' in auth) return auth.error
+
+    const gzipped = request.headers.get('content-encoding') === 'gzip'
+    const headers = noCacheHeaders(`application/x-${service}-result`)
+
+    if (service === 'git-upload-pack') {
+      const stream = gitRepositoryService.uploadPack(auth.projectId, request.body, gzipped)
+      return new NextResponse(stream, { headers })
+    }
+
+    const { output, sync } = await gitRepositoryService.receivePack(auth.projectId, auth.userId, request.body, gzipped)
+    if (sync) {
+      log('Push synced to project files', {
+        projectId: auth.projectId,
+        updated: sync.updated.length,
+        created: sync.created.length,
+        removed: sync.removed.length,
+        skipped: sync.skipped.length,
+      })
+    }
+
+    return new NextResponse(new Uint8Array(output), { headers })
+  } catch (error) {
+    if (error instanceof GitPushTooLargeError) {
+      return new NextResponse(error.message, { status: 413 })
+    }
+    console.error('❌ Git service request failed:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
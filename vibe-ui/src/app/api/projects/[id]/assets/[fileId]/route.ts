@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { db } from '@/lib/db'
+import { projectAccessWhere } from '@/lib/project-access'
+import { isInlineMimeType, projectAssetService } from '@/lib/project-assets'
+import { projectShareLinkService } from '@/lib/project-share-links'
+
+// GET /api/projects/:id/assets/:fileId (raw bytes, used for previews in the editor)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fileId: string }> }
+) {
+  try {
+    const { id: projectId, fileId } = await params
+    const shareToken = request.nextUrl.searchParams.get('share')
+
+    // Share links stand in for an account on read-only share pages
+    if (shareToken) {
+      const link = await projectShareLinkService.verifyToken(shareToken)
+      if (link?.projectId !== projectId) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        )
+      }
+    } else {
+      const { userId } = await auth()
+
+      if (!userId) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+
+      // Verify user can view the project
+      const project = await db.project.findFirst({
+        where: {
+          id: projectId,
+          ...projectAccessWhere(userId),
+        },
+        select: { id: true },
+      })
+
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const asset = await projectAssetService.getAsset(fileId, projectId)
+
+    if (!asset?.binaryContent) {
+      return NextResponse.json(
+        { error: 'Asset not found' },
+        { status: 404 }
+      )
+    }
+
+    const filename = asset.path.split('/').pop() || 'asset'
+    const mimeType = asset.mimeType || 'application/octet-stream'
+    const disposition = request.nextUrl.searchParams.has('download') || !isInlineMimeType(mimeType) ? 'attachment' : 'inline'
+
+    return new NextResponse(Buffer.from(asset.binaryContent), {
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': String(asset.binaryContent.length),
+        'Content-Disposition': `${disposition}; filename="${filename.replace(/"/g, '')}"`,
+        'Last-Modified': asset.updatedAt.toUTCString(),
+        'Cache-Control': 'private, no-cache',
+        'X-Content-Type-Options': 'nosniff',
+        // Served from the app's origin, so never let an asset run script there
+        'Content-Security-Policy': 'sandbox',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Failed to load asset:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load asset',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { db } from '@/lib/db'
+import { ProjectRole, SandboxStatus } from '@/generated/prisma'
+import { customSandboxService } from '@/lib/custom-sandbox'
+import { gitRepositoryService } from '@/lib/git-repository'
+import { getAssetMimeType, normalizeAssetPath, parseAssetUpload, projectAssetService, type UploadedAsset } from '@/lib/project-assets'
+import { realtimeHub } from '@/lib/realtime-hub'
+import { getProjectRole, hasProjectRole } from '@/lib/project-access'
+
+// POST /api/projects/:id/assets (multipart/form-data with one or more "file" fields
+// and an optional "directory", default "public", or "path" for a single file)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: projectId } = await params
+
+    // Verify user can edit the project
+    const role = await getProjectRole(projectId, userId)
+
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!hasProjectRole(role, ProjectRole.EDITOR)) {
+      return NextResponse.json(
+        { error: 'Editor access is required to upload assets' },
+        { status: 403 }
+      )
+    }
+
+    const project = await db.project.findFirst({
+      where: {
+        id: projectId,
+      },
+      include: {
+        sandboxes: {
+          where: {
+            status: SandboxStatus.RUNNING,
+          },
+          take: 1,
+        },
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    // Step 1: Read the upload and work out where each file goes
+    let uploads: { path: string; asset: UploadedAsset }[]
+    try {
+      const upload = await parseAssetUpload(request)
+
+      if (!upload) {
+        return NextResponse.json(
+          { error: 'At least one file is required in the "file" field' },
+          { status: 400 }
+        )
+      }
+
+      const directory = upload.fields.directory ?? 'public'
+      uploads = upload.assets.map(asset => {
+        const target = upload.fields.path && upload.assets.length === 1
+          ? upload.fields.path
+          : `${directory}/${asset.originalName}`
+        const path = normalizeAssetPath(target)
+        if (!path) {
+          throw new Error(`Invalid path: ${target}`)
+        }
+        if (!getAssetMimeType(path)) {
+          throw new Error(`Unsupported asset type: ${path}`)
+        }
+        return { path, asset }
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid upload' },
+        { status: 400 }
+      )
+    }
+
+    // Step 2: Store the bytes
+    const files = await db.$transaction(async (tx) => {
+      const saved = []
+      for (const { path, asset } of uploads) {
+        saved.push(await projectAssetService.saveAsset({
+          projectId,
+          path,
+          data: asset.buffer,
+        }, tx))
+      }
+
+      await tx.project.update({
+        where: { id: projectId },
+        data: { updatedAt: new Date() },
+      })
+
+      return saved
+    }, {
+      timeout: 30000,
+    })
+
+    const summary = files.length === 1 ? files[0].path : `${files.length} assets`
+    await gitRepositoryService.safeCommitProjectState(projectId, `Upload ${summary}`, {
+      author: 'USER',
+      userId,
+      paths: files.map(file => file.path),
+    })
+
+    for (const file of files) {
+      realtimeHub.publishFileEvent(projectId, {
+        type: 'file-updated',
+        fileId: file.id,
+        path: file.path,
+        version: file.version,
+      })
+    }
+
+    // Step 3: If there's a running sandbox, copy the assets into it
+    let synced = false
+    if (project.sandboxes.length > 0) {
+      const sandbox = project.sandboxes[0]
+      try {
+        await customSandboxService.syncFilesToSandbox(
+          sandbox.id,
+          uploads.map(({ path, asset }) => ({ path, content: asset.buffer }))
+        )
+        synced = true
+      } catch (error) {
+        console.error(`❌ Failed to sync assets to sandbox:`, error)
+        // Don't fail the upload if sync fails
+      }
+    }
+
+    console.log(`🖼️ Uploaded ${files.length} assets to project ${projectId}`)
+
+    return NextResponse.json({
+      success: true,
+      files,
+      synced,
+    })
+  } catch (error) {
+    console.error('❌ Failed to upload assets:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to upload assets',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { ProjectRole } from '@/generated/prisma'
+import { getProjectRole, hasProjectRole } from '@/lib/project-access'
+import { projectDependencyService } from '@/lib/project-dependencies'
+
+export const dynamic = 'force-dynamic'
+
+const installSchema = z.object({
+  sandboxId: z.string().min(1),
+})
+
+// POST /api/projects/:id/dependencies/install runs npm install in the running
+// sandbox and streams its output as server-sent events
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: projectId } = await params
+
+    const parsed = installSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid install request', message: parsed.error.message },
+        { status: 400 }
+      )
+    }
+
+    if (!hasProjectRole(await getProjectRole(projectId, userId), ProjectRole.EDITOR)) {
+      return NextResponse.json(
+        { error: 'Editor access is required to install packages' },
+        { status: 403 }
+      )
+    }
+
+    const sandbox = await db.sandbox.findUnique({
+      where: { id: parsed.data.sandboxId },
+      select: { id: true, projectId: true, status: true },
+    })
+
+    if (!sandbox || sandbox.projectId !== projectId) {
+      return NextResponse.json(
+        { error: 'Sandbox not found' },
+        { status: 404 }
+      )
+    }
+
+    if (sandbox.status !== 'RUNNING') {
+      return NextResponse.json(
+        { error: 'Sandbox is not running' },
+        { status: 409 }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: Record<string, unknown>) => {
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          } catch {
+            // Client went away
+          }
+        }
+
+        try {
+          const exitCode = await projectDependencyService.installInSandbox({
+            projectId,
+            sandboxId: sandbox.id,
+            userId,
+            onOutput: (chunk) => send({ type: 'output', chunk }),
+            signal: request.signal,
+          })
+          send({ type: 'done', exitCode })
+        } catch (error) {
+          console.error('❌ Failed to install dependencies:', error)
+          send({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Failed to start dependency install:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to start dependency install',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { db } from '@/lib/db'
+import { projectAccessWhere } from '@/lib/project-access'
+import { projectExportService } from '@/lib/project-export'
+
+// GET /api/projects/:id/download?docker=1
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: projectId } = await params
+
+    // Verify user can view the project
+    const project = await db.project.findFirst({
+      where: {
+        id: projectId,
+        ...projectAccessWhere(userId),
+      },
+      select: { id: true },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const includeDocker = ['1', 'true'].includes(request.nextUrl.searchParams.get('docker') ?? '')
+    const archive = await projectExportService.createProjectArchive(project.id, { includeDocker })
+
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(archive.stream, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${archive.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Failed to export project:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to export project',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { db } from '@/lib/db'
+import { ProjectRole } from '@/generated/prisma'
+import { getProjectRole, hasProjectRole } from '@/lib/project-access'
+import { generationProgressService } from '@/lib/generation-progress'
+
+export const dynamic = 'force-dynamic'
+
+const POLL_INTERVAL_MS = 1000
+const MAX_STREAM_MS = 30 * 60 * 1000
+
+// GET /api/projects/:id/generation streams the per-file progress of the
+// project's latest generation run as server-sent events until it finishes.
+// Generation runs in Inngest, so events are read back from the database.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: projectId } = await params
+
+    if (!hasProjectRole(await getProjectRole(projectId, userId), ProjectRole.VIEWER)) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: Record<string, unknown>) => {
+          try {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          } catch {
+            // Client went away
+          }
+        }
+
+        const startedAt = Date.now()
+        let lastId = 0
+        try {
+          while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+            // Read the status first so events written just before it changed are still sent
+            const project = await db.project.findUnique({
+              where: { id: projectId },
+              select: { status: true },
+            })
+
+            const events = await generationProgressService.getLatestRunEvents(projectId, lastId)
+            for (const event of events) {
+              send({ type: 'file', event })
+              lastId = event.id
+            }
+
+            if (!project || project.status !== 'BUILDING') {
+              send({ type: 'complete', status: project?.status ?? null })
+              break
+            }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+          }
+        } catch (error) {
+          console.error('❌ Failed to stream generation progress:', error)
+          send({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' })
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Failed to open generation progress stream:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to open generation progress stream',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { ProjectRole } from '@/generated/prisma'
+import { RealtimeClientIdTakenError, realtimeHub } from '@/lib/realtime-hub'
+import { getProjectRole, hasProjectRole } from '@/lib/project-access'
+
+export const dynamic = 'force-dynamic'
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('join'), clientId: z.string().min(1), fileId: z.string().min(1) }),
+  z.object({ type: z.literal('leave'), clientId: z.string().min(1) }),
+  z.object({ type: z.literal('update'), clientId: z.string().min(1), fileId: z.string().min(1), update: z.string().min(1) }),
+  z.object({ type: z.literal('awareness'), clientId: z.string().min(1), fileId: z.string().min(1), update: z.string().min(1) }),
+])
+
+// GET /api/projects/:id/realtime?clientId=... opens the event stream for one editor tab
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: projectId } = await params
+    const clientId = request.nextUrl.searchParams.get('clientId')
+
+    if (!clientId) {
+      return NextResponse.json(
+        { error: 'clientId is required' },
+        { status: 400 }
+      )
+    }
+
+    // Viewers can follow along; editing is checked per update below
+    const role = await getProjectRole(projectId, userId)
+    if (!role) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, username: true, avatar: true },
+    })
+
+    const stream = realtimeHub.connect(projectId, clientId, {
+      id: userId,
+      name: user?.name || user?.username || 'Anonymous',
+      avatar: user?.avatar ?? null,
+    }, request.signal)
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    })
+  } catch (error) {
+    if (error instanceof RealtimeClientIdTakenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('❌ Failed to open realtime stream:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to open realtime stream',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/:id/realtime sends document and cursor updates from a connected tab
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id: projectId } = await params
+
+    const parsed = actionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid realtime message', message: parsed.error.message },
+        { status: 400 }
+      )
+    }
+    const action = parsed.data
+
+    // The stream was opened by this user after an access check
+    if (!realtimeHub.isConnected(projectId, action.clientId, userId)) {
+      return NextResponse.json(
+        { error: 'Not connected to this project' },
+        { status: 409 }
+      )
+    }
+
+    if (action.type === 'update' && !hasProjectRole(await getProjectRole(projectId, userId), ProjectRole.EDITOR)) {
+      return NextResponse.json(
+        { error: 'Editor access is required to change files' },
+        { status: 403 }
+      )
+    }
+
+    switch (action.type) {
+      case 'join': {
+        const session = await realtimeHub.joinFile(projectId, action.clientId, action.fileId)
+        if (!session) {
+          return NextResponse.json(
+            { error: 'File not found or not editable' },
+            { status: 404 }
+          )
+        }
+        return NextResponse.json({ success: true, ...session })
+      }
+      case 'leave':
+        realtimeHub.leaveFile(projectId, action.clientId)
+        return NextResponse.json({ success: true })
+      case 'update':
+      case 'awareness': {
+        const applied = action.type === 'update'
+          ? realtimeHub.applyUpdate(projectId, action.clientId, action.fileId, action.update)
+          : realtimeHub.applyAwareness(projectId, action.clientId, action.fileId, action.update)
+        if (!applied) {
+          return NextResponse.json(
+            { error: 'File is not open' },
+            { status: 409 }
+          )
+        }
+        return NextResponse.json({ success: true })
+      }
+    }
+  } catch (error) {
+    console.error('❌ Failed to handle realtime message:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to handle realtime message',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { gitRepositoryService } from '@/lib/git-repository'
+import { parseArchiveUpload, projectImportService, type ExtractedArchive, type UploadedArchive } from '@/lib/project-import'
+
+// POST /api/projects/import (multipart/form-data with a "file" ZIP, optional "name" and "description")
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Step 1: Read and unpack the upload (problems here are the client's fault)
+    let upload: UploadedArchive | null
+    let archive: ExtractedArchive
+    try {
+      upload = await parseArchiveUpload(request)
+
+      if (!upload) {
+        return NextResponse.json(
+          { error: 'A ZIP file is required in the "file" field' },
+          { status: 400 }
+        )
+      }
+
+      archive = await projectImportService.extractArchive(upload.buffer)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid upload' },
+        { status: 400 }
+      )
+    }
+
+    if (archive.files.length === 0) {
+      return NextResponse.json(
+        { error: 'The archive does not contain any source files' },
+        { status: 400 }
+      )
+    }
+
+    // Step 2: Create the project and its files
+    const result = await projectImportService.importProject(userId, archive, {
+      name: upload.fields.name?.trim() || upload.originalName.replace(/\.zip$/i, ''),
+      description: upload.fields.description?.trim() || undefined,
+    })
+
+    await gitRepositoryService.safeCommitProjectState(result.project.id, `Import ${upload.originalName}`, {
+      author: 'USER',
+      userId,
+    })
+
+    console.log(`📦 Imported ${result.filesImported} files into project ${result.project.id} (${result.skipped.length} skipped)`)
+
+    return NextResponse.json({
+      success: true,
+      project: result.project,
+      filesImported: result.filesImported,
+      skipped: result.skipped,
+    })
+  } catch (error) {
+    console.error('❌ Failed to import project:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to import project',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
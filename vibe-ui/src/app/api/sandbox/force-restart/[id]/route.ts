@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { customSandboxService } from '@/lib/custom-sandbox'
 import { db } from '@/lib/db'
+import { toSandboxFiles } from '@/lib/project-assets'
 
 export async function POST(
   request: NextRequest,
@@ -29,18 +30,13 @@ export async function POST(
       orderBy: { path: 'asc' }
     })
 
-    const files = projectFiles.reduce((acc, file) => {
-      acc[file.path] = file.content;
-      return acc;
-    }, {} as Record<string, string>);
-
     // Create new sandbox
     const newSandboxInfo = await customSandboxService.createSandbox({
       id: `sandbox-${sandbox.projectId}-${Date.now()}`,
       projectId: sandbox.projectId,
       framework: sandbox.project?.framework || 'nextjs',
       port: 0, // Will be assigned by service
-      files,
+      ...toSandboxFiles(projectFiles),
       environment: {}
     })
 
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { getEditorTypeDefinitions } from '@/lib/editor-type-definitions'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/type-definitions returns the React, Next and Tailwind declarations
+// the editor loads for IntelliSense
+export async function GET() {
+  try {
+    const { userId } = await auth()
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const files = await getEditorTypeDefinitions()
+
+    return NextResponse.json({ files }, {
+      headers: {
+        // Only changes when the app's packages are upgraded
+        'Cache-Control': 'private, max-age=3600',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Failed to load type definitions:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load type definitions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -2,23 +2,43 @@ import { auth } from '@clerk/nextjs/server'
 import { redirect } from 'next/navigation'
 import { LovablePromptBar } from '@/components/LovablePromptBar'
 import { ProjectDashboard } from '@/components/project-dashboard'
+import { ImportProjectDialog } from '@/components/import-project-dialog'
+import { CreateProjectDialog } from '@/components/create-project-dialog'
+import { Button } from '@/components/ui/button'
 import { DeploymentDashboard } from '@/components/deployment-dashboard'
 import { CustomSandboxManager } from '@/components/custom-sandbox-manager'
+import { ProjectInvitations } from '@/components/project-invitations'
 import { UserButton } from '@clerk/nextjs'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Rocket, FolderOpen, Container } from 'lucide-react'
+import { Rocket, FolderOpen, Container, LayoutTemplate } from 'lucide-react'
 import { db } from '@/lib/db'
+import { getOrganizationRole, workspaceProjectsWhere } from '@/lib/project-access'
+import { WorkspaceSwitcher } from '@/components/workspace-switcher'
 
-export default async function DashboardPage() {
+interface DashboardPageProps {
+  searchParams: Promise<{
+    workspace?: string
+  }>
+}
+
+export default async function DashboardPage({ searchParams }: DashboardPageProps) {
   const { userId } = await auth()
 
   if (!userId) {
     redirect('/sign-in')
   }
 
+  // Selected team workspace, or the personal one
+  const { workspace } = await searchParams
+  const organizationId = workspace ?? null
+
+  if (organizationId && !(await getOrganizationRole(organizationId, userId))) {
+    redirect('/dashboard')
+  }
+
   // Fetch projects for the sandbox manager
   const projects = await db.project.findMany({
-    where: { userId },
+    where: workspaceProjectsWhere(userId, organizationId),
     select: {
       id: true,
       name: true,
@@ -38,6 +58,7 @@ export default async function DashboardPage() {
               <span className="ml-2 text-sm text-gray-500">Build with AI</span>
             </div>
             <div className="flex items-center space-x-4">
+              <WorkspaceSwitcher organizationId={organizationId} />
               <UserButton 
                 afterSignOutUrl="/"
                 appearance={{
@@ -66,9 +87,12 @@ export default async function DashboardPage() {
 
           {/* Prompt Bar */}
           <div className="flex justify-center">
-            <LovablePromptBar />
+            <LovablePromptBar organizationId={organizationId} />
           </div>
 
+          {/* Invitations from other project owners */}
+          <ProjectInvitations />
+
           {/* Dashboard Tabs */}
           <div className="mt-12">
             <Tabs defaultValue="projects" className="w-full">
@@ -88,7 +112,16 @@ export default async function DashboardPage() {
               </TabsList>
 
               <TabsContent value="projects" className="mt-6">
-                <ProjectDashboard />
+                <div className="flex justify-end gap-2 px-6">
+                  <CreateProjectDialog organizationId={organizationId}>
+                    <Button variant="outline" size="sm">
+                      <LayoutTemplate className="h-4 w-4 mr-2" />
+                      From template
+                    </Button>
+                  </CreateProjectDialog>
+                  <ImportProjectDialog />
+                </div>
+                <ProjectDashboard organizationId={organizationId} />
               </TabsContent>
 
               <TabsContent value="sandboxes" className="mt-6">
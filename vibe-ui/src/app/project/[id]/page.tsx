@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button'
 import { ProjectPreview } from '@/components/project-preview'
 import { UserButton } from '@clerk/nextjs'
 import { db } from '@/lib/db'
+import { projectAccessWhere } from '@/lib/project-access'
 
 interface ProjectPageProps {
   params: Promise<{
@@ -28,7 +29,7 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
   const project = await db.project.findFirst({
     where: {
       id: id,
-      userId: userId, // Ensure user can only access their own projects
+      ...projectAccessWhere(userId), // Owners and collaborators only
     },
     include: {
       files: {
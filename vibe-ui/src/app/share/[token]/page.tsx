@@ -0,0 +1,98 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { Eye, UserIcon } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ProjectPreview } from '@/components/project-preview'
+import { db } from '@/lib/db'
+import { ASSET_CONTENT_OMIT } from '@/lib/project-assets'
+import { projectShareLinkService } from '@/lib/project-share-links'
+
+interface SharePageProps {
+  params: Promise<{
+    token: string
+  }>
+}
+
+export const dynamic = 'force-dynamic'
+
+// Read-only view of a private project for anyone holding a share link
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params
+
+  const link = await projectShareLinkService.verifyToken(token)
+
+  if (!link) {
+    notFound()
+  }
+
+  const project = await db.project.findUnique({
+    where: {
+      id: link.projectId,
+    },
+    include: {
+      files: {
+        orderBy: {
+          path: 'asc',
+        },
+        omit: ASSET_CONTENT_OMIT,
+      },
+      sandboxes: {
+        orderBy: {
+          createdAt: 'desc',
+        },
+      },
+      user: {
+        select: {
+          id: true,
+          username: true,
+          name: true,
+        },
+      },
+    },
+  })
+
+  if (!project) {
+    notFound()
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center space-x-4">
+              <span className="text-xl font-bold text-gray-900">Jo Vibes</span>
+              <div className="h-6 w-px bg-gray-300" />
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <Eye className="h-3 w-3" />
+                Read-only shared view
+              </Badge>
+              {link.expiresAt && (
+                <span className="text-sm text-gray-500">
+                  Link expires {formatDistanceToNow(link.expiresAt, { addSuffix: true })}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <UserIcon className="h-4 w-4" />
+                <span>{project.user.name || project.user.username}</span>
+              </div>
+              <Link href="/sign-up">
+                <Button size="sm">Build your own</Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Project Content */}
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <ProjectPreview project={project} shareToken={token} />
+      </main>
+    </div>
+  )
+}
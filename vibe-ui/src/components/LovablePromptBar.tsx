@@ -6,7 +6,11 @@ import { useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { AIProcessingIndicator } from '@/components/ui/loading-states'
 
-export function LovablePromptBar() {
+interface LovablePromptBarProps {
+  organizationId?: string | null // Create projects in this team workspace
+}
+
+export function LovablePromptBar({ organizationId }: LovablePromptBarProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [prompt, setPrompt] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -102,6 +106,7 @@ export function LovablePromptBar() {
     createProject.mutate({
       prompt: prompt.trim(),
       createSandbox: true,
+      organizationId: organizationId ?? undefined,
     });
   };
 
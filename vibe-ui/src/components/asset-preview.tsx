@@ -0,0 +1,64 @@
+"use client"
+
+import { Download, FileImage, FileType } from 'lucide-react'
+import { Button } from './ui/button'
+
+interface AssetPreviewProps {
+  projectId: string
+  fileId: string
+  path: string
+  mimeType?: string | null
+  size?: number | null
+  updatedAt?: Date | string
+  shareToken?: string // Read-only share link, used instead of the viewer's session
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+export function AssetPreview({ projectId, fileId, path, mimeType, size, updatedAt, shareToken }: AssetPreviewProps) {
+  // Bust the browser cache when the asset is replaced
+  const version = updatedAt ? new Date(updatedAt).getTime() : 0
+  const share = shareToken ? `&share=${encodeURIComponent(shareToken)}` : ''
+  const src = `/api/projects/${projectId}/assets/${fileId}?v=${version}${share}`
+  const isImage = mimeType?.startsWith('image/')
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-4 p-6 bg-gray-50">
+      {isImage ? (
+        <div
+          className="max-w-full max-h-[70%] flex items-center justify-center p-4 rounded border border-gray-200"
+          // Checkerboard so transparent pixels are visible
+          style={{
+            backgroundImage: 'repeating-conic-gradient(#f3f4f6 0% 25%, #ffffff 0% 50%)',
+            backgroundSize: '16px 16px',
+          }}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={src} alt={path} className="max-w-full max-h-[60vh] object-contain" />
+        </div>
+      ) : mimeType?.startsWith('font/') ? (
+        <FileType className="h-16 w-16 text-gray-400" />
+      ) : (
+        <FileImage className="h-16 w-16 text-gray-400" />
+      )}
+
+      <div className="text-center">
+        <p className="text-sm font-medium text-gray-700">{path}</p>
+        <p className="text-xs text-gray-500">
+          {mimeType || 'Binary file'}{size != null && ` · ${formatBytes(size)}`}
+        </p>
+      </div>
+
+      <Button variant="outline" size="sm" asChild>
+        <a href={`${src}&download=1`}>
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </a>
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+"use client"
+
+import { useMemo, useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { Check, X, FileCode, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useQueryClient } from '@tanstack/react-query'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { applyLineChanges } from '@/lib/text-diff'
+import { getModelLanguage } from '@/lib/monaco-project'
+import type { ProposedFileChange } from '@/lib/chat-changes'
+
+interface ChatProposedChangesProps {
+  messageId: string
+  changes: ProposedFileChange[]
+  readOnly?: boolean // shared transcripts and viewers only see the diffs
+  onResolved: (change: ProposedFileChange) => void
+}
+
+// File edits an assistant message proposed, reviewed file by file and hunk by hunk
+export function ChatProposedChanges({ messageId, changes, readOnly, onResolved }: ChatProposedChangesProps) {
+  return (
+    <div className="mt-2 space-y-3">
+      {changes.map(change => (
+        <ProposedChangeCard
+          key={change.id}
+          messageId={messageId}
+          change={change}
+          readOnly={readOnly}
+          onResolved={onResolved}
+        />
+      ))}
+    </div>
+  )
+}
+
+function ProposedChangeCard({
+  messageId,
+  change,
+  readOnly,
+  onResolved,
+}: {
+  messageId: string
+  change: ProposedFileChange
+  readOnly?: boolean
+  onResolved: (change: ProposedFileChange) => void
+}) {
+  const isPending = change.status === 'pending'
+  // Hunks start out accepted; the user rejects the ones they don't want
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(change.hunks.map((_, index) => index)))
+
+  const queryClient = useQueryClient()
+  const resolveChange = api.chat.resolveProposedChange.useMutation({
+    onSuccess: (resolved) => {
+      onResolved(resolved)
+      if (resolved.status === 'applied') {
+        toast.success(`Applied changes to ${resolved.path}`)
+        queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+      } else {
+        toast.success(`Rejected changes to ${resolved.path}`)
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to apply changes: ${error.message}`)
+    },
+  })
+
+  // What the file will look like with the current selection, or what was applied
+  const modified = useMemo(() => {
+    const selected = isPending
+      ? change.hunks.filter((_, index) => accepted.has(index))
+      : change.hunks.filter(hunk => hunk.status === 'accepted')
+    if (selected.length === change.hunks.length) return change.proposedContent
+    return applyLineChanges(change.originalContent, selected)
+  }, [change, accepted, isPending])
+
+  const additions = change.hunks.reduce((sum, hunk) => sum + hunk.newLines.length, 0)
+  const deletions = change.hunks.reduce((sum, hunk) => sum + hunk.oldLines.length, 0)
+
+  const toggleHunk = (index: number) => {
+    setAccepted(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  const resolve = (acceptedHunks: number[]) => {
+    resolveChange.mutate({ messageId, changeId: change.id, acceptedHunks })
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white text-gray-900 overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-200">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileCode className="h-4 w-4 shrink-0 text-gray-500" />
+          <span className="font-mono text-xs truncate">{change.path}</span>
+          {!change.fileId && <Badge variant="outline">new</Badge>}
+          <span className="text-xs text-green-600">+{additions}</span>
+          <span className="text-xs text-red-600">-{deletions}</span>
+        </div>
+        {isPending ? (
+          !readOnly && (
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => resolve([])}
+                disabled={resolveChange.isPending}
+              >
+                <X className="h-3 w-3 mr-1" />
+                Reject
+              </Button>
+              <Button
+                size="sm"
+                className="h-7"
+                onClick={() => resolve([...accepted])}
+                disabled={resolveChange.isPending || accepted.size === 0}
+              >
+                {resolveChange.isPending ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <Check className="h-3 w-3 mr-1" />
+                )}
+                {accepted.size === change.hunks.length ? 'Accept' : `Accept ${accepted.size} of ${change.hunks.length}`}
+              </Button>
+            </div>
+          )
+        ) : (
+          <Badge variant={change.status === 'applied' ? 'default' : 'secondary'}>
+            {change.status === 'applied' ? 'Applied' : 'Rejected'}
+          </Badge>
+        )}
+      </div>
+
+      <DiffEditor
+        height="240px"
+        language={getModelLanguage(change.path)}
+        original={change.originalContent}
+        modified={modified}
+        theme="vs-dark"
+        options={{
+          readOnly: true,
+          renderSideBySide: false,
+          minimap: { enabled: false },
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+        }}
+      />
+
+      {change.hunks.length > 1 && (
+        <div className="divide-y divide-gray-100">
+          {change.hunks.map((hunk, index) => {
+            const isAccepted = isPending ? accepted.has(index) : hunk.status === 'accepted'
+            return (
+              <div key={index} className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs">
+                <span className="font-mono text-gray-600 truncate">
+                  {hunk.oldLines.length > 0
+                    ? `Lines ${hunk.oldStart + 1}-${hunk.oldStart + hunk.oldLines.length}`
+                    : `After line ${hunk.oldStart}`}
+                  <span className="ml-2 text-green-600">+{hunk.newLines.length}</span>
+                  <span className="ml-1 text-red-600">-{hunk.oldLines.length}</span>
+                </span>
+                {isPending && !readOnly ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2"
+                    onClick={() => toggleHunk(index)}
+                    disabled={resolveChange.isPending}
+                  >
+                    {isAccepted ? (
+                      <>
+                        <Check className="h-3 w-3 mr-1 text-green-600" />
+                        Keep
+                      </>
+                    ) : (
+                      <>
+                        <X className="h-3 w-3 mr-1 text-red-600" />
+                        Skip
+                      </>
+                    )}
+                  </Button>
+                ) : (
+                  !isPending && (
+                    <span className={isAccepted ? 'text-green-600' : 'text-gray-400'}>
+                      {isAccepted ? 'Accepted' : 'Rejected'}
+                    </span>
+                  )
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
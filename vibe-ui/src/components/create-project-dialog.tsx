@@ -19,12 +19,14 @@ import {
   Code, 
   Palette, 
   Database,
-  Sparkles
+  Sparkles,
+  LayoutTemplate
 } from 'lucide-react'
 import { toast } from 'sonner'
 
 interface CreateProjectDialogProps {
   children: React.ReactNode
+  organizationId?: string | null
 }
 
 const frameworks = [
@@ -71,7 +73,7 @@ const templates = [
   },
 ]
 
-export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
+export function CreateProjectDialog({ children, organizationId }: CreateProjectDialogProps) {
   const [open, setOpen] = useState(false)
   const [step, setStep] = useState(1)
   const [formData, setFormData] = useState({
@@ -80,6 +82,7 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
     framework: '',
     styling: '',
     template: 'blank',
+    templateId: null as string | null, // saved template, takes precedence over template
     initialPrompt: '',
     screenshots: [] as string[]
   })
@@ -88,6 +91,10 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
 
   const queryClient = useQueryClient()
 
+  const { data: savedTemplates, isLoading: savedTemplatesLoading } = api.template.listTemplates.useQuery(undefined, {
+    enabled: open,
+  })
+
   const createProject = api.project.createProject.useMutation({
     onSuccess: (project: any) => {
       toast.success('Project created successfully!')
@@ -102,6 +109,25 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
     }
   })
 
+  const createFromTemplate = api.project.createProjectFromTemplate.useMutation({
+    onSuccess: (project) => {
+      if (project.customizationError) {
+        toast.warning(`Project created, but AI customization failed: ${project.customizationError}`)
+      } else {
+        toast.success('Project created successfully!')
+      }
+      queryClient.invalidateQueries({ queryKey: ['project.getUserProjects'] })
+      setOpen(false)
+      resetForm()
+      window.location.href = `/project/${project.id}`
+    },
+    onError: (error) => {
+      toast.error(`Failed to create project: ${error.message}`)
+    }
+  })
+
+  const isCreating = createProject.isPending || createFromTemplate.isPending
+
   const resetForm = () => {
     setStep(1)
     setFormData({
@@ -110,6 +136,7 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
       framework: '',
       styling: '',
       template: 'blank',
+      templateId: null,
       initialPrompt: '',
       screenshots: []
     })
@@ -153,6 +180,19 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
       return
     }
 
+    if (formData.templateId) {
+      // Instructions drive an AI customization pass over the copied files
+      const prompt = formData.initialPrompt.trim()
+      createFromTemplate.mutate({
+        templateId: formData.templateId,
+        name: formData.name,
+        description: formData.description || undefined,
+        organizationId: organizationId ?? undefined,
+        customizationPrompt: prompt.length >= 10 ? prompt : undefined,
+      })
+      return
+    }
+
     createProject.mutate({
       name: formData.name,
       description: formData.description || undefined,
@@ -160,11 +200,14 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
       styling: formData.styling || undefined,
       template: formData.template,
       initialPrompt: formData.initialPrompt || undefined,
-      screenshots: formData.screenshots
+      screenshots: formData.screenshots,
+      organizationId: organizationId ?? undefined,
     })
   }
 
-  const selectedTemplate = templates.find(t => t.id === formData.template)
+  const selectedTemplate = formData.templateId
+    ? savedTemplates?.find(t => t.id === formData.templateId)
+    : templates.find(t => t.id === formData.template)
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -273,11 +316,11 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
                     <Card
                       key={template.id}
                       className={`cursor-pointer transition-all ${
-                        formData.template === template.id
+                        !formData.templateId && formData.template === template.id
                           ? 'ring-2 ring-purple-500 bg-purple-50'
                           : 'hover:bg-gray-50'
                       }`}
-                      onClick={() => setFormData(prev => ({ ...prev, template: template.id }))}
+                      onClick={() => setFormData(prev => ({ ...prev, template: template.id, templateId: null }))}
                     >
                       <CardHeader className="pb-2">
                         <CardTitle className="flex items-center gap-2 text-base">
@@ -295,6 +338,67 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
                 })}
               </div>
 
+              {/* Templates saved from existing projects */}
+              <div>
+                <h4 className="font-medium text-sm text-gray-700 mb-2">Saved templates</h4>
+                {savedTemplatesLoading ? (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                  </div>
+                ) : !savedTemplates?.length ? (
+                  <p className="text-sm text-gray-500">
+                    No saved templates yet. Use &quot;Save as template&quot; on any project to add one.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {savedTemplates.map((template) => (
+                      <Card
+                        key={template.id}
+                        className={`cursor-pointer overflow-hidden transition-all ${
+                          formData.templateId === template.id
+                            ? 'ring-2 ring-purple-500 bg-purple-50'
+                            : 'hover:bg-gray-50'
+                        }`}
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          templateId: template.id,
+                          framework: template.framework || prev.framework,
+                          styling: template.styling || prev.styling,
+                        }))}
+                      >
+                        {template.previewImage ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={template.previewImage}
+                            alt={template.name}
+                            className="w-full h-24 object-cover border-b"
+                          />
+                        ) : (
+                          <div className="w-full h-24 flex items-center justify-center bg-gray-100 border-b">
+                            <LayoutTemplate className="h-8 w-8 text-gray-400" />
+                          </div>
+                        )}
+                        <CardHeader className="p-3 pb-1">
+                          <CardTitle className="text-sm truncate">{template.name}</CardTitle>
+                        </CardHeader>
+                        <CardContent className="p-3 pt-0 space-y-1">
+                          {template.description && (
+                            <CardDescription className="text-xs line-clamp-2">
+                              {template.description}
+                            </CardDescription>
+                          )}
+                          <div className="flex items-center gap-1 text-xs text-gray-500">
+                            <span>{template._count.files} files</span>
+                            {template.organization && <Badge variant="outline" className="text-xs">{template.organization.name}</Badge>}
+                            {template.isPublic && <Badge variant="secondary" className="text-xs">Public</Badge>}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <div className="flex justify-between">
                 <Button variant="outline" onClick={() => setStep(1)}>
                   Back
@@ -312,7 +416,9 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
               <div>
                 <h3 className="text-lg font-semibold mb-2">AI Instructions</h3>
                 <p className="text-sm text-gray-600 mb-4">
-                  Provide additional details or upload screenshots to help AI understand your vision.
+                  {formData.templateId
+                    ? 'Describe how the AI should adapt the template. Leave empty to copy it as is.'
+                    : 'Provide additional details or upload screenshots to help AI understand your vision.'}
                 </p>
               </div>
 
@@ -387,10 +493,10 @@ export function CreateProjectDialog({ children }: CreateProjectDialogProps) {
                 </Button>
                 <Button
                   onClick={handleSubmit}
-                  disabled={createProject.isPending}
+                  disabled={isCreating}
                   className="bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
                 >
-                  {createProject.isPending ? (
+                  {isCreating ? (
                     <>
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                       Creating...
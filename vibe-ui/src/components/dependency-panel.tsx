@@ -0,0 +1,258 @@
+"use client"
+
+import { useRef, useState } from 'react'
+import { Package, Plus, Trash2, ArrowUpCircle, AlertTriangle, Download, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useQueryClient } from '@tanstack/react-query'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+type DependencyType = 'dependencies' | 'devDependencies'
+
+interface DependencyPanelProps {
+  projectId: string
+  sandboxId?: string // Running sandbox to install into
+}
+
+// Edit package.json dependencies and install them in the live sandbox
+export function DependencyPanel({ projectId, sandboxId }: DependencyPanelProps) {
+  const [name, setName] = useState('')
+  const [version, setVersion] = useState('')
+  const [type, setType] = useState<DependencyType>('dependencies')
+  const [installLog, setInstallLog] = useState('')
+  const [isInstalling, setIsInstalling] = useState(false)
+  const logRef = useRef<HTMLPreElement>(null)
+
+  const queryClient = useQueryClient()
+  const { data, isLoading, error, refetch } = api.dependency.getDependencies.useQuery({ projectId })
+
+  const updateDependencies = api.dependency.updateDependencies.useMutation({
+    onSuccess: (result) => {
+      // Only reported for the edit that removed them; the next fetch won't have them
+      result.conflicts
+        .filter(conflict => conflict.reason === 'removed-required')
+        .forEach(conflict => toast.warning(conflict.message))
+      refetch()
+      // package.json changed underneath the file editor
+      queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+    },
+    onError: (error) => {
+      toast.error(`Failed to update package.json: ${error.message}`)
+      refetch()
+    },
+  })
+
+  // Edits apply to the package.json version the panel is showing
+  const changeDependencies = (
+    changes: Parameters<typeof updateDependencies.mutate>[0]['changes'],
+    options?: Parameters<typeof updateDependencies.mutate>[1]
+  ) => {
+    if (data?.version == null) return
+    updateDependencies.mutate({ projectId, changes, expectedVersion: data.version }, options)
+  }
+
+  const addDependency = () => {
+    changeDependencies([{ action: 'add', name: name.trim(), version: version.trim() || undefined, type }], {
+      onSuccess: () => {
+        toast.success(`Added ${name.trim()}`)
+        setName('')
+        setVersion('')
+      },
+    })
+  }
+
+  const installInSandbox = async () => {
+    if (!sandboxId) return
+
+    setIsInstalling(true)
+    setInstallLog('')
+    const append = (text: string) => {
+      setInstallLog(prev => prev + text)
+      requestAnimationFrame(() => logRef.current?.scrollTo({ top: logRef.current.scrollHeight }))
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/dependencies/install`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sandboxId }),
+      })
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || `Install failed (${response.status})`)
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const events = buffer.split('\n\n')
+        buffer = events.pop() ?? ''
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue
+          const message = JSON.parse(event.slice(6))
+          if (message.type === 'output') {
+            append(message.chunk)
+          } else if (message.type === 'done') {
+            if (message.exitCode === 0) {
+              toast.success('Packages installed')
+            } else {
+              toast.error(`npm install exited with code ${message.exitCode}`)
+            }
+          } else if (message.type === 'error') {
+            append(`\n${message.message}\n`)
+            toast.error(`Install failed: ${message.message}`)
+          }
+        }
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Install failed')
+    } finally {
+      setIsInstalling(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          Packages
+        </CardTitle>
+        <CardDescription>
+          Changes are saved to package.json. Install them to use new packages in the running preview.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2">
+          <Input
+            placeholder="package name"
+            className="font-mono"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            placeholder="version (latest)"
+            className="font-mono w-40"
+            value={version}
+            onChange={(e) => setVersion(e.target.value)}
+          />
+          <Select value={type} onValueChange={(next) => setType(next as DependencyType)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="dependencies">dependencies</SelectItem>
+              <SelectItem value="devDependencies">devDependencies</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={addDependency}
+            disabled={!name.trim() || !data?.fileId || updateDependencies.isPending}
+          >
+            {updateDependencies.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-1" />
+            )}
+            Add
+          </Button>
+        </div>
+
+        {data?.conflicts.length ? (
+          <div className="space-y-1 rounded border border-yellow-200 bg-yellow-50 p-3">
+            {data.conflicts.map((conflict) => (
+              <div key={conflict.name} className="flex items-start gap-2 text-sm text-yellow-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                {conflict.message}
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error.message}</p>
+        ) : !data?.fileId ? (
+          <p className="text-sm text-gray-500">This project has no package.json.</p>
+        ) : (
+          <div className="space-y-1">
+            {data.dependencies.map((dependency) => (
+              <div key={`${dependency.type}:${dependency.name}`} className="flex items-center justify-between text-sm p-2 rounded border border-gray-200">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-mono font-medium text-gray-700 truncate">{dependency.name}</span>
+                  <span className="font-mono text-xs text-gray-500">{dependency.version}</span>
+                  {dependency.type === 'devDependencies' && <Badge variant="outline">dev</Badge>}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => changeDependencies([{ action: 'add', name: dependency.name, type: dependency.type }])}
+                    disabled={updateDependencies.isPending}
+                    title="Upgrade to latest"
+                  >
+                    <ArrowUpCircle className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => changeDependencies([{ action: 'remove', name: dependency.name }])}
+                    disabled={updateDependencies.isPending}
+                    title="Remove package"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {sandboxId ? 'Runs npm install in the running sandbox.' : 'Start the sandbox to install packages.'}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={installInSandbox}
+              disabled={!sandboxId || isInstalling || !data?.fileId}
+            >
+              {isInstalling ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-1" />
+              )}
+              Install in sandbox
+            </Button>
+          </div>
+          {(isInstalling || installLog) && (
+            <pre
+              ref={logRef}
+              className="bg-black text-green-400 p-4 rounded-lg font-mono text-xs h-[300px] overflow-y-auto whitespace-pre-wrap"
+            >
+              {installLog || 'Starting npm install...'}
+            </pre>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,6 +18,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
@@ -36,6 +37,7 @@ export function DeploymentPanel({ projectId }: DeploymentPanelProps) {
   const [isDeploying, setIsDeploying] = useState(false)
   const [customDomain, setCustomDomain] = useState('')
   const [showCustomDomain, setShowCustomDomain] = useState(false)
+  const [target, setTarget] = useState<'PREVIEW' | 'PRODUCTION'>('PRODUCTION') // picks the env var scope
 
   // Check if deployment is available
   const { data: deploymentAvailability } = api.deployment.isDeploymentAvailable.useQuery()
@@ -94,6 +96,7 @@ export function DeploymentPanel({ projectId }: DeploymentPanelProps) {
     deployProject.mutate({
       projectId,
       customDomain: customDomain || undefined,
+      target,
     })
   }
 
@@ -223,6 +226,15 @@ export function DeploymentPanel({ projectId }: DeploymentPanelProps) {
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center space-x-2">
+            <Select value={target} onValueChange={(value) => setTarget(value as 'PREVIEW' | 'PRODUCTION')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="PRODUCTION">Production</SelectItem>
+                <SelectItem value="PREVIEW">Preview</SelectItem>
+              </SelectContent>
+            </Select>
             <Button
               onClick={handleDeploy}
               disabled={isDeploying || deployProject.isPending}
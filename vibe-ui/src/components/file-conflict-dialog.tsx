@@ -0,0 +1,105 @@
+"use client"
+
+import { useRef } from 'react'
+import { DiffEditor, type DiffOnMount, type MonacoDiffEditor } from '@monaco-editor/react'
+import { formatDistanceToNow } from 'date-fns'
+import { AlertTriangle, GitMerge, Save, Undo2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog'
+
+export interface FileConflict {
+  id: string
+  path: string
+  content: string // latest saved content
+  version: number
+  updatedAt: Date | string
+}
+
+interface FileConflictDialogProps {
+  conflict: FileConflict | null
+  localContent: string
+  language: string
+  isSaving: boolean
+  onOverwrite: (content: string) => void // save over the latest version
+  onDiscard: () => void // drop local edits and load the latest version
+  onCancel: () => void
+}
+
+export function FileConflictDialog({
+  conflict,
+  localContent,
+  language,
+  isSaving,
+  onOverwrite,
+  onDiscard,
+  onCancel
+}: FileConflictDialogProps) {
+  const diffEditorRef = useRef<MonacoDiffEditor | null>(null)
+
+  const handleMount: DiffOnMount = (editor) => {
+    diffEditorRef.current = editor
+  }
+
+  // The right-hand side starts as the local edits and can be edited into a merge
+  const getMergedContent = () => diffEditorRef.current?.getModifiedEditor().getValue() ?? localContent
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            {conflict?.path} changed while you were editing
+          </DialogTitle>
+          <DialogDescription>
+            {conflict && (
+              <>
+                Someone else saved version {conflict.version}{' '}
+                {formatDistanceToNow(new Date(conflict.updatedAt), { addSuffix: true })}.
+              </>
+            )}{' '}
+            The left side shows the saved file, the right side your changes. Edit the right side to merge both, then save.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && (
+          <div className="h-[60vh] border border-gray-200 rounded overflow-hidden">
+            <DiffEditor
+              height="100%"
+              language={language}
+              original={conflict.content}
+              modified={localContent}
+              onMount={handleMount}
+              theme="vs-dark"
+              options={{
+                renderSideBySide: true,
+                originalEditable: false,
+                readOnly: false,
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+              }}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={onDiscard} disabled={isSaving}>
+            <Undo2 className="h-4 w-4 mr-1" />
+            Discard my changes
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOverwrite(localContent)} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-1" />
+              Overwrite with mine
+            </Button>
+            <Button onClick={() => onOverwrite(getMergedContent())} disabled={isSaving}>
+              <GitMerge className="h-4 w-4 mr-1" />
+              Save merged
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
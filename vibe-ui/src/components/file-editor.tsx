@@ -1,7 +1,7 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from 'react'
-import { Editor } from '@monaco-editor/react'
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react'
+import { Editor, type OnMount } from '@monaco-editor/react'
 import { 
   FileText, 
   FolderOpen, 
@@ -14,13 +14,37 @@ import {
   ChevronDown,
   RefreshCw,
   Loader2,
-  Sparkles
+  Sparkles,
+  History,
+  Search,
+  Upload,
+  FileImage,
+  Radio,
+  AlertCircle,
+  Wand2
 } from 'lucide-react'
 import { api } from '@/trpc/client'
 import { useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
+import { FileHistoryPanel } from './file-history-panel'
+import { ProjectSearchPanel } from './project-search-panel'
+import { AssetPreview } from './asset-preview'
+import { FileConflictDialog, type FileConflict } from './file-conflict-dialog'
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar'
+import { useProjectRealtime } from '@/hooks/use-project-realtime'
+import { COLLABORATOR_COLORS, getCollaboratorColorIndex, replaceYText, type FileEvent, type PresenceClient } from '@/lib/realtime-client'
+import { MonacoYjsBinding } from '@/lib/monaco-yjs-binding'
+import {
+  BROWSER_IGNORED_DIAGNOSTIC_CODES,
+  configureTypeScript,
+  disposeProjectModels,
+  loadTypeDefinitions,
+  projectFileUri,
+  setBrowserTypeChecking,
+  syncProjectModels,
+} from '@/lib/monaco-project'
 import { 
   Dialog, 
   DialogContent, 
@@ -48,14 +72,20 @@ interface FileTreeItem {
   children?: FileTreeItem[]
   content?: string
   language?: string
+  isBinary?: boolean
+  mimeType?: string | null
+  size?: number | null
+  updatedAt?: Date | string
+  version?: number
 }
 
 interface FileEditorProps {
   projectId: string
   height?: string
+  shareToken?: string // View through a read-only share link instead of an account
 }
 
-export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
+export function FileEditor({ projectId, height = "600px", shareToken }: FileEditorProps) {
   const [selectedFile, setSelectedFile] = useState<FileTreeItem | null>(null)
   const [fileContent, setFileContent] = useState('')
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
@@ -63,32 +93,155 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
   const [fileTree, setFileTree] = useState<FileTreeItem[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [autoSaveEnabled, setAutoSaveEnabled] = useState(true)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showSearch, setShowSearch] = useState(false)
+  const [conflict, setConflict] = useState<FileConflict | null>(null)
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null)
+  const [mountedEditor, setMountedEditor] = useState<Parameters<OnMount>[0] | null>(null)
+  const [monacoInstance, setMonacoInstance] = useState<Parameters<OnMount>[1] | null>(null)
+  // React/Next declarations are registered and the browser checks types itself
+  const [isTypeScriptReady, setIsTypeScriptReady] = useState(false)
+  // File currently shared with other editors over the realtime channel; saving happens server-side
+  const [liveFileId, setLiveFileId] = useState<string | null>(null)
+  const liveFileIdRef = useRef<string | null>(null)
+  const [realtimeSessionKey, setRealtimeSessionKey] = useState(0)
+  const hasUnsavedChangesRef = useRef(hasUnsavedChanges)
+  hasUnsavedChangesRef.current = hasUnsavedChanges
+  // Search match to highlight once the selected file is loaded in the editor
+  const pendingRevealRef = useRef<{ line: number; column: number; length: number } | null>(null)
   
   const queryClient = useQueryClient()
 
   // Get project files
-  const { data: files, isLoading: filesLoading, refetch } = api.project.getProjectFiles.useQuery({
+  const projectFilesQuery = api.project.getProjectFiles.useQuery({
     projectId,
   }, {
     staleTime: 0, // Always fetch fresh data
     refetchOnWindowFocus: true,
     refetchOnMount: true,
+    enabled: !shareToken,
   })
+  const sharedFilesQuery = api.share.getSharedProjectFiles.useQuery({
+    token: shareToken ?? '',
+  }, {
+    enabled: !!shareToken,
+  })
+  const { data: files, isLoading: filesLoading, refetch } = shareToken ? sharedFilesQuery : projectFilesQuery
 
   // Get project with sandboxes
-  const { data: project } = api.project.getProject.useQuery({
+  const { data: project, refetch: refetchProject } = api.project.getProject.useQuery({
     id: projectId,
+  }, {
+    enabled: !shareToken,
+  })
+
+  // Keep the tree in step with changes made by collaborators, AI runs and other tabs
+  const handleRealtimeFileEvent = (event: FileEvent) => {
+    queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+    refetch()
+
+    if (event.type === 'file-deleted' && selectedFile?.id === event.fileId) {
+      toast.info(`${event.path} was deleted`)
+      setSelectedFile(null)
+      setFileContent('')
+      setHasUnsavedChanges(false)
+    } else if (event.type === 'file-renamed' && selectedFile?.id === event.fileId) {
+      setSelectedFile({ ...selectedFile, name: event.path.split('/').pop() || event.path, path: event.path })
+    }
+  }
+
+  const { connection: realtime, isConnected: isRealtimeConnected, clients: realtimeClients } = useProjectRealtime(projectId, {
+    enabled: !shareToken,
+    onFileEvent: handleRealtimeFileEvent,
+    // Sessions don't survive a dropped stream, so join the open file again
+    onReconnect: () => setRealtimeSessionKey(key => key + 1),
+  })
+  const isLiveFile = !!selectedFile && liveFileId === selectedFile.id
+  // Viewers and share links can browse but not change anything
+  const isReadOnly = !!shareToken || project?.role === 'VIEWER'
+
+  // Type errors across the saved project, checked on the server
+  const { data: diagnosticsResult, refetch: refetchDiagnostics } = api.diagnostics.getDiagnostics.useQuery({
+    projectId,
+  }, {
+    enabled: !shareToken,
+    refetchOnWindowFocus: false,
+  })
+  // ESLint problems, shown next to the type errors
+  const { data: lintResult, refetch: refetchLint } = api.project.lintProject.useQuery({
+    projectId,
+  }, {
+    enabled: !shareToken,
+    refetchOnWindowFocus: false,
+  })
+  const selectedFilePath = selectedFile?.path
+  const selectedFileDiagnostics = useMemo(
+    () => diagnosticsResult?.diagnostics.filter(d => d.path === selectedFilePath) ?? [],
+    [diagnosticsResult, selectedFilePath]
+  )
+  const selectedFileLintProblems = useMemo(
+    () => lintResult?.problems.filter(p => p.path === selectedFilePath) ?? [],
+    [lintResult, selectedFilePath]
+  )
+  const selectedFileProblems = [
+    ...selectedFileDiagnostics.map(d => ({ line: d.line, column: d.column, message: d.message })),
+    ...selectedFileLintProblems.map(p => ({ line: p.line, column: p.column, message: `${p.message}${p.ruleId ? ` (${p.ruleId})` : ''}` })),
+  ].sort((a, b) => a.line - b.line || a.column - b.column)
+
+  const updateProjectSettings = api.project.updateProject.useMutation({
+    onSuccess: () => {
+      refetchProject()
+    },
+    onError: (error) => {
+      toast.error(`Failed to update setting: ${error.message}`)
+    },
+  })
+
+  const formatFiles = api.project.formatFiles.useMutation({
+    onSuccess: (result) => {
+      if (result.files.length === 0 && result.skipped.length === 0) {
+        toast.info('Already formatted')
+      } else if (result.skipped.length > 0) {
+        toast.warning(`${result.skipped.join(', ')} changed while formatting, try again`)
+      } else {
+        toast.success('File formatted')
+      }
+      queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to format: ${error.message}`)
+    },
   })
 
   // File operations
   const updateFile = api.project.updateProjectFile.useMutation({
-    onSuccess: () => {
+    onSuccess: (file, variables) => {
+      setConflict(null)
+      // Format on save changed the file; take it unless the user kept typing
+      if (file.content !== variables.content && editorRef.current?.getValue() === variables.content) {
+        setFileContent(file.content)
+      }
+      setSelectedFile(prev => prev?.id === file.id ? { ...prev, content: file.content, version: file.version } : prev)
       setHasUnsavedChanges(false)
       queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
       toast.success('File saved successfully')
+
+      // Push the saved content to the live preview
+      syncFileToSandbox.mutate({
+        projectId,
+        fileId: file.id,
+        content: file.content,
+        expectedVersion: file.version,
+      })
     },
     onError: (error) => {
+      // Someone else saved the file since it was opened: let the user merge or overwrite
+      if (error.data?.conflict) {
+        setConflict(error.data.conflict)
+        return
+      }
       toast.error(`Failed to save file: ${error.message}`)
     },
   })
@@ -131,11 +284,19 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
   })
 
   const renameFile = api.project.renameProjectFile.useMutation({
-    onSuccess: () => {
+    onSuccess: (file) => {
+      setSelectedFile(prev => prev?.id === file.id
+        ? { ...prev, name: file.filename, path: file.path, version: file.version }
+        : prev)
       queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
       toast.success('File renamed successfully')
     },
     onError: (error) => {
+      if (error.data?.conflict) {
+        toast.error(`${error.data.conflict.path} was changed by someone else. Reload and try again.`)
+        refetch()
+        return
+      }
       toast.error(`Failed to rename file: ${error.message}`)
     },
   })
@@ -195,7 +356,7 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
   })
 
   // Convert flat file list to tree structure
-  const buildFileTree = useCallback((files: Array<{ id: string; path: string; content: string; language?: string | null }>): FileTreeItem[] => {
+  const buildFileTree = useCallback((files: Array<{ id: string; path: string; content: string; language?: string | null; isBinary: boolean; mimeType: string | null; size: number | null; updatedAt: Date | string; version: number }>): FileTreeItem[] => {
     const tree: FileTreeItem[] = []
     const folderMap = new Map<string, FileTreeItem>()
 
@@ -221,6 +382,11 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
             type: 'file',
             content: file.content,
             language: file.language || undefined,
+            isBinary: file.isBinary,
+            mimeType: file.mimeType,
+            size: file.size,
+            updatedAt: file.updatedAt,
+            version: file.version,
           })
         } else {
           // This is a folder
@@ -246,29 +412,57 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
 
   // Save file handler
   const handleSaveFile = useCallback(async () => {
-    if (!selectedFile || !hasUnsavedChanges) return
+    // Wait for the user to resolve a pending conflict before saving again
+    if (!selectedFile || selectedFile.isBinary || selectedFile.version === undefined || !hasUnsavedChanges || conflict || updateFile.isPending) return
+    // Shared files are saved by the realtime server
+    if (liveFileIdRef.current === selectedFile.id) return
 
     setIsLoading(true)
     try {
-      // Save file to database
+      // Save file to database; the sandbox is synced once the save succeeds
       updateFile.mutate({
         projectId,
         fileId: selectedFile.id,
         content: fileContent,
-      })
-      
-              // Sync to Gitpod workspace in parallel
-      syncFileToSandbox.mutate({
-        projectId,
-        fileId: selectedFile.id,
-        content: fileContent,
+        expectedVersion: selectedFile.version,
       })
     } catch (error) {
       console.error('Error saving file:', error)
     } finally {
       setIsLoading(false)
     }
-  }, [selectedFile, hasUnsavedChanges, updateFile, syncFileToSandbox, projectId, fileContent])
+  }, [selectedFile, hasUnsavedChanges, conflict, updateFile, projectId, fileContent])
+
+  const handleConflictOverwrite = (content: string) => {
+    if (!selectedFile || !conflict) return
+
+    setFileContent(content)
+    updateFile.mutate({
+      projectId,
+      fileId: selectedFile.id,
+      content,
+      expectedVersion: conflict.version,
+    })
+  }
+
+  // Keep editing without resolving; auto-save would only hit the same conflict again
+  const handleConflictCancel = () => {
+    setConflict(null)
+    if (autoSaveEnabled) {
+      setAutoSaveEnabled(false)
+      toast.info('Auto-save paused until you save this file again')
+    }
+  }
+
+  const handleConflictDiscard = () => {
+    if (!selectedFile || !conflict) return
+
+    setSelectedFile({ ...selectedFile, content: conflict.content, version: conflict.version })
+    setFileContent(conflict.content)
+    setHasUnsavedChanges(false)
+    setConflict(null)
+    refetch()
+  }
 
   // Update file tree when files change
   useEffect(() => {
@@ -284,6 +478,160 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
     }
   }, [files, buildFileTree])
 
+  // Saved files changed, check them again
+  useEffect(() => {
+    if (!files || shareToken) return
+    void refetchDiagnostics()
+    void refetchLint()
+  }, [files, shareToken, refetchDiagnostics, refetchLint])
+
+  // Load the type definitions once the editor is up
+  useEffect(() => {
+    if (!monacoInstance || shareToken) return
+
+    let cancelled = false
+    loadTypeDefinitions(monacoInstance)
+      .then(() => {
+        if (!cancelled) setIsTypeScriptReady(true)
+      })
+      .catch((error) => {
+        console.error('Failed to load type definitions:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [monacoInstance, shareToken])
+
+  // Drop the project's models when the editor goes away
+  useEffect(() => {
+    if (!monacoInstance) return
+    return () => disposeProjectModels(monacoInstance)
+  }, [monacoInstance])
+
+  // Every text file as a model, so imports, hovers and cross-file errors work
+  const activeModelUri = selectedFile && !selectedFile.isBinary ? projectFileUri(selectedFile.path) : null
+  useEffect(() => {
+    if (!monacoInstance || !files) return
+
+    const textFiles = files.filter(file => !file.isBinary)
+    configureTypeScript(monacoInstance, textFiles.find(file => file.path === 'tsconfig.json')?.content)
+    syncProjectModels(monacoInstance, textFiles, activeModelUri)
+    setBrowserTypeChecking(monacoInstance, isTypeScriptReady)
+  }, [monacoInstance, files, activeModelUri, isTypeScriptReady])
+
+  // Go to definition in another project file opens that file
+  const openDefinitionRef = useRef<(path: string, line: number, column: number) => boolean>(() => false)
+  openDefinitionRef.current = (path, line, column) => {
+    const file = files?.find(f => f.path === path)
+    if (!file) return false
+    handleOpenSearchMatch(file.id, line, column, 0)
+    return true
+  }
+  useEffect(() => {
+    if (!monacoInstance) return
+
+    const opener = monacoInstance.editor.registerEditorOpener({
+      openCodeEditor: (_source, resource, selectionOrPosition) => {
+        if (resource.scheme !== 'file') return false
+        const position = selectionOrPosition && 'startLineNumber' in selectionOrPosition
+          ? { lineNumber: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn }
+          : selectionOrPosition ?? { lineNumber: 1, column: 1 }
+        return openDefinitionRef.current(resource.path.replace(/^\/+/, ''), position.lineNumber, position.column)
+      },
+    })
+    return () => opener.dispose()
+  }, [monacoInstance])
+
+  // Show the server's type errors as markers on the open file. Once the browser
+  // checks types itself, only the missing-module errors it ignores are kept.
+  useEffect(() => {
+    const model = mountedEditor?.getModel()
+    if (!monacoInstance || !model) return
+
+    const serverDiagnostics = isTypeScriptReady
+      ? selectedFileDiagnostics.filter(diagnostic => BROWSER_IGNORED_DIAGNOSTIC_CODES.includes(diagnostic.code))
+      : selectedFileDiagnostics
+    monacoInstance.editor.setModelMarkers(model, 'project-diagnostics', serverDiagnostics.map(diagnostic => ({
+      startLineNumber: diagnostic.line,
+      startColumn: diagnostic.column,
+      endLineNumber: diagnostic.endLine,
+      endColumn: Math.max(diagnostic.endColumn, diagnostic.column + 1),
+      message: diagnostic.message,
+      code: `TS${diagnostic.code}`,
+      severity: diagnostic.severity === 'error'
+        ? monacoInstance.MarkerSeverity.Error
+        : diagnostic.severity === 'warning' ? monacoInstance.MarkerSeverity.Warning : monacoInstance.MarkerSeverity.Info,
+    })))
+  }, [monacoInstance, mountedEditor, selectedFileDiagnostics, isTypeScriptReady])
+
+  useEffect(() => {
+    const model = mountedEditor?.getModel()
+    if (!monacoInstance || !model) return
+
+    monacoInstance.editor.setModelMarkers(model, 'project-lint', selectedFileLintProblems.map(problem => ({
+      startLineNumber: problem.line,
+      startColumn: problem.column,
+      endLineNumber: problem.endLine,
+      endColumn: problem.endColumn,
+      message: problem.message,
+      code: problem.ruleId ?? undefined,
+      source: 'eslint',
+      severity: problem.severity === 'error' ? monacoInstance.MarkerSeverity.Error : monacoInstance.MarkerSeverity.Warning,
+    })))
+  }, [monacoInstance, mountedEditor, selectedFileLintProblems])
+
+  // Pick up newer saved versions of the open file when there are no local edits
+  // (a shared file already receives them through the realtime session)
+  useEffect(() => {
+    if (!files || !selectedFile || hasUnsavedChanges || liveFileId === selectedFile.id) return
+
+    const latest = files.find(f => f.id === selectedFile.id)
+    if (latest && selectedFile.version !== undefined && latest.version > selectedFile.version) {
+      setSelectedFile({ ...selectedFile, content: latest.content, path: latest.path, version: latest.version })
+      setFileContent(latest.content)
+    }
+  }, [files, selectedFile, hasUnsavedChanges, liveFileId])
+
+  // Share the open text file with everyone else editing it. Runs as a layout
+  // effect so the old binding is gone before the editor loads the next file.
+  const selectedFileId = selectedFile && !selectedFile.isBinary ? selectedFile.id : null
+  useLayoutEffect(() => {
+    if (!realtime || !isRealtimeConnected || !selectedFileId || !mountedEditor) return
+
+    let cancelled = false
+    let binding: MonacoYjsBinding | null = null
+    let session: Awaited<ReturnType<typeof realtime.openFile>> = null
+
+    void realtime.openFile(selectedFileId).then((opened) => {
+      if (!opened) return
+      if (cancelled) {
+        void realtime.closeFile(opened)
+        return
+      }
+      session = opened
+
+      // Keep edits made while the file wasn't shared (e.g. during a reconnect)
+      const localContent = mountedEditor.getValue()
+      if (hasUnsavedChangesRef.current && localContent !== opened.text.toString()) {
+        opened.doc.transact(() => replaceYText(opened.text, localContent))
+      }
+
+      liveFileIdRef.current = selectedFileId
+      setLiveFileId(selectedFileId)
+      setHasUnsavedChanges(false)
+      binding = new MonacoYjsBinding(mountedEditor, opened)
+    })
+
+    return () => {
+      cancelled = true
+      binding?.destroy()
+      if (session) void realtime.closeFile(session)
+      liveFileIdRef.current = null
+      setLiveFileId(null)
+    }
+  }, [realtime, isRealtimeConnected, selectedFileId, mountedEditor, realtimeSessionKey])
+
   // Auto-save functionality
   useEffect(() => {
     if (autoSaveEnabled && hasUnsavedChanges && selectedFile) {
@@ -315,10 +663,120 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
     }
   }
 
+  const revealPendingMatch = useCallback(() => {
+    const editor = editorRef.current
+    const match = pendingRevealRef.current
+    if (!editor || !match) return
+
+    pendingRevealRef.current = null
+    editor.setSelection({
+      startLineNumber: match.line,
+      startColumn: match.column,
+      endLineNumber: match.line,
+      endColumn: match.column + match.length,
+    })
+    editor.revealLineInCenter(match.line)
+    editor.focus()
+  }, [])
+
+  // Runs after the editor has received the newly selected file's content
+  useEffect(() => {
+    revealPendingMatch()
+  }, [selectedFile, revealPendingMatch])
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor
+    setMountedEditor(editor)
+    setMonacoInstance(monaco)
+    // Until the type definitions load, the browser's semantic errors are mostly
+    // missing modules; the server check covers types meanwhile
+    setBrowserTypeChecking(monaco, false)
+    revealPendingMatch()
+  }
+
+  const handleOpenSearchMatch = (fileId: string, line: number, column: number, length: number) => {
+    pendingRevealRef.current = { line, column, length }
+
+    if (selectedFile?.id === fileId) {
+      revealPendingMatch()
+      return
+    }
+
+    const file = files?.find(f => f.id === fileId)
+    if (!file) return
+
+    handleFileSelect({
+      id: file.id,
+      name: file.path.split('/').pop() || file.path,
+      path: file.path,
+      type: 'file',
+      content: file.content,
+      language: file.language || undefined,
+      version: file.version,
+    })
+  }
+
+  const handleSearchReplaced = async (fileIds: string[]) => {
+    const { data: refreshedFiles } = await refetch()
+    if (!selectedFile || !fileIds.includes(selectedFile.id) || isLiveFile) return
+
+    // Reload the open file so the editor shows the replaced content
+    const refreshed = refreshedFiles?.find(f => f.id === selectedFile.id)
+    if (refreshed) {
+      setSelectedFile({ ...selectedFile, content: refreshed.content, version: refreshed.version })
+      setFileContent(refreshed.content)
+      setHasUnsavedChanges(false)
+    }
+  }
+
   const handleEditorChange = (value: string | undefined) => {
     if (value !== undefined) {
       setFileContent(value)
-      setHasUnsavedChanges(value !== selectedFile?.content)
+      setHasUnsavedChanges(liveFileIdRef.current !== selectedFile?.id && value !== selectedFile?.content)
+    }
+  }
+
+  const handleRevisionRestored = (content: string, version: number) => {
+    if (!selectedFile) return
+
+    // A shared file receives the restored content through the realtime session
+    if (!isLiveFile) {
+      setSelectedFile({ ...selectedFile, content, version })
+      setFileContent(content)
+      setHasUnsavedChanges(false)
+    }
+    refetch()
+
+    // Push the restored content to the live preview as well
+    syncFileToSandbox.mutate({
+      projectId,
+      fileId: selectedFile.id,
+      content,
+      expectedVersion: version,
+    })
+  }
+
+  const handleAssetsUploaded = async (paths: string[]) => {
+    queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+    const { data: refreshedFiles } = await refetch()
+
+    // Open the uploaded asset (or refresh its preview if it was replaced)
+    const uploaded = refreshedFiles?.find(f => f.path === paths[0])
+    if (uploaded) {
+      setSelectedFile({
+        id: uploaded.id,
+        name: uploaded.filename,
+        path: uploaded.path,
+        type: 'file',
+        content: uploaded.content,
+        isBinary: uploaded.isBinary,
+        mimeType: uploaded.mimeType,
+        size: uploaded.size,
+        updatedAt: uploaded.updatedAt,
+        version: uploaded.version,
+      })
+      setFileContent(uploaded.content)
+      setHasUnsavedChanges(false)
     }
   }
 
@@ -338,10 +796,14 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
   }
 
   const handleRenameFile = async (fileId: string, newPath: string) => {
+    const file = files?.find(f => f.id === fileId)
+    if (!file) return
+
     renameFile.mutate({
       projectId,
       fileId,
       newPath,
+      expectedVersion: file.version,
     })
   }
 
@@ -363,6 +825,9 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
         <Folder className="h-4 w-4 text-blue-500" />
       )
     }
+    if (file.isBinary) {
+      return <FileImage className="h-4 w-4 text-purple-500" />
+    }
     return <FileText className="h-4 w-4 text-gray-500" />
   }
 
@@ -396,7 +861,7 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
           
           <span className="text-sm text-gray-700 flex-1 truncate">{item.name}</span>
           
-          {item.type === 'file' && (
+          {item.type === 'file' && !isReadOnly && (
             <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100">
               <FileOperations
                 file={item}
@@ -454,6 +919,8 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
                       <div className="flex items-center justify-between mb-2">
               <div className="flex items-center space-x-2">
                 <h3 className="text-sm font-medium text-gray-700">Files</h3>
+                <PresenceAvatars clients={realtimeClients} ownClientId={realtime?.clientId} />
+                {!shareToken && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -466,99 +933,128 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
                   <Sparkles className="h-3 w-3 mr-1" />
                   Lovable Mode
                 </Button>
+                )}
               </div>
               <div className="flex items-center space-x-1">
+              {!shareToken && (
               <Button
-                variant="ghost"
+                variant={showSearch ? 'secondary' : 'ghost'}
                 size="sm"
-                onClick={() => refetch()}
-                disabled={filesLoading}
+                onClick={() => setShowSearch(!showSearch)}
+                title="Search and replace across files"
               >
-                <RefreshCw className={`h-4 w-4 ${filesLoading ? 'animate-spin' : ''}`} />
+                <Search className="h-4 w-4" />
               </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => cleanProjectFiles.mutate({ projectId })}
-                disabled={cleanProjectFiles.isPending}
-                title="Clean markdown contamination from all files"
-              >
-                {cleanProjectFiles.isPending ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <span className="text-xs">🧹</span>
-                )}
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  // Get the first sandbox ID for this project
-                  const firstSandbox = project?.sandboxes?.[0];
-                  if (firstSandbox?.id) {
-                    aiAutoFixBuildErrors.mutate({ projectId, sandboxId: firstSandbox.id });
-                  } else {
-                    toast.error('No sandbox found for this project');
-                  }
-                }}
-                disabled={aiAutoFixBuildErrors.isPending}
-                title="AI auto-fix build errors"
-              >
-                {aiAutoFixBuildErrors.isPending ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <span className="text-xs">🤖</span>
-                )}
-              </Button>
-              
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  // Get the first sandbox ID for this project
-                  const firstSandbox = project?.sandboxes?.[0];
-                  if (firstSandbox?.id) {
-                    syncSandboxFiles.mutate({ 
-                      projectId, 
-                      sandboxId: firstSandbox.id 
-                    });
-                  } else {
-                    toast.error('No sandbox found for this project');
-                  }
-                }}
-                disabled={syncSandboxFiles.isPending}
-                title="Sync files from sandbox to database"
-              >
-                {syncSandboxFiles.isPending ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <span className="text-xs">🔄</span>
-                )}
-              </Button>
-              
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  cleanupPortConflicts.mutate({ projectId });
-                }}
-                disabled={cleanupPortConflicts.isPending}
-                title="Clean up port conflicts and existing containers"
+                onClick={() => refetch()}
+                disabled={filesLoading}
               >
-                {cleanupPortConflicts.isPending ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <span className="text-xs">🧹</span>
-                )}
+                <RefreshCw className={`h-4 w-4 ${filesLoading ? 'animate-spin' : ''}`} />
               </Button>
-              <CreateFileDialog
-                onCreateFile={handleCreateFile}
-                existingPaths={files?.map(f => f.path) || []}
-              />
+              {!isReadOnly && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => cleanProjectFiles.mutate({ projectId })}
+                    disabled={cleanProjectFiles.isPending}
+                    title="Clean markdown contamination from all files"
+                  >
+                    {cleanProjectFiles.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <span className="text-xs">🧹</span>
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      // Get the first sandbox ID for this project
+                      const firstSandbox = project?.sandboxes?.[0];
+                      if (firstSandbox?.id) {
+                        aiAutoFixBuildErrors.mutate({ projectId, sandboxId: firstSandbox.id });
+                      } else {
+                        toast.error('No sandbox found for this project');
+                      }
+                    }}
+                    disabled={aiAutoFixBuildErrors.isPending}
+                    title="AI auto-fix build errors"
+                  >
+                    {aiAutoFixBuildErrors.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <span className="text-xs">🤖</span>
+                    )}
+                  </Button>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      // Get the first sandbox ID for this project
+                      const firstSandbox = project?.sandboxes?.[0];
+                      if (firstSandbox?.id) {
+                        syncSandboxFiles.mutate({ 
+                          projectId, 
+                          sandboxId: firstSandbox.id 
+                        });
+                      } else {
+                        toast.error('No sandbox found for this project');
+                      }
+                    }}
+                    disabled={syncSandboxFiles.isPending}
+                    title="Sync files from sandbox to database"
+                  >
+                    {syncSandboxFiles.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <span className="text-xs">🔄</span>
+                    )}
+                  </Button>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      cleanupPortConflicts.mutate({ projectId });
+                    }}
+                    disabled={cleanupPortConflicts.isPending}
+                    title="Clean up port conflicts and existing containers"
+                  >
+                    {cleanupPortConflicts.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <span className="text-xs">🧹</span>
+                    )}
+                  </Button>
+                  <UploadAssetDialog
+                    projectId={projectId}
+                    onUploaded={handleAssetsUploaded}
+                  />
+                  <CreateFileDialog
+                    onCreateFile={handleCreateFile}
+                    existingPaths={files?.map(f => f.path) || []}
+                  />
+                </>
+              )}
             </div>
           </div>
         </div>
         
+        {showSearch ? (
+          <div className="flex-1 min-h-0">
+            <ProjectSearchPanel
+              projectId={projectId}
+              onClose={() => setShowSearch(false)}
+              onOpenMatch={handleOpenSearchMatch}
+              onReplaced={handleSearchReplaced}
+            />
+          </div>
+        ) : (
         <div className="flex-1 overflow-y-auto p-2">
           {filesLoading ? (
             <div className="flex items-center justify-center py-8">
@@ -570,6 +1066,7 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
             </div>
           )}
         </div>
+        )}
       </div>
 
       {/* Editor */}
@@ -588,9 +1085,38 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
                       Unsaved
                     </span>
                   )}
+                  {isLiveFile && (
+                    <span
+                      className="flex items-center text-xs bg-green-100 text-green-700 px-2 py-1 rounded"
+                      title="Changes are shared with everyone editing this file and saved automatically"
+                    >
+                      <Radio className="h-3 w-3 mr-1" />
+                      Live
+                    </span>
+                  )}
+                  {selectedFileProblems.length > 0 && (
+                    <span
+                      className="flex items-center text-xs bg-red-100 text-red-700 px-2 py-1 rounded"
+                      title={selectedFileProblems.slice(0, 5).map(p => `${p.line}:${p.column} ${p.message}`).join('\n')}
+                    >
+                      <AlertCircle className="h-3 w-3 mr-1" />
+                      {selectedFileProblems.length} {selectedFileProblems.length === 1 ? 'problem' : 'problems'}
+                    </span>
+                  )}
+                  <PresenceAvatars
+                    clients={realtimeClients.filter(client => client.fileId === selectedFile.id)}
+                    ownClientId={realtime?.clientId}
+                  />
                 </div>
                 
+                {!selectedFile.isBinary && (
                 <div className="flex items-center space-x-2">
+                  {isReadOnly && (
+                    <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded">
+                      Read only
+                    </span>
+                  )}
+                  {!isLiveFile && !isReadOnly && (
                   <label className="flex items-center space-x-2 text-xs text-gray-500">
                     <input
                       type="checkbox"
@@ -600,12 +1126,52 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
                     />
                     <span>Auto-save</span>
                   </label>
+                  )}
+                  {!isReadOnly && project && (
+                  <label className="flex items-center space-x-2 text-xs text-gray-500" title="Run Prettier on files saved from the editor">
+                    <input
+                      type="checkbox"
+                      checked={project.formatOnSave}
+                      onChange={(e) => updateProjectSettings.mutate({ id: projectId, formatOnSave: e.target.checked })}
+                      disabled={updateProjectSettings.isPending}
+                      className="rounded"
+                    />
+                    <span>Format on save</span>
+                  </label>
+                  )}
+
+                  {!isReadOnly && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => formatFiles.mutate({ projectId, fileIds: [selectedFile.id], fixLint: true })}
+                    disabled={formatFiles.isPending || hasUnsavedChanges}
+                    title={hasUnsavedChanges ? 'Save before formatting' : 'Format and fix lint problems'}
+                  >
+                    {formatFiles.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Wand2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                  )}
                   
+                  {!shareToken && (
+                  <Button
+                    variant={showHistory ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => setShowHistory(!showHistory)}
+                    title="File history"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  )}
+
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={handleSaveFile}
-                    disabled={!hasUnsavedChanges || isLoading}
+                    disabled={!hasUnsavedChanges || isLoading || isLiveFile || isReadOnly}
                   >
                     {isLoading ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
@@ -614,27 +1180,61 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
                     )}
                   </Button>
                 </div>
+                )}
               </div>
             </div>
             
-            <div className="flex-1">
-              <Editor
-                height="100%"
-                language={getEditorLanguage(selectedFile)}
-                value={fileContent}
-                onChange={handleEditorChange}
-                theme="vs-dark"
-                options={{
-                  fontSize: 14,
-                  minimap: { enabled: false },
-                  scrollBeyondLastLine: false,
-                  automaticLayout: true,
-                  wordWrap: 'on',
-                  tabSize: 2,
-                  insertSpaces: true,
-                }}
-              />
+            {selectedFile.isBinary ? (
+              <div className="flex-1 min-h-0">
+                <AssetPreview
+                  projectId={projectId}
+                  fileId={selectedFile.id}
+                  path={selectedFile.path}
+                  mimeType={selectedFile.mimeType}
+                  size={selectedFile.size}
+                  updatedAt={selectedFile.updatedAt}
+                  shareToken={shareToken}
+                />
+              </div>
+            ) : (
+            <div className="flex-1 flex min-h-0">
+              <div className="flex-1 min-w-0">
+                <Editor
+                  height="100%"
+                  path={projectFileUri(selectedFile.path)}
+                  language={getEditorLanguage(selectedFile)}
+                  value={fileContent}
+                  onChange={handleEditorChange}
+                  onMount={handleEditorMount}
+                  theme="vs-dark"
+                  options={{
+                    fontSize: 14,
+                    minimap: { enabled: false },
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                    wordWrap: 'on',
+                    tabSize: 2,
+                    insertSpaces: true,
+                    readOnly: isReadOnly,
+                  }}
+                />
+              </div>
+              {showHistory && (
+                <div className="w-1/2 min-w-0">
+                  <FileHistoryPanel
+                    key={selectedFile.id}
+                    projectId={projectId}
+                    fileId={selectedFile.id}
+                    filePath={selectedFile.path}
+                    fileVersion={selectedFile.version}
+                    language={getEditorLanguage(selectedFile)}
+                    onClose={() => setShowHistory(false)}
+                    onRestored={handleRevisionRestored}
+                  />
+                </div>
+              )}
             </div>
+            )}
           </>
         ) : (
           <div className="flex-1 flex items-center justify-center text-gray-500">
@@ -646,6 +1246,55 @@ export function FileEditor({ projectId, height = "600px" }: FileEditorProps) {
           </div>
         )}
       </div>
+
+      <FileConflictDialog
+        conflict={conflict}
+        localContent={fileContent}
+        language={selectedFile ? getEditorLanguage(selectedFile) : 'plaintext'}
+        isSaving={updateFile.isPending}
+        onOverwrite={handleConflictOverwrite}
+        onDiscard={handleConflictDiscard}
+        onCancel={handleConflictCancel}
+      />
+    </div>
+  )
+}
+
+// Avatars of the other people with the project (or file) open
+function PresenceAvatars({
+  clients,
+  ownClientId
+}: {
+  clients: PresenceClient[]
+  ownClientId?: string
+}) {
+  // One avatar per user, even with several tabs open
+  const users = new Map<string, PresenceClient['user']>()
+  for (const client of clients) {
+    if (client.clientId !== ownClientId) users.set(client.user.id, client.user)
+  }
+  if (users.size === 0) return null
+
+  return (
+    <div className="flex -space-x-2">
+      {[...users.values()].slice(0, 5).map(user => (
+        <Avatar
+          key={user.id}
+          className="h-6 w-6 border-2"
+          style={{ borderColor: COLLABORATOR_COLORS[getCollaboratorColorIndex(user.id)] }}
+          title={user.name}
+        >
+          {user.avatar && <AvatarImage src={user.avatar} alt={user.name} />}
+          <AvatarFallback className="text-[10px]">
+            {user.name.slice(0, 2).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+      ))}
+      {users.size > 5 && (
+        <span className="h-6 w-6 rounded-full bg-gray-200 text-[10px] flex items-center justify-center border-2 border-white">
+          +{users.size - 5}
+        </span>
+      )}
     </div>
   )
 }
@@ -719,6 +1368,88 @@ function CreateFileDialog({
   )
 }
 
+// Upload Asset Dialog
+function UploadAssetDialog({
+  projectId,
+  onUploaded
+}: {
+  projectId: string
+  onUploaded: (paths: string[]) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const [directory, setDirectory] = useState('public')
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (selectedFiles.length === 0) return
+
+    const formData = new FormData()
+    for (const file of selectedFiles) {
+      formData.append('file', file)
+    }
+    formData.append('directory', directory.trim())
+
+    setIsUploading(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/assets`, {
+        method: 'POST',
+        body: formData,
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Upload failed')
+      }
+
+      const paths = (result.files as { path: string }[]).map(file => file.path)
+      toast.success(`Uploaded ${paths.length === 1 ? paths[0] : `${paths.length} files`}`)
+      setSelectedFiles([])
+      setOpen(false)
+      onUploaded(paths)
+    } catch (error) {
+      toast.error(`Failed to upload: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Upload images, fonts and other assets">
+          <Upload className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Upload Assets</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            type="file"
+            multiple
+            onChange={(e) => setSelectedFiles(Array.from(e.target.files || []))}
+          />
+          <Input
+            placeholder="public"
+            value={directory}
+            onChange={(e) => setDirectory(e.target.value)}
+          />
+          <p className="text-xs text-gray-500">
+            Files are saved into this folder. Files with the same name are replaced.
+          </p>
+          <Button type="submit" disabled={selectedFiles.length === 0 || isUploading}>
+            {isUploading && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Upload
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 // Rename File Dialog
 function RenameFileDialog({ 
   file, 
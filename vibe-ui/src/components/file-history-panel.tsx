@@ -0,0 +1,223 @@
+"use client"
+
+import { useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { formatDistanceToNow } from 'date-fns'
+import { History, RotateCcw, Loader2, X, Bot, User as UserIcon, Cog } from 'lucide-react'
+import { api } from '@/trpc/client'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from './ui/alert-dialog'
+
+interface FileHistoryPanelProps {
+  projectId: string
+  fileId: string
+  filePath: string
+  fileVersion?: number // version the diff compares against; restores are rejected if it changed
+  language: string
+  onClose: () => void
+  onRestored: (content: string, version: number) => void
+}
+
+const AUTHOR_ICONS = {
+  USER: UserIcon,
+  AI: Bot,
+  SYSTEM: Cog,
+} as const
+
+export function FileHistoryPanel({
+  projectId,
+  fileId,
+  filePath,
+  fileVersion,
+  language,
+  onClose,
+  onRestored
+}: FileHistoryPanelProps) {
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null)
+  const queryClient = useQueryClient()
+
+  const { data: revisions, isLoading, refetch } = api.project.getFileRevisions.useQuery({
+    projectId,
+    fileId,
+  })
+
+  const { data: diff, isFetching: diffLoading } = api.project.diffFileRevisions.useQuery({
+    projectId,
+    fileId,
+    fromRevisionId: selectedRevisionId ?? '',
+  }, {
+    enabled: !!selectedRevisionId,
+  })
+
+  const restoreRevision = api.project.restoreFileRevision.useMutation({
+    onSuccess: (file) => {
+      toast.success(`Restored ${file.path}`)
+      queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+      refetch()
+      setSelectedRevisionId(null)
+      onRestored(file.content, file.version)
+    },
+    onError: (error) => {
+      toast.error(`Failed to restore revision: ${error.message}`)
+    },
+  })
+
+  return (
+    <div className="flex h-full border-l border-gray-200 bg-white">
+      <div className="w-64 flex flex-col border-r border-gray-200">
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <History className="h-4 w-4 text-gray-500" />
+            <h3 className="text-sm font-medium text-gray-700">History</h3>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : !revisions || revisions.length === 0 ? (
+            <p className="text-xs text-gray-500 p-2">No revisions recorded for this file yet.</p>
+          ) : (
+            revisions.map((revision, index) => {
+              const AuthorIcon = AUTHOR_ICONS[revision.author]
+              return (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedRevisionId(revision.id)}
+                  className={`w-full text-left p-2 rounded text-xs hover:bg-gray-100 ${
+                    selectedRevisionId === revision.id ? 'bg-blue-50 border-l-2 border-blue-500' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-1">
+                      <AuthorIcon className="h-3 w-3 text-gray-500" />
+                      <span className="font-medium text-gray-700">
+                        {revision.author === 'USER'
+                          ? revision.user?.name || revision.user?.username || 'User'
+                          : revision.author === 'AI' ? 'AI' : 'System'}
+                      </span>
+                    </div>
+                    {index === 0 && <Badge variant="secondary" className="text-[10px]">Latest</Badge>}
+                  </div>
+                  <div className="text-gray-500 mt-1 truncate" title={revision.source}>
+                    {revision.source}
+                  </div>
+                  <div className="text-gray-400 mt-0.5">
+                    {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                  </div>
+                  {revision.path !== filePath && (
+                    <div className="text-gray-400 mt-0.5 truncate" title={revision.path}>
+                      was {revision.path}
+                    </div>
+                  )}
+                </button>
+              )
+            })
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col min-w-0">
+        {selectedRevisionId ? (
+          <>
+            <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+              <div className="text-xs text-gray-600">
+                {diff ? (
+                  <>
+                    <span className="text-green-600">+{diff.diff.additions}</span>{' '}
+                    <span className="text-red-600">-{diff.diff.deletions}</span>{' '}
+                    compared with current version
+                  </>
+                ) : (
+                  'Loading diff...'
+                )}
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!diff || diff.diff.identical || restoreRevision.isPending}
+                  >
+                    {restoreRevision.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    )}
+                    Restore
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Restore revision</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The current content of &quot;{filePath}&quot; will be replaced. It stays in the history, so you can undo this later.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => fileVersion !== undefined && restoreRevision.mutate({
+                        projectId,
+                        fileId,
+                        revisionId: selectedRevisionId,
+                        expectedVersion: fileVersion,
+                      })}
+                    >
+                      Restore
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+            <div className="flex-1">
+              {diff && !diffLoading ? (
+                <DiffEditor
+                  height="100%"
+                  language={language}
+                  original={diff.from.content}
+                  modified={diff.to.content}
+                  theme="vs-dark"
+                  options={{
+                    readOnly: true,
+                    renderSideBySide: false,
+                    minimap: { enabled: false },
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                  }}
+                />
+              ) : (
+                <div className="flex items-center justify-center h-full">
+                  <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-gray-500 text-sm p-4 text-center">
+            Select a revision to compare it with the current file
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { CheckCircle2, Circle, Loader2, XCircle, Sparkles } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+
+interface GenerationEvent {
+  id: number
+  runId: string
+  path: string
+  status: 'QUEUED' | 'STARTED' | 'GENERATED' | 'FAILED'
+  qualityScore: number | null
+  durationMs: number | null
+  error: string | null
+  createdAt: string
+}
+
+interface FileProgress {
+  path: string
+  status: GenerationEvent['status']
+  lastEventId: number
+  startedAt: number | null
+  durationMs: number | null
+  qualityScore: number | null
+  error: string | null
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+// Live checklist of the files an AI generation run is writing
+export function GenerationProgress({ projectId }: { projectId: string }) {
+  const router = useRouter()
+  const [runId, setRunId] = useState<string | null>(null)
+  const runIdRef = useRef<string | null>(null)
+  const [files, setFiles] = useState<FileProgress[]>([])
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const source = new EventSource(`/api/projects/${projectId}/generation`)
+
+    source.onmessage = (message) => {
+      const data = JSON.parse(message.data)
+
+      if (data.type === 'file') {
+        const event = data.event as GenerationEvent
+        // A new run replaces the previous run's checklist
+        if (runIdRef.current !== event.runId) {
+          runIdRef.current = event.runId
+          setRunId(event.runId)
+          setFiles([])
+        }
+        setFiles(prev => {
+          const index = prev.findIndex(file => file.path === event.path)
+          const current = index === -1 ? null : prev[index]
+          // A reconnect replays events already applied
+          if (current && current.lastEventId >= event.id) return prev
+
+          const next: FileProgress = {
+            path: event.path,
+            status: event.status === 'QUEUED' && current ? current.status : event.status,
+            lastEventId: event.id,
+            startedAt: event.status === 'STARTED' ? new Date(event.createdAt).getTime() : current?.startedAt ?? null,
+            durationMs: event.durationMs ?? current?.durationMs ?? null,
+            qualityScore: event.qualityScore ?? current?.qualityScore ?? null,
+            error: event.error ?? current?.error ?? null,
+          }
+          return index === -1 ? [...prev, next] : prev.map((file, i) => i === index ? next : file)
+        })
+      } else if (data.type === 'complete') {
+        source.close()
+        if (data.status === 'READY') {
+          toast.success('Project files generated')
+        } else if (data.status === 'ERROR') {
+          toast.error('Project generation failed')
+        }
+        // Reload the page data with the generated files
+        router.refresh()
+      } else if (data.type === 'error') {
+        source.close()
+        toast.error(`Lost generation progress: ${data.message}`)
+      }
+    }
+
+    return () => source.close()
+  }, [projectId, router])
+
+  // Tick the elapsed time of files in progress
+  const hasRunningFiles = files.some(file => file.status === 'STARTED')
+  useEffect(() => {
+    if (!hasRunningFiles) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [hasRunningFiles])
+
+  const finished = files.filter(file => file.status === 'GENERATED' || file.status === 'FAILED').length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Generating files
+        </CardTitle>
+        <CardDescription>
+          {runId && files.length > 0
+            ? `${finished} of ${files.length} files done`
+            : 'Waiting for generation to start...'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={files.length > 0 ? (finished / files.length) * 100 : 0} />
+        <div className="max-h-72 overflow-y-auto space-y-1">
+          {files.map(file => (
+            <div key={file.path} className="flex items-center justify-between gap-2 text-sm py-1">
+              <div className="flex items-center gap-2 min-w-0">
+                {file.status === 'QUEUED' && <Circle className="h-4 w-4 shrink-0 text-gray-300" />}
+                {file.status === 'STARTED' && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-blue-500" />}
+                {file.status === 'GENERATED' && <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />}
+                {file.status === 'FAILED' && <XCircle className="h-4 w-4 shrink-0 text-red-600" />}
+                <span className={`font-mono truncate ${file.status === 'QUEUED' ? 'text-gray-400' : 'text-gray-700'}`}>
+                  {file.path}
+                </span>
+              </div>
+              <div className="flex items-center gap-3 shrink-0 text-xs text-gray-500">
+                {file.status === 'GENERATED' && file.qualityScore !== null && (
+                  <span className={file.qualityScore >= 80 ? 'text-green-600' : file.qualityScore >= 50 ? 'text-yellow-600' : 'text-red-600'}>
+                    Quality {file.qualityScore}%
+                  </span>
+                )}
+                {file.status === 'FAILED' && file.error && (
+                  <span className="text-red-600 truncate max-w-48" title={file.error}>{file.error}</span>
+                )}
+                {file.status === 'STARTED' && file.startedAt !== null && (
+                  <span>{formatElapsed(now - file.startedAt)}</span>
+                )}
+                {(file.status === 'GENERATED' || file.status === 'FAILED') && file.durationMs !== null && (
+                  <span>{formatElapsed(file.durationMs)}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { GitBranch, Copy, KeyRound, Trash2, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+
+interface GitAccessDialogProps {
+  projectId: string
+}
+
+export function GitAccessDialog({ projectId }: GitAccessDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [tokenName, setTokenName] = useState('')
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [cloneUrl, setCloneUrl] = useState('')
+
+  useEffect(() => {
+    setCloneUrl(`${window.location.origin}/api/git/${projectId}.git`)
+  }, [projectId])
+
+  const { data: tokens, isLoading, refetch } = api.git.listAccessTokens.useQuery(undefined, {
+    enabled: open,
+  })
+
+  const createToken = api.git.createAccessToken.useMutation({
+    onSuccess: (token) => {
+      setNewToken(token.token)
+      setTokenName('')
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to create token: ${error.message}`)
+    },
+  })
+
+  const revokeToken = api.git.revokeAccessToken.useMutation({
+    onSuccess: () => {
+      toast.success('Token revoked')
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to revoke token: ${error.message}`)
+    },
+  })
+
+  const copyToClipboard = (value: string, label: string) => {
+    navigator.clipboard.writeText(value)
+    toast.success(`${label} copied to clipboard`)
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value)
+        if (!value) setNewToken(null)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitBranch className="h-4 w-4 mr-1" />
+          Git
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Clone with git
+          </DialogTitle>
+          <DialogDescription>
+            Every save and AI run is committed to the main branch. Pushes to main update the project files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Clone URL</Label>
+            <div className="flex gap-2">
+              <Input value={cloneUrl} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="sm" onClick={() => copyToClipboard(`git clone ${cloneUrl}`, 'Clone command')}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Use any username and an access token as the password.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="git-token-name">Access tokens</Label>
+            {newToken && (
+              <div className="p-3 rounded border border-green-200 bg-green-50 space-y-2">
+                <p className="text-xs text-green-800">
+                  Copy this token now. You won&apos;t be able to see it again.
+                </p>
+                <div className="flex gap-2">
+                  <Input value={newToken} readOnly className="font-mono text-xs" />
+                  <Button variant="outline" size="sm" onClick={() => copyToClipboard(newToken, 'Token')}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                id="git-token-name"
+                placeholder="Token name, e.g. work laptop"
+                value={tokenName}
+                onChange={(e) => setTokenName(e.target.value)}
+              />
+              <Button
+                size="sm"
+                onClick={() => createToken.mutate({ name: tokenName.trim() })}
+                disabled={!tokenName.trim() || createToken.isPending}
+              >
+                {createToken.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <KeyRound className="h-4 w-4 mr-1" />
+                )}
+                Create
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              {isLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                </div>
+              ) : tokens?.map((token) => (
+                <div key={token.id} className="flex items-center justify-between text-sm p-2 rounded border border-gray-200">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-700 truncate">{token.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                        : 'Never used'}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeToken.mutate({ id: token.id })}
+                    disabled={revokeToken.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useQueryClient } from '@tanstack/react-query'
+import { Upload, Loader2, FileArchive } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+
+export function ImportProjectDialog() {
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [name, setName] = useState('')
+  const [importing, setImporting] = useState(false)
+  const router = useRouter()
+  const queryClient = useQueryClient()
+
+  const handleImport = async () => {
+    if (!file) return
+
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      if (name.trim()) formData.append('name', name.trim())
+
+      const response = await fetch('/api/projects/import', {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to import project')
+        return
+      }
+
+      toast.success(`Imported ${data.filesImported} files`, {
+        description: data.skipped.length > 0
+          ? `${data.skipped.length} binary or oversized files were skipped.`
+          : undefined,
+      })
+      queryClient.invalidateQueries({ queryKey: ['project.getUserProjects'] })
+      setOpen(false)
+      setFile(null)
+      setName('')
+      router.push(`/project/${data.project.id}`)
+    } catch (error) {
+      console.error('Import error:', error)
+      toast.error('Failed to import project')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-1" />
+          Import ZIP
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileArchive className="h-5 w-5" />
+            Import an existing project
+          </DialogTitle>
+          <DialogDescription>
+            Upload a ZIP of your codebase. node_modules and build output are skipped, and the framework is detected from package.json.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">ZIP archive</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".zip,application/zip"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-name">Project name (optional)</Label>
+            <Input
+              id="import-name"
+              placeholder={file ? file.name.replace(/\.zip$/i, '') : 'my-app'}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!file || importing}>
+            {importing ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-1" />
+            )}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
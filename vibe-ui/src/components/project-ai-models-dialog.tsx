@@ -0,0 +1,128 @@
+"use client"
+
+import { useState } from 'react'
+import { Cpu, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+
+const TASK_LABELS: Record<string, { label: string; description: string }> = {
+  analysis: { label: 'Analysis', description: 'Reads the project prompt' },
+  generation: { label: 'Generation', description: 'Writes files and customizes templates' },
+  validation: { label: 'Validation', description: 'Reviews and scores generated code' },
+  optimization: { label: 'Optimization', description: 'Polishes generated code' },
+  chat: { label: 'Chat', description: 'Answers in the project chat' },
+  agent: { label: 'Agent', description: 'Runs coding tasks with tools' },
+}
+
+interface ProjectAIModelsDialogProps {
+  projectId: string
+}
+
+// Per-task model overrides; empty fields use the deployment's defaults
+export function ProjectAIModelsDialog({ projectId }: ProjectAIModelsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [drafts, setDrafts] = useState<Record<string, string> | null>(null)
+
+  const { data: settings, isLoading, error, refetch } = api.project.getAIModelSettings.useQuery({ projectId }, {
+    enabled: open,
+  })
+
+  const values = drafts ?? Object.fromEntries((settings?.tasks ?? []).map(task => [task.task, task.override ?? '']))
+
+  const updateProject = api.project.updateProject.useMutation({
+    onSuccess: () => {
+      toast.success('AI models saved')
+      refetch()
+      setDrafts(null)
+      setOpen(false)
+    },
+    onError: (error) => {
+      toast.error(`Failed to save AI models: ${error.message}`)
+    },
+  })
+
+  const save = () => {
+    const aiModels = Object.fromEntries(
+      Object.entries(values).map(([task, model]) => [task, model.trim()]).filter(([, model]) => model)
+    )
+    updateProject.mutate({ id: projectId, aiModels })
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        if (!nextOpen) setDrafts(null)
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Cpu className="h-4 w-4 mr-1" />
+          AI models
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>AI models</DialogTitle>
+          <DialogDescription>
+            Choose the model for each AI task in this project as <span className="font-mono">provider:model</span>,
+            for example <span className="font-mono">anthropic:claude-3-5-sonnet-latest</span> or{' '}
+            <span className="font-mono">local:llama3.1</span>. Leave a field empty to use the default.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error.message}</p>
+        ) : settings && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span>Configured providers:</span>
+              {settings.configuredProviders.length > 0 ? (
+                settings.configuredProviders.map(provider => (
+                  <Badge key={provider} variant="outline">{provider}</Badge>
+                ))
+              ) : (
+                <span>none</span>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              {settings.tasks.map(task => (
+                <div key={task.task} className="grid grid-cols-3 items-center gap-3">
+                  <div>
+                    <Label htmlFor={`ai-model-${task.task}`}>{TASK_LABELS[task.task]?.label ?? task.task}</Label>
+                    <p className="text-xs text-gray-500">{TASK_LABELS[task.task]?.description}</p>
+                  </div>
+                  <Input
+                    id={`ai-model-${task.task}`}
+                    className="col-span-2 font-mono"
+                    placeholder={task.defaultModel}
+                    value={values[task.task] ?? ''}
+                    onChange={(e) => setDrafts({ ...values, [task.task]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={save} disabled={updateProject.isPending}>
+                {updateProject.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -9,12 +9,15 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { MessageCircle, Send, Bot, User, Loader2, Copy, Check } from 'lucide-react'
+import { MessageCircle, Send, Bot, User, Loader2, Copy, Check, Square } from 'lucide-react'
 import { toast } from 'sonner'
+import { ChatProposedChanges } from './chat-proposed-changes'
+import type { ChatMessageMetadata, ProposedFileChange } from '@/lib/chat-changes'
 // import { ChatMessageSkeleton, LoadingDots } from '@/components/ui/loading-states'
 
 interface ProjectChatProps {
   projectId: string
+  shareToken?: string // Show the shared transcript read-only instead of the user's own chat
 }
 
 interface Message {
@@ -22,6 +25,7 @@ interface Message {
   content: string
   role: 'USER' | 'ASSISTANT' | 'SYSTEM' | 'FUNCTION'
   createdAt: string
+  metadata: ChatMessageMetadata | null
   user: {
     id: string
     name: string | null
@@ -30,9 +34,11 @@ interface Message {
   }
 }
 
-export function ProjectChat({ projectId }: ProjectChatProps) {
+export function ProjectChat({ projectId, shareToken }: ProjectChatProps) {
   const [message, setMessage] = useState('')
   const [isTyping, setIsTyping] = useState(false)
+  const [streamingReply, setStreamingReply] = useState<string | null>(null) // reply so far, while it streams
+  const abortRef = useRef<AbortController | null>(null)
   const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
@@ -43,8 +49,13 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
   const [chatSession, setChatSession] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
 
+  const sharedChat = api.share.getSharedChat.useQuery({ token: shareToken ?? '' }, {
+    enabled: !!shareToken,
+  })
+
   // Initialize chat session on mount
   useEffect(() => {
+    if (shareToken) return
     getOrCreateChatSession.mutate(
       { projectId },
       {
@@ -60,13 +71,31 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [projectId])
 
-  // Send message mutation
-  const sendMessage = api.chat.sendMessage.useMutation()
+  // Share links show the transcript as it is, or an empty one if there is none
+  useEffect(() => {
+    if (!shareToken || sharedChat.isLoading) return
+    setChatSession(sharedChat.data ?? { messages: [] })
+    setIsLoading(false)
+  }, [shareToken, sharedChat.data, sharedChat.isLoading])
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [chatSession?.messages])
+  }, [chatSession?.messages, streamingReply])
+
+  // Stop a streaming reply when leaving the chat
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const appendMessages = (...messages: Message[]) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    setChatSession((prev: any) => {
+      if (!prev) return prev
+      return {
+        ...prev,
+        messages: [...prev.messages, ...messages],
+      }
+    })
+  }
 
   // Focus input on mount
   useEffect(() => {
@@ -82,40 +111,99 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
     const messageContent = message.trim()
     setMessage('')
 
+    const controller = new AbortController()
+    abortRef.current = controller
+    let sent = false
+    let received = ''
+
     try {
-      const response = await sendMessage.mutateAsync({
-        chatSessionId: chatSession.id,
-        content: messageContent,
+      const response = await fetch(`/api/chat/${chatSession.id}/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: messageContent }),
+        signal: controller.signal,
       })
 
-      // Update the chat session with new messages
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      setChatSession((prev: any) => {
-        if (!prev) return prev
-        return {
-          ...prev,
-          messages: [
-            ...prev.messages,
-            response.userMessage,
-            response.aiMessage,
-          ],
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || `Request failed (${response.status})`)
+      }
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ''
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const events = buffer.split('\n\n')
+        buffer = events.pop() ?? ''
+
+        for (const event of events) {
+          if (!event.startsWith('data: ')) continue
+          const data = JSON.parse(event.slice(6))
+          if (data.type === 'user-message') {
+            sent = true
+            appendMessages(data.message)
+            setStreamingReply('')
+          } else if (data.type === 'token') {
+            received += data.content
+            setStreamingReply(received)
+          } else if (data.type === 'done' || data.type === 'error') {
+            appendMessages(data.message)
+            setStreamingReply(null)
+          }
         }
-      })
-      
-      // Auto-scroll to bottom
-      setTimeout(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-      }, 100)
+      }
     } catch (error) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      toast.error(`Failed to send message: ${(error as any).message}`)
-      setMessage(messageContent) // Restore message on error
+      if (controller.signal.aborted) {
+        // The server saves the partial reply too; show it the same way
+        if (received) {
+          appendMessages({
+            id: `cancelled-${Date.now()}`,
+            content: received,
+            role: 'ASSISTANT',
+            createdAt: new Date().toISOString(),
+            metadata: { cancelled: true },
+            user: { id: '', name: null, username: '', avatar: null },
+          })
+        }
+      } else {
+        toast.error(`Failed to send message: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        if (!sent) setMessage(messageContent) // Restore message on error
+      }
     } finally {
+      abortRef.current = null
+      setStreamingReply(null)
       setIsTyping(false)
       inputRef.current?.focus()
     }
   }
 
+  const stopReply = () => {
+    abortRef.current?.abort()
+  }
+
+  // Swap in the reviewed change so the message shows what was applied
+  const updateProposedChange = (messageId: string, resolved: ProposedFileChange) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    setChatSession((prev: any) => {
+      if (!prev) return prev
+      return {
+        ...prev,
+        messages: prev.messages.map((msg: Message) => msg.id !== messageId ? msg : {
+          ...msg,
+          metadata: {
+            ...msg.metadata,
+            proposedChanges: msg.metadata?.proposedChanges?.map(change => change.id === resolved.id ? resolved : change),
+          },
+        }),
+      }
+    })
+  }
+
   const copyMessage = async (messageId: string, content: string) => {
     try {
       await navigator.clipboard.writeText(content)
@@ -166,7 +254,9 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
           )}
         </CardTitle>
         <p className="text-sm text-gray-600">
-          Ask questions about your project, request changes, or get development guidance
+          {shareToken
+            ? 'Conversation with the AI assistant that built this project'
+            : 'Ask questions about your project, request changes, or get development guidance'}
         </p>
       </CardHeader>
       
@@ -179,10 +269,12 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
             {chatSession.messages.length === 0 ? (
               <div className="text-center py-8">
                 <Bot className="h-12 w-12 mx-auto text-gray-400 mb-4" />
-                <p className="text-gray-500 mb-2">Start a conversation</p>
-                <p className="text-sm text-gray-400">
-                  Ask me anything about your project, request modifications, or get development help
-                </p>
+                <p className="text-gray-500 mb-2">{shareToken ? 'No messages yet' : 'Start a conversation'}</p>
+                {!shareToken && (
+                  <p className="text-sm text-gray-400">
+                    Ask me anything about your project, request modifications, or get development help
+                  </p>
+                )}
               </div>
             ) : (
               chatSession.messages.map((msg: Message) => (
@@ -200,7 +292,7 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
                     </Avatar>
                   )}
                   
-                  <div className={`max-w-[70%] ${msg.role === 'USER' ? 'order-2' : ''}`}>
+                  <div className={`${msg.metadata?.proposedChanges?.length ? 'flex-1 min-w-0' : 'max-w-[70%]'} ${msg.role === 'USER' ? 'order-2' : ''}`}>
                     <div
                       className={`p-3 rounded-lg ${
                         msg.role === 'USER'
@@ -212,6 +304,15 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
                         {msg.content}
                       </div>
                     </div>
+
+                    {msg.metadata?.proposedChanges?.length ? (
+                      <ChatProposedChanges
+                        messageId={msg.id}
+                        changes={msg.metadata.proposedChanges}
+                        readOnly={!!shareToken}
+                        onResolved={(resolved) => updateProposedChange(msg.id, resolved)}
+                      />
+                    ) : null}
                     
                     <div className={`flex items-center gap-2 mt-1 ${
                       msg.role === 'USER' ? 'justify-end' : 'justify-start'
@@ -219,6 +320,9 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
                       <span className="text-xs text-gray-500">
                         {formatTime(msg.createdAt)}
                       </span>
+                      {msg.metadata?.cancelled && (
+                        <span className="text-xs text-gray-400">Stopped</span>
+                      )}
                       
                       <Button
                         variant="ghost"
@@ -247,8 +351,24 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
               ))
             )}
             
+            {/* Reply as it streams in */}
+            {streamingReply && (
+              <div className="flex items-start gap-3">
+                <Avatar className="h-8 w-8 bg-blue-500">
+                  <AvatarFallback>
+                    <Bot className="h-4 w-4 text-white" />
+                  </AvatarFallback>
+                </Avatar>
+                <div className="max-w-[70%] p-3 rounded-lg bg-gray-100 text-gray-900">
+                  <div className="whitespace-pre-wrap text-sm leading-relaxed">
+                    {streamingReply}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Typing indicator */}
-            {isTyping && (
+            {isTyping && !streamingReply && (
               <div className="flex items-start gap-3">
                 <Avatar className="h-8 w-8 bg-blue-500">
                   <AvatarFallback>
@@ -269,6 +389,8 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
           </div>
         </ScrollArea>
         
+        {!shareToken && (
+        <>
         <Separator />
         
         {/* Input */}
@@ -282,23 +404,33 @@ export function ProjectChat({ projectId }: ProjectChatProps) {
               disabled={isTyping}
               className="flex-1"
             />
-            <Button
-              type="submit"
-              disabled={!message.trim() || isTyping}
-              className="px-4"
-            >
-              {isTyping ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
+            {isTyping ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={stopReply}
+                className="px-4"
+                title="Stop generating"
+              >
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!message.trim()}
+                className="px-4"
+              >
                 <Send className="h-4 w-4" />
-              )}
-            </Button>
+              </Button>
+            )}
           </form>
           
           <div className="mt-2 text-xs text-gray-500">
             Press Enter to send • AI powered by OpenAI
           </div>
         </div>
+        </>
+        )}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,242 @@
+"use client"
+
+import { useState } from 'react'
+import { DiffEditor } from '@monaco-editor/react'
+import { formatDistanceToNow } from 'date-fns'
+import { History, RotateCcw, Loader2, FilePlus, FileMinus, FileDiff, FileCheck } from 'lucide-react'
+import { api } from '@/trpc/client'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import { EmptyState, LoadingSpinner } from '@/components/ui/loading-states'
+import { getLanguageFromPath } from '@/lib/deterministic-skeleton'
+
+interface ProjectCheckpointsProps {
+  projectId: string
+}
+
+const STATUS_ICONS = {
+  added: FilePlus,
+  removed: FileMinus,
+  modified: FileDiff,
+  unchanged: FileCheck,
+} as const
+
+const STATUS_COLORS = {
+  added: 'text-green-600',
+  removed: 'text-red-600',
+  modified: 'text-yellow-600',
+  unchanged: 'text-gray-400',
+} as const
+
+export function ProjectCheckpoints({ projectId }: ProjectCheckpointsProps) {
+  const [selectedCheckpointId, setSelectedCheckpointId] = useState<string | null>(null)
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const queryClient = useQueryClient()
+
+  const { data: checkpoints, isLoading, refetch } = api.checkpoint.listCheckpoints.useQuery({
+    projectId,
+  })
+
+  const { data: preview, isFetching: previewLoading } = api.checkpoint.previewCheckpoint.useQuery({
+    projectId,
+    checkpointId: selectedCheckpointId ?? '',
+    path: selectedPath ?? undefined,
+  }, {
+    enabled: !!selectedCheckpointId,
+  })
+
+  const rollback = api.checkpoint.rollbackToCheckpoint.useMutation({
+    onSuccess: (result) => {
+      const changed = result.restoredPaths.length + result.createdPaths.length + result.removedPaths.length
+      toast.success('Project rolled back', {
+        description: `${changed} files changed${result.synced ? ' and synced to the sandbox' : ''}.`,
+      })
+      queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+      refetch()
+      setSelectedCheckpointId(null)
+      setSelectedPath(null)
+    },
+    onError: (error) => {
+      toast.error(`Failed to roll back: ${error.message}`)
+    },
+  })
+
+  const changedFiles = preview?.changes.filter(change => change.status !== 'unchanged') ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Checkpoints
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="flex h-[600px] border-t border-gray-200">
+          <div className="w-72 flex flex-col border-r border-gray-200">
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <LoadingSpinner />
+                </div>
+              ) : !checkpoints || checkpoints.length === 0 ? (
+                <EmptyState
+                  icon={History}
+                  title="No checkpoints yet"
+                  description="A checkpoint is captured before and after every AI generation run."
+                />
+              ) : (
+                checkpoints.map((checkpoint) => (
+                  <button
+                    key={checkpoint.id}
+                    type="button"
+                    onClick={() => {
+                      setSelectedCheckpointId(checkpoint.id)
+                      setSelectedPath(null)
+                    }}
+                    className={`w-full text-left p-2 rounded text-xs hover:bg-gray-100 ${
+                      selectedCheckpointId === checkpoint.id ? 'bg-blue-50 border-l-2 border-blue-500' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-700 truncate">{checkpoint.label}</span>
+                      <Badge variant="secondary" className="text-[10px]">
+                        {checkpoint.phase === 'BEFORE' ? 'Before' : 'After'}
+                      </Badge>
+                    </div>
+                    <div className="text-gray-500 mt-1 truncate" title={checkpoint.source}>
+                      {checkpoint.source}
+                    </div>
+                    <div className="text-gray-400 mt-0.5">
+                      {checkpoint.fileCount} files · {formatDistanceToNow(new Date(checkpoint.createdAt), { addSuffix: true })}
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            {selectedCheckpointId ? (
+              <>
+                <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+                  <div className="text-xs text-gray-600">
+                    {preview
+                      ? `${changedFiles.length} of ${preview.changes.length} files would change`
+                      : 'Loading preview...'}
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!preview || changedFiles.length === 0 || rollback.isPending}
+                      >
+                        {rollback.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                        ) : (
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                        )}
+                        Roll back
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Roll back project</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {changedFiles.length} files will be restored to &quot;{preview?.checkpoint.label}&quot;.
+                          The current state is saved as a new checkpoint first, so you can undo this later.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => rollback.mutate({ projectId, checkpointId: selectedCheckpointId })}
+                        >
+                          Roll back
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                  <div className="w-64 overflow-y-auto border-r border-gray-200 p-2 space-y-1">
+                    {changedFiles.length === 0 && preview && (
+                      <p className="text-xs text-gray-500 p-2">The project already matches this checkpoint.</p>
+                    )}
+                    {changedFiles.map((change) => {
+                      const StatusIcon = STATUS_ICONS[change.status]
+                      return (
+                        <button
+                          key={change.path}
+                          type="button"
+                          onClick={() => setSelectedPath(change.path)}
+                          className={`w-full text-left p-1.5 rounded text-xs hover:bg-gray-100 flex items-center gap-2 ${
+                            selectedPath === change.path ? 'bg-blue-50' : ''
+                          }`}
+                        >
+                          <StatusIcon className={`h-3 w-3 flex-shrink-0 ${STATUS_COLORS[change.status]}`} />
+                          <span className="truncate flex-1" title={change.path}>{change.path}</span>
+                          <span className="text-green-600">+{change.additions}</span>
+                          <span className="text-red-600">-{change.deletions}</span>
+                        </button>
+                      )
+                    })}
+                  </div>
+
+                  <div className="flex-1">
+                    {selectedPath ? (
+                      preview?.file && !previewLoading ? (
+                        <DiffEditor
+                          height="100%"
+                          language={getLanguageFromPath(selectedPath)}
+                          original={preview.file.current}
+                          modified={preview.file.checkpoint}
+                          theme="vs-dark"
+                          options={{
+                            readOnly: true,
+                            renderSideBySide: false,
+                            minimap: { enabled: false },
+                            scrollBeyondLastLine: false,
+                            automaticLayout: true,
+                          }}
+                        />
+                      ) : (
+                        <div className="flex items-center justify-center h-full">
+                          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+                        </div>
+                      )
+                    ) : (
+                      <div className="flex items-center justify-center h-full text-gray-500 text-sm p-4 text-center">
+                        Select a file to see how a rollback would change it
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-gray-500 text-sm p-4 text-center">
+                Select a checkpoint to preview a rollback
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -13,6 +13,7 @@ import {
   Calendar, 
   Code, 
   GitBranch,
+  GitFork,
   Zap,
   Monitor,
   Square,
@@ -20,7 +21,10 @@ import {
   AlertCircle,
   CheckCircle,
   Clock,
-  XCircle
+  XCircle,
+  RotateCcw,
+  ChevronDown,
+  ChevronRight
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import Link from 'next/link'
@@ -29,17 +33,20 @@ import { toast } from 'sonner'
 
 interface ProjectDashboardProps {
   limit?: number
+  organizationId?: string | null // Team workspace; personal projects when omitted
 }
 
-export function ProjectDashboard({ limit = 10 }: ProjectDashboardProps) {
+export function ProjectDashboard({ limit = 10, organizationId = null }: ProjectDashboardProps) {
   const [deletingProject, setDeletingProject] = useState<string | null>(null)
-  const { data: projects, isLoading, error, refetch } = api.project.getUserProjects.useQuery({ limit })
+  const { data: projects, isLoading, error, refetch } = api.project.getUserProjects.useQuery({ limit, organizationId })
+  const { data: trashedProjects, refetch: refetchTrash } = api.project.getTrashedProjects.useQuery({ organizationId })
 
-  // Delete project mutation
+  // Move to trash mutation
   const deleteProject = api.project.deleteProject.useMutation({
     onSuccess: () => {
-      toast.success('Project deleted successfully')
+      toast.success('Project moved to trash')
       refetch()
+      refetchTrash()
       setDeletingProject(null)
     },
     onError: (error) => {
@@ -119,6 +126,16 @@ export function ProjectDashboard({ limit = 10 }: ProjectDashboardProps) {
     )
   }
 
+  const trashSection = (
+    <ProjectTrash
+      projects={trashedProjects ?? []}
+      onChanged={() => {
+        refetch()
+        refetchTrash()
+      }}
+    />
+  )
+
   if (!projects?.length) {
     return (
       <div className="p-6">
@@ -127,6 +144,7 @@ export function ProjectDashboard({ limit = 10 }: ProjectDashboardProps) {
           title="No projects yet"
           description="Start building your first application with AI assistance. Upload a screenshot or describe your idea to get started."
         />
+        {trashSection}
       </div>
     )
   }
@@ -272,6 +290,18 @@ export function ProjectDashboard({ limit = 10 }: ProjectDashboardProps) {
                     </div>
                   )}
 
+                  {/* Fork Lineage */}
+                  {(project.forkedFrom || project._count.forks > 0) && (
+                    <div className="flex items-center text-sm text-gray-500">
+                      <GitFork className="h-4 w-4 mr-2" />
+                      <span className="truncate">
+                        {project.forkedFrom && <>Forked from {project.forkedFrom.name}</>}
+                        {project.forkedFrom && project._count.forks > 0 && ' • '}
+                        {project._count.forks > 0 && <>{project._count.forks} {project._count.forks === 1 ? 'fork' : 'forks'}</>}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Status Description */}
                   <div className="flex items-center text-sm text-gray-600">
                     <AlertCircle className="h-4 w-4 mr-2 text-gray-500" />
@@ -399,26 +429,19 @@ export function ProjectDashboard({ limit = 10 }: ProjectDashboardProps) {
                               className="text-red-600 font-semibold text-lg flex items-center gap-2"
                             >
                               <Trash2 className="h-5 w-5" aria-hidden="true" />
-                              Delete Project
+                              Move to Trash
                             </AlertDialogTitle>
                             <AlertDialogDescription 
                               className="text-sm text-gray-600 space-y-2"
                             >
                               <p>
-                                Are you sure you want to delete <strong>&quot;{project.name}&quot;</strong>?
-                              </p>
-                              <p className="text-red-600 font-medium">
-                                ⚠️ This action cannot be undone.
+                                Move <strong>&quot;{project.name}&quot;</strong> to the trash?
                               </p>
                               <p className="text-xs text-gray-500">
-                                This will permanently delete:
+                                Live previews are stopped and nobody can open the project. Its files
+                                ({project._count.files}), chats and deployment history are kept until the
+                                trash is purged, and you can restore it until then.
                               </p>
-                              <ul className="text-xs text-gray-500 ml-4 list-disc space-y-1">
-                                <li>All project files ({project._count.files} files)</li>
-                                <li>Live previews and sandboxes</li>
-                                <li>Deployment history</li>
-                                <li>Chat sessions and messages</li>
-                              </ul>
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter className="flex flex-col-reverse sm:flex-row gap-2">
@@ -433,17 +456,17 @@ export function ProjectDashboard({ limit = 10 }: ProjectDashboardProps) {
                               onClick={() => handleDeleteProject(project.id)}
                               disabled={deletingProject === project.id}
                               className="w-full sm:w-auto bg-red-600 hover:bg-red-700 focus:ring-red-500 focus:ring-offset-2"
-                              aria-label={`Permanently delete ${project.name}`}
+                              aria-label={`Move ${project.name} to trash`}
                             >
                               {deletingProject === project.id ? (
                                 <>
                                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
-                                  Deleting...
+                                  Moving...
                                 </>
                               ) : (
                                 <>
                                   <Trash2 className="h-4 w-4 mr-2" aria-hidden="true" />
-                                  Delete Project
+                                  Move to Trash
                                 </>
                               )}
                             </AlertDialogAction>
@@ -458,6 +481,130 @@ export function ProjectDashboard({ limit = 10 }: ProjectDashboardProps) {
           )
         })}
       </div>
+      {trashSection}
+    </div>
+  )
+}
+
+interface TrashedProject {
+  id: string
+  name: string
+  description: string | null
+  deletedAt: string | Date | null
+  purgeAt: string | Date
+  _count: {
+    files: number
+  }
+}
+
+// Collapsible list of trashed projects with restore and permanent delete
+function ProjectTrash({ projects, onChanged }: { projects: TrashedProject[]; onChanged: () => void }) {
+  const [open, setOpen] = useState(false)
+
+  const restoreProject = api.project.restoreProject.useMutation({
+    onSuccess: () => {
+      toast.success('Project restored')
+      onChanged()
+    },
+    onError: (error) => {
+      toast.error(`Failed to restore project: ${error.message}`)
+    }
+  })
+
+  const permanentlyDeleteProject = api.project.permanentlyDeleteProject.useMutation({
+    onSuccess: () => {
+      toast.success('Project permanently deleted')
+      onChanged()
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete project: ${error.message}`)
+    }
+  })
+
+  if (projects.length === 0) return null
+
+  return (
+    <div className="mt-8 border-t border-gray-200 pt-4">
+      <Button variant="ghost" size="sm" onClick={() => setOpen(!open)} className="text-gray-600">
+        {open ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+        <Trash2 className="h-4 w-4 mr-1" />
+        Trash ({projects.length})
+      </Button>
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          {projects.map((project) => (
+            <div key={project.id} className="flex items-center justify-between p-3 rounded border border-gray-200 bg-gray-50">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-700 truncate">{project.name}</div>
+                <div className="text-xs text-gray-500">
+                  {project._count.files} files
+                  {project.deletedAt && <> • Deleted {formatDistanceToNow(new Date(project.deletedAt), { addSuffix: true })}</>}
+                  {' '}• Purged {formatDistanceToNow(new Date(project.purgeAt), { addSuffix: true })}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-xs h-8"
+                  onClick={() => restoreProject.mutate({ id: project.id })}
+                  disabled={restoreProject.isPending}
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Restore
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-xs h-8 text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
+                      aria-label={`Permanently delete ${project.name}`}
+                    >
+                      <XCircle className="h-3 w-3 mr-1" aria-hidden="true" />
+                      Delete forever
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent className="sm:max-w-md bg-white border border-gray-200 shadow-lg">
+                    <AlertDialogHeader>
+                      <AlertDialogTitle className="text-red-600 font-semibold text-lg">
+                        Permanently delete project
+                      </AlertDialogTitle>
+                      <AlertDialogDescription className="text-sm text-gray-600 space-y-2">
+                        <p>
+                          Permanently delete <strong>&quot;{project.name}&quot;</strong>?
+                        </p>
+                        <p className="text-red-600 font-medium">
+                          ⚠️ This action cannot be undone.
+                        </p>
+                        <ul className="text-xs text-gray-500 ml-4 list-disc space-y-1">
+                          <li>All project files ({project._count.files} files)</li>
+                          <li>Live previews and sandboxes</li>
+                          <li>Deployment history</li>
+                          <li>Chat sessions and messages</li>
+                        </ul>
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter className="flex flex-col-reverse sm:flex-row gap-2">
+                      <AlertDialogCancel className="w-full sm:w-auto" autoFocus>
+                        Cancel
+                      </AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => permanentlyDeleteProject.mutate({ id: project.id })}
+                        disabled={permanentlyDeleteProject.isPending}
+                        className="w-full sm:w-auto bg-red-600 hover:bg-red-700"
+                      >
+                        Delete forever
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,197 @@
+"use client"
+
+import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { KeyRound, Plus, Trash2, Eye, EyeOff, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+
+type EnvScope = 'SANDBOX' | 'PREVIEW' | 'PRODUCTION'
+
+const SCOPES: { value: EnvScope; label: string }[] = [
+  { value: 'SANDBOX', label: 'Sandbox' },
+  { value: 'PREVIEW', label: 'Preview' },
+  { value: 'PRODUCTION', label: 'Production' },
+]
+
+interface ProjectEnvDialogProps {
+  projectId: string
+}
+
+// Encrypted environment variables injected into sandboxes and deployments
+export function ProjectEnvDialog({ projectId }: ProjectEnvDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [key, setKey] = useState('')
+  const [value, setValue] = useState('')
+  const [scope, setScope] = useState<EnvScope>('SANDBOX')
+  const [revealed, setRevealed] = useState<Record<string, string>>({})
+
+  const { data: variables, isLoading, error, refetch } = api.env.listEnvVars.useQuery({ projectId }, {
+    enabled: open,
+  })
+
+  const setEnvVar = api.env.setEnvVar.useMutation({
+    onSuccess: (variable) => {
+      toast.success(`Saved ${variable.key}`)
+      setKey('')
+      setValue('')
+      setRevealed(({ [variable.id]: _, ...rest }) => rest)
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to save variable: ${error.message}`)
+    },
+  })
+
+  const deleteEnvVar = api.env.deleteEnvVar.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      toast.error(`Failed to delete variable: ${error.message}`)
+    },
+  })
+
+  const revealEnvVar = api.env.revealEnvVar.useMutation({
+    onSuccess: (result, variables) => {
+      setRevealed(prev => ({ ...prev, [variables.variableId]: result.value }))
+    },
+    onError: (error) => {
+      toast.error(`Failed to reveal variable: ${error.message}`)
+    },
+  })
+
+  const toggleReveal = (variableId: string) => {
+    if (variableId in revealed) {
+      setRevealed(({ [variableId]: _, ...rest }) => rest)
+    } else {
+      revealEnvVar.mutate({ projectId, variableId })
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen)
+        // Don't keep plaintext values around once the dialog closes
+        if (!nextOpen) setRevealed({})
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <KeyRound className="h-4 w-4 mr-1" />
+          Environment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Environment variables</DialogTitle>
+          <DialogDescription>
+            Values are encrypted at rest and masked in logs. Sandbox variables are used by live previews;
+            preview and production variables are passed to the matching deployments.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Add or replace a variable</Label>
+            <div className="flex gap-2">
+              <Input
+                placeholder="KEY"
+                className="font-mono"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+              />
+              <Input
+                type="password"
+                placeholder="value"
+                className="font-mono"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+              <Select value={scope} onValueChange={(next) => setScope(next as EnvScope)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCOPES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                onClick={() => setEnvVar.mutate({ projectId, key: key.trim(), value, scope })}
+                disabled={!key.trim() || setEnvVar.isPending}
+              >
+                {setEnvVar.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-1" />
+                )}
+                Save
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Running sandboxes pick up changes the next time they are restarted.
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600">{error.message}</p>
+          ) : !variables?.length ? (
+            <p className="text-sm text-gray-500">No environment variables yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {variables.map((variable) => (
+                <div key={variable.id} className="flex items-center justify-between text-sm p-2 rounded border border-gray-200">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="font-mono font-medium text-gray-700">{variable.key}</span>
+                    <Badge variant="outline">
+                      {SCOPES.find(option => option.value === variable.scope)?.label}
+                    </Badge>
+                    <span className="font-mono text-xs text-gray-500 truncate">
+                      {revealed[variable.id] ?? variable.maskedValue}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <span className="text-xs text-gray-400 mr-1">
+                      {formatDistanceToNow(new Date(variable.updatedAt), { addSuffix: true })}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleReveal(variable.id)}
+                      disabled={revealEnvVar.isPending}
+                      title={variable.id in revealed ? 'Hide value' : 'Reveal value'}
+                    >
+                      {variable.id in revealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteEnvVar.mutate({ projectId, variableId: variable.id })}
+                      disabled={deleteEnvVar.isPending}
+                      title="Delete variable"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Mail, Check, X } from 'lucide-react'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+
+// Pending invitations to other people's projects, shown on the dashboard
+export function ProjectInvitations() {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const { data: invitations, refetch } = api.collaborator.getMyInvitations.useQuery()
+
+  const respond = api.collaborator.respondToInvitation.useMutation({
+    onSuccess: (_, variables) => {
+      refetch()
+      if (variables.accept) {
+        toast.success('Invitation accepted')
+        queryClient.invalidateQueries({ queryKey: ['project.getUserProjects'] })
+        router.refresh()
+      }
+    },
+    onError: (error) => {
+      toast.error(`Failed to respond to invitation: ${error.message}`)
+    },
+  })
+
+  if (!invitations || invitations.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Mail className="h-5 w-5" />
+          Invitations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between p-3 rounded border border-gray-200">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900 truncate">{invitation.project.name}</span>
+                <Badge variant="outline">{invitation.role === 'EDITOR' ? 'Editor' : 'Viewer'}</Badge>
+              </div>
+              <div className="text-xs text-gray-500">
+                Invited by {invitation.invitedBy.name || invitation.invitedBy.username || 'someone'}{' '}
+                {formatDistanceToNow(new Date(invitation.createdAt), { addSuffix: true })}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                onClick={() => respond.mutate({ invitationId: invitation.id, accept: true })}
+                disabled={respond.isPending}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Accept
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => respond.mutate({ invitationId: invitation.id, accept: false })}
+                disabled={respond.isPending}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,16 +1,25 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { Play, Square, RotateCcw, ExternalLink, Monitor, Code, Eye, Loader2, MessageCircle } from 'lucide-react'
+import { Play, Square, RotateCcw, ExternalLink, Monitor, Code, Eye, Loader2, MessageCircle, History, Download, Package } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { toast } from 'sonner'
 import { api } from '@/trpc/client'
 import { FileEditor } from './file-editor'
 import { DeploymentPanel } from './deployment-panel'
 import { ProjectChat } from './project-chat'
+import { ProjectCheckpoints } from './project-checkpoints'
+import { GitAccessDialog } from './git-access-dialog'
+import { ProjectShareDialog } from './project-share-dialog'
+import { SaveTemplateDialog } from './save-template-dialog'
+import { ProjectEnvDialog } from './project-env-dialog'
+import { ProjectAIModelsDialog } from './project-ai-models-dialog'
+import { DependencyPanel } from './dependency-panel'
+import { GenerationProgress } from './generation-progress'
 
 interface ProjectFile {
   id: string
@@ -41,13 +50,15 @@ interface ProjectPreviewProps {
     name: string
     description: string | null
     framework: string | null
+    status: string
     files: ProjectFile[]
     sandboxes: Sandbox[] // Updated type name
   }
   className?: string
+  shareToken?: string // Read-only view through a share link
 }
 
-export function ProjectPreview({ project, className }: ProjectPreviewProps) {
+export function ProjectPreview({ project, className, shareToken }: ProjectPreviewProps) {
   const [activeTab, setActiveTab] = useState('preview')
   const [isCreatingSandbox, setIsCreatingSandbox] = useState(false)
   const [pollingSandboxId, setPollingSandboxId] = useState<string | null>(null)
@@ -112,6 +123,9 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
 
   // Start polling when a sandbox is in CREATING status
   useEffect(() => {
+    // Shared views can't manage the sandbox
+    if (shareToken) return
+
     const creatingSandbox = project.sandboxes.find(s => s.status === 'CREATING')
     
     if (creatingSandbox && !pollingSandboxId) {
@@ -153,7 +167,7 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
         clearInterval(pollingIntervalRef.current)
       }
     }
-  }, [project.sandboxes, pollingSandboxId, pollingAttempts])
+  }, [project.sandboxes, pollingSandboxId, pollingAttempts, shareToken])
 
   const createSandbox = api.project.createSandbox.useMutation({
     onSuccess: (data) => {
@@ -280,108 +294,158 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
 
         {/* Sandbox Controls */}
         <div className="flex items-center gap-2">
-          {activeSandbox ? (
-            <>
-              <div className="flex items-center gap-2">
-                <Badge className={getStatusColor(activeSandbox.status)}>
-                  {getStatusIcon(activeSandbox.status)}
-                  <span className="ml-1">{activeSandbox.status}</span>
-                  {activeSandbox.status === 'CREATING' && pollingSandboxId && (
-                    <span className="ml-1 text-xs">(checking...)</span>
-                  )}
-                </Badge>
-              </div>
+          {shareToken ? (
+            activeSandbox?.status === 'RUNNING' && activeSandbox.url && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.open(activeSandbox.url!, '_blank')}
+              >
+                <ExternalLink className="h-4 w-4 mr-1" />
+                Open
+              </Button>
+            )
+          ) : (
+          <>
+            <ProjectShareDialog projectId={project.id} />
+            <GitAccessDialog projectId={project.id} />
+            <ProjectEnvDialog projectId={project.id} />
+            <ProjectAIModelsDialog projectId={project.id} />
+            <SaveTemplateDialog
+              projectId={project.id}
+              projectName={project.name}
+              projectDescription={project.description}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="h-4 w-4 mr-1" />
+                  Download
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={`/api/projects/${project.id}/download`} download>
+                    Source code (.zip)
+                  </a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={`/api/projects/${project.id}/download?docker=1`} download>
+                    Source code + Dockerfile (.zip)
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            {activeSandbox ? (
+              <>
+                <div className="flex items-center gap-2">
+                  <Badge className={getStatusColor(activeSandbox.status)}>
+                    {getStatusIcon(activeSandbox.status)}
+                    <span className="ml-1">{activeSandbox.status}</span>
+                    {activeSandbox.status === 'CREATING' && pollingSandboxId && (
+                      <span className="ml-1 text-xs">(checking...)</span>
+                    )}
+                  </Badge>
+                </div>
               
-              {activeSandbox.status === 'RUNNING' && (
-                <>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => window.open(activeSandbox.url!, '_blank')}
-                    disabled={!activeSandbox.url}
-                  >
-                    <ExternalLink className="h-4 w-4 mr-1" />
-                    Open
-                  </Button>
+                {activeSandbox.status === 'RUNNING' && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => window.open(activeSandbox.url!, '_blank')}
+                      disabled={!activeSandbox.url}
+                    >
+                      <ExternalLink className="h-4 w-4 mr-1" />
+                      Open
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRestartSandbox}
+                      disabled={restartSandbox.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restart
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleStopSandbox}
+                      disabled={stopSandbox.isPending}
+                    >
+                      <Square className="h-4 w-4 mr-1" />
+                      Stop
+                    </Button>
+                  </>
+                )}
+              
+                {activeSandbox.status === 'STOPPED' && (
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={handleRestartSandbox}
                     disabled={restartSandbox.isPending}
                   >
-                    <RotateCcw className="h-4 w-4 mr-1" />
-                    Restart
+                    <Play className="h-4 w-4 mr-1" />
+                    Start
                   </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleStopSandbox}
-                    disabled={stopSandbox.isPending}
-                  >
-                    <Square className="h-4 w-4 mr-1" />
-                    Stop
-                  </Button>
-                </>
-              )}
-              
-              {activeSandbox.status === 'STOPPED' && (
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleRestartSandbox}
-                  disabled={restartSandbox.isPending}
-                >
+                )}
+                {activeSandbox?.status === 'CREATING' && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleStopSandbox}
+                      disabled={stopSandbox.isPending}
+                    >
+                      <Square className="h-4 w-4 mr-1" />
+                      Stop
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={handleForceRestart}
+                      disabled={isForceRestarting}
+                    >
+                      {isForceRestarting ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                      )}
+                      Force Restart
+                    </Button>
+                  </>
+                )}
+              </>
+            ) : (
+              <Button
+                onClick={handleCreateSandbox}
+                disabled={isCreatingSandbox || createSandbox.isPending}
+                size="sm"
+              >
+                {isCreatingSandbox || createSandbox.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
                   <Play className="h-4 w-4 mr-1" />
-                  Start
-                </Button>
-              )}
-              {activeSandbox?.status === 'CREATING' && (
-                <>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleStopSandbox}
-                    disabled={stopSandbox.isPending}
-                  >
-                    <Square className="h-4 w-4 mr-1" />
-                    Stop
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={handleForceRestart}
-                    disabled={isForceRestarting}
-                  >
-                    {isForceRestarting ? (
-                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                    ) : (
-                      <RotateCcw className="h-4 w-4 mr-1" />
-                    )}
-                    Force Restart
-                  </Button>
-                </>
-              )}
-            </>
-          ) : (
-            <Button
-              onClick={handleCreateSandbox}
-              disabled={isCreatingSandbox || createSandbox.isPending}
-              size="sm"
-            >
-              {isCreatingSandbox || createSandbox.isPending ? (
-                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-              ) : (
-                <Play className="h-4 w-4 mr-1" />
-              )}
-              Run Project
-            </Button>
+                )}
+                Run Project
+              </Button>
+            )}
+          </>
           )}
         </div>
       </div>
 
+      {/* Files appearing while AI generation runs */}
+      {project.status === 'BUILDING' && !shareToken && (
+        <GenerationProgress projectId={project.id} />
+      )}
+
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className={`grid w-full ${shareToken ? 'grid-cols-3' : 'grid-cols-7'}`}>
           <TabsTrigger value="preview" className="flex items-center gap-2">
             <Monitor className="h-4 w-4" />
             Preview
@@ -394,14 +458,26 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
             <MessageCircle className="h-4 w-4" />
             AI Chat
           </TabsTrigger>
-          <TabsTrigger value="deploy" className="flex items-center gap-2">
-            <ExternalLink className="h-4 w-4" />
-            Deploy
-          </TabsTrigger>
-          <TabsTrigger value="logs" className="flex items-center gap-2">
-            <Eye className="h-4 w-4" />
-            Logs
-          </TabsTrigger>
+          {!shareToken && (
+            <>
+              <TabsTrigger value="history" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                History
+              </TabsTrigger>
+              <TabsTrigger value="packages" className="flex items-center gap-2">
+                <Package className="h-4 w-4" />
+                Packages
+              </TabsTrigger>
+              <TabsTrigger value="deploy" className="flex items-center gap-2">
+                <ExternalLink className="h-4 w-4" />
+                Deploy
+              </TabsTrigger>
+              <TabsTrigger value="logs" className="flex items-center gap-2">
+                <Eye className="h-4 w-4" />
+                Logs
+              </TabsTrigger>
+            </>
+          )}
         </TabsList>
 
         {/* Preview Tab */}
@@ -462,6 +538,7 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
                     <p>🔒 <strong>Security:</strong> Your code runs in an isolated container with no access to your local system.</p>
                     <p>⚡ <strong>Performance:</strong> Once started, your app will be available instantly for live preview.</p>
                   </div>
+                  {!shareToken && (
                   <div className="mt-6">
                     <Button onClick={handleCreateSandbox} disabled={isCreatingSandbox}>
                       {isCreatingSandbox ? (
@@ -472,14 +549,18 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
                       Start a Custom Sandbox to see your project running live
                     </Button>
                   </div>
+                  )}
                 </div>
               ) : (
                 <div className="flex flex-col items-center justify-center h-[400px] text-center">
                   <Monitor className="h-12 w-12 text-gray-300 mb-4" />
                   <h3 className="text-lg font-medium">No Running Preview</h3>
                   <p className="text-gray-600 mb-4">
-                    Start a Custom Sandbox to see your project running live
+                    {shareToken
+                      ? 'The live preview is not running right now'
+                      : 'Start a Custom Sandbox to see your project running live'}
                   </p>
+                  {!shareToken && (
                   <Button onClick={handleCreateSandbox} disabled={isCreatingSandbox}>
                     {isCreatingSandbox ? (
                       <Loader2 className="h-4 w-4 mr-1 animate-spin" />
@@ -488,6 +569,7 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
                     )}
                     Run Project
                   </Button>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -510,6 +592,7 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
               <FileEditor 
                 projectId={project.id}
                 height="700px"
+                shareToken={shareToken}
               />
             </CardContent>
           </Card>
@@ -518,50 +601,67 @@ export function ProjectPreview({ project, className }: ProjectPreviewProps) {
         {/* Chat Tab */}
         <TabsContent value="chat" className="mt-6">
           <div className="h-[600px]">
-            <ProjectChat projectId={project.id} />
+            <ProjectChat projectId={project.id} shareToken={shareToken} />
           </div>
         </TabsContent>
 
-        {/* Deploy Tab */}
-        <TabsContent value="deploy" className="mt-6">
-          <DeploymentPanel 
-            projectId={project.id}
-            projectName={project.name}
-          />
-        </TabsContent>
+        {!shareToken && (
+          <>
+            {/* History Tab */}
+            <TabsContent value="history" className="mt-6">
+              <ProjectCheckpoints projectId={project.id} />
+            </TabsContent>
 
-        {/* Logs Tab */}
-        <TabsContent value="logs" className="mt-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Eye className="h-5 w-5" />
-                Custom Sandbox Logs
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="bg-black text-green-400 p-4 rounded-lg font-mono text-sm h-[400px] overflow-y-auto">
-                {activeSandbox ? (
-                  <div className="space-y-1">
-                    <div>📦 Container ID: {activeSandbox.e2bId}</div>
-                    <div>🚀 Status: {activeSandbox.status}</div>
-                    <div>🌐 Port: {activeSandbox.port}</div>
-                    {activeSandbox.url && <div>🔗 URL: {activeSandbox.url}</div>}
-                    <div>⏰ Framework: {project.framework}</div>
-                    <div>📁 Files: {project.files.length} files generated</div>
-                    <div>🕐 Created: {new Date(activeSandbox.createdAt).toLocaleString()}</div>
-                    <div>🔄 Updated: {new Date(activeSandbox.updatedAt).toLocaleString()}</div>
-                    <div className="text-yellow-400 mt-2">
-                      💡 Tip: Use the restart button to reload your application
-                    </div>
+            {/* Packages Tab */}
+            <TabsContent value="packages" className="mt-6">
+              <DependencyPanel
+                projectId={project.id}
+                sandboxId={activeSandbox?.status === 'RUNNING' ? activeSandbox.id : undefined}
+              />
+            </TabsContent>
+
+            {/* Deploy Tab */}
+            <TabsContent value="deploy" className="mt-6">
+              <DeploymentPanel 
+                projectId={project.id}
+                projectName={project.name}
+              />
+            </TabsContent>
+
+            {/* Logs Tab */}
+            <TabsContent value="logs" className="mt-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Eye className="h-5 w-5" />
+                    Custom Sandbox Logs
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="bg-black text-green-400 p-4 rounded-lg font-mono text-sm h-[400px] overflow-y-auto">
+                    {activeSandbox ? (
+                      <div className="space-y-1">
+                        <div>📦 Container ID: {activeSandbox.e2bId}</div>
+                        <div>🚀 Status: {activeSandbox.status}</div>
+                        <div>🌐 Port: {activeSandbox.port}</div>
+                        {activeSandbox.url && <div>🔗 URL: {activeSandbox.url}</div>}
+                        <div>⏰ Framework: {project.framework}</div>
+                        <div>📁 Files: {project.files.length} files generated</div>
+                        <div>🕐 Created: {new Date(activeSandbox.createdAt).toLocaleString()}</div>
+                        <div>🔄 Updated: {new Date(activeSandbox.updatedAt).toLocaleString()}</div>
+                        <div className="text-yellow-400 mt-2">
+                          💡 Tip: Use the restart button to reload your application
+                        </div>
+                      </div>
+                    ) : (
+                      <div>No sandbox created yet. Run your project to see logs.</div>
+                    )}
                   </div>
-                ) : (
-                  <div>No sandbox created yet. Run your project to see logs.</div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </>
+        )}
       </Tabs>
     </div>
   )
@@ -0,0 +1,260 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Search, Replace, Loader2, X, CaseSensitive, WholeWord, Regex, ChevronRight, ChevronDown, FileText } from 'lucide-react'
+import { api } from '@/trpc/client'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from './ui/alert-dialog'
+
+interface ProjectSearchPanelProps {
+  projectId: string
+  onClose: () => void
+  onOpenMatch: (fileId: string, line: number, column: number, length: number) => void
+  onReplaced: (fileIds: string[]) => void
+}
+
+function splitGlobs(value: string) {
+  return value.split(',').map(glob => glob.trim()).filter(Boolean)
+}
+
+export function ProjectSearchPanel({ projectId, onClose, onOpenMatch, onReplaced }: ProjectSearchPanelProps) {
+  const [query, setQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [include, setInclude] = useState('')
+  const [exclude, setExclude] = useState('')
+  const [isRegex, setIsRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const queryClient = useQueryClient()
+
+  // Avoid a request on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), 300)
+    return () => clearTimeout(timeout)
+  }, [query])
+
+  const searchOptions = {
+    projectId,
+    query: debouncedQuery,
+    isRegex,
+    caseSensitive,
+    wholeWord,
+    include: splitGlobs(include),
+    exclude: splitGlobs(exclude),
+  }
+
+  const { data: results, isFetching, error, refetch } = api.project.searchProjectFiles.useQuery(searchOptions, {
+    enabled: debouncedQuery.length > 0,
+    retry: false,
+  })
+
+  const replaceInFiles = api.project.replaceInProjectFiles.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Replaced ${result.totalReplacements} occurrences in ${result.files.length} files`)
+      queryClient.invalidateQueries({ queryKey: ['project.getProjectFiles'] })
+      refetch()
+      onReplaced(result.files.map(file => file.id))
+    },
+    onError: (error) => {
+      toast.error(`Failed to replace: ${error.message}`)
+    },
+  })
+
+  const toggleCollapsed = (fileId: string) => {
+    const next = new Set(collapsed)
+    if (next.has(fileId)) {
+      next.delete(fileId)
+    } else {
+      next.add(fileId)
+    }
+    setCollapsed(next)
+  }
+
+  const handleReplaceAll = (fileIds?: string[]) => {
+    replaceInFiles.mutate({
+      ...searchOptions,
+      replacement,
+      fileIds,
+    })
+  }
+
+  const optionButton = (active: boolean, onClick: () => void, title: string, Icon: typeof Regex) => (
+    <Button
+      variant={active ? 'secondary' : 'ghost'}
+      size="sm"
+      className="h-7 w-7 p-0"
+      onClick={onClick}
+      title={title}
+    >
+      <Icon className="h-4 w-4" />
+    </Button>
+  )
+
+  const hasResults = !!results && results.files.length > 0
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-2 space-y-2 border-b border-gray-200 bg-white">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Search className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-700">Search</span>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Input
+            placeholder="Search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="h-8 text-sm"
+            autoFocus
+          />
+          {optionButton(caseSensitive, () => setCaseSensitive(!caseSensitive), 'Match case', CaseSensitive)}
+          {optionButton(wholeWord, () => setWholeWord(!wholeWord), 'Match whole word', WholeWord)}
+          {optionButton(isRegex, () => setIsRegex(!isRegex), 'Use regular expression', Regex)}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Input
+            placeholder="Replace"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            className="h-8 text-sm"
+          />
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={!hasResults || replaceInFiles.isPending}
+                title="Replace all"
+              >
+                {replaceInFiles.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Replace className="h-4 w-4" />
+                )}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Replace all occurrences?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This will replace {results?.totalMatches ?? 0}{results?.truncated ? '+' : ''} matches
+                  of &quot;{debouncedQuery}&quot; with &quot;{replacement}&quot; in {results?.files.length ?? 0} files.
+                  Each file keeps its previous version in the file history.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => handleReplaceAll()}>
+                  Replace All
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        <Input
+          placeholder="Files to include, e.g. src/**/*.tsx"
+          value={include}
+          onChange={(e) => setInclude(e.target.value)}
+          className="h-7 text-xs"
+        />
+        <Input
+          placeholder="Files to exclude"
+          value={exclude}
+          onChange={(e) => setExclude(e.target.value)}
+          className="h-7 text-xs"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {isFetching ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : error ? (
+          <p className="text-xs text-red-600 p-2">{error.message}</p>
+        ) : !debouncedQuery ? (
+          <p className="text-xs text-gray-500 p-2">Type to search across all project files.</p>
+        ) : !hasResults ? (
+          <p className="text-xs text-gray-500 p-2">No results found.</p>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-xs text-gray-500 px-1 pb-1">
+              {results.totalMatches} results in {results.files.length} files
+              {results.truncated && ' (showing first results only)'}
+            </p>
+            {results.files.map((file) => (
+              <div key={file.fileId}>
+                <div
+                  className="group flex items-center py-1 px-1 hover:bg-gray-100 cursor-pointer rounded"
+                  onClick={() => toggleCollapsed(file.fileId)}
+                >
+                  {collapsed.has(file.fileId) ? (
+                    <ChevronRight className="h-4 w-4 mr-1 text-gray-400" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 mr-1 text-gray-400" />
+                  )}
+                  <FileText className="h-4 w-4 mr-1 text-gray-500" />
+                  <span className="text-sm text-gray-700 truncate flex-1">{file.path}</span>
+                  <span className="text-xs text-gray-500 mr-1">{file.matches.length}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleReplaceAll([file.fileId])
+                    }}
+                    disabled={replaceInFiles.isPending}
+                    title="Replace in this file"
+                  >
+                    <Replace className="h-3 w-3" />
+                  </Button>
+                </div>
+                {!collapsed.has(file.fileId) && file.matches.map((match, index) => (
+                  <div
+                    key={`${match.line}:${match.column}:${index}`}
+                    className="flex items-baseline py-0.5 pl-9 pr-1 hover:bg-blue-50 cursor-pointer rounded text-xs font-mono"
+                    onClick={() => onOpenMatch(file.fileId, match.line, match.column, match.length)}
+                  >
+                    <span className="text-gray-400 mr-2 shrink-0">{match.line}</span>
+                    <span className="truncate text-gray-700 whitespace-pre">
+                      {match.preview.slice(0, match.previewMatchStart)}
+                      <span className="bg-yellow-200 text-gray-900">
+                        {match.preview.slice(match.previewMatchStart, match.previewMatchStart + match.length)}
+                      </span>
+                      {match.preview.slice(match.previewMatchStart + match.length)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
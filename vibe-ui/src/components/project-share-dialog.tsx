@@ -0,0 +1,378 @@
+"use client"
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { Users, UserPlus, Trash2, LogOut, Mail, Link2, Copy, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+
+type CollaboratorRole = 'EDITOR' | 'VIEWER'
+
+interface CollaboratorUser {
+  id: string
+  name: string | null
+  username: string | null
+  email: string
+  avatar: string | null
+}
+
+interface ProjectShareDialogProps {
+  projectId: string
+}
+
+export function ProjectShareDialog({ projectId }: ProjectShareDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [invitee, setInvitee] = useState('')
+  const [inviteRole, setInviteRole] = useState<CollaboratorRole>('EDITOR')
+
+  const { data, isLoading, refetch } = api.collaborator.listCollaborators.useQuery({ projectId }, {
+    enabled: open,
+  })
+  const { data: currentUser } = api.user.getCurrent.useQuery(undefined, {
+    enabled: open,
+  })
+
+  const isOwner = data?.role === 'OWNER'
+
+  const inviteCollaborator = api.collaborator.inviteCollaborator.useMutation({
+    onSuccess: (invitation) => {
+      toast.success(`Invitation sent to ${invitation.email}`)
+      setInvitee('')
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to invite: ${error.message}`)
+    },
+  })
+
+  const cancelInvitation = api.collaborator.cancelInvitation.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      toast.error(`Failed to cancel invitation: ${error.message}`)
+    },
+  })
+
+  const updateRole = api.collaborator.updateCollaboratorRole.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      toast.error(`Failed to change role: ${error.message}`)
+    },
+  })
+
+  const removeCollaborator = api.collaborator.removeCollaborator.useMutation({
+    onSuccess: (_, variables) => {
+      if (variables.userId === currentUser?.id) {
+        toast.success('You left the project')
+        router.push('/dashboard')
+        return
+      }
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove collaborator: ${error.message}`)
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="h-4 w-4 mr-1" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Collaborators
+          </DialogTitle>
+          <DialogDescription>
+            Editors can change files, run the sandbox and deploy. Viewers can only read.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {isOwner && (
+            <div className="space-y-2">
+              <Label htmlFor="share-invitee">Invite by username or email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="share-invitee"
+                  placeholder="username or name@example.com"
+                  value={invitee}
+                  onChange={(e) => setInvitee(e.target.value)}
+                />
+                <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as CollaboratorRole)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="EDITOR">Editor</SelectItem>
+                    <SelectItem value="VIEWER">Viewer</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => inviteCollaborator.mutate({
+                    projectId,
+                    usernameOrEmail: invitee.trim(),
+                    role: inviteRole,
+                  })}
+                  disabled={!invitee.trim() || inviteCollaborator.isPending}
+                >
+                  {inviteCollaborator.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <UserPlus className="h-4 w-4 mr-1" />
+                  )}
+                  Invite
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {(data?.role === 'OWNER' || data?.role === 'EDITOR') && (
+            <ShareLinksSection projectId={projectId} />
+          )}
+
+          {isLoading || !data ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <CollaboratorRow user={data.owner}>
+                <Badge variant="secondary">Owner</Badge>
+              </CollaboratorRow>
+
+              {data.members.map((member) => (
+                <CollaboratorRow key={member.id} user={member.user}>
+                  {isOwner ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => updateRole.mutate({
+                          projectId,
+                          userId: member.userId,
+                          role: value as CollaboratorRole,
+                        })}
+                        disabled={updateRole.isPending}
+                      >
+                        <SelectTrigger className="w-28 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="EDITOR">Editor</SelectItem>
+                          <SelectItem value="VIEWER">Viewer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeCollaborator.mutate({ projectId, userId: member.userId })}
+                        disabled={removeCollaborator.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Badge variant="outline">{member.role === 'EDITOR' ? 'Editor' : 'Viewer'}</Badge>
+                      {member.userId === currentUser?.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeCollaborator.mutate({ projectId, userId: member.userId })}
+                          disabled={removeCollaborator.isPending}
+                          title="Leave project"
+                        >
+                          <LogOut className="h-4 w-4 text-red-500" />
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </CollaboratorRow>
+              ))}
+
+              {data.invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between text-sm p-2 rounded border border-dashed border-gray-200">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Mail className="h-4 w-4 text-gray-400 shrink-0" />
+                    <span className="text-gray-600 truncate">{invitation.email}</span>
+                    <Badge variant="outline">Pending · {invitation.role === 'EDITOR' ? 'Editor' : 'Viewer'}</Badge>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => cancelInvitation.mutate({ projectId, invitationId: invitation.id })}
+                    disabled={cancelInvitation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Expiry choices in days; 0 means the link never expires
+const LINK_EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '0', label: 'Never' },
+]
+
+// Read-only links for people without an account
+function ShareLinksSection({ projectId }: { projectId: string }) {
+  const [expiresInDays, setExpiresInDays] = useState('7')
+  const [newLinkUrl, setNewLinkUrl] = useState<string | null>(null)
+
+  const { data: links, refetch } = api.share.listShareLinks.useQuery({ projectId })
+
+  const createLink = api.share.createShareLink.useMutation({
+    onSuccess: (link) => {
+      setNewLinkUrl(`${window.location.origin}/share/${link.token}`)
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to create link: ${error.message}`)
+    },
+  })
+
+  const revokeLink = api.share.revokeShareLink.useMutation({
+    onSuccess: () => {
+      toast.success('Link revoked')
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to revoke link: ${error.message}`)
+    },
+  })
+
+  const copyLink = (url: string) => {
+    navigator.clipboard.writeText(url)
+    toast.success('Link copied to clipboard')
+  }
+
+  const getLinkStatus = (link: NonNullable<typeof links>[number]) => {
+    if (link.revokedAt) return 'Revoked'
+    if (link.expiresAt && new Date(link.expiresAt) <= new Date()) return 'Expired'
+    return link.expiresAt
+      ? `Expires ${formatDistanceToNow(new Date(link.expiresAt), { addSuffix: true })}`
+      : 'Never expires'
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Read-only links</Label>
+      {newLinkUrl && (
+        <div className="p-3 rounded border border-green-200 bg-green-50 space-y-2">
+          <p className="text-xs text-green-800">
+            Anyone with this link can view the files, AI chat and live preview. Copy it now; it won&apos;t be shown again.
+          </p>
+          <div className="flex gap-2">
+            <Input value={newLinkUrl} readOnly className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={() => copyLink(newLinkUrl)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LINK_EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => createLink.mutate({
+            projectId,
+            expiresInDays: Number(expiresInDays) || null,
+          })}
+          disabled={createLink.isPending}
+        >
+          {createLink.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Link2 className="h-4 w-4 mr-1" />
+          )}
+          Create link
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        {links?.map((link) => {
+          const isActive = !link.revokedAt && !(link.expiresAt && new Date(link.expiresAt) <= new Date())
+
+          return (
+            <div key={link.id} className="flex items-center justify-between text-sm p-2 rounded border border-gray-200">
+              <div className="min-w-0">
+                <div className={`font-medium truncate ${isActive ? 'text-gray-700' : 'text-gray-400 line-through'}`}>
+                  {link.name || `Link by ${link.createdBy.name || link.createdBy.username}`}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {getLinkStatus(link)}
+                  {link.lastUsedAt && ` · Last opened ${formatDistanceToNow(new Date(link.lastUsedAt), { addSuffix: true })}`}
+                </div>
+              </div>
+              {isActive && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeLink.mutate({ projectId, linkId: link.id })}
+                  disabled={revokeLink.isPending}
+                  title="Revoke link"
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function CollaboratorRow({ user, children }: { user: CollaboratorUser; children: React.ReactNode }) {
+  const displayName = user.name || user.username || user.email
+
+  return (
+    <div className="flex items-center justify-between text-sm p-2 rounded border border-gray-200">
+      <div className="flex items-center gap-2 min-w-0">
+        <Avatar className="h-7 w-7">
+          {user.avatar && <AvatarImage src={user.avatar} alt={displayName} />}
+          <AvatarFallback className="text-[10px]">
+            {displayName.slice(0, 2).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0">
+          <div className="font-medium text-gray-700 truncate">{displayName}</div>
+          {user.username && <div className="text-xs text-gray-500 truncate">@{user.username}</div>}
+        </div>
+      </div>
+      <div className="flex items-center gap-1">{children}</div>
+    </div>
+  )
+}
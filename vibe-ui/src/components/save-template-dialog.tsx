@@ -0,0 +1,119 @@
+"use client"
+
+import { useState } from 'react'
+import { LayoutTemplate, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+
+const PRIVATE_VISIBILITY = 'private'
+const PUBLIC_VISIBILITY = 'public'
+
+interface SaveTemplateDialogProps {
+  projectId: string
+  projectName: string
+  projectDescription?: string | null
+}
+
+// Snapshot the project's files as a template for the new project gallery
+export function SaveTemplateDialog({ projectId, projectName, projectDescription }: SaveTemplateDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState(projectName)
+  const [description, setDescription] = useState(projectDescription ?? '')
+  // 'private', 'public' or a workspace id
+  const [visibility, setVisibility] = useState(PRIVATE_VISIBILITY)
+
+  const { data: organizations } = api.organization.listMyOrganizations.useQuery(undefined, {
+    enabled: open,
+  })
+
+  const saveTemplate = api.template.saveProjectAsTemplate.useMutation({
+    onSuccess: (template) => {
+      toast.success(`Saved "${template.name}" with ${template._count.files} files`)
+      setOpen(false)
+    },
+    onError: (error) => {
+      toast.error(`Failed to save template: ${error.message}`)
+    },
+  })
+
+  const handleSave = () => {
+    const isWorkspace = visibility !== PRIVATE_VISIBILITY && visibility !== PUBLIC_VISIBILITY
+    saveTemplate.mutate({
+      projectId,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      isPublic: visibility === PUBLIC_VISIBILITY,
+      organizationId: isWorkspace ? visibility : undefined,
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <LayoutTemplate className="h-4 w-4 mr-1" />
+          Save as template
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            New projects can start from a copy of this project&apos;s current files.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Visible to</Label>
+            <Select value={visibility} onValueChange={setVisibility}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PRIVATE_VISIBILITY}>Only me</SelectItem>
+                {organizations?.map((organization) => (
+                  <SelectItem key={organization.id} value={organization.id}>
+                    {organization.name} workspace
+                  </SelectItem>
+                ))}
+                <SelectItem value={PUBLIC_VISIBILITY}>Everyone</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={handleSave}
+            disabled={!name.trim() || saveTemplate.isPending}
+          >
+            {saveTemplate.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
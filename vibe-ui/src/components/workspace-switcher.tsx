@@ -0,0 +1,305 @@
+"use client"
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Building2, Plus, Users, UserPlus, Trash2, LogOut, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { api } from '@/trpc/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+
+const PERSONAL_WORKSPACE = 'personal'
+
+type MemberRole = 'ADMIN' | 'MEMBER'
+
+interface WorkspaceSwitcherProps {
+  organizationId: string | null
+}
+
+// Picks the workspace the dashboard lists and creates projects in (?workspace=<id>)
+export function WorkspaceSwitcher({ organizationId }: WorkspaceSwitcherProps) {
+  const router = useRouter()
+  const { data: organizations, refetch } = api.organization.listMyOrganizations.useQuery()
+
+  const switchTo = (value: string) => {
+    router.push(value === PERSONAL_WORKSPACE ? '/dashboard' : `/dashboard?workspace=${value}`)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={organizationId ?? PERSONAL_WORKSPACE} onValueChange={switchTo}>
+        <SelectTrigger className="w-52">
+          <Building2 className="h-4 w-4 mr-2 text-gray-500" />
+          <SelectValue placeholder="Workspace" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={PERSONAL_WORKSPACE}>Personal</SelectItem>
+          {organizations?.map((organization) => (
+            <SelectItem key={organization.id} value={organization.id}>
+              {organization.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {organizationId && (
+        <WorkspaceMembersDialog
+          organizationId={organizationId}
+          onLeft={() => {
+            refetch()
+            router.push('/dashboard')
+          }}
+        />
+      )}
+
+      <CreateWorkspaceDialog
+        onCreated={(id) => {
+          refetch()
+          switchTo(id)
+        }}
+      />
+    </div>
+  )
+}
+
+function CreateWorkspaceDialog({ onCreated }: { onCreated: (organizationId: string) => void }) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+
+  const createOrganization = api.organization.createOrganization.useMutation({
+    onSuccess: (organization) => {
+      toast.success(`Created ${organization.name}`)
+      setOpen(false)
+      setName('')
+      onCreated(organization.id)
+    },
+    onError: (error) => {
+      toast.error(`Failed to create workspace: ${error.message}`)
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="New team workspace">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New team workspace</DialogTitle>
+          <DialogDescription>
+            Everyone in a workspace can open and edit its projects.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="workspace-name">Name</Label>
+          <Input
+            id="workspace-name"
+            placeholder="Acme Inc."
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => createOrganization.mutate({ name: name.trim() })}
+            disabled={!name.trim() || createOrganization.isPending}
+          >
+            {createOrganization.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function WorkspaceMembersDialog({ organizationId, onLeft }: { organizationId: string; onLeft: () => void }) {
+  const [open, setOpen] = useState(false)
+  const [newMember, setNewMember] = useState('')
+  const [newMemberRole, setNewMemberRole] = useState<MemberRole>('MEMBER')
+
+  const { data: organization, isLoading, refetch } = api.organization.getOrganization.useQuery({ organizationId }, {
+    enabled: open,
+  })
+  const { data: currentUser } = api.user.getCurrent.useQuery(undefined, {
+    enabled: open,
+  })
+
+  const canManage = organization?.role === 'OWNER' || organization?.role === 'ADMIN'
+  const isOwner = organization?.role === 'OWNER'
+
+  const addMember = api.organization.addMember.useMutation({
+    onSuccess: (member) => {
+      toast.success(`Added ${member.user.name || member.user.username}`)
+      setNewMember('')
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to add member: ${error.message}`)
+    },
+  })
+
+  const updateRole = api.organization.updateMemberRole.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      toast.error(`Failed to change role: ${error.message}`)
+    },
+  })
+
+  const removeMember = api.organization.removeMember.useMutation({
+    onSuccess: (_, variables) => {
+      if (variables.userId === currentUser?.id) {
+        toast.success('You left the workspace')
+        setOpen(false)
+        onLeft()
+        return
+      }
+      refetch()
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove member: ${error.message}`)
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Workspace members">
+          <Users className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            {organization?.name ?? 'Workspace'}
+          </DialogTitle>
+          <DialogDescription>
+            Members edit every project in the workspace. Admins also manage members and own the projects.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {canManage && (
+            <div className="space-y-2">
+              <Label htmlFor="workspace-member">Add by username or email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="workspace-member"
+                  placeholder="username or name@example.com"
+                  value={newMember}
+                  onChange={(e) => setNewMember(e.target.value)}
+                />
+                {isOwner && (
+                  <Select value={newMemberRole} onValueChange={(value) => setNewMemberRole(value as MemberRole)}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="MEMBER">Member</SelectItem>
+                      <SelectItem value="ADMIN">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  size="sm"
+                  onClick={() => addMember.mutate({
+                    organizationId,
+                    usernameOrEmail: newMember.trim(),
+                    role: isOwner ? newMemberRole : 'MEMBER',
+                  })}
+                  disabled={!newMember.trim() || addMember.isPending}
+                >
+                  {addMember.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <UserPlus className="h-4 w-4 mr-1" />
+                  )}
+                  Add
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {isLoading || !organization ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {organization.members.map((member) => {
+                const displayName = member.user.name || member.user.username || member.user.email
+                const isSelf = member.userId === currentUser?.id
+                const canRemove = member.role !== 'OWNER' && (isSelf || isOwner || (canManage && member.role === 'MEMBER'))
+
+                return (
+                  <div key={member.id} className="flex items-center justify-between text-sm p-2 rounded border border-gray-200">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Avatar className="h-7 w-7">
+                        {member.user.avatar && <AvatarImage src={member.user.avatar} alt={displayName} />}
+                        <AvatarFallback className="text-[10px]">
+                          {displayName.slice(0, 2).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-700 truncate">{displayName}</div>
+                        {member.user.username && <div className="text-xs text-gray-500 truncate">@{member.user.username}</div>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {isOwner && member.role !== 'OWNER' ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => updateRole.mutate({
+                            organizationId,
+                            userId: member.userId,
+                            role: value as MemberRole,
+                          })}
+                          disabled={updateRole.isPending}
+                        >
+                          <SelectTrigger className="w-28 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="MEMBER">Member</SelectItem>
+                            <SelectItem value="ADMIN">Admin</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant={member.role === 'OWNER' ? 'secondary' : 'outline'}>
+                          {member.role.charAt(0) + member.role.slice(1).toLowerCase()}
+                        </Badge>
+                      )}
+                      {canRemove && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMember.mutate({ organizationId, userId: member.userId })}
+                          disabled={removeMember.isPending}
+                          title={isSelf ? 'Leave workspace' : 'Remove member'}
+                        >
+                          {isSelf ? (
+                            <LogOut className="h-4 w-4 text-red-500" />
+                          ) : (
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
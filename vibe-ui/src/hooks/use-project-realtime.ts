@@ -0,0 +1,41 @@
+import * as React from "react"
+import { ProjectRealtimeConnection, type FileEvent, type PresenceClient } from "@/lib/realtime-client"
+
+interface UseProjectRealtimeOptions {
+  enabled?: boolean
+  onFileEvent?: (event: FileEvent) => void
+  onReconnect?: () => void
+}
+
+// Connects the editor to the project's realtime channel for as long as it is mounted
+export function useProjectRealtime(projectId: string, options: UseProjectRealtimeOptions = {}) {
+  const { enabled = true } = options
+  const [connection, setConnection] = React.useState<ProjectRealtimeConnection | null>(null)
+  const [isConnected, setIsConnected] = React.useState(false)
+  const [clients, setClients] = React.useState<PresenceClient[]>([])
+
+  // Latest callbacks, so the connection doesn't restart when they change
+  const handlersRef = React.useRef(options)
+  handlersRef.current = options
+
+  React.useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return
+
+    const realtime = new ProjectRealtimeConnection(projectId, {
+      onStatusChange: setIsConnected,
+      onPresence: setClients,
+      onFileEvent: (event) => handlersRef.current.onFileEvent?.(event),
+      onReconnect: () => handlersRef.current.onReconnect?.(),
+    })
+    realtime.connect()
+    setConnection(realtime)
+
+    return () => {
+      realtime.disconnect()
+      setConnection(null)
+      setClients([])
+    }
+  }, [projectId, enabled])
+
+  return { connection, isConnected, clients }
+}
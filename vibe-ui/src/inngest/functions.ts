@@ -1,6 +1,13 @@
 import { inngest } from './client'
 import { db } from '@/lib/db'
 import { aiProcessor } from '@/lib/ai-processor'
+import { fileRevisionService } from '@/lib/file-revisions'
+import { projectCheckpointService } from '@/lib/project-checkpoints'
+import { gitRepositoryService } from '@/lib/git-repository'
+import { createPlaceholderAsset, isAssetPath, projectAssetService } from '@/lib/project-assets'
+import { generationProgressService } from '@/lib/generation-progress'
+import { realtimeHub } from '@/lib/realtime-hub'
+import { getProjectModelSettings } from '@/lib/llm-providers'
 import type { GenerationResult, CodeQuality } from '@/lib/ai-processor'
 
 // Type definition for project file
@@ -25,16 +32,54 @@ type ProjectFile = {
 export const generateProjectFiles = inngest.createFunction(
   { id: 'project.files.generate' },
   { event: 'project/files/generate' },
-  async ({ event, step }) => {
+  async ({ event, step, runId }) => {
     const { projectId, analysisData, fileStructure } = event.data
 
-    // Step 1: Update project status to BUILDING
-    await step.run('update-project-status', async () => {
-      await db.project.update({
+    // Step 1: Update project status to BUILDING, reading the project's model overrides
+    const modelSettings = await step.run('update-project-status', async () => {
+      const project = await db.project.update({
         where: { id: projectId },
-        data: { status: 'BUILDING' }
+        data: { status: 'BUILDING' },
+        select: { aiModels: true }
       })
       console.log(`📁 Started enhanced AI generation for project ${projectId}`)
+      return getProjectModelSettings(project.aiModels)
+    })
+
+    // Snapshot the project before any AI writes so the whole run can be undone
+    await step.run('checkpoint-before', async () => {
+      await projectCheckpointService.safeCaptureCheckpoint({
+        projectId,
+        label: 'Before AI generation',
+        source: 'inngest.generateProjectFiles',
+        phase: 'BEFORE',
+      })
+    })
+
+    // Icons and other assets can't be written by the model, so store placeholder bytes instead
+    const assetPaths: string[] = fileStructure.filter(isAssetPath)
+    const textPaths = fileStructure.filter((filePath: string) => !isAssetPath(filePath))
+
+    if (assetPaths.length > 0) {
+      await step.run('create-placeholder-assets', async () => {
+        const snapshot = await realtimeHub.snapshotFileVersions(projectId)
+        for (const filePath of assetPaths) {
+          const data = createPlaceholderAsset(filePath)
+          if (data) {
+            await projectAssetService.saveAsset({ projectId, path: filePath, data })
+          }
+        }
+        await realtimeHub.publishChangesSince(projectId, snapshot)
+      })
+    }
+
+    // Every file the run will write shows up in the progress feed straight away
+    await step.run('record-queued-files', async () => {
+      await generationProgressService.safeRecordEvents(
+        projectId,
+        runId,
+        textPaths.map((path: string) => ({ path, status: 'QUEUED' as const }))
+      )
     })
 
     // Step 2: Generate files with enhanced multi-pass system
@@ -43,12 +88,14 @@ export const generateProjectFiles = inngest.createFunction(
     let totalQualityScore = 0
     const generationResults: GenerationResult[] = []
     
-    for (let i = 0; i < fileStructure.length; i += batchSize) {
-      const batch = fileStructure.slice(i, i + batchSize)
+    for (let i = 0; i < textPaths.length; i += batchSize) {
+      const batch = textPaths.slice(i, i + batchSize)
       
       await step.run(`generate-enhanced-batch-${Math.floor(i / batchSize)}`, async () => {
         const batchResults = await Promise.allSettled(
           batch.map(async (filePath: string) => {
+            const startedAt = Date.now()
+            await generationProgressService.safeRecordEvents(projectId, runId, [{ path: filePath, status: 'STARTED' }])
             try {
               console.log(`🔄 Generating ${filePath} with multi-pass system...`)
               
@@ -62,13 +109,20 @@ export const generateProjectFiles = inngest.createFunction(
               const result = await aiProcessor.generateFileContentEnhanced(
                 filePath, 
                 analysisData,
-                context
+                context,
+                modelSettings
               )
               
               generationResults.push(result)
               totalQualityScore += calculateOverallQuality(result.quality)
               
               console.log(`✅ Generated ${filePath} - Quality: ${calculateOverallQuality(result.quality)}% - Time: ${result.metadata.generationTime}ms`)
+              await generationProgressService.safeRecordEvents(projectId, runId, [{
+                path: filePath,
+                status: 'GENERATED',
+                qualityScore: calculateOverallQuality(result.quality),
+                durationMs: Date.now() - startedAt,
+              }])
               
               return {
                 filename: filePath.split('/').pop() || 'file',
@@ -89,6 +143,12 @@ export const generateProjectFiles = inngest.createFunction(
               }
             } catch (error) {
               console.error(`❌ Failed to generate ${filePath}:`, error)
+              await generationProgressService.safeRecordEvents(projectId, runId, [{
+                path: filePath,
+                status: 'FAILED',
+                durationMs: Date.now() - startedAt,
+                error: error instanceof Error ? error.message : 'Unknown error',
+              }])
               return {
                 filename: filePath.split('/').pop() || 'file',
                 path: filePath,
@@ -115,7 +175,7 @@ export const generateProjectFiles = inngest.createFunction(
            .map(result => result.value)
 
         // Save batch to database with enhanced metadata
-        await db.projectFile.createMany({
+        const savedFiles = await db.projectFile.createManyAndReturn({
           data: projectFiles.map(file => ({
             filename: file.filename,
             path: file.path,
@@ -125,6 +185,19 @@ export const generateProjectFiles = inngest.createFunction(
           })),
         })
 
+        // Record the generated content as the first revision of each file
+        await fileRevisionService.recordInitialRevisions(savedFiles.map(file => ({
+          fileId: file.id,
+          projectId: file.projectId,
+          path: file.path,
+          content: file.content,
+          author: 'AI' as const,
+          source: 'inngest.generateProjectFiles',
+        })))
+        for (const file of savedFiles) {
+          realtimeHub.publishFileEvent(projectId, { type: 'file-created', fileId: file.id, path: file.path })
+        }
+
         processedFiles += projectFiles.length
         
         // Log batch completion with quality metrics
@@ -133,6 +206,18 @@ export const generateProjectFiles = inngest.createFunction(
       })
     }
 
+    await step.run('checkpoint-after', async () => {
+      await projectCheckpointService.safeCaptureCheckpoint({
+        projectId,
+        label: 'After AI generation',
+        source: 'inngest.generateProjectFiles',
+        phase: 'AFTER',
+      })
+      await gitRepositoryService.safeCommitProjectState(projectId, `AI: generate ${fileStructure.length} project files`, {
+        author: 'AI',
+      })
+    })
+
     // Step 3: Generate quality report and finalize
     await step.run('finalize-with-quality-report', async () => {
       const averageQuality = totalQualityScore / generationResults.length
@@ -151,7 +236,7 @@ export const generateProjectFiles = inngest.createFunction(
       // Log comprehensive generation report
       console.log(`🎉 Project ${projectId} completed successfully!`)
       console.log(`📊 Quality Report:`)
-      console.log(`   - Files Generated: ${processedFiles}/${fileStructure.length}`)
+      console.log(`   - Files Generated: ${processedFiles}/${textPaths.length}`)
       console.log(`   - Average Quality Score: ${averageQuality.toFixed(1)}%`)
       console.log(`   - Total Generation Time: ${totalGenerationTime}ms`)
       console.log(`   - Average Time per File: ${(totalGenerationTime / processedFiles).toFixed(0)}ms`)
@@ -172,7 +257,7 @@ export const generateProjectFiles = inngest.createFunction(
     return { 
       projectId, 
       filesGenerated: processedFiles,
-      totalFiles: fileStructure.length,
+      totalFiles: textPaths.length,
       averageQuality: totalQualityScore / generationResults.length,
       totalGenerationTime: generationResults.reduce((sum, r) => sum + r.metadata.generationTime, 0),
       completed: true,
@@ -1,10 +1,49 @@
 import { db } from './db'
+import { Prisma, type AgentRunStatus } from '@/generated/prisma'
+import { fileRevisionService } from './file-revisions'
+import { FileConflictError, updateFileAtVersion } from './file-conflicts'
+import { projectCheckpointService } from './project-checkpoints'
+import { gitRepositoryService } from './git-repository'
+import { customSandboxService } from './custom-sandbox'
+import { realtimeHub } from './realtime-hub'
+import { normalizeAssetPath } from './project-assets'
+import { resolveProjectModel, type LLMMessage, type LLMToolDefinition } from './llm-providers'
+
+export const DEFAULT_MAX_STEPS = 15
+export const DEFAULT_TIME_LIMIT_MS = 5 * 60 * 1000
+export const MAX_TIME_LIMIT_MS = 15 * 60 * 1000
+
+const TERMINAL_TIMEOUT_MS = 2 * 60 * 1000
+const MAX_TERMINAL_OUTPUT_CHARS = 8000
+// Tool results go back into the prompt, so keep each one well inside the context window
+const MAX_TOOL_RESULT_CHARS = 40000
+
+const SYSTEM_PROMPT = `You are an expert AI coding agent working on a web project.
+Use the tools to inspect the project, change files and run commands in its sandbox.
+Read a file before changing it and pass its version back as expectedVersion.
+Always write complete file contents. When the task is done, reply with a short summary of what you changed and no tool calls.`
+
+export class AgentRunError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AgentRunError'
+  }
+}
+
+// What a tool may touch: the run's project, and its sandbox if one is running
+export interface AgentToolContext {
+  projectId: string
+  userId: string
+  sandboxId: string | null
+  signal?: AbortSignal
+  filesModified: Set<string> // paths written during the run
+}
 
 export interface AgentTool {
   name: string
   description: string
   parameters: Record<string, unknown>
-  execute: (args: Record<string, unknown>) => Promise<{
+  execute: (args: Record<string, unknown>, context: AgentToolContext) => Promise<{
     success: boolean
     result?: unknown
     error?: string
@@ -35,16 +74,28 @@ export interface AgentContext {
   }>
 }
 
+// Chat messages as sent to and received from the model, in provider-neutral form
+export type AgentTranscriptEntry = LLMMessage & { timestamp: string }
+
+export interface CodingTaskOptions {
+  sandboxId?: string // defaults to the project's running sandbox
+  maxSteps?: number
+  timeLimitMs?: number
+  signal?: AbortSignal
+}
+
 export interface AgentExecutionResult {
+  runId: string
+  status: AgentRunStatus
   success: boolean
-  result: unknown
   summary: string
+  steps: number
   filesModified: string[]
-  messages: Array<{
-    role: 'user' | 'assistant' | 'system' | 'function'
-    content: string
-    timestamp: Date
-  }>
+  transcript: AgentTranscriptEntry[]
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit)}\n... (truncated ${text.length - limit} characters)` : text
 }
 
 export class AIAgentSystem {
@@ -68,7 +119,7 @@ export class AIAgentSystem {
     // Terminal Tool - Allows agent to run commands within the sandbox
     tools.set('terminal', {
       name: 'terminal',
-      description: 'Run terminal commands in the sandbox environment. Returns detailed output including stdout and stderr for debugging.',
+      description: 'Run a shell command in the project\'s running sandbox container (the project is at /app). Returns the combined stdout and stderr and the exit code. Long-running commands such as dev servers are stopped after two minutes.',
       parameters: {
         type: 'object',
         properties: {
@@ -78,31 +129,67 @@ export class AIAgentSystem {
           },
           workingDirectory: {
             type: 'string',
-            description: 'Working directory for the command (optional)',
-            default: '/app'
+            description: 'Working directory for the command, relative to the project root (optional)'
           }
         },
         required: ['command']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, context: AgentToolContext) => {
         try {
-          const command = args.command as string
-          const workingDirectory = args.workingDirectory as string || '/app'
-          
-          console.log(`🔧 Executing command: ${command}`)
-          
-          // Simulate command execution
-          const result = {
-            stdout: `Command executed successfully: ${command}`,
-            stderr: '',
-            exitCode: 0,
-            workingDirectory
+          if (!context.sandboxId) {
+            return {
+              success: false,
+              error: 'No sandbox is running for this project',
+              message: 'Commands can only run while the project sandbox is running'
+            }
+          }
+
+          const command = String(args.command ?? '')
+          const directory = typeof args.workingDirectory === 'string'
+            ? normalizeAssetPath(args.workingDirectory.replace(/^\/?app\/?/, '')) ?? ''
+            : ''
+          const workingDirectory = directory ? `/app/${directory}` : '/app'
+
+          console.log(`🔧 Executing command in sandbox ${context.sandboxId}: ${command}`)
+
+          const signals = [AbortSignal.timeout(TERMINAL_TIMEOUT_MS)]
+          if (context.signal) signals.push(context.signal)
+
+          let output = ''
+          let exitCode: number | null = null
+          try {
+            // $0 and $1 keep the directory and command out of the script's quoting
+            exitCode = await customSandboxService.execInContainer(
+              context.sandboxId,
+              ['sh', '-c', 'cd -- "$0" && eval "$1"', workingDirectory, command],
+              (chunk) => {
+                output += chunk
+              },
+              AbortSignal.any(signals)
+            )
+          } catch (error) {
+            if (!(error instanceof Error && error.name === 'AbortError')) throw error
+          }
+
+          // The end of the output usually holds the error
+          const trimmedOutput = output.length > MAX_TERMINAL_OUTPUT_CHARS
+            ? `... (${output.length - MAX_TERMINAL_OUTPUT_CHARS} earlier characters omitted)\n${output.slice(-MAX_TERMINAL_OUTPUT_CHARS)}`
+            : output
+
+          if (exitCode === null) {
+            return {
+              success: false,
+              result: { output: trimmedOutput, workingDirectory },
+              error: 'Command was stopped before it finished',
+              message: 'Command timed out'
+            }
           }
 
           return {
-            success: true,
-            result,
-            message: `Command executed successfully with exit code ${result.exitCode}`
+            success: exitCode === 0,
+            result: { output: trimmedOutput, exitCode, workingDirectory },
+            error: exitCode === 0 ? undefined : `Command exited with code ${exitCode}`,
+            message: `Command finished with exit code ${exitCode}`
           }
         } catch (error) {
           return {
@@ -133,6 +220,10 @@ export class AIAgentSystem {
                 content: {
                   type: 'string',
                   description: 'File content'
+                },
+                expectedVersion: {
+                  type: 'number',
+                  description: 'Version of the file when it was read. Required for existing files; the write is rejected if the file changed since.'
                 }
               },
               required: ['path', 'content']
@@ -141,42 +232,157 @@ export class AIAgentSystem {
         },
         required: ['files']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, context: AgentToolContext) => {
         try {
-          const files = args.files as Array<{ path: string; content: string }>
+          const files = Array.isArray(args.files)
+            ? args.files as Array<{ path: string; content: string; expectedVersion?: number }>
+            : []
           console.log(`📝 Creating/updating ${files.length} files...`)
-          
-          const results: Array<{ path: string; status: string; message: string }> = []
-          
+
+          const results: Array<{
+            path: string
+            status: string
+            message: string
+            version?: number
+            currentContent?: string
+          }> = []
+          const synced: { path: string; content: string }[] = []
+
           for (const file of files) {
-            // Save file to database
-            await db.projectFile.upsert({
+            const path = typeof file.path === 'string' ? normalizeAssetPath(file.path) : null
+            if (!path || typeof file.content !== 'string') {
+              results.push({
+                path: String(file.path),
+                status: 'error',
+                message: 'Invalid file path or content'
+              })
+              continue
+            }
+
+            const existingFile = await db.projectFile.findUnique({
               where: {
                 projectId_path: {
-                  projectId: 'current-project-id', // This would be passed from context
-                  path: file.path
+                  projectId: context.projectId,
+                  path
                 }
               },
-              update: {
-                content: file.content,
-                updatedAt: new Date()
-              },
-              create: {
-                projectId: 'current-project-id',
-                filename: file.path.split('/').pop() || 'file',
-                path: file.path,
-                content: file.content,
-                language: this.getLanguageFromPath(file.path)
-              }
+              omit: { binaryContent: true }
             })
 
+            if (existingFile?.isBinary) {
+              results.push({
+                path,
+                status: 'error',
+                message: 'Binary files cannot be edited'
+              })
+              continue
+            }
+
+            // Existing files are only written at the version the agent read
+            if (existingFile && typeof file.expectedVersion !== 'number') {
+              results.push({
+                path,
+                status: 'conflict',
+                message: `${path} already exists; read it and pass its version as expectedVersion`,
+                version: existingFile.version,
+                currentContent: existingFile.content
+              })
+              continue
+            }
+
+            let savedFile
+            try {
+              savedFile = existingFile
+                ? await updateFileAtVersion(existingFile.id, file.expectedVersion, {
+                    content: file.content,
+                    size: Buffer.byteLength(file.content)
+                  })
+                : await db.projectFile.create({
+                    data: {
+                      projectId: context.projectId,
+                      filename: path.split('/').pop() || 'file',
+                      path,
+                      content: file.content,
+                      size: Buffer.byteLength(file.content),
+                      language: this.getLanguageFromPath(path)
+                    },
+                    omit: { binaryContent: true }
+                  })
+            } catch (error) {
+              if (error instanceof FileConflictError) {
+                results.push({
+                  path,
+                  status: 'conflict',
+                  message: error.message,
+                  version: error.current.version,
+                  currentContent: error.current.content
+                })
+                continue
+              }
+              // Someone else created the file since the agent looked
+              if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                results.push({
+                  path,
+                  status: 'conflict',
+                  message: `${path} was created by someone else; read it before writing`
+                })
+                continue
+              }
+              throw error
+            }
+
+            if (!savedFile) {
+              results.push({
+                path,
+                status: 'error',
+                message: 'File was deleted while it was being written'
+              })
+              continue
+            }
+
+            await fileRevisionService.recordRevision({
+              fileId: savedFile.id,
+              projectId: savedFile.projectId,
+              path: savedFile.path,
+              content: savedFile.content,
+              author: 'AI',
+              source: 'agent.createOrUpdateFiles',
+              userId: context.userId
+            }, existingFile ? { path: existingFile.path, content: existingFile.content } : undefined)
+
+            realtimeHub.publishFileEvent(context.projectId, existingFile
+              ? { type: 'file-updated', fileId: savedFile.id, path: savedFile.path, version: savedFile.version }
+              : { type: 'file-created', fileId: savedFile.id, path: savedFile.path }, savedFile.content)
+
+            context.filesModified.add(savedFile.path)
+            synced.push({ path: savedFile.path, content: savedFile.content })
             results.push({
-              path: file.path,
+              path,
               status: 'success',
-              message: 'File created/updated successfully'
+              message: existingFile ? 'File updated successfully' : 'File created successfully',
+              version: savedFile.version
             })
           }
 
+          // Keep the running preview in step with the saved files
+          if (context.sandboxId && synced.length > 0) {
+            try {
+              await customSandboxService.syncFilesToSandbox(context.sandboxId, synced)
+            } catch (error) {
+              console.error(`❌ Failed to sync agent files to sandbox:`, error)
+            }
+          }
+
+          const failed = results.filter(result => result.status !== 'success')
+          if (failed.length > 0) {
+            return {
+              success: false,
+              result: results,
+              error: `${failed.length} files were not saved: ${failed.map(result => result.path).join(', ')}`,
+              message: 'Fix the rejected files; re-read conflicting files and apply the changes to their current content'
+            }
+          }
+
           return {
             success: true,
             result: results,
@@ -214,40 +420,44 @@ export class AIAgentSystem {
         },
         required: ['paths']
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, context: AgentToolContext) => {
         try {
-          const paths = args.paths as string[]
+          const paths = Array.isArray(args.paths) ? args.paths.map(String) : []
           const includeContent = args.includeContent as boolean ?? true
-          
+
           console.log(`📖 Reading ${paths.length} files...`)
-          
+
           const files = await db.projectFile.findMany({
             where: {
+              projectId: context.projectId,
               path: {
                 in: paths
               }
-            }
+            },
+            omit: { binaryContent: true }
           })
 
           const results = files.map(file => ({
             path: file.path,
             exists: true,
-            content: includeContent ? file.content : undefined,
+            content: includeContent && !file.isBinary ? file.content : undefined,
             language: file.language,
-            size: file.content.length
+            size: file.isBinary ? file.size : file.content.length,
+            version: file.version // pass back as expectedVersion when writing
           }))
 
           // Add missing files
           const existingPaths = files.map(f => f.path)
           const missingPaths = paths.filter(path => !existingPaths.includes(path))
-          
+
           for (const path of missingPaths) {
             results.push({
               path,
               exists: false,
               content: undefined,
               language: null,
-              size: 0
+              size: 0,
+              version: 0
             })
           }
 
@@ -280,14 +490,16 @@ export class AIAgentSystem {
           }
         }
       },
-      execute: async (args: Record<string, unknown>) => {
+      execute: async (args: Record<string, unknown>, context: AgentToolContext) => {
         try {
           console.log('🔍 Analyzing project structure...')
-          
+
           const projectFiles = await db.projectFile.findMany({
             where: {
-              projectId: 'current-project-id' // This would be passed from context
-            }
+              projectId: context.projectId,
+              isBinary: false
+            },
+            omit: { binaryContent: true }
           })
 
           const analysis = {
@@ -295,7 +507,7 @@ export class AIAgentSystem {
             fileTypes: this.analyzeFileTypes(projectFiles),
             projectStructure: this.analyzeProjectStructure(projectFiles),
             dependencies: this.extractDependencies(projectFiles),
-            qualityAnalysis: args.includeQualityAnalysis !== false ? 
+            qualityAnalysis: args.includeQualityAnalysis !== false ?
               await this.analyzeCodeQuality(projectFiles) : undefined
           }
 
@@ -317,101 +529,229 @@ export class AIAgentSystem {
     return tools
   }
 
+  // The sandbox the terminal tool runs in: the requested one, or whichever is running
+  private async resolveSandbox(projectId: string, sandboxId?: string): Promise<string | null> {
+    if (sandboxId) {
+      const sandbox = await db.sandbox.findUnique({
+        where: { id: sandboxId },
+        select: { projectId: true, status: true }
+      })
+      if (!sandbox || sandbox.projectId !== projectId) {
+        throw new AgentRunError('Sandbox not found')
+      }
+      if (sandbox.status !== 'RUNNING') {
+        throw new AgentRunError('Sandbox is not running')
+      }
+      return sandboxId
+    }
+
+    const sandbox = await db.sandbox.findFirst({
+      where: { projectId, status: 'RUNNING' },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true }
+    })
+    return sandbox?.id ?? null
+  }
+
+  // Drive the model through tool calls until it answers without one, or a limit is hit.
+  // Every message is stored on the AgentRun as the run goes.
   async executeCodingTask(
-    projectId: string, 
-    userId: string, 
-    task: string
+    projectId: string,
+    userId: string,
+    task: string,
+    options: CodingTaskOptions = {}
   ): Promise<AgentExecutionResult> {
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS
+    const timeLimitMs = Math.min(options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS, MAX_TIME_LIMIT_MS)
+
+    const { provider, model, spec } = await resolveProjectModel(projectId, 'agent')
+    const sandboxId = await this.resolveSandbox(projectId, options.sandboxId)
+    const files = await db.projectFile.findMany({
+      where: { projectId },
+      select: { path: true },
+      orderBy: { path: 'asc' }
+    })
+
+    // A partial unique index allows one RUNNING run per project, so of two tasks
+    // started together only one gets created. Runs left RUNNING by a server
+    // restart are failed first, once they can't still be going.
+    let run
     try {
-      console.log(`🤖 Executing coding task for project ${projectId}: ${task}`)
-      
-      // Simulate AI agent execution
-      const messages: Array<{
-        role: 'user' | 'assistant' | 'system' | 'function'
-        content: string
-        timestamp: Date
-      }> = [
-        {
-          role: 'system',
-          content: 'You are an expert AI coding agent specialized in building modern web applications.',
-          timestamp: new Date()
-        },
-        {
-          role: 'user',
-          content: task,
-          timestamp: new Date()
+      run = await db.$transaction(async (tx) => {
+        await tx.agentRun.updateMany({
+          where: {
+            projectId,
+            status: 'RUNNING',
+            updatedAt: { lte: new Date(Date.now() - MAX_TIME_LIMIT_MS) }
+          },
+          data: {
+            status: 'FAILED',
+            error: 'The run was interrupted before it finished',
+            completedAt: new Date()
+          }
+        })
+        return tx.agentRun.create({
+          data: { projectId, userId, task, model: spec, sandboxId }
+        })
+      })
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AgentRunError('Another coding task is already running for this project')
+      }
+      throw error
+    }
+
+    console.log(`🤖 Executing coding task ${run.id} for project ${projectId}: ${task}`)
+
+    const timeLimit = AbortSignal.timeout(timeLimitMs)
+    const signal = options.signal ? AbortSignal.any([timeLimit, options.signal]) : timeLimit
+    const context: AgentToolContext = { projectId, userId, sandboxId, signal, filesModified: new Set() }
+
+    const now = () => new Date().toISOString()
+    const transcript: AgentTranscriptEntry[] = [
+      {
+        role: 'system',
+        content: `${SYSTEM_PROMPT}\n\n${sandboxId ? 'A sandbox is running, so the terminal tool is available.' : 'No sandbox is running, so the terminal tool is unavailable.'}\n\nProject files:\n${files.map(file => file.path).join('\n')}`,
+        timestamp: now()
+      },
+      { role: 'user', content: task, timestamp: now() }
+    ]
+    const tools: LLMToolDefinition[] = this.getAvailableTools().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }))
+
+    let steps = 0
+    let status: AgentRunStatus = 'STOPPED'
+    let summary = ''
+    let runError: string | null = null
+
+    const saveProgress = () => db.agentRun.update({
+      where: { id: run.id },
+      data: {
+        steps,
+        transcript: transcript as unknown as Prisma.InputJsonValue,
+        filesModified: [...context.filesModified]
+      }
+    })
+
+    await projectCheckpointService.safeCaptureCheckpoint({
+      projectId,
+      label: 'Before agent task',
+      source: 'agent.executeCodingTask',
+      phase: 'BEFORE',
+      userId
+    })
+
+    try {
+      while (steps < maxSteps) {
+        const message = await provider.chat({
+          model,
+          messages: transcript.map(({ timestamp: _timestamp, ...message }) => message),
+          tools,
+          temperature: 0.2,
+          signal
+        })
+        steps++
+
+        const toolCalls = message.toolCalls
+        transcript.push({
+          role: 'assistant',
+          content: message.content || null,
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+          timestamp: now()
+        })
+
+        if (toolCalls.length === 0) {
+          status = 'COMPLETED'
+          summary = message.content || 'Task completed'
+          break
         }
-      ]
 
-      // Simulate tool execution
-      const filesModified: string[] = []
-      
-      // Execute project analysis
-      const analysisTool = this.tools.get('analyzeProject')
-      if (analysisTool) {
-        const analysisResult = await analysisTool.execute({ includeQualityAnalysis: true })
-        if (analysisResult.success) {
-          messages.push({
-            role: 'function',
-            content: `Project analysis completed: ${analysisResult.message}`,
-            timestamp: new Date()
+        const modifiedBefore = context.filesModified.size
+        for (const call of toolCalls) {
+          const tool = this.tools.get(call.name)
+          let result: Awaited<ReturnType<AgentTool['execute']>>
+          try {
+            const args = JSON.parse(call.arguments || '{}')
+            result = tool
+              ? await tool.execute(args, context)
+              : { success: false, error: `Unknown tool ${call.name}`, message: 'Tool not found' }
+          } catch (error) {
+            result = {
+              success: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              message: 'Tool arguments were not valid JSON'
+            }
+          }
+
+          transcript.push({
+            role: 'tool',
+            toolCallId: call.id,
+            content: truncate(JSON.stringify(result), MAX_TOOL_RESULT_CHARS),
+            timestamp: now()
           })
         }
-      }
 
-      // Simulate file creation/updates
-      const createFilesTool = this.tools.get('createOrUpdateFiles')
-      if (createFilesTool) {
-        const sampleFiles = [
-          {
-            path: 'src/components/Example.tsx',
-            content: '// Example component generated by AI agent'
-          }
-        ]
-        
-        const createResult = await createFilesTool.execute({ files: sampleFiles })
-        if (createResult.success) {
-          filesModified.push(...sampleFiles.map(f => f.path))
-          messages.push({
-            role: 'function',
-            content: `Files created: ${createResult.message}`,
-            timestamp: new Date()
+        if (context.filesModified.size > modifiedBefore) {
+          await gitRepositoryService.safeCommitProjectState(projectId, `Agent step ${steps}: ${task.slice(0, 60)}`, {
+            author: 'AI',
+            userId
           })
         }
+        await saveProgress()
+        signal.throwIfAborted()
       }
 
-      // Generate summary
-      const summary = `Successfully executed coding task: ${task}. Modified ${filesModified.length} files.`
+      if (status !== 'COMPLETED') {
+        summary = `Stopped after reaching the limit of ${maxSteps} steps`
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        status = 'STOPPED'
+        summary = timeLimit.aborted
+          ? `Stopped after reaching the ${Math.round(timeLimitMs / 1000)}s time limit`
+          : 'Stopped before the task finished'
+      } else {
+        console.error('❌ Coding task execution failed:', error)
+        status = 'FAILED'
+        runError = error instanceof Error ? error.message : 'Unknown error'
+        summary = `Task execution failed: ${runError}`
+      }
+    }
 
-      messages.push({
-        role: 'assistant',
-        content: summary,
-        timestamp: new Date()
+    if (context.filesModified.size > 0) {
+      await projectCheckpointService.safeCaptureCheckpoint({
+        projectId,
+        label: 'After agent task',
+        source: 'agent.executeCodingTask',
+        phase: 'AFTER',
+        userId
       })
+    }
 
-      return {
-        success: true,
-        result: { task, projectId, userId },
+    await db.agentRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        steps,
+        transcript: transcript as unknown as Prisma.InputJsonValue,
+        filesModified: [...context.filesModified],
         summary,
-        filesModified,
-        messages
+        error: runError,
+        completedAt: new Date()
       }
+    })
 
-    } catch (error) {
-      console.error('❌ Coding task execution failed:', error)
-      return {
-        success: false,
-        result: null,
-        summary: error instanceof Error ? error.message : 'Unknown error',
-        filesModified: [],
-        messages: [
-          {
-            role: 'system',
-            content: `Task execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            timestamp: new Date()
-          }
-        ]
-      }
+    return {
+      runId: run.id,
+      status,
+      success: status === 'COMPLETED',
+      summary,
+      steps,
+      filesModified: [...context.filesModified],
+      transcript
     }
   }
 
@@ -494,7 +834,7 @@ export class AIAgentSystem {
       qualityAnalysis.complexityScore += complexity
     })
 
-    qualityAnalysis.averageFileSize = qualityAnalysis.totalLines / files.length
+    qualityAnalysis.averageFileSize = files.length > 0 ? qualityAnalysis.totalLines / files.length : 0
 
     return qualityAnalysis
   }
@@ -1,12 +1,8 @@
-import OpenAI from 'openai';
 import { z } from 'zod';
+import { formatContent } from './project-lint';
+import { LLMOutputError, resolveModel, type LLMModelSettings } from './llm-providers';
 
-// Initialize OpenAI client with enhanced configuration
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  maxRetries: 3,
-  timeout: 60000, // 60 seconds timeout
-});
+const REQUEST_TIMEOUT_MS = 60000; // 60 seconds timeout
 
 // Rate limiting configuration
 const RATE_LIMIT_CONFIG = {
@@ -93,14 +89,6 @@ async function retryWithBackoff<T>(
   throw lastError;
 }
 
-// Enhanced model configuration for different tasks
-const AI_MODELS = {
-  ANALYSIS: 'gpt-4o-mini', // For initial analysis
-  GENERATION: 'gpt-4o-mini', // For code generation (better quality)
-  VALIDATION: 'gpt-4o-mini', // For code validation
-  OPTIMIZATION: 'gpt-4o-mini' // For code optimization
-};
-
 // Code quality metrics schema
 const CodeQualitySchema = z.object({
   syntaxValid: z.boolean(),
@@ -222,10 +210,9 @@ export class AIPromptProcessor {
     return AIPromptProcessor.instance;
   }
 
-  async analyzePrompt(userPrompt: string): Promise<ProjectAnalysis> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key is not configured');
-    }
+  async analyzePrompt(userPrompt: string, models?: LLMModelSettings): Promise<ProjectAnalysis> {
+    // Throws LLMConfigError when the analysis model's provider has no credentials
+    const { provider, model } = resolveModel('analysis', models);
 
     const systemPrompt = `You are an expert web developer and UI/UX designer specializing in creating modern, interactive applications. Your task is to analyze user requests and provide detailed recommendations for building exceptional user interfaces.
 
@@ -308,41 +295,34 @@ You MUST return a JSON object with EXACTLY these fields:
 
 DO NOT return any other format or additional fields.`;
 
-    const completion = await retryWithBackoff(async () => {
-      return await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { 
-            role: 'user', 
-            content: `Analyze this UI/UX project request and provide detailed recommendations for creating an exceptional user interface: "${userPrompt}"
+    try {
+      return await retryWithBackoff(async () => {
+        return await provider.structured({
+          model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { 
+              role: 'user', 
+              content: `Analyze this UI/UX project request and provide detailed recommendations for creating an exceptional user interface: "${userPrompt}"
 
 Additional context:
 - Focus on creating visually stunning and highly interactive UI
 - Prioritize user experience and accessibility
 - Suggest modern design patterns and animations
 - Ensure the UI is responsive and performant
-- Include proper error handling and loading states` 
-          }
-        ],
-        temperature: 0.7,
-        response_format: { type: 'json_object' },
+- Include proper error handling and loading states`
+            }
+          ],
+          temperature: 0.7,
+          timeoutMs: REQUEST_TIMEOUT_MS,
+        }, ProjectAnalysisSchema);
       });
-    });
-
-    const responseContent = completion.choices[0]?.message?.content;
-    
-    if (!responseContent) {
-      throw new Error('No response from OpenAI');
-    }
-
-    try {
-      const parsedResponse = JSON.parse(responseContent);
-      return ProjectAnalysisSchema.parse(parsedResponse);
     } catch (error) {
+      if (!(error instanceof LLMOutputError)) throw error;
+
       console.error('Failed to parse AI response:', error);
-      console.error('Raw response:', responseContent);
-      
+      console.error('Raw response:', error.raw);
+
       // Fallback to basic analysis
       return this.createFallbackAnalysis(userPrompt);
     }
@@ -481,10 +461,11 @@ Additional context:
   async generateFileContentEnhanced(
     filePath: string, 
     analysis: ProjectAnalysis,
-    context?: { relatedFiles?: string[], projectContext?: string }
+    context?: { relatedFiles?: string[], projectContext?: string },
+    models?: LLMModelSettings
   ): Promise<GenerationResult> {
     const startTime = Date.now();
-    const cacheKey = `${filePath}-${JSON.stringify(analysis)}-${JSON.stringify(context)}`;
+    const cacheKey = `${filePath}-${JSON.stringify(analysis)}-${JSON.stringify(context)}-${JSON.stringify(models)}`;
     
     // Check cache first
     if (this.generationCache.has(cacheKey)) {
@@ -507,7 +488,7 @@ Additional context:
 
     try {
       // Multi-pass generation system with rate limiting fallback
-      let result = await this.generateInitialCode(filePath, analysis, context);
+      let result = await this.generateInitialCode(filePath, analysis, context, models);
       
       // Check if we should skip additional passes due to rate limiting
       if (!rateLimiter.canMakeRequest()) {
@@ -520,7 +501,7 @@ Additional context:
       
       try {
         // Pass 1: Code validation and improvement (optional)
-        result = await this.validateAndImproveCode(result, filePath, analysis);
+        result = await this.validateAndImproveCode(result, filePath, analysis, models);
         
         // Skip remaining passes if rate limit is approaching
         if (!rateLimiter.canMakeRequest()) {
@@ -532,7 +513,7 @@ Additional context:
         }
         
         // Pass 2: Quality optimization (optional)
-        result = await this.optimizeCodeQuality(result, filePath, analysis);
+        result = await this.optimizeCodeQuality(result, filePath, analysis, models);
         
         // Skip final pass if rate limit is approaching
         if (!rateLimiter.canMakeRequest()) {
@@ -544,7 +525,7 @@ Additional context:
         }
         
         // Pass 3: Final polish and accessibility (optional)
-        result = await this.finalPolishAndAccessibility(result, filePath, analysis);
+        result = await this.finalPolishAndAccessibility(result, filePath, analysis, models);
         
       } catch (passError) {
         console.log(`⚠️ Multi-pass failed for ${filePath}, using single-pass result:`, passError);
@@ -579,39 +560,43 @@ Additional context:
   private async generateInitialCode(
     filePath: string, 
     analysis: ProjectAnalysis,
-    context?: { relatedFiles?: string[], projectContext?: string }
+    context?: { relatedFiles?: string[], projectContext?: string },
+    models?: LLMModelSettings
   ): Promise<GenerationResult> {
+    const { provider, model, spec } = resolveModel('generation', models);
     const systemPrompt = this.buildEnhancedSystemPrompt(analysis, context);
     const userPrompt = this.buildEnhancedUserPrompt(filePath, analysis, context);
 
     const completion = await retryWithBackoff(async () => {
-      return await openai.chat.completions.create({
-        model: AI_MODELS.GENERATION,
+      return await provider.chat({
+        model,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
         temperature: 0.3, // Lower temperature for more consistent code
-        max_tokens: 4000,
-        top_p: 0.9,
-        frequency_penalty: 0.1,
-        presence_penalty: 0.1,
+        maxTokens: 4000,
+        topP: 0.9,
+        timeoutMs: REQUEST_TIMEOUT_MS,
       });
     });
 
-    let content = completion.choices[0]?.message?.content || '';
+    let content = completion.content;
     
     // Validate and clean the generated content
     content = this.validateAndCleanGeneratedContent(content, filePath);
+
+    // The regex clean-ups leave uneven formatting; Prettier evens it out when the code parses
+    content = (await formatContent(filePath, content)) ?? content;
     
     return {
       content,
-      quality: await this.analyzeCodeQuality(content, filePath, analysis),
+      quality: await this.analyzeCodeQuality(content, filePath, analysis, models),
       metadata: {
-        model: AI_MODELS.GENERATION,
+        model: spec,
         iterations: 1,
         generationTime: 0,
-        tokens: completion.usage?.total_tokens,
+        tokens: completion.usage?.totalTokens,
       }
     };
   }
@@ -1336,7 +1321,8 @@ ${content}`;
   private async validateAndImproveCode(
     result: GenerationResult, 
     filePath: string, 
-    analysis: ProjectAnalysis
+    analysis: ProjectAnalysis,
+    models?: LLMModelSettings
   ): Promise<GenerationResult> {
     const validationPrompt = `
 You are a senior code reviewer. Analyze this ${filePath} code and improve it:
@@ -1372,20 +1358,22 @@ IMPROVEMENT INSTRUCTIONS:
 Return ONLY the improved code, no explanations.
 `;
 
+    const { provider, model } = resolveModel('validation', models);
     const completion = await retryWithBackoff(async () => {
-      return await openai.chat.completions.create({
-        model: AI_MODELS.VALIDATION,
+      return await provider.chat({
+        model,
         messages: [{ role: 'user', content: validationPrompt }],
         temperature: 0.2,
-        max_tokens: 4000,
+        maxTokens: 4000,
+        timeoutMs: REQUEST_TIMEOUT_MS,
       });
     });
 
-    const improvedContent = completion.choices[0]?.message?.content || result.content;
+    const improvedContent = completion.content || result.content;
     
     return {
       content: improvedContent,
-      quality: await this.analyzeCodeQuality(improvedContent, filePath, analysis),
+      quality: await this.analyzeCodeQuality(improvedContent, filePath, analysis, models),
       metadata: {
         ...result.metadata,
         iterations: result.metadata.iterations + 1,
@@ -1397,7 +1385,8 @@ Return ONLY the improved code, no explanations.
   private async optimizeCodeQuality(
     result: GenerationResult, 
     filePath: string, 
-    analysis: ProjectAnalysis
+    analysis: ProjectAnalysis,
+    models?: LLMModelSettings
   ): Promise<GenerationResult> {
     // Skip optimization if quality is already high
     if (this.calculateOverallQuality(result.quality) >= 85) {
@@ -1435,20 +1424,22 @@ DESIGN SYSTEM CONTEXT:
 Return ONLY the optimized code with enhanced UX.
 `;
 
+    const { provider, model } = resolveModel('optimization', models);
     const completion = await retryWithBackoff(async () => {
-      return await openai.chat.completions.create({
-        model: AI_MODELS.OPTIMIZATION,
+      return await provider.chat({
+        model,
         messages: [{ role: 'user', content: optimizationPrompt }],
         temperature: 0.3,
-        max_tokens: 4000,
+        maxTokens: 4000,
+        timeoutMs: REQUEST_TIMEOUT_MS,
       });
     });
 
-    const optimizedContent = completion.choices[0]?.message?.content || result.content;
+    const optimizedContent = completion.content || result.content;
     
     return {
       content: optimizedContent,
-      quality: await this.analyzeCodeQuality(optimizedContent, filePath, analysis),
+      quality: await this.analyzeCodeQuality(optimizedContent, filePath, analysis, models),
       metadata: {
         ...result.metadata,
         iterations: result.metadata.iterations + 1,
@@ -1460,7 +1451,8 @@ Return ONLY the optimized code with enhanced UX.
   private async finalPolishAndAccessibility(
     result: GenerationResult, 
     filePath: string, 
-    analysis: ProjectAnalysis
+    analysis: ProjectAnalysis,
+    models?: LLMModelSettings
   ): Promise<GenerationResult> {
     const polishPrompt = `
 You are an accessibility expert. Apply final polish to this ${filePath} code:
@@ -1492,20 +1484,22 @@ ACCESSIBILITY CHECKLIST:
 Return the final, production-ready code.
 `;
 
+    const { provider, model } = resolveModel('optimization', models);
     const completion = await retryWithBackoff(async () => {
-      return await openai.chat.completions.create({
-        model: AI_MODELS.OPTIMIZATION,
+      return await provider.chat({
+        model,
         messages: [{ role: 'user', content: polishPrompt }],
         temperature: 0.1, // Very low temperature for consistent polish
-        max_tokens: 4000,
+        maxTokens: 4000,
+        timeoutMs: REQUEST_TIMEOUT_MS,
       });
     });
 
-    const polishedContent = completion.choices[0]?.message?.content || result.content;
+    const polishedContent = completion.content || result.content;
     
     return {
       content: polishedContent,
-      quality: await this.analyzeCodeQuality(polishedContent, filePath, analysis),
+      quality: await this.analyzeCodeQuality(polishedContent, filePath, analysis, models),
       metadata: {
         ...result.metadata,
         iterations: result.metadata.iterations + 1,
@@ -1517,7 +1511,8 @@ Return the final, production-ready code.
   private async analyzeCodeQuality(
     content: string, 
     filePath: string, 
-    analysis: ProjectAnalysis
+    analysis: ProjectAnalysis,
+    models?: LLMModelSettings
   ): Promise<CodeQuality> {
     const qualityPrompt = `
 Analyze this ${filePath} code quality and return a JSON assessment:
@@ -1555,21 +1550,16 @@ Return JSON format:
 `;
 
     try {
-      const completion = await retryWithBackoff(async () => {
-        return await openai.chat.completions.create({
-          model: AI_MODELS.VALIDATION,
+      const { provider, model } = resolveModel('validation', models);
+      return await retryWithBackoff(async () => {
+        return await provider.structured({
+          model,
           messages: [{ role: 'user', content: qualityPrompt }],
-          response_format: { type: 'json_object' },
           temperature: 0.1,
-          max_tokens: 1000,
-        });
+          maxTokens: 1000,
+          timeoutMs: REQUEST_TIMEOUT_MS,
+        }, CodeQualitySchema);
       });
-
-      const qualityResponse = completion.choices[0]?.message?.content;
-      if (qualityResponse) {
-        const parsed = JSON.parse(qualityResponse);
-        return CodeQualitySchema.parse(parsed);
-      }
     } catch (error) {
       console.error('Failed to analyze code quality:', error);
     }
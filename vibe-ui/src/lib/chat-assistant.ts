@@ -0,0 +1,190 @@
+import { z } from 'zod'
+import type { Prisma } from '@/generated/prisma'
+import {
+  getProjectModelSettings,
+  resolveModel,
+  type LLMChatRequest,
+  type LLMMessage,
+  type LLMToolDefinition,
+  type ResolvedModel,
+} from './llm-providers'
+
+const MAX_REPLY_TOKENS = 4000
+const MAX_EDITING_REPLY_TOKENS = 8000
+
+// Keep the project files sent with each message within the model's context window
+const MAX_CONTEXT_FILE_CHARS = 12000
+const MAX_CONTEXT_TOTAL_CHARS = 60000
+
+export interface ChatProjectContext {
+  name: string
+  description?: string | null
+  framework?: string | null
+  styling?: string | null
+  database?: string | null
+  initialPrompt?: string | null
+  aiModels?: Prisma.JsonValue | null // per-project model overrides
+}
+
+export interface AssistantReply {
+  content: string
+  files: { path: string; content: string }[] // complete new contents, reviewed before they are written
+}
+
+const proposedFilesSchema = z.object({
+  files: z.array(z.object({
+    path: z.string().min(1),
+    content: z.string(),
+  })),
+})
+
+const PROPOSE_FILE_CHANGES_TOOL: LLMToolDefinition = {
+  name: 'proposeFileChanges',
+  description: 'Propose changes to project files. The user reviews every change before it is applied.',
+  parameters: {
+    type: 'object',
+    properties: {
+      files: {
+        type: 'array',
+        description: 'Only the files you change or add',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'File path relative to the project root' },
+            content: { type: 'string', description: 'The complete new file content' },
+          },
+          required: ['path', 'content'],
+        },
+      },
+    },
+    required: ['files'],
+  },
+}
+
+function buildSystemMessage(project: ChatProjectContext | null, projectFiles?: { path: string; content: string }[]): string {
+  const systemMessage = `You are an AI assistant helping with software development. ${
+    project
+      ? `The user is working on a project called "${project.name}" - ${project.description || 'No description provided'}.
+         Project details: Framework: ${project.framework || 'Not specified'},
+         Styling: ${project.styling || 'Not specified'},
+         Database: ${project.database || 'Not specified'}.
+         ${project.initialPrompt ? `Original project prompt: "${project.initialPrompt}"` : ''}`
+      : 'The user is having a general conversation about software development.'
+  }
+
+You should:
+- Provide helpful, accurate programming advice
+- Help with debugging and problem-solving
+- Suggest best practices and improvements
+- Answer questions about the project or general development
+- Be encouraging and supportive
+- Keep responses concise but comprehensive
+- Use code examples when helpful
+- Ask clarifying questions when needed
+
+Be conversational and friendly while maintaining technical accuracy.`
+
+  if (!projectFiles) return systemMessage
+
+  let budget = MAX_CONTEXT_TOTAL_CHARS
+  const included = projectFiles.filter(file => {
+    if (file.content.length > MAX_CONTEXT_FILE_CHARS || file.content.length > budget) return false
+    budget -= file.content.length
+    return true
+  })
+  const omitted = projectFiles.filter(file => !included.includes(file))
+
+  return `${systemMessage}
+
+When the user asks for a change to the project, make it: explain the change briefly and call proposeFileChanges with the complete new content of each file you change or add.
+
+Project files:
+${included.map(file => `--- ${file.path}\n${file.content}`).join('\n\n')}${
+  omitted.length > 0 ? `\n\nOther files (not shown): ${omitted.map(file => file.path).join(', ')}` : ''
+}`
+}
+
+// With projectFiles the assistant may also propose file changes
+function buildRequest(
+  model: string,
+  messages: { role: string; content: string }[],
+  project: ChatProjectContext | null,
+  projectFiles?: { path: string; content: string }[]
+): LLMChatRequest {
+  const chatMessages: LLMMessage[] = [
+    {
+      role: 'system',
+      content: buildSystemMessage(project, projectFiles),
+    },
+    ...messages.map((msg) => ({
+      role: msg.role.toLowerCase() === 'user' ? 'user' as const : 'assistant' as const,
+      content: msg.content,
+    })),
+  ]
+
+  return {
+    model,
+    messages: chatMessages,
+    maxTokens: projectFiles ? MAX_EDITING_REPLY_TOKENS : MAX_REPLY_TOKENS,
+    temperature: 0.7,
+    ...(projectFiles ? { tools: [PROPOSE_FILE_CHANGES_TOOL] } : {}),
+  }
+}
+
+function toReply(content: string, toolCalls: { name: string; arguments: string }[]): AssistantReply {
+  const files: AssistantReply['files'] = []
+  for (const call of toolCalls) {
+    if (call.name !== PROPOSE_FILE_CHANGES_TOOL.name) continue
+    try {
+      files.push(...proposedFilesSchema.parse(JSON.parse(call.arguments)).files)
+    } catch {
+      throw new Error('AI proposed file changes that were not valid JSON')
+    }
+  }
+
+  if (content) return { content, files }
+  return {
+    content: files.length > 0
+      ? `I've proposed changes to ${files.length} ${files.length === 1 ? 'file' : 'files'}.`
+      : 'I apologize, but I could not generate a response. Please try again.',
+    files,
+  }
+}
+
+function resolveChatModel(project: ChatProjectContext | null): ResolvedModel {
+  return resolveModel('chat', getProjectModelSettings(project?.aiModels))
+}
+
+export async function generateAIResponse(
+  messages: { role: string; content: string }[],
+  project: ChatProjectContext | null,
+  projectFiles?: { path: string; content: string }[]
+): Promise<AssistantReply> {
+  const { provider, model } = resolveChatModel(project)
+  const response = await provider.chat(buildRequest(model, messages, project, projectFiles))
+
+  return toReply(response.content, response.toolCalls)
+}
+
+// Same as generateAIResponse, calling onToken with each piece of the reply as it
+// arrives. Aborting the signal ends the stream; the caller keeps what it received.
+export async function streamAIResponse(
+  messages: { role: string; content: string }[],
+  project: ChatProjectContext | null,
+  projectFiles: { path: string; content: string }[] | undefined,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<AssistantReply> {
+  const { provider, model } = resolveChatModel(project)
+  const stream = provider.stream({ ...buildRequest(model, messages, project, projectFiles), signal })
+
+  for await (const event of stream) {
+    if (event.type === 'text') {
+      onToken(event.text)
+    } else {
+      return toReply(event.response.content, event.response.toolCalls)
+    }
+  }
+
+  throw new Error('The model stream ended without a response')
+}
@@ -0,0 +1,221 @@
+import { db } from './db'
+import type { Prisma } from '@/generated/prisma'
+import { fileRevisionService } from './file-revisions'
+import { updateFileAtVersion } from './file-conflicts'
+import { gitRepositoryService } from './git-repository'
+import { customSandboxService } from './custom-sandbox'
+import { realtimeHub } from './realtime-hub'
+import { normalizeAssetPath } from './project-assets'
+import { getLanguageFromPath } from './deterministic-skeleton'
+import { applyLineChanges, diffLineChanges, type LineChange } from './text-diff'
+
+export type ProposedChangeStatus = 'pending' | 'applied' | 'rejected'
+
+export interface ProposedHunk extends LineChange {
+  status: 'pending' | 'accepted' | 'rejected'
+}
+
+// One file the assistant wants to change, diffed against the version it saw
+export interface ProposedFileChange {
+  id: string
+  path: string
+  fileId: string | null // null for a new file
+  baseVersion: number | null
+  originalContent: string
+  proposedContent: string
+  hunks: ProposedHunk[]
+  status: ProposedChangeStatus
+  appliedVersion?: number
+}
+
+// Stored in Message.metadata on assistant messages
+export interface ChatMessageMetadata {
+  proposedChanges?: ProposedFileChange[]
+  cancelled?: boolean // the user stopped the reply while it streamed
+}
+
+export class ProposedChangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProposedChangeError'
+  }
+}
+
+export function getProposedChanges(metadata: Prisma.JsonValue | null): ProposedFileChange[] {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return []
+  return (metadata as ChatMessageMetadata).proposedChanges ?? []
+}
+
+export class ChatChangeService {
+  // Turn the assistant's full file contents into reviewable patches against
+  // the project's current files. Unchanged, binary and invalid paths are dropped.
+  async proposeChanges(projectId: string, files: { path: string; content: string }[]): Promise<ProposedFileChange[]> {
+    const paths = files.map(file => normalizeAssetPath(file.path)).filter((path): path is string => path !== null)
+    const existing = await db.projectFile.findMany({
+      where: { projectId, path: { in: paths } },
+      omit: { binaryContent: true },
+    })
+    const existingByPath = new Map(existing.map(file => [file.path, file]))
+
+    const proposals: ProposedFileChange[] = []
+    const seen = new Set<string>()
+    for (const file of files) {
+      const path = normalizeAssetPath(file.path)
+      if (!path || seen.has(path)) continue
+      seen.add(path)
+
+      const current = existingByPath.get(path)
+      if (current?.isBinary) continue
+
+      const originalContent = current?.content ?? ''
+      const hunks = diffLineChanges(originalContent, file.content)
+      if (hunks.length === 0) continue
+
+      proposals.push({
+        id: `${proposals.length + 1}`,
+        path,
+        fileId: current?.id ?? null,
+        baseVersion: current?.version ?? null,
+        originalContent,
+        proposedContent: file.content,
+        hunks: hunks.map(hunk => ({ ...hunk, status: 'pending' })),
+        status: 'pending',
+      })
+    }
+    return proposals
+  }
+
+  // Apply the accepted hunks of one proposed file change and reject the rest.
+  // Accepting none rejects the whole file.
+  async resolveChange(input: {
+    messageId: string
+    changeId: string
+    acceptedHunks: number[]
+    projectId: string
+    userId: string
+  }): Promise<ProposedFileChange> {
+    const { resolved, file } = await db.$transaction(async (tx) => {
+      // Lock the message so two resolutions of its changes can't overwrite
+      // each other's metadata
+      await tx.$queryRaw`SELECT "id" FROM "messages" WHERE "id" = ${input.messageId} FOR UPDATE`
+      const message = await tx.message.findUnique({
+        where: { id: input.messageId },
+        select: { metadata: true },
+      })
+      const changes = getProposedChanges(message?.metadata ?? null)
+      const change = changes.find(candidate => candidate.id === input.changeId)
+      if (!change) {
+        throw new ProposedChangeError('Proposed change not found')
+      }
+      if (change.status !== 'pending') {
+        throw new ProposedChangeError(`This change was already ${change.status}`)
+      }
+
+      const accepted = new Set(input.acceptedHunks.filter(index => index >= 0 && index < change.hunks.length))
+      const resolved: ProposedFileChange = {
+        ...change,
+        hunks: change.hunks.map((hunk, index) => ({ ...hunk, status: accepted.has(index) ? 'accepted' : 'rejected' })),
+        status: accepted.size > 0 ? 'applied' : 'rejected',
+      }
+
+      let file: { id: string; path: string; content: string; version: number; created: boolean } | null = null
+      if (accepted.size > 0) {
+        const content = accepted.size === change.hunks.length
+          ? change.proposedContent
+          : applyLineChanges(change.originalContent, change.hunks.filter((_, index) => accepted.has(index)))
+
+        if (change.fileId) {
+          // Throws FileConflictError if the file moved on since the proposal
+          const updated = await updateFileAtVersion(change.fileId, change.baseVersion ?? undefined, {
+            content,
+            size: Buffer.byteLength(content),
+          }, tx)
+          if (!updated) {
+            throw new ProposedChangeError(`${change.path} no longer exists`)
+          }
+          await fileRevisionService.recordRevision({
+            fileId: updated.id,
+            projectId: input.projectId,
+            path: updated.path,
+            content: updated.content,
+            author: 'AI',
+            source: 'chat.resolveProposedChange',
+            userId: input.userId,
+          }, { path: change.path, content: change.originalContent }, tx)
+          file = { id: updated.id, path: updated.path, content: updated.content, version: updated.version, created: false }
+        } else {
+          const taken = await tx.projectFile.findUnique({
+            where: { projectId_path: { projectId: input.projectId, path: change.path } },
+            select: { id: true },
+          })
+          if (taken) {
+            throw new ProposedChangeError(`${change.path} was created since this change was proposed`)
+          }
+          const created = await tx.projectFile.create({
+            data: {
+              filename: change.path.split('/').pop() || change.path,
+              path: change.path,
+              content,
+              language: getLanguageFromPath(change.path),
+              size: Buffer.byteLength(content),
+              projectId: input.projectId,
+            },
+            omit: { binaryContent: true },
+          })
+          await fileRevisionService.recordRevision({
+            fileId: created.id,
+            projectId: input.projectId,
+            path: created.path,
+            content: created.content,
+            author: 'AI',
+            source: 'chat.resolveProposedChange',
+            userId: input.userId,
+          }, undefined, tx)
+          file = { id: created.id, path: created.path, content: created.content, version: created.version, created: true }
+        }
+        resolved.appliedVersion = file.version
+      }
+
+      const metadata: ChatMessageMetadata = {
+        ...(message?.metadata as ChatMessageMetadata),
+        proposedChanges: changes.map(candidate => candidate.id === change.id ? resolved : candidate),
+      }
+      await tx.message.update({
+        where: { id: input.messageId },
+        data: { metadata: metadata as unknown as Prisma.InputJsonValue },
+      })
+
+      return { resolved, file }
+    })
+
+    if (!file) return resolved
+
+    await gitRepositoryService.safeCommitProjectState(input.projectId, `Apply chat suggestion to ${file.path}`, {
+      author: 'AI',
+      userId: input.userId,
+      paths: [file.path],
+    })
+
+    realtimeHub.publishFileEvent(input.projectId, file.created
+      ? { type: 'file-created', fileId: file.id, path: file.path }
+      : { type: 'file-updated', fileId: file.id, path: file.path, version: file.version }, file.content)
+
+    // Keep the running preview in step with the accepted change
+    const sandbox = await db.sandbox.findFirst({
+      where: { projectId: input.projectId, status: 'RUNNING' },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    })
+    if (sandbox) {
+      try {
+        await customSandboxService.syncFilesToSandbox(sandbox.id, [file])
+      } catch (error) {
+        console.error(`❌ Failed to sync accepted chat change to sandbox:`, error)
+      }
+    }
+
+    return resolved
+  }
+}
+
+export const chatChangeService = new ChatChangeService()
@@ -1,17 +1,23 @@
-import { exec } from 'child_process';
+import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
-import { writeFile, mkdir, access, rmdir } from 'fs/promises';
-import { join, dirname } from 'path';
+import { writeFile, readFile, mkdir, access, rmdir, rm } from 'fs/promises';
+import { join, dirname, sep } from 'path';
+import { StringDecoder } from 'string_decoder';
 import { db } from '@/lib/db';
+import { projectEnvService, formatEnvFile, maskSecretValues } from '@/lib/project-env';
 
 const execAsync = promisify(exec);
 
+// Output without a line break is masked and forwarded once it grows this long
+const MAX_BUFFERED_OUTPUT = 64 * 1024;
+
 export interface SandboxConfig {
   id: string;
   projectId: string;
   framework: string;
   port: number;
   files: Record<string, string>;
+  binaryFiles?: Record<string, Buffer>; // images, fonts and other assets written byte-for-byte
   environment: Record<string, string>;
 }
 
@@ -30,6 +36,7 @@ export class CustomSandboxService {
   private basePort = 5000; // Start from 5000 to avoid conflicts with existing containers
   private usedPorts = new Set<number>();
   private sandboxDir = join(process.cwd(), 'sandboxes');
+  private containerSecrets = new Map<string, string[]>(); // env values to mask in output, by container id
 
   constructor() {
     this.ensureSandboxDirectory();
@@ -176,7 +183,8 @@ export class CustomSandboxService {
     return dockerfilePath;
   }
 
-  private getDockerfileTemplate(framework: string): string {
+  // Also used when exporting a project so downloads build the same way the sandbox does
+  getDockerfileTemplate(framework: string): string {
     if (framework === 'nextjs') {
       return `# Use Node.js 18 Alpine for smaller image size
 FROM node:18-alpine
@@ -345,6 +353,15 @@ module.exports = nextConfig`;
     }
   }
 
+  // Packages ensurePackageJsonDependencies adds to every sandbox's package.json
+  getRequiredDependencies(framework: string): { dependencies: Record<string, string>; devDependencies: Record<string, string> } {
+    const template = this.getPackageJsonTemplate(framework);
+    return {
+      dependencies: (template.dependencies as Record<string, string> | undefined) ?? {},
+      devDependencies: (template.devDependencies as Record<string, string> | undefined) ?? {}
+    };
+  }
+
   private getPackageJsonTemplate(framework: string): Record<string, unknown> {
     const templates: Record<string, Record<string, unknown>> = {
       'nextjs': {
@@ -803,6 +820,14 @@ module.exports = nextConfig;`;
         }
       }
 
+      // Write binary assets as-is so images and fonts end up in the build context intact
+      for (const [filename, data] of Object.entries(config.binaryFiles || {})) {
+        const filePath = join(projectDir, filename);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, data);
+        console.log(`  ✅ Created asset: ${filename} (${data.length} bytes)`);
+      }
+
       // Create missing Next.js app files to prevent module not found errors
       console.log(`🔧 Creating missing Next.js app files...`);
       
@@ -1063,21 +1088,25 @@ module.exports = {
         console.log(`✅ Created tsconfig.json`);
       }
 
-      // Create .env file for the container
+      // Create .env file for the container, with the project's sandbox variables
+      const environment = {
+        ...await projectEnvService.getEnvironment(config.projectId, 'SANDBOX'),
+        ...config.environment
+      };
       const envContent = `NODE_ENV=development
 PORT=3000
 NEXT_TELEMETRY_DISABLED=1
 NEXT_PUBLIC_APP_URL=http://localhost:3000
-`;
+` + formatEnvFile(environment);
       await writeFile(join(projectDir, '.env'), envContent);
-      console.log(`🔧 Created .env file`);
+      console.log(`🔧 Created .env file with ${Object.keys(environment).length} project variables`);
 
-      // Create .dockerignore file
+      // Create .dockerignore file (env files are passed with --env-file, never baked into the image)
       const dockerignoreContent = `node_modules
 .next
 .git
-.env.local
-.env.production
+.env*
+!.env.example
 npm-debug.log*
 yarn-debug.log*
 yarn-error.log*
@@ -1126,8 +1155,15 @@ yarn-error.log*
       const containerName = `sandbox-${config.id}`;
       const runCommand = `docker run -d --name ${containerName} -p ${port}:3000 --env-file ${join(projectDir, '.env')} --memory=1g --cpus=1 --restart=unless-stopped ${imageName} npm run dev`;
       console.log(`🐳 Running container: ${runCommand}`);
-      const { stdout } = await execAsync(runCommand);
-      const containerId = stdout.trim();
+      let containerId: string;
+      try {
+        const { stdout } = await execAsync(runCommand);
+        containerId = stdout.trim();
+      } finally {
+        // Docker has read the variables by now; don't leave secrets on disk
+        await rm(join(projectDir, '.env'), { force: true });
+      }
+      this.containerSecrets.set(containerId, Object.values(environment));
       console.log(`✅ Container started with ID: ${containerId}`);
 
       // Wait for container to be ready
@@ -1391,7 +1427,8 @@ yarn-error.log*
         encoding: 'utf8',
         maxBuffer: 1024 * 1024 // 1MB buffer
       });
-      return stdout.split('\n').filter(line => line.trim());
+      const masked = await this.maskContainerOutput(containerId, stdout);
+      return masked.split('\n').filter(line => line.trim());
     } catch (error) {
       console.error(`Failed to get container logs:`, error);
       return [`Error getting logs: ${error}`];
@@ -1404,7 +1441,7 @@ yarn-error.log*
         encoding: 'utf8',
         maxBuffer: 1024 * 1024
       });
-      return JSON.parse(stdout);
+      return JSON.parse(await this.maskContainerOutput(containerId, stdout));
     } catch (error) {
       console.error(`Failed to inspect container:`, error);
       return null;
@@ -1431,7 +1468,7 @@ yarn-error.log*
         maxBuffer: 1024 * 1024
       });
 
-      return `
+      return this.maskContainerOutput(containerId, `
 === CONTAINER LOGS ===
 ${logs}
 
@@ -1440,12 +1477,25 @@ ${inspect}
 
 === CONTAINER STATS ===
 ${stats}
-      `.trim();
+      `.trim());
     } catch (error) {
       return `Error getting detailed container info: ${error}`;
     }
   }
 
+  // Hide project env values in anything read back from a container
+  async maskContainerOutput(containerId: string, text: string): Promise<string> {
+    const secrets = this.containerSecrets.get(containerId);
+    if (secrets) return maskSecretValues(text, secrets);
+
+    // Started before this process, fall back to the project's stored values
+    const sandbox = await db.sandbox.findFirst({
+      where: { e2bId: containerId },
+      select: { projectId: true }
+    });
+    return sandbox ? projectEnvService.maskSecrets(sandbox.projectId, text) : text;
+  }
+
   // Public method to manually check container logs
   async debugContainer(containerId: string): Promise<string> {
     return this.getDetailedContainerInfo(containerId);
@@ -1479,6 +1529,7 @@ ${stats}
       
       // Remove container
       await execAsync(`docker rm ${sandbox.e2bId}`);
+      this.containerSecrets.delete(sandbox.e2bId);
 
       // Release port
       if (sandbox.port) {
@@ -1530,6 +1581,116 @@ ${stats}
     }
   }
 
+  // Write a project file into the sandbox directory so the running dev server picks it up
+  async writeSandboxFile(sandboxId: string, filePath: string, content: string | Buffer): Promise<string> {
+    const fullPath = this.resolveSandboxPath(sandboxId, filePath);
+    await mkdir(dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, content);
+    return fullPath;
+  }
+
+  async readSandboxFile(sandboxId: string, filePath: string): Promise<string> {
+    return readFile(this.resolveSandboxPath(sandboxId, filePath), 'utf8');
+  }
+
+  async removeSandboxFile(sandboxId: string, filePath: string): Promise<void> {
+    const fullPath = this.resolveSandboxPath(sandboxId, filePath);
+    await rm(fullPath, { force: true });
+  }
+
+  // Copy a file between the sandbox directory and the running container's /app
+  async copyToContainer(sandboxId: string, filePath: string): Promise<void> {
+    const containerId = await this.getContainerIdForSandbox(sandboxId);
+    await execAsync(`docker cp ${this.resolveSandboxPath(sandboxId, filePath)} ${containerId}:/app/${filePath}`);
+  }
+
+  async copyFromContainer(sandboxId: string, filePath: string): Promise<void> {
+    const containerId = await this.getContainerIdForSandbox(sandboxId);
+    await execAsync(`docker cp ${containerId}:/app/${filePath} ${this.resolveSandboxPath(sandboxId, filePath)}`);
+  }
+
+  // Run a command in the container's /app, streaming masked output as it arrives.
+  // Resolves with the exit code.
+  async execInContainer(
+    sandboxId: string,
+    command: string[],
+    onOutput: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<number> {
+    const containerId = await this.getContainerIdForSandbox(sandboxId);
+    const child = spawn('docker', ['exec', '-w', '/app', containerId, ...command], { signal });
+
+    // Keep chunks in order while each one is masked
+    let pending = Promise.resolve();
+    const emit = (text: string) => {
+      if (!text) return;
+      pending = pending.then(async () => onOutput(await this.maskContainerOutput(containerId, text)));
+    };
+
+    // Mask whole lines, so a secret split across two chunks is still caught
+    const forwardLines = (stream: NodeJS.ReadableStream) => {
+      const decoder = new StringDecoder('utf8');
+      let buffered = '';
+      stream.on('data', (data: Buffer) => {
+        buffered += decoder.write(data);
+        const lineEnd = Math.max(buffered.lastIndexOf('\n'), buffered.lastIndexOf('\r'));
+        if (lineEnd >= 0) {
+          emit(buffered.slice(0, lineEnd + 1));
+          buffered = buffered.slice(lineEnd + 1);
+        } else if (buffered.length > MAX_BUFFERED_OUTPUT) {
+          emit(buffered);
+          buffered = '';
+        }
+      });
+      stream.on('end', () => emit(buffered + decoder.end()));
+    };
+    forwardLines(child.stdout);
+    forwardLines(child.stderr);
+
+    const exitCode = await new Promise<number>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', (code) => resolve(code ?? 1));
+    });
+    await pending;
+    return exitCode;
+  }
+
+  private async getContainerIdForSandbox(sandboxId: string): Promise<string> {
+    const sandbox = await db.sandbox.findUnique({
+      where: { id: sandboxId },
+      select: { e2bId: true, status: true }
+    });
+    if (!sandbox?.e2bId || sandbox.status !== 'RUNNING') {
+      throw new Error('Sandbox is not running');
+    }
+    return sandbox.e2bId;
+  }
+
+  // Mirror a batch of project file changes into the sandbox directory
+  async syncFilesToSandbox(
+    sandboxId: string,
+    files: { path: string; content: string | Buffer }[],
+    removedPaths: string[] = []
+  ): Promise<number> {
+    for (const file of files) {
+      await this.writeSandboxFile(sandboxId, file.path, file.content);
+    }
+    for (const filePath of removedPaths) {
+      await this.removeSandboxFile(sandboxId, filePath);
+    }
+    return files.length + removedPaths.length;
+  }
+
+  private resolveSandboxPath(sandboxId: string, filePath: string): string {
+    const projectDir = join(this.sandboxDir, sandboxId);
+    const fullPath = join(projectDir, filePath);
+    // The separator keeps a sibling like "<id>-other" from passing as inside
+    if (!fullPath.startsWith(projectDir + sep)) {
+      throw new Error(`Refusing to access path outside of sandbox: ${filePath}`);
+    }
+    return fullPath;
+  }
+
   async listSandboxes(): Promise<SandboxStatus[]> {
     try {
       const sandboxes = await db.sandbox.findMany({
@@ -1,4 +1,8 @@
 import { db } from './db'
+import type { EnvVarScope } from '@/generated/prisma'
+import { projectEnvService } from './project-env'
+
+export type DeploymentTarget = Extract<EnvVarScope, 'PREVIEW' | 'PRODUCTION'>
 
 export interface DeploymentResult {
   id: string
@@ -17,8 +21,16 @@ export class DeploymentService {
   async deployProject(
     projectId: string,
     userId: string,
-    customDomain?: string
+    customDomain?: string,
+    target: DeploymentTarget = 'PRODUCTION'
   ): Promise<DeploymentResult> {
+    // Variables for the target are handed to the build; only their names are logged
+    const environment = await projectEnvService.getEnvironment(projectId, target)
+    const buildLog = [
+      `Target: ${target.toLowerCase()}`,
+      ...Object.keys(environment).map(key => `Injected ${key}=********`),
+    ].join('\n')
+
     // Create a placeholder deployment record
     const deployment = await db.deployment.create({
       data: {
@@ -26,7 +38,8 @@ export class DeploymentService {
         userId,
         url: customDomain || `https://${projectId}.example.com`,
         status: 'PENDING',
-        provider: 'placeholder'
+        provider: 'placeholder',
+        buildLog
       }
     })
 
@@ -174,7 +174,7 @@ export default function ${fileName.replace(/[^a-zA-Z0-9]/g, '')}() {
 }
 
 // Main helper: builds deterministic skeleton and returns shape expected by UI
-export async function generateDeterministicProjectSkeleton(ctx: any, userPrompt: string) {
+export async function generateDeterministicProjectSkeleton(ctx: any, userPrompt: string, organizationId?: string) {
   const safeName = userPrompt.slice(0, 50).replace(/[^a-zA-Z0-9\s]/g, '').trim() || 'My App';
 
   // 1. Create minimal project
@@ -187,6 +187,7 @@ export async function generateDeterministicProjectSkeleton(ctx: any, userPrompt:
       initialPrompt: userPrompt,
       template: 'web-app',
       userId: ctx.user.id,
+      organizationId,
       status: ProjectStatus.BUILDING,
     },
     include: {
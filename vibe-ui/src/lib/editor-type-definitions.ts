@@ -0,0 +1,87 @@
+import path from 'path'
+import ts from 'typescript'
+
+// Modules generated projects import; everything their declarations reference comes along
+const ENTRY_MODULES = [
+  'react',
+  'react/jsx-runtime',
+  'react-dom',
+  'react-dom/client',
+  'next',
+  'next/link',
+  'next/image',
+  'next/navigation',
+  'next/router',
+  'next/head',
+  'next/script',
+  'next/dynamic',
+  'next/server',
+  'next/font/google',
+  'next/font/local',
+  'tailwindcss',
+]
+
+const ENTRY_FILE = path.join(process.cwd(), '.editor-types', 'index.ts')
+
+export interface TypeDefinitionFile {
+  path: string // relative to the app, e.g. node_modules/next/link.d.ts
+  content: string
+}
+
+let cached: Promise<TypeDefinitionFile[]> | null = null
+
+// Declarations reachable from the entry modules, plus the package.json of each
+// package so the browser resolves "types" entries the same way
+function collectTypeDefinitions(): TypeDefinitionFile[] {
+  const options: ts.CompilerOptions = {
+    noEmit: true,
+    noLib: true, // Monaco ships its own lib files
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    types: ['node'],
+  }
+  const entryText = ENTRY_MODULES.map((name, index) => `import * as entry${index} from '${name}'`).join('\n')
+
+  const host = ts.createCompilerHost(options)
+  const getSourceFile = host.getSourceFile
+  const fileExists = host.fileExists
+  host.getSourceFile = (fileName, languageVersion, onError) => fileName === ENTRY_FILE
+    ? ts.createSourceFile(fileName, entryText, languageVersion)
+    : getSourceFile(fileName, languageVersion, onError)
+  host.fileExists = (fileName) => fileName === ENTRY_FILE || fileExists(fileName)
+
+  const program = ts.createProgram({ rootNames: [ENTRY_FILE], options, host })
+  const files: TypeDefinitionFile[] = []
+  const packageRoots = new Set<string>()
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (sourceFile.fileName === ENTRY_FILE) continue
+
+    const relativePath = path.relative(process.cwd(), sourceFile.fileName)
+    if (!relativePath.startsWith('node_modules/')) continue
+    files.push({ path: relativePath, content: sourceFile.text })
+
+    const packageRoot = relativePath.match(/^node_modules\/(@[^/]+\/)?[^/]+/)?.[0]
+    if (packageRoot) packageRoots.add(packageRoot)
+  }
+
+  for (const packageRoot of packageRoots) {
+    const content = host.readFile(path.join(process.cwd(), packageRoot, 'package.json'))
+    if (content) files.push({ path: `${packageRoot}/package.json`, content })
+  }
+
+  return files
+}
+
+// Built once per server process; the installed packages don't change while it runs
+export function getEditorTypeDefinitions(): Promise<TypeDefinitionFile[]> {
+  if (!cached) {
+    cached = Promise.resolve().then(collectTypeDefinitions)
+    cached.catch(() => {
+      cached = null
+    })
+  }
+  return cached
+}
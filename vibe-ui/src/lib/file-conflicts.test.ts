@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest'
+import { FileConflictError, updateFileAtVersion } from './file-conflicts'
+
+vi.mock('./db', () => ({ db: {} }))
+
+const storedFile = {
+  id: 'file-1',
+  path: 'src/app/page.tsx',
+  content: 'export default function Page() {}\n',
+  version: 4,
+  updatedAt: new Date('2026-10-19T12:00:00Z'),
+}
+
+// Stands in for Prisma: updateMany only matches when the version filter does
+function createClient(file = storedFile) {
+  const updateMany = vi.fn(async ({ where }: { where: { id: string; version?: number } }) => ({
+    count: where.version === undefined || where.version === file.version ? 1 : 0,
+  }))
+  const findUnique = vi.fn(async () => file)
+  return { client: { projectFile: { updateMany, findUnique } }, updateMany }
+}
+
+type Client = Parameters<typeof updateFileAtVersion>[3]
+
+describe('updateFileAtVersion', () => {
+  it('writes when the file is still at the expected version', async () => {
+    const { client, updateMany } = createClient()
+
+    const file = await updateFileAtVersion('file-1', 4, { content: 'updated' }, client as unknown as Client)
+
+    expect(file).toBe(storedFile)
+    expect(updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'file-1', version: 4 },
+      data: expect.objectContaining({ content: 'updated', version: { increment: 1 } }),
+    }))
+  })
+
+  it('throws a conflict with the current state when the version moved on', async () => {
+    const { client } = createClient()
+
+    const write = updateFileAtVersion('file-1', 3, { content: 'stale' }, client as unknown as Client)
+
+    await expect(write).rejects.toBeInstanceOf(FileConflictError)
+    await expect(write).rejects.toMatchObject({ current: { version: 4, content: storedFile.content } })
+  })
+
+  it('returns null when the file no longer exists', async () => {
+    const { client } = createClient()
+    client.projectFile.updateMany.mockResolvedValueOnce({ count: 0 })
+    client.projectFile.findUnique.mockResolvedValueOnce(null as never)
+
+    await expect(updateFileAtVersion('file-1', 4, { content: 'late' }, client as unknown as Client)).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,60 @@
+import { db } from './db'
+import type { Prisma } from '@/generated/prisma'
+
+type DbClient = typeof db | Prisma.TransactionClient
+
+// State of a file someone else wrote since the caller last read it
+export interface ConflictingFile {
+  id: string
+  path: string
+  content: string
+  version: number
+  updatedAt: Date
+}
+
+export class FileConflictError extends Error {
+  constructor(public current: ConflictingFile) {
+    super(`${current.path} was changed by someone else (now at version ${current.version})`)
+    this.name = 'FileConflictError'
+  }
+}
+
+// Write a file only if it is still at expectedVersion, bumping the version.
+// Without an expectedVersion the write always wins; only server-side writers
+// that already hold the latest state may do that.
+// Returns null if the file no longer exists.
+export async function updateFileAtVersion(
+  fileId: string,
+  expectedVersion: number | undefined,
+  data: Omit<Prisma.ProjectFileUpdateManyMutationInput, 'version'>,
+  client: DbClient = db
+) {
+  const { count } = await client.projectFile.updateMany({
+    where: {
+      id: fileId,
+      ...(expectedVersion !== undefined ? { version: expectedVersion } : {}),
+    },
+    data: {
+      ...data,
+      updatedAt: new Date(),
+      version: { increment: 1 },
+    },
+  })
+
+  const file = await client.projectFile.findUnique({
+    where: { id: fileId },
+    omit: { binaryContent: true },
+  })
+
+  if (count === 0 && file) {
+    throw new FileConflictError({
+      id: file.id,
+      path: file.path,
+      content: file.content,
+      version: file.version,
+      updatedAt: file.updatedAt,
+    })
+  }
+
+  return file
+}
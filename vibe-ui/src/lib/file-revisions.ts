@@ -0,0 +1,121 @@
+import { db } from './db'
+import type { Prisma, RevisionAuthor } from '@/generated/prisma'
+
+type DbClient = typeof db | Prisma.TransactionClient
+
+export interface RecordRevisionInput {
+  fileId: string
+  projectId: string
+  path: string
+  content: string
+  author: RevisionAuthor
+  source: string // e.g. 'project.updateProjectFile', 'inngest.generateProjectFiles'
+  userId?: string | null
+}
+
+export interface PreviousFileState {
+  path: string
+  content: string
+}
+
+// Keeps an append-only history of every write to a ProjectFile so that a bad
+// edit (human or AI) can always be inspected and rolled back.
+export class FileRevisionService {
+  // Record the new state of a file. Files created before revision tracking
+  // existed have no history, so their previous state is stored first as a
+  // baseline revision.
+  async recordRevision(
+    input: RecordRevisionInput,
+    previous?: PreviousFileState,
+    client: DbClient = db
+  ) {
+    const latest = await client.projectFileRevision.findFirst({
+      where: { fileId: input.fileId },
+      orderBy: { createdAt: 'desc' },
+      select: { path: true, content: true },
+    })
+
+    if (!latest && previous && (previous.content !== input.content || previous.path !== input.path)) {
+      await client.projectFileRevision.create({
+        data: {
+          fileId: input.fileId,
+          projectId: input.projectId,
+          path: previous.path,
+          content: previous.content,
+          author: 'SYSTEM',
+          source: 'baseline',
+        },
+      })
+    }
+
+    // Skip no-op writes (auto-save fires even when nothing changed)
+    if (latest && latest.content === input.content && latest.path === input.path) {
+      return null
+    }
+
+    return client.projectFileRevision.create({
+      data: {
+        fileId: input.fileId,
+        projectId: input.projectId,
+        path: input.path,
+        content: input.content,
+        author: input.author,
+        source: input.source,
+        userId: input.userId ?? null,
+      },
+    })
+  }
+
+  // Bulk variant used right after files are created in batches
+  async recordInitialRevisions(inputs: RecordRevisionInput[], client: DbClient = db) {
+    if (inputs.length === 0) return 0
+
+    const result = await client.projectFileRevision.createMany({
+      data: inputs.map(input => ({
+        fileId: input.fileId,
+        projectId: input.projectId,
+        path: input.path,
+        content: input.content,
+        author: input.author,
+        source: input.source,
+        userId: input.userId ?? null,
+      })),
+    })
+
+    return result.count
+  }
+
+  async listRevisions(fileId: string, limit = 50) {
+    return db.projectFileRevision.findMany({
+      where: { fileId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        path: true,
+        author: true,
+        source: true,
+        createdAt: true,
+        user: {
+          select: {
+            id: true,
+            username: true,
+            name: true,
+            avatar: true,
+          },
+        },
+      },
+    })
+  }
+
+  async getRevision(revisionId: string, fileId: string) {
+    return db.projectFileRevision.findFirst({
+      where: {
+        id: revisionId,
+        fileId,
+      },
+    })
+  }
+}
+
+export const fileRevisionService = new FileRevisionService()
@@ -0,0 +1,49 @@
+import { db } from './db'
+import type { GenerationEventStatus } from '@/generated/prisma'
+
+export interface GenerationEventInput {
+  path: string
+  status: GenerationEventStatus
+  qualityScore?: number
+  durationMs?: number
+  error?: string
+}
+
+// Per-file events written while a generation run works through its files
+export class GenerationProgressService {
+  // Inngest re-runs a failed step with the same runId, so events it already
+  // recorded are skipped rather than duplicated
+  async recordEvents(projectId: string, runId: string, events: GenerationEventInput[]) {
+    if (events.length === 0) return
+    await db.generationEvent.createMany({
+      data: events.map(event => ({ ...event, projectId, runId })),
+      skipDuplicates: true,
+    })
+  }
+
+  // Progress is informational; never let it break the generation run
+  async safeRecordEvents(projectId: string, runId: string, events: GenerationEventInput[]) {
+    try {
+      await this.recordEvents(projectId, runId, events)
+    } catch (error) {
+      console.error(`❌ Failed to record generation progress for project ${projectId}:`, error)
+    }
+  }
+
+  // Events of the project's latest run, after the last one the caller has seen
+  async getLatestRunEvents(projectId: string, afterId = 0) {
+    const latest = await db.generationEvent.findFirst({
+      where: { projectId },
+      orderBy: { id: 'desc' },
+      select: { runId: true },
+    })
+    if (!latest) return []
+
+    return db.generationEvent.findMany({
+      where: { projectId, runId: latest.runId, id: { gt: afterId } },
+      orderBy: { id: 'asc' },
+    })
+  }
+}
+
+export const generationProgressService = new GenerationProgressService()
@@ -0,0 +1,169 @@
+import { execFileSync } from 'child_process'
+import { mkdtemp, mkdir, rm, symlink, writeFile, lstat } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { assertNoSymlinks, gitRepositoryService } from './git-repository'
+
+const projectFiles = vi.hoisted(() => ({
+  findMany: vi.fn(),
+}))
+
+// Repositories go to a temporary directory, set before the service reads it
+const repositoriesDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import('fs')
+  const { tmpdir } = await import('os')
+  const { join } = await import('path')
+  process.env.GIT_REPOSITORIES_DIR = mkdtempSync(join(tmpdir(), 'git-repositories-test-'))
+  return process.env.GIT_REPOSITORIES_DIR
+})
+
+// Commits read project files from the database; the rest only touches git and the file system
+vi.mock('./db', () => ({ db: { projectFile: projectFiles } }))
+
+const gitEnv = {
+  ...process.env,
+  GIT_AUTHOR_NAME: 'Test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'Test',
+  GIT_COMMITTER_EMAIL: 'test@example.com',
+}
+
+function git(cwd: string, ...args: string[]) {
+  return execFileSync('git', args, { cwd, env: gitEnv, stdio: 'pipe' }).toString('utf8')
+}
+
+let tempDir: string
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'git-repository-test-'))
+})
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true })
+})
+
+describe('assertNoSymlinks', () => {
+  it('allows paths that are plain directories or do not exist yet', async () => {
+    await mkdir(join(tempDir, 'src', 'app'), { recursive: true })
+
+    await expect(assertNoSymlinks(tempDir, join(tempDir, 'src', 'app', 'page.tsx'))).resolves.toBeUndefined()
+    await expect(assertNoSymlinks(tempDir, join(tempDir, 'new', 'dir', 'file.ts'))).resolves.toBeUndefined()
+  })
+
+  it('refuses a path whose parent directory is a symlink', async () => {
+    await symlink('/', join(tempDir, 'evil'))
+
+    await expect(assertNoSymlinks(tempDir, join(tempDir, 'evil', 'etc', 'passwd'))).rejects.toThrow('symlink: evil')
+  })
+
+  it('refuses a path that is itself a symlink', async () => {
+    await symlink('/etc/hostname', join(tempDir, 'link.txt'))
+
+    await expect(assertNoSymlinks(tempDir, join(tempDir, 'link.txt'))).rejects.toThrow('symlink')
+  })
+})
+
+describe('hardenRepository', () => {
+  let repoPath: string
+  let clonePath: string
+
+  beforeEach(async () => {
+    repoPath = join(tempDir, 'repo')
+    clonePath = join(tempDir, 'clone')
+    await mkdir(repoPath)
+    git(repoPath, 'init', '--quiet', '--initial-branch', 'main')
+    git(repoPath, 'config', 'receive.denyCurrentBranch', 'updateInstead')
+    await writeFile(join(repoPath, 'README.md'), '# Project\n')
+    git(repoPath, 'add', '--all')
+    git(repoPath, 'commit', '--quiet', '-m', 'Initial commit')
+
+    await gitRepositoryService.hardenRepository(repoPath)
+    git(tempDir, 'clone', '--quiet', repoPath, clonePath)
+  })
+
+  it('rejects a push that adds a symlink', async () => {
+    await symlink('/', join(clonePath, 'evil'))
+    git(clonePath, 'add', '--all')
+    git(clonePath, 'commit', '--quiet', '-m', 'Add symlink')
+
+    expect(() => git(clonePath, 'push', '--quiet', 'origin', 'main')).toThrow(/pre-receive hook declined|Symbolic links/)
+    await expect(lstat(join(repoPath, 'evil'))).rejects.toThrow()
+  })
+
+  it('accepts a push of regular files and updates the work tree', async () => {
+    await writeFile(join(clonePath, 'index.ts'), 'export {}\n')
+    git(clonePath, 'add', '--all')
+    git(clonePath, 'commit', '--quiet', '-m', 'Add index')
+
+    git(clonePath, 'push', '--quiet', 'origin', 'main')
+    expect((await lstat(join(repoPath, 'index.ts'))).isFile()).toBe(true)
+  })
+})
+
+describe('commitProjectState', () => {
+  const projectId = 'commit-test-project'
+  let stored: Record<string, string>
+
+  // Stands in for Prisma, honouring the path filter a scoped commit sends
+  beforeEach(() => {
+    projectFiles.findMany.mockReset()
+    stored = {}
+    projectFiles.findMany.mockImplementation(async ({ where }: { where: { path?: { in: string[] } } }) =>
+      Object.entries(stored)
+        .filter(([path]) => !where.path || where.path.in.includes(path))
+        .map(([path, content]) => ({ path, content, isBinary: false, binaryContent: null })))
+  })
+
+  afterEach(async () => {
+    await rm(repositoriesDir, { recursive: true, force: true })
+  })
+
+  function committedFiles() {
+    return git(gitRepositoryService.getRepositoryPath(projectId), 'ls-tree', '-r', '--name-only', 'HEAD').trim().split('\n')
+  }
+
+  function committedContent(path: string) {
+    return git(gitRepositoryService.getRepositoryPath(projectId), 'show', `HEAD:${path}`)
+  }
+
+  it('commits only the given paths', async () => {
+    stored = { 'a.ts': 'a1', 'b.ts': 'b1' }
+    await gitRepositoryService.commitProjectState(projectId, 'Initial', { author: 'SYSTEM' })
+
+    stored = { 'a.ts': 'a2', 'b.ts': 'b2' }
+    await gitRepositoryService.commitProjectState(projectId, 'Update a.ts', { author: 'SYSTEM', paths: ['a.ts'] })
+
+    expect(committedContent('a.ts')).toBe('a2')
+    expect(committedContent('b.ts')).toBe('b1')
+    expect(projectFiles.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { projectId, path: { in: ['a.ts'] } },
+    }))
+  })
+
+  it('removes a given path that is gone from the project', async () => {
+    stored = { 'old.ts': 'x', 'keep.ts': 'y' }
+    await gitRepositoryService.commitProjectState(projectId, 'Initial', { author: 'SYSTEM' })
+
+    stored = { 'new.ts': 'x', 'keep.ts': 'y' }
+    await gitRepositoryService.commitProjectState(projectId, 'Rename', { author: 'SYSTEM', paths: ['old.ts', 'new.ts'] })
+
+    expect(committedFiles()).toEqual(['keep.ts', 'new.ts'])
+  })
+
+  it('treats bracketed paths literally', async () => {
+    stored = { 'src/app/[slug]/page.tsx': 'one', 'src/app/s/page.tsx': 'two' }
+    await gitRepositoryService.commitProjectState(projectId, 'Initial', { author: 'SYSTEM' })
+
+    stored = { 'src/app/[slug]/page.tsx': 'changed', 'src/app/s/page.tsx': 'changed too' }
+    await gitRepositoryService.commitProjectState(projectId, 'Update', { author: 'SYSTEM', paths: ['src/app/[slug]/page.tsx'] })
+
+    expect(committedContent('src/app/[slug]/page.tsx')).toBe('changed')
+    expect(committedContent('src/app/s/page.tsx')).toBe('two')
+  })
+
+  it('does nothing for an empty path list', async () => {
+    await expect(gitRepositoryService.commitProjectState(projectId, 'Nothing', { author: 'SYSTEM', paths: [] })).resolves.toBeNull()
+    expect(projectFiles.findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,572 @@
+import { spawn } from 'child_process'
+import { createHash, randomBytes } from 'crypto'
+import { access, chmod, lstat, mkdir, readFile, rm, writeFile } from 'fs/promises'
+import { dirname, join, relative, resolve, sep } from 'path'
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { createGunzip } from 'zlib'
+import { db } from './db'
+import type { RevisionAuthor } from '@/generated/prisma'
+import { fileRevisionService } from './file-revisions'
+import { projectCheckpointService } from './project-checkpoints'
+import { getLanguageFromPath } from './deterministic-skeleton'
+import { MAX_ASSET_BYTES, isAssetPath, projectAssetService } from './project-assets'
+import { realtimeHub } from './realtime-hub'
+
+export type GitService = 'git-upload-pack' | 'git-receive-pack'
+
+export const GIT_SERVICES: GitService[] = ['git-upload-pack', 'git-receive-pack']
+
+export interface CommitOptions {
+  author: RevisionAuthor
+  userId?: string | null
+  // Project paths the change touched, including the old path of a rename.
+  // Only these are written and committed; without them the whole project is.
+  paths?: string[]
+}
+
+export interface PushSyncResult {
+  updated: string[]
+  created: string[]
+  removed: string[]
+  skipped: string[] // oversized binary files and symlinks stay in git but are not synced
+}
+
+interface GitIdentity {
+  name: string
+  email: string
+}
+
+const AI_IDENTITY: GitIdentity = { name: 'Jo Vibes AI', email: 'ai@jovibes.local' }
+const SYSTEM_IDENTITY: GitIdentity = { name: 'Jo Vibes', email: 'noreply@jovibes.local' }
+const DEFAULT_BRANCH = 'main'
+const TOKEN_PREFIX = 'jvg_'
+// Pushes are buffered before git sees them, so cap what one push may send
+export const MAX_PUSH_BYTES = 200 * 1024 * 1024
+
+// Pushes update the work tree through updateInstead, and later commits write
+// project files into it. A symlink checked out there would send those writes
+// anywhere on the server, so pushes whose new tree contains one are refused.
+const PRE_RECEIVE_HOOK = `#!/bin/sh
+while read old new ref; do
+  case "$new" in *[!0]*) ;; *) continue ;; esac
+  if git ls-tree -r "$new" | grep -q '^120000 '; then
+    echo "Symbolic links are not allowed in pushes ($ref)" >&2
+    exit 1
+  fi
+done
+`
+
+export class GitPushTooLargeError extends Error {
+  constructor() {
+    super(`Push is larger than ${Math.round(MAX_PUSH_BYTES / 1024 / 1024)}MB`)
+    this.name = 'GitPushTooLargeError'
+  }
+}
+
+// Treat content as binary if it has NUL bytes in its first 8KB (same heuristic as git)
+function isBinary(data: Buffer): boolean {
+  return data.subarray(0, 8000).includes(0)
+}
+
+// Encode a line in git's pkt-line framing
+function pktLine(line: string): string {
+  return (line.length + 4).toString(16).padStart(4, '0') + line
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// resolve() only normalises the path string. Check each existing part of the
+// path on disk so a directory that is really a symlink can't redirect a write.
+export async function assertNoSymlinks(rootPath: string, fullPath: string): Promise<void> {
+  let current = rootPath
+  for (const part of relative(rootPath, fullPath).split(sep)) {
+    current = join(current, part)
+    const stats = await lstat(current).catch(() => null)
+    if (!stats) return // the rest of the path doesn't exist yet
+    if (stats.isSymbolicLink()) {
+      throw new Error(`Refusing to write through symlink: ${relative(rootPath, current)}`)
+    }
+  }
+}
+
+// Mirrors every project into a git repository on disk. ProjectFile rows stay
+// the source of truth: saves and AI runs are committed on top of the
+// repository, and pushes to main are written back into the database.
+export class GitRepositoryService {
+  private rootDir = process.env.GIT_REPOSITORIES_DIR || join(process.cwd(), 'repositories')
+  private locks = new Map<string, Promise<unknown>>()
+
+  getRepositoryPath(projectId: string): string {
+    if (!/^[a-zA-Z0-9_-]+$/.test(projectId)) {
+      throw new Error(`Invalid project id: ${projectId}`)
+    }
+    return join(this.rootDir, projectId)
+  }
+
+  // Serialize all repository work per project (commits, pushes)
+  private async withLock<T>(projectId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(projectId) ?? Promise.resolve()
+    const current = previous.catch(() => undefined).then(fn)
+    this.locks.set(projectId, current)
+    try {
+      return await current
+    } finally {
+      if (this.locks.get(projectId) === current) {
+        this.locks.delete(projectId)
+      }
+    }
+  }
+
+  private runGit(
+    args: string[],
+    options: { cwd: string; input?: string | Buffer; env?: Record<string, string>; allowedExitCodes?: number[] }
+  ): Promise<{ stdout: Buffer; stderr: string; code: number }> {
+    return new Promise((resolvePromise, reject) => {
+      const child = spawn('git', args, {
+        cwd: options.cwd,
+        env: { ...process.env, ...options.env },
+      })
+      const stdout: Buffer[] = []
+      const stderr: Buffer[] = []
+
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk))
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk))
+      child.on('error', reject)
+      child.on('close', (code) => {
+        const result = {
+          stdout: Buffer.concat(stdout),
+          stderr: Buffer.concat(stderr).toString('utf8'),
+          code: code ?? 1,
+        }
+        if (result.code === 0 || options.allowedExitCodes?.includes(result.code)) {
+          resolvePromise(result)
+        } else {
+          reject(new Error(`git ${args[0]} failed (${result.code}): ${result.stderr.trim()}`))
+        }
+      })
+
+      if (options.input !== undefined) {
+        child.stdin.end(options.input)
+      } else {
+        child.stdin.end()
+      }
+    })
+  }
+
+  // Resolve a repository-relative path, refusing anything outside the work tree
+  private resolveWorkTreePath(repoPath: string, filePath: string): string {
+    const fullPath = resolve(repoPath, filePath)
+    if (!fullPath.startsWith(repoPath + sep) || fullPath.startsWith(join(repoPath, '.git') + sep)) {
+      throw new Error(`Refusing to write outside repository: ${filePath}`)
+    }
+    return fullPath
+  }
+
+  // Install the pre-receive hook and stop git checking out symlinks as links.
+  // Runs before every push so repositories created earlier are covered too.
+  async hardenRepository(repoPath: string): Promise<void> {
+    const hooksPath = join(repoPath, '.git', 'hooks')
+    await mkdir(hooksPath, { recursive: true })
+    await writeFile(join(hooksPath, 'pre-receive'), PRE_RECEIVE_HOOK)
+    await chmod(join(hooksPath, 'pre-receive'), 0o755)
+    await this.runGit(['config', 'core.symlinks', 'false'], { cwd: repoPath })
+    // A global core.hooksPath would otherwise skip the hook
+    await this.runGit(['config', 'core.hooksPath', hooksPath], { cwd: repoPath })
+  }
+
+  private async resolveIdentity(options: CommitOptions): Promise<GitIdentity> {
+    if (options.author === 'AI') return AI_IDENTITY
+    if (options.author === 'USER' && options.userId) {
+      const user = await db.user.findUnique({
+        where: { id: options.userId },
+        select: { name: true, username: true, email: true },
+      })
+      if (user) {
+        return { name: user.name || user.username, email: user.email }
+      }
+    }
+    return SYSTEM_IDENTITY
+  }
+
+  private async ensureRepository(projectId: string): Promise<string> {
+    const repoPath = this.getRepositoryPath(projectId)
+    try {
+      await access(join(repoPath, '.git'))
+      return repoPath
+    } catch {
+      // Not created yet
+    }
+
+    await mkdir(repoPath, { recursive: true })
+    await this.runGit(['init', '--quiet', '--initial-branch', DEFAULT_BRANCH], { cwd: repoPath })
+    // Let pushes to the checked-out branch update the work tree directly
+    await this.runGit(['config', 'receive.denyCurrentBranch', 'updateInstead'], { cwd: repoPath })
+    await this.runGit(['config', 'http.receivepack', 'true'], { cwd: repoPath })
+    await this.runGit(['config', 'core.autocrlf', 'false'], { cwd: repoPath })
+    console.log(`📚 Initialized git repository for project ${projectId}`)
+    return repoPath
+  }
+
+  // Write the project's current files into the work tree and commit them.
+  // Editor saves pass the paths they touched so each save costs one file, not
+  // the whole project. Returns the new commit sha, or null when nothing changed.
+  async commitProjectState(projectId: string, message: string, options: CommitOptions): Promise<string | null> {
+    return this.withLock(projectId, () => this.commitUnlocked(projectId, message, options))
+  }
+
+  // Never let git problems break the save or generation run that triggered the commit
+  async safeCommitProjectState(projectId: string, message: string, options: CommitOptions): Promise<string | null> {
+    try {
+      return await this.commitProjectState(projectId, message, options)
+    } catch (error) {
+      console.error(`❌ Failed to commit project ${projectId} to git:`, error)
+      return null
+    }
+  }
+
+  private async commitUnlocked(projectId: string, message: string, options: CommitOptions): Promise<string | null> {
+    if (options.paths?.length === 0) return null
+
+    const repoPath = await this.ensureRepository(projectId)
+    const files = await db.projectFile.findMany({
+      where: { projectId, ...(options.paths ? { path: { in: options.paths } } : {}) },
+      select: { path: true, content: true, isBinary: true, binaryContent: true },
+    })
+
+    const projectPaths = new Set<string>()
+    for (const file of files) {
+      let fullPath: string
+      try {
+        fullPath = this.resolveWorkTreePath(repoPath, file.path)
+        await assertNoSymlinks(repoPath, fullPath)
+      } catch (error) {
+        console.warn(`⚠️ Skipping file in git commit:`, error)
+        continue
+      }
+      projectPaths.add(file.path.replace(/\\/g, '/').replace(/^\/+/, ''))
+
+      const data = file.isBinary ? Buffer.from(file.binaryContent ?? []) : Buffer.from(file.content, 'utf8')
+      const existing = await readFile(fullPath).catch(() => null)
+      if (!existing || !existing.equals(data)) {
+        await mkdir(dirname(fullPath), { recursive: true })
+        await writeFile(fullPath, data)
+      }
+    }
+
+    // Remove tracked files that no longer exist in the project. Binary files
+    // too large to store as assets only live in git, so keep them.
+    const { stdout: tracked } = await this.runGit(['ls-files', '-z', '--', ...(options.paths ?? [])], {
+      cwd: repoPath,
+      env: { GIT_LITERAL_PATHSPECS: '1' },
+    })
+    for (const trackedPath of tracked.toString('utf8').split('\0').filter(Boolean)) {
+      if (projectPaths.has(trackedPath)) continue
+      const fullPath = join(repoPath, trackedPath)
+      if (!(await assertNoSymlinks(repoPath, dirname(fullPath)).then(() => true, () => false))) continue
+      const data = await readFile(fullPath).catch(() => null)
+      if (data && data.length > MAX_ASSET_BYTES && isBinary(data)) continue
+      await rm(fullPath, { force: true })
+    }
+
+    // Literal, so paths like src/app/[slug]/page.tsx aren't read as globs
+    await this.runGit(['add', '--all', '--', ...(options.paths ?? [])], {
+      cwd: repoPath,
+      env: { GIT_LITERAL_PATHSPECS: '1' },
+    })
+
+    // Exit code 1 means there are staged changes
+    const { code } = await this.runGit(['diff', '--cached', '--quiet'], { cwd: repoPath, allowedExitCodes: [1] })
+    if (code === 0) return null
+
+    const identity = await this.resolveIdentity(options)
+    await this.runGit(['commit', '--quiet', '--no-verify', '--file', '-'], {
+      cwd: repoPath,
+      input: message,
+      env: {
+        GIT_AUTHOR_NAME: identity.name,
+        GIT_AUTHOR_EMAIL: identity.email,
+        GIT_COMMITTER_NAME: SYSTEM_IDENTITY.name,
+        GIT_COMMITTER_EMAIL: SYSTEM_IDENTITY.email,
+      },
+    })
+
+    const { stdout: sha } = await this.runGit(['rev-parse', 'HEAD'], { cwd: repoPath })
+    return sha.toString('utf8').trim()
+  }
+
+  // Body of GET /info/refs?service=... for smart-HTTP clients
+  async advertiseRefs(projectId: string, service: GitService): Promise<Buffer> {
+    // Make sure clones and fetches see edits made in the web editor
+    await this.commitProjectState(projectId, 'Sync changes from the web editor', { author: 'SYSTEM' })
+
+    const repoPath = this.getRepositoryPath(projectId)
+    const { stdout } = await this.runGit(
+      [service.replace('git-', ''), '--stateless-rpc', '--advertise-refs', repoPath],
+      { cwd: repoPath }
+    )
+
+    return Buffer.concat([
+      Buffer.from(pktLine(`# service=${service}\n`) + '0000'),
+      stdout,
+    ])
+  }
+
+  // Stream a fetch/clone response (POST /git-upload-pack)
+  uploadPack(projectId: string, body: ReadableStream<Uint8Array>, gzipped: boolean): ReadableStream<Uint8Array> {
+    const repoPath = this.getRepositoryPath(projectId)
+    const child = spawn('git', ['upload-pack', '--stateless-rpc', repoPath], { cwd: repoPath })
+
+    // A failed spawn or a broken request body ends the response instead of crashing the server
+    child.on('error', (error) => {
+      console.error('❌ git upload-pack failed:', error)
+      child.stdout.destroy(error)
+    })
+    child.stdin.on('error', (error) => console.warn(`git upload-pack stdin: ${error.message}`))
+
+    let input: NodeJS.ReadableStream = Readable.fromWeb(body as NodeReadableStream<Uint8Array>)
+    if (gzipped) input = input.pipe(createGunzip())
+    input.on('error', (error) => {
+      console.warn(`git upload-pack request body: ${error.message}`)
+      child.kill()
+    })
+    input.pipe(child.stdin)
+
+    child.stderr.on('data', (chunk: Buffer) => console.warn(`git upload-pack: ${chunk.toString('utf8').trim()}`))
+    return Readable.toWeb(child.stdout) as ReadableStream<Uint8Array>
+  }
+
+  // Handle a push (POST /git-receive-pack) and write the new main branch back into the project
+  async receivePack(
+    projectId: string,
+    userId: string,
+    body: ReadableStream<Uint8Array>,
+    gzipped: boolean
+  ): Promise<{ output: Buffer; sync: PushSyncResult | null }> {
+    return this.withLock(projectId, async () => {
+      // Commit pending editor changes first so the work tree is clean for updateInstead
+      await this.commitUnlocked(projectId, 'Sync changes from the web editor', { author: 'SYSTEM' })
+      const repoPath = this.getRepositoryPath(projectId)
+      await this.hardenRepository(repoPath)
+      const headBefore = await this.readHead(repoPath)
+
+      let input: NodeJS.ReadableStream = Readable.fromWeb(body as NodeReadableStream<Uint8Array>)
+      if (gzipped) input = input.pipe(createGunzip())
+      const chunks: Buffer[] = []
+      let received = 0
+      for await (const chunk of input) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+        received += buffer.length
+        if (received > MAX_PUSH_BYTES) {
+          throw new GitPushTooLargeError()
+        }
+        chunks.push(buffer)
+      }
+
+      const { stdout } = await this.runGit(['receive-pack', '--stateless-rpc', repoPath], {
+        cwd: repoPath,
+        input: Buffer.concat(chunks),
+      })
+
+      const headAfter = await this.readHead(repoPath)
+      if (!headAfter || headAfter === headBefore) {
+        return { output: stdout, sync: null }
+      }
+
+      const sync = await this.syncHeadToProject(projectId, repoPath, userId, headAfter)
+      console.log(`📥 Synced push ${headAfter.slice(0, 7)} to project ${projectId}: ${sync.updated.length} updated, ${sync.created.length} created, ${sync.removed.length} removed`)
+      return { output: stdout, sync }
+    })
+  }
+
+  private async readHead(repoPath: string): Promise<string | null> {
+    const { stdout, code } = await this.runGit(
+      ['rev-parse', '--verify', '--quiet', `refs/heads/${DEFAULT_BRANCH}`],
+      { cwd: repoPath, allowedExitCodes: [1] }
+    )
+    return code === 0 ? stdout.toString('utf8').trim() : null
+  }
+
+  // Read every blob of a commit's tree
+  private async readTree(repoPath: string, commit: string) {
+    const { stdout } = await this.runGit(['ls-tree', '-r', '-z', '--full-tree', commit], { cwd: repoPath })
+    const entries = stdout.toString('utf8').split('\0').filter(Boolean).map(line => {
+      const [meta, path] = line.split('\t')
+      const [mode, type, sha] = meta.split(' ')
+      return { mode, type, sha, path }
+    })
+
+    const blobs = entries.filter(entry => entry.type === 'blob' && entry.mode !== '120000')
+    const contents = new Map<string, Buffer>()
+    if (blobs.length > 0) {
+      const { stdout: batch } = await this.runGit(['cat-file', '--batch'], {
+        cwd: repoPath,
+        input: blobs.map(blob => blob.sha).join('\n') + '\n',
+      })
+
+      // Output is "<sha> <type> <size>\n<content>\n" per object
+      let offset = 0
+      for (const blob of blobs) {
+        const headerEnd = batch.indexOf(0x0a, offset)
+        const size = Number(batch.subarray(offset, headerEnd).toString('utf8').split(' ')[2])
+        contents.set(blob.path, batch.subarray(headerEnd + 1, headerEnd + 1 + size))
+        offset = headerEnd + 1 + size + 1
+      }
+    }
+
+    return {
+      files: blobs.map(blob => ({ path: blob.path, data: contents.get(blob.path)! })),
+      skipped: entries.filter(entry => !blobs.includes(entry)).map(entry => entry.path),
+    }
+  }
+
+  private async syncHeadToProject(projectId: string, repoPath: string, userId: string, commit: string): Promise<PushSyncResult> {
+    const tree = await this.readTree(repoPath, commit)
+    const result: PushSyncResult = { updated: [], created: [], removed: [], skipped: tree.skipped }
+
+    const textFiles = new Map<string, string>()
+    const binaryFiles = new Map<string, Buffer>()
+    for (const file of tree.files) {
+      if (!isBinary(file.data) && !isAssetPath(file.path)) {
+        textFiles.set(file.path, file.data.toString('utf8'))
+      } else if (file.data.length <= MAX_ASSET_BYTES) {
+        binaryFiles.set(file.path, file.data)
+      } else {
+        result.skipped.push(file.path)
+      }
+    }
+
+    const { stdout: subject } = await this.runGit(['log', '-1', '--format=%s', commit], { cwd: repoPath })
+    const source = 'git.push'
+    const snapshot = await realtimeHub.snapshotFileVersions(projectId)
+
+    await db.$transaction(async (tx) => {
+      await projectCheckpointService.captureCheckpoint({
+        projectId,
+        label: `Before git push: ${subject.toString('utf8').trim().slice(0, 80)}`,
+        source,
+        phase: 'BEFORE',
+        userId,
+      }, tx)
+
+      const currentFiles = await tx.projectFile.findMany({ where: { projectId } })
+      const currentByPath = new Map(currentFiles.map(file => [file.path, file]))
+
+      const removedFiles = currentFiles.filter(file => !textFiles.has(file.path) && !binaryFiles.has(file.path))
+      if (removedFiles.length > 0) {
+        await tx.projectFile.deleteMany({
+          where: { id: { in: removedFiles.map(file => file.id) } },
+        })
+        result.removed = removedFiles.map(file => file.path)
+      }
+
+      for (const [path, data] of binaryFiles) {
+        const existing = currentByPath.get(path)
+        if (existing?.isBinary && existing.binaryContent && Buffer.from(existing.binaryContent).equals(data)) continue
+        await projectAssetService.saveAsset({ projectId, path, data }, tx)
+        if (existing) {
+          result.updated.push(path)
+        } else {
+          result.created.push(path)
+        }
+      }
+
+      for (const [path, content] of textFiles) {
+        const existing = currentByPath.get(path)
+        if (existing) {
+          if (existing.content === content && !existing.isBinary) continue
+          await tx.projectFile.update({
+            where: { id: existing.id },
+            data: { content, isBinary: false, mimeType: null, size: null, binaryContent: null, version: { increment: 1 } },
+          })
+          await fileRevisionService.recordRevision({
+            fileId: existing.id,
+            projectId,
+            path,
+            content,
+            author: 'USER',
+            source,
+            userId,
+          }, { path: existing.path, content: existing.content }, tx)
+          result.updated.push(path)
+        } else {
+          const created = await tx.projectFile.create({
+            data: {
+              projectId,
+              path,
+              filename: path.split('/').pop() || path,
+              content,
+              language: getLanguageFromPath(path),
+            },
+          })
+          await fileRevisionService.recordRevision({
+            fileId: created.id,
+            projectId,
+            path,
+            content,
+            author: 'USER',
+            source,
+            userId,
+          }, undefined, tx)
+          result.created.push(path)
+        }
+      }
+
+      await tx.project.update({
+        where: { id: projectId },
+        data: { updatedAt: new Date() },
+      })
+    }, {
+      timeout: 60000,
+    })
+
+    await realtimeHub.publishChangesSince(projectId, snapshot)
+    return result
+  }
+
+  async deleteRepository(projectId: string): Promise<void> {
+    await this.withLock(projectId, () => rm(this.getRepositoryPath(projectId), { recursive: true, force: true }))
+  }
+}
+
+// Tokens git clients send as the HTTP Basic password
+export class GitAccessTokenService {
+  async createToken(userId: string, name: string) {
+    const token = TOKEN_PREFIX + randomBytes(24).toString('hex')
+    const record = await db.gitAccessToken.create({
+      data: {
+        name,
+        tokenHash: hashToken(token),
+        userId,
+      },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+      },
+    })
+    return { ...record, token }
+  }
+
+  // Resolve a token to its user id, or null if it is unknown
+  async verifyToken(token: string): Promise<string | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null
+
+    const record = await db.gitAccessToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { id: true, userId: true },
+    })
+    if (!record) return null
+
+    await db.gitAccessToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: new Date() },
+    })
+    return record.userId
+  }
+}
+
+export const gitRepositoryService = new GitRepositoryService()
+export const gitAccessTokenService = new GitAccessTokenService()
@@ -1,4 +1,5 @@
 import { inngest } from './client'
+import { projectTrashService } from '../project-trash'
 
 // Basic Inngest functions for the application
 export const functions = [
@@ -51,6 +52,20 @@ export const functions = [
       
       return { success: true, projectId, provider }
     }
+  ),
+
+  // Trash purge: permanently delete projects past the retention window
+  inngest.createFunction(
+    { id: "project.trash.purge", name: "project.trash.purge" },
+    { cron: "0 3 * * *" },
+    async ({ step }) => {
+      const purged = await step.run("purge-expired-projects", async () => {
+        return projectTrashService.purgeExpired()
+      })
+
+      console.log(`Purged ${purged.length} projects from the trash`)
+      return { success: true, purged }
+    }
   )
 ]
 
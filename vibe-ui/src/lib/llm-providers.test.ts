@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { LLMConfigError, getProjectModelSettings, parseModelSpec } from './llm-providers'
+
+// Parsing never touches the database
+vi.mock('./db', () => ({ db: {} }))
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('parseModelSpec', () => {
+  it('splits a provider prefix from the model', () => {
+    expect(parseModelSpec('anthropic:claude-3-5-sonnet-latest')).toEqual({ provider: 'anthropic', model: 'claude-3-5-sonnet-latest' })
+  })
+
+  it('keeps colons after the provider as part of the model', () => {
+    expect(parseModelSpec(' local:llama3.1:8b ')).toEqual({ provider: 'local', model: 'llama3.1:8b' })
+  })
+
+  it('uses the default provider for bare model names and unknown prefixes', () => {
+    vi.stubEnv('LLM_PROVIDER', 'anthropic')
+
+    expect(parseModelSpec('claude-3-5-haiku-latest')).toEqual({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' })
+    expect(parseModelSpec('ft:gpt-4o-mini:acme')).toEqual({ provider: 'anthropic', model: 'ft:gpt-4o-mini:acme' })
+  })
+
+  it('rejects a provider without a model', () => {
+    expect(() => parseModelSpec('openai: ')).toThrow(LLMConfigError)
+  })
+
+  it('rejects an unknown default provider', () => {
+    vi.stubEnv('LLM_PROVIDER', 'mystery')
+
+    expect(() => parseModelSpec('some-model')).toThrow('LLM_PROVIDER must be one of')
+  })
+})
+
+describe('getProjectModelSettings', () => {
+  it('ignores stored settings that no longer validate', () => {
+    expect(getProjectModelSettings({ chat: 'openai:gpt-4o' })).toEqual({ chat: 'openai:gpt-4o' })
+    expect(getProjectModelSettings({ chat: 'openai:' })).toEqual({})
+    expect(getProjectModelSettings(null)).toEqual({})
+  })
+})
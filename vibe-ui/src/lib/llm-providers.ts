@@ -0,0 +1,483 @@
+import OpenAI from 'openai'
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam,
+} from 'openai/resources/chat/completions'
+import Anthropic from '@anthropic-ai/sdk'
+import { z } from 'zod'
+import { db } from './db'
+import type { Prisma } from '@/generated/prisma'
+
+// The jobs the app hands to a model. Each one can run on its own model,
+// set for the whole deployment through env and overridden per project.
+export const LLM_TASKS = ['analysis', 'generation', 'validation', 'optimization', 'chat', 'agent'] as const
+export type LLMTask = (typeof LLM_TASKS)[number]
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'local'] as const
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number]
+
+const DEFAULT_PROVIDER_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+}
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+const DEFAULT_MAX_TOKENS = 4096
+
+export interface LLMToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown> // JSON schema of the arguments
+}
+
+export interface LLMToolCall {
+  id: string
+  name: string
+  arguments: string // JSON text, as the model wrote it
+}
+
+// Provider-neutral chat messages
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string }
+
+export interface LLMChatRequest {
+  model: string
+  messages: LLMMessage[]
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  tools?: LLMToolDefinition[]
+  signal?: AbortSignal
+  timeoutMs?: number
+}
+
+export interface LLMChatResponse {
+  content: string
+  toolCalls: LLMToolCall[]
+  usage?: { inputTokens: number; outputTokens: number; totalTokens: number }
+}
+
+export type LLMStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'done'; response: LLMChatResponse }
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>
+  // A reply that is a single JSON object, validated against the schema
+  structured<T>(request: LLMChatRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T>
+  // Text arrives as it is generated; the last event carries the whole response
+  stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent>
+}
+
+// A provider or model setting that can't be used
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LLMConfigError'
+  }
+}
+
+// The model answered, but not in the shape that was asked for
+export class LLMOutputError extends Error {
+  constructor(message: string, public readonly raw: string) {
+    super(message)
+    this.name = 'LLMOutputError'
+  }
+}
+
+const JSON_ONLY_INSTRUCTION = 'Reply with a single JSON object and nothing else.'
+
+function parseStructured<T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  // Models without a JSON mode sometimes wrap the object in prose or a code fence
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end < start) {
+    throw new LLMOutputError('The model did not return a JSON object', text)
+  }
+
+  let value: unknown
+  try {
+    value = JSON.parse(text.slice(start, end + 1))
+  } catch {
+    throw new LLMOutputError('The model returned invalid JSON', text)
+  }
+
+  const parsed = schema.safeParse(value)
+  if (!parsed.success) {
+    throw new LLMOutputError(`The model returned unexpected JSON: ${parsed.error.message}`, text)
+  }
+  return parsed.data
+}
+
+function withJsonInstruction(messages: LLMMessage[]): LLMMessage[] {
+  return [{ role: 'system', content: JSON_ONLY_INSTRUCTION }, ...messages]
+}
+
+function toOpenAIMessages(messages: LLMMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    switch (message.role) {
+      case 'tool':
+        return { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: message.content,
+          ...(message.toolCalls?.length ? {
+            tool_calls: message.toolCalls.map(call => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: call.arguments },
+            })),
+          } : {}),
+        }
+      default:
+        return { role: message.role, content: message.content }
+    }
+  })
+}
+
+// OpenAI itself, and any server that speaks its chat completions API
+// (Ollama, LM Studio, vLLM, llama.cpp). jsonMode says whether the server
+// honours response_format; without it structured output is asked for in the prompt.
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    public readonly name: LLMProviderName,
+    private readonly client: OpenAI,
+    private readonly jsonMode: boolean
+  ) {}
+
+  private buildParams(request: LLMChatRequest): ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      messages: toOpenAIMessages(request.messages),
+      temperature: request.temperature,
+      top_p: request.topP,
+      max_tokens: request.maxTokens,
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          type: 'function' as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      } : {}),
+    }
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const completion = await this.client.chat.completions.create(this.buildParams(request), {
+      signal: request.signal,
+      timeout: request.timeoutMs,
+    })
+    const message = completion.choices[0]?.message
+
+    return {
+      content: message?.content ?? '',
+      toolCalls: (message?.tool_calls ?? []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      })),
+      usage: completion.usage && {
+        inputTokens: completion.usage.prompt_tokens,
+        outputTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens,
+      },
+    }
+  }
+
+  async structured<T>(request: LLMChatRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    const params = this.buildParams(this.jsonMode ? request : { ...request, messages: withJsonInstruction(request.messages) })
+    const completion = await this.client.chat.completions.create({
+      ...params,
+      ...(this.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    }, {
+      signal: request.signal,
+      timeout: request.timeoutMs,
+    })
+    return parseStructured(completion.choices[0]?.message?.content ?? '', schema)
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildParams(request),
+      stream: true,
+    }, {
+      signal: request.signal,
+      timeout: request.timeoutMs,
+    })
+
+    let content = ''
+    // Tool call arguments arrive in pieces, keyed by the call's index
+    const toolCalls: LLMToolCall[] = []
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta
+      if (!delta) continue
+
+      if (delta.content) {
+        content += delta.content
+        yield { type: 'text', text: delta.content }
+      }
+      for (const call of delta.tool_calls ?? []) {
+        const current = toolCalls[call.index] ??= { id: '', name: '', arguments: '' }
+        current.id ||= call.id ?? ''
+        current.name += call.function?.name ?? ''
+        current.arguments += call.function?.arguments ?? ''
+      }
+    }
+
+    yield { type: 'done', response: { content, toolCalls: toolCalls.filter(Boolean) } }
+  }
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const
+
+  constructor(private readonly client: Anthropic) {}
+
+  private buildParams(request: LLMChatRequest): Anthropic.MessageCreateParamsNonStreaming {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n')
+
+    // Claude takes tool results as user turns and wants the roles to alternate,
+    // so neighbouring messages of the same role are merged
+    const messages: Anthropic.MessageParam[] = []
+    for (const message of request.messages) {
+      if (message.role === 'system') continue
+
+      let role: Anthropic.MessageParam['role']
+      let blocks: Anthropic.ContentBlockParam[]
+      if (message.role === 'tool') {
+        role = 'user'
+        blocks = [{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }]
+      } else if (message.role === 'assistant') {
+        role = 'assistant'
+        blocks = [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...(message.toolCalls ?? []).map(call => ({
+            type: 'tool_use' as const,
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments),
+          })),
+        ]
+      } else {
+        role = 'user'
+        blocks = [{ type: 'text', text: message.content }]
+      }
+
+      const previous = messages[messages.length - 1]
+      if (previous?.role === role && Array.isArray(previous.content)) {
+        previous.content.push(...blocks)
+      } else {
+        messages.push({ role, content: blocks })
+      }
+    }
+
+    return {
+      model: request.model,
+      messages,
+      ...(system ? { system } : {}),
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      top_p: request.topP,
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: { type: 'object' as const, ...tool.parameters },
+        })),
+      } : {}),
+    }
+  }
+
+  private toResponse(message: Anthropic.Message): LLMChatResponse {
+    let content = ''
+    const toolCalls: LLMToolCall[] = []
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        content += block.text
+      } else if (block.type === 'tool_use') {
+        toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) })
+      }
+    }
+
+    return {
+      content,
+      toolCalls,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+        totalTokens: message.usage.input_tokens + message.usage.output_tokens,
+      },
+    }
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const message = await this.client.messages.create(this.buildParams(request), {
+      signal: request.signal,
+      timeout: request.timeoutMs,
+    })
+    return this.toResponse(message)
+  }
+
+  async structured<T>(request: LLMChatRequest, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+    const response = await this.chat({ ...request, messages: withJsonInstruction(request.messages) })
+    return parseStructured(response.content, schema)
+  }
+
+  async *stream(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const stream = this.client.messages.stream(this.buildParams(request), {
+      signal: request.signal,
+      timeout: request.timeoutMs,
+    })
+
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield { type: 'text', text: event.delta.text }
+      }
+    }
+
+    yield { type: 'done', response: this.toResponse(await stream.finalMessage()) }
+  }
+}
+
+function parseToolInput(text: string): unknown {
+  try {
+    return JSON.parse(text || '{}')
+  } catch {
+    return {}
+  }
+}
+
+const providers = new Map<LLMProviderName, LLMProvider>()
+
+// Providers are built on first use, so only the ones actually configured need credentials
+export function getProvider(name: LLMProviderName): LLMProvider {
+  const existing = providers.get(name)
+  if (existing) return existing
+
+  let provider: LLMProvider
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new LLMConfigError('OPENAI_API_KEY is not set')
+      }
+      provider = new OpenAICompatibleProvider('openai', new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        maxRetries: 2,
+        timeout: 120000,
+      }), true)
+      break
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new LLMConfigError('ANTHROPIC_API_KEY is not set')
+      }
+      provider = new AnthropicProvider(new Anthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        maxRetries: 2,
+        timeout: 120000,
+      }))
+      break
+    case 'local':
+      provider = new OpenAICompatibleProvider('local', new OpenAI({
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local', // most local servers ignore it
+        baseURL: process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        maxRetries: 1,
+        timeout: 300000, // local models are slow on modest hardware
+      }), process.env.LOCAL_LLM_JSON_MODE === 'true')
+      break
+  }
+
+  providers.set(name, provider)
+  return provider
+}
+
+// Providers whose credentials are present; a local endpoint counts once its URL is set
+export function getConfiguredProviders(): LLMProviderName[] {
+  return LLM_PROVIDERS.filter(name => {
+    switch (name) {
+      case 'openai': return !!process.env.OPENAI_API_KEY
+      case 'anthropic': return !!process.env.ANTHROPIC_API_KEY
+      case 'local': return !!process.env.LOCAL_LLM_BASE_URL
+    }
+  })
+}
+
+function isProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDERS as readonly string[]).includes(value)
+}
+
+function getDefaultProviderName(): LLMProviderName {
+  const name = process.env.LLM_PROVIDER || 'openai'
+  if (!isProviderName(name)) {
+    throw new LLMConfigError(`LLM_PROVIDER must be one of ${LLM_PROVIDERS.join(', ')}`)
+  }
+  return name
+}
+
+// Model specs are "provider:model" ("anthropic:claude-3-5-sonnet-latest",
+// "local:llama3.1:8b"), or a bare model name for the default provider
+export function parseModelSpec(spec: string): { provider: LLMProviderName; model: string } {
+  const trimmed = spec.trim()
+  const separator = trimmed.indexOf(':')
+  const prefix = separator === -1 ? '' : trimmed.slice(0, separator)
+
+  const provider = isProviderName(prefix) ? prefix : getDefaultProviderName()
+  const model = isProviderName(prefix) ? trimmed.slice(separator + 1).trim() : trimmed
+  if (!model) {
+    throw new LLMConfigError(`No model given in "${spec}"`)
+  }
+  return { provider, model }
+}
+
+export const modelSpecSchema = z.string().trim().min(1).max(200).refine(spec => {
+  const separator = spec.indexOf(':')
+  return separator === -1 || !isProviderName(spec.slice(0, separator)) || spec.slice(separator + 1).trim().length > 0
+}, 'Model must be "provider:model" or a model name')
+
+export const modelSettingsSchema = z.record(z.enum(LLM_TASKS), modelSpecSchema)
+
+// Per-project overrides stored in Project.aiModels, keyed by task
+export type LLMModelSettings = Partial<Record<LLMTask, string>>
+
+// Project.aiModels is served by its own query; leaving the free-form JSON out of
+// project lists keeps the inferred client types shallow
+export const AI_MODELS_OMIT = { aiModels: true } as const
+
+// Stored settings that no longer validate are ignored rather than breaking AI features
+export function getProjectModelSettings(value: Prisma.JsonValue | null | undefined): LLMModelSettings {
+  const parsed = modelSettingsSchema.safeParse(value ?? {})
+  return parsed.success ? parsed.data : {}
+}
+
+// The deployment-wide model for a task: LLM_MODEL_<TASK>, then LLM_MODEL,
+// then the default provider's default model
+export function getDefaultModelSpec(task: LLMTask): string {
+  return process.env[`LLM_MODEL_${task.toUpperCase()}`]
+    || process.env.LLM_MODEL
+    || `${getDefaultProviderName()}:${DEFAULT_PROVIDER_MODELS[getDefaultProviderName()]}`
+}
+
+export interface ResolvedModel {
+  provider: LLMProvider
+  model: string
+  spec: string // "provider:model", recorded with the results it produced
+}
+
+export function resolveModel(task: LLMTask, settings: LLMModelSettings = {}): ResolvedModel {
+  const { provider, model } = parseModelSpec(settings[task] || getDefaultModelSpec(task))
+  return { provider: getProvider(provider), model, spec: `${provider}:${model}` }
+}
+
+export async function resolveProjectModel(projectId: string, task: LLMTask): Promise<ResolvedModel> {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { aiModels: true },
+  })
+  return resolveModel(task, getProjectModelSettings(project?.aiModels))
+}
@@ -0,0 +1,140 @@
+import type { OnMount } from '@monaco-editor/react'
+import type { TypeDefinitionFile } from './editor-type-definitions'
+
+type Monaco = Parameters<OnMount>[1]
+
+const MODEL_SCHEME = 'file:///'
+
+// Missing packages: the browser only has the app's React, Next and Tailwind
+// declarations, the server check reports these instead
+export const BROWSER_IGNORED_DIAGNOSTIC_CODES = [2307, 2792, 7016]
+
+// Fetched once per page load and shared by every editor
+let typeDefinitions: Promise<TypeDefinitionFile[]> | null = null
+
+// Project files live at the root of the file:/// scheme, next to the
+// node_modules the type definitions are registered under
+export function projectFileUri(filePath: string): string {
+  return `${MODEL_SCHEME}${filePath.replace(/^\/+/, '')}`
+}
+
+export function getModelLanguage(filePath: string): string {
+  if (/\.(tsx?|mts|cts)$/.test(filePath)) return 'typescript'
+  if (/\.(jsx?|mjs|cjs)$/.test(filePath)) return 'javascript'
+  if (filePath.endsWith('.json')) return 'json'
+  if (filePath.endsWith('.css')) return 'css'
+  if (filePath.endsWith('.html')) return 'html'
+  if (filePath.endsWith('.md')) return 'markdown'
+  return 'plaintext'
+}
+
+// tsconfig.json allows comments and trailing commas
+function parseTsconfig(content: string): { compilerOptions?: Record<string, unknown> } {
+  try {
+    const json = content
+      .replace(/\\"|"(?:\\"|[^"])*"|(\/\/.*|\/\*[\s\S]*?\*\/)/g, (match, comment) => comment ? '' : match)
+      .replace(/,(\s*[}\]])/g, '$1')
+    return JSON.parse(json)
+  } catch {
+    return {}
+  }
+}
+
+// Compiler settings for the browser worker, with the project's path aliases
+export function configureTypeScript(monaco: Monaco, tsconfig: string | undefined) {
+  const projectOptions = tsconfig ? parseTsconfig(tsconfig).compilerOptions ?? {} : {}
+  const { typescript } = monaco.languages
+
+  const compilerOptions = {
+    target: typescript.ScriptTarget.ESNext,
+    module: typescript.ModuleKind.ESNext,
+    moduleResolution: typescript.ModuleResolutionKind.NodeJs,
+    jsx: typescript.JsxEmit.ReactJSX,
+    allowJs: true,
+    allowNonTsExtensions: true,
+    esModuleInterop: true,
+    resolveJsonModule: true,
+    isolatedModules: true,
+    noEmit: true,
+    strict: projectOptions.strict !== false,
+    baseUrl: typeof projectOptions.baseUrl === 'string'
+      ? projectFileUri(projectOptions.baseUrl.replace(/^\.\/?/, ''))
+      : MODEL_SCHEME,
+    paths: projectOptions.paths && typeof projectOptions.paths === 'object'
+      ? projectOptions.paths as Record<string, string[]>
+      : undefined,
+  }
+
+  typescript.typescriptDefaults.setCompilerOptions(compilerOptions)
+  typescript.javascriptDefaults.setCompilerOptions(compilerOptions)
+  // Other files' models are needed for cross-file types and errors
+  typescript.typescriptDefaults.setEagerModelSync(true)
+  typescript.javascriptDefaults.setEagerModelSync(true)
+}
+
+// Turn the browser's semantic errors on or off; they are only useful once the
+// type definitions and the rest of the project are loaded
+export function setBrowserTypeChecking(monaco: Monaco, enabled: boolean) {
+  const options = {
+    noSemanticValidation: !enabled,
+    noSyntaxValidation: false,
+    diagnosticCodesToIgnore: BROWSER_IGNORED_DIAGNOSTIC_CODES,
+  }
+  monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions(options)
+  monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions(options)
+}
+
+// Register React, Next and Tailwind declarations as extra libs
+export async function loadTypeDefinitions(monaco: Monaco): Promise<void> {
+  if (!typeDefinitions) {
+    typeDefinitions = fetch('/api/type-definitions')
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`Failed to load type definitions (${response.status})`)
+        const data = await response.json() as { files: TypeDefinitionFile[] }
+        return data.files
+      })
+    typeDefinitions.catch(() => {
+      typeDefinitions = null
+    })
+  }
+
+  const files = await typeDefinitions
+  const { typescript } = monaco.languages
+  typescript.typescriptDefaults.setExtraLibs(files.map(file => ({ content: file.content, filePath: projectFileUri(file.path) })))
+  typescript.javascriptDefaults.setExtraLibs(files.map(file => ({ content: file.content, filePath: projectFileUri(file.path) })))
+}
+
+// Keep one model per project file, so imports resolve and go-to-definition
+// can open other files. The open file's model is left to the editor.
+export function syncProjectModels(
+  monaco: Monaco,
+  files: { path: string; content: string }[],
+  activeUri: string | null
+) {
+  // Compare in Monaco's encoded form ("[slug]" becomes "%5Bslug%5D"), the way model.uri prints
+  const wanted = new Map(files.map(file => [monaco.Uri.parse(projectFileUri(file.path)).toString(), file]))
+  const active = activeUri ? monaco.Uri.parse(activeUri).toString() : null
+
+  for (const model of monaco.editor.getModels()) {
+    const uri = model.uri.toString()
+    if (model.uri.scheme === 'file' && !wanted.has(uri) && uri !== active) {
+      model.dispose()
+    }
+  }
+
+  for (const [uri, file] of wanted) {
+    const model = monaco.editor.getModel(monaco.Uri.parse(uri))
+    if (!model) {
+      monaco.editor.createModel(file.content, getModelLanguage(file.path), monaco.Uri.parse(uri))
+    } else if (uri !== active && model.getValue() !== file.content) {
+      model.setValue(file.content)
+    }
+  }
+}
+
+// Monaco is shared by the whole page, so drop this project's models on the way out
+export function disposeProjectModels(monaco: Monaco) {
+  for (const model of monaco.editor.getModels()) {
+    if (model.uri.scheme === 'file' && !model.isDisposed()) model.dispose()
+  }
+}
@@ -0,0 +1,187 @@
+import * as Y from 'yjs'
+import type { OnMount } from '@monaco-editor/react'
+import type { CollaborativeFileSession } from './realtime-client'
+
+type MonacoEditor = Parameters<OnMount>[0]
+type MonacoModel = NonNullable<ReturnType<MonacoEditor['getModel']>>
+
+interface RemoteSelection {
+  anchor: unknown // Y.RelativePosition as JSON
+  head: unknown
+}
+
+interface RemoteUserState {
+  user?: { id: string; name: string; colorIndex: number }
+  selection?: RemoteSelection | null
+}
+
+// Keeps a Monaco editor and a shared Y.Text in sync, and draws the cursors
+// and selections of everyone else in the file.
+export class MonacoYjsBinding {
+  private muted = false
+  private decorations: string[] = []
+  private disposables: { dispose(): void }[] = []
+  private model: MonacoModel
+
+  constructor(private editor: MonacoEditor, private session: CollaborativeFileSession) {
+    const model = editor.getModel()
+    if (!model) throw new Error('Editor has no model')
+    this.model = model
+
+    const { text, awareness, doc } = session
+
+    this.mute(() => {
+      if (model.getValue() !== text.toString()) {
+        model.setValue(text.toString())
+      }
+    })
+
+    // Local edits into the shared text
+    this.disposables.push(model.onDidChangeContent((event) => {
+      if (this.muted) return
+      doc.transact(() => {
+        // Changes are relative to the model before the edit, so apply back to front
+        const changes = [...event.changes].sort((a, b) => b.rangeOffset - a.rangeOffset)
+        for (const change of changes) {
+          if (change.rangeLength > 0) text.delete(change.rangeOffset, change.rangeLength)
+          if (change.text) text.insert(change.rangeOffset, change.text)
+        }
+      }, this)
+    }))
+
+    // Remote edits into the model
+    text.observe(this.handleTextChange)
+
+    this.disposables.push(editor.onDidChangeCursorSelection(() => this.publishSelection()))
+    this.disposables.push(editor.onDidBlurEditorText(() => awareness.setLocalStateField('selection', null)))
+    awareness.on('change', this.renderRemoteCursors)
+
+    this.publishSelection()
+    this.renderRemoteCursors()
+  }
+
+  private mute(fn: () => void) {
+    this.muted = true
+    try {
+      fn()
+    } finally {
+      this.muted = false
+    }
+  }
+
+  private handleTextChange = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+    if (transaction.origin === this) return
+    const model = this.model
+
+    this.mute(() => {
+      let index = 0
+      const edits: { range: { startLineNumber: number; startColumn: number; endLineNumber: number; endColumn: number }; text: string }[] = []
+      for (const op of event.delta) {
+        if (op.retain !== undefined) {
+          index += op.retain
+        } else if (op.insert !== undefined) {
+          const position = model.getPositionAt(index)
+          edits.push({
+            range: {
+              startLineNumber: position.lineNumber,
+              startColumn: position.column,
+              endLineNumber: position.lineNumber,
+              endColumn: position.column,
+            },
+            text: op.insert as string,
+          })
+        } else if (op.delete !== undefined) {
+          const start = model.getPositionAt(index)
+          const end = model.getPositionAt(index + op.delete)
+          edits.push({
+            range: {
+              startLineNumber: start.lineNumber,
+              startColumn: start.column,
+              endLineNumber: end.lineNumber,
+              endColumn: end.column,
+            },
+            text: '',
+          })
+          index += op.delete
+        }
+      }
+      // Ranges refer to the model before the change, which is what Monaco expects
+      model.pushEditOperations(this.editor.getSelections(), edits, () => null)
+    })
+    this.renderRemoteCursors()
+  }
+
+  private publishSelection() {
+    const model = this.model
+    const selection = this.editor.getSelection()
+    if (selection === null || this.editor.getModel() !== model) return
+
+    const { text, awareness } = this.session
+    const anchor = model.getOffsetAt(selection.getSelectionStart())
+    const head = model.getOffsetAt(selection.getPosition())
+    awareness.setLocalStateField('selection', {
+      anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, anchor)),
+      head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, head)),
+    })
+  }
+
+  private renderRemoteCursors = () => {
+    const model = this.model
+    if (this.editor.getModel() !== model) return
+
+    const { awareness, doc } = this.session
+    const decorations: Parameters<MonacoEditor['deltaDecorations']>[1] = []
+
+    awareness.getStates().forEach((state: RemoteUserState, clientId) => {
+      if (clientId === doc.clientID || !state.selection || !state.user) return
+
+      const anchor = Y.createAbsolutePositionFromRelativePosition(
+        Y.createRelativePositionFromJSON(state.selection.anchor), doc
+      )
+      const head = Y.createAbsolutePositionFromRelativePosition(
+        Y.createRelativePositionFromJSON(state.selection.head), doc
+      )
+      if (!anchor || !head || anchor.type !== this.session.text || head.type !== this.session.text) return
+
+      const start = model.getPositionAt(Math.min(anchor.index, head.index))
+      const end = model.getPositionAt(Math.max(anchor.index, head.index))
+      const headPosition = model.getPositionAt(head.index)
+      const colorClass = `collab-cursor-${state.user.colorIndex}`
+
+      if (anchor.index !== head.index) {
+        decorations.push({
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          options: { className: `collab-selection ${colorClass}` },
+        })
+      }
+      decorations.push({
+        range: {
+          startLineNumber: headPosition.lineNumber,
+          startColumn: headPosition.column,
+          endLineNumber: headPosition.lineNumber,
+          endColumn: headPosition.column,
+        },
+        options: {
+          beforeContentClassName: `collab-caret ${colorClass}`,
+          hoverMessage: { value: state.user.name },
+          stickiness: 1, // NeverGrowsWhenTypingAtEdges
+        },
+      })
+    })
+
+    this.decorations = this.editor.deltaDecorations(this.decorations, decorations)
+  }
+
+  destroy() {
+    this.session.text.unobserve(this.handleTextChange)
+    this.session.awareness.off('change', this.renderRemoteCursors)
+    this.disposables.forEach(disposable => disposable.dispose())
+    this.disposables = []
+    this.decorations = this.editor.deltaDecorations(this.decorations, [])
+  }
+}
@@ -0,0 +1,38 @@
+import type { Request as ExpressRequest, RequestHandler, Response as ExpressResponse } from 'express'
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+
+export interface MultipartRequest {
+  file?: Express.Multer.File
+  files?: Express.Multer.File[]
+  body: Record<string, string>
+}
+
+// Run a multer handler against a fetch Request by exposing the body as a Node stream
+export async function runMulter(request: Request, handler: RequestHandler): Promise<MultipartRequest | null> {
+  if (!request.body) return null
+
+  const nodeRequest = Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>) as Readable & {
+    headers: Record<string, string>
+    method: string
+    file?: Express.Multer.File
+    files?: Express.Multer.File[]
+    body?: Record<string, string>
+  }
+  nodeRequest.headers = Object.fromEntries(request.headers)
+  nodeRequest.method = request.method
+
+  await new Promise<void>((resolve, reject) => {
+    handler(
+      nodeRequest as unknown as ExpressRequest,
+      {} as ExpressResponse,
+      (error?: unknown) => (error ? reject(error) : resolve())
+    )
+  })
+
+  return {
+    file: nodeRequest.file,
+    files: nodeRequest.files,
+    body: { ...nodeRequest.body },
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest'
+import { OrganizationRole, ProjectRole } from '@/generated/prisma'
+import { getProjectRole } from './project-access'
+
+vi.mock('./db', () => ({ db: {} }))
+
+type Client = Parameters<typeof getProjectRole>[2]
+
+// Stands in for Prisma with the member lists already filtered to the user
+function createClient(project: {
+  userId: string
+  organizationId?: string | null
+  deletedAt?: Date | null
+  projectRole?: ProjectRole
+  organizationRole?: OrganizationRole
+}) {
+  const findUnique = vi.fn(async () => ({
+    userId: project.userId,
+    organizationId: project.organizationId ?? null,
+    deletedAt: project.deletedAt ?? null,
+    members: project.projectRole ? [{ role: project.projectRole }] : [],
+    organization: project.organizationId
+      ? { members: project.organizationRole ? [{ role: project.organizationRole }] : [] }
+      : null,
+  }))
+  return { project: { findUnique } } as unknown as Client
+}
+
+describe('getProjectRole', () => {
+  it('makes the creator owner of a personal project', async () => {
+    await expect(getProjectRole('project-1', 'user-1', createClient({ userId: 'user-1' }))).resolves.toBe(ProjectRole.OWNER)
+  })
+
+  it('uses the invited role for collaborators on a personal project', async () => {
+    const client = createClient({ userId: 'user-1', projectRole: ProjectRole.VIEWER })
+
+    await expect(getProjectRole('project-1', 'user-2', client)).resolves.toBe(ProjectRole.VIEWER)
+  })
+
+  it('gives team projects to the team rather than their creator', async () => {
+    const asMember = createClient({ userId: 'user-1', organizationId: 'org-1', organizationRole: OrganizationRole.MEMBER })
+    const asAdmin = createClient({ userId: 'user-1', organizationId: 'org-1', organizationRole: OrganizationRole.ADMIN })
+
+    await expect(getProjectRole('project-1', 'user-1', asMember)).resolves.toBe(ProjectRole.EDITOR)
+    await expect(getProjectRole('project-1', 'user-1', asAdmin)).resolves.toBe(ProjectRole.OWNER)
+  })
+
+  it('drops a creator who left the team', async () => {
+    const client = createClient({ userId: 'user-1', organizationId: 'org-1' })
+
+    await expect(getProjectRole('project-1', 'user-1', client)).resolves.toBeNull()
+  })
+
+  it('hides trashed projects', async () => {
+    const client = createClient({ userId: 'user-1', deletedAt: new Date() })
+
+    await expect(getProjectRole('project-1', 'user-1', client)).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,200 @@
+import { db } from './db'
+import { OrganizationRole, ProjectRole, type Prisma } from '@/generated/prisma'
+
+type DbClient = typeof db | Prisma.TransactionClient
+
+// Higher roles can do everything lower ones can
+const ROLE_RANK: Record<ProjectRole, number> = {
+  [ProjectRole.VIEWER]: 0,
+  [ProjectRole.EDITOR]: 1,
+  [ProjectRole.OWNER]: 2,
+}
+
+export function hasProjectRole(role: ProjectRole | null, minimumRole: ProjectRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimumRole]
+}
+
+const ORGANIZATION_ROLE_RANK: Record<OrganizationRole, number> = {
+  [OrganizationRole.MEMBER]: 0,
+  [OrganizationRole.ADMIN]: 1,
+  [OrganizationRole.OWNER]: 2,
+}
+
+// Team admins own every team project; other team members can edit them
+const MANAGING_ORGANIZATION_ROLES: OrganizationRole[] = [OrganizationRole.OWNER, OrganizationRole.ADMIN]
+
+export function hasOrganizationRole(role: OrganizationRole | null, minimumRole: OrganizationRole): boolean {
+  return role !== null && ORGANIZATION_ROLE_RANK[role] >= ORGANIZATION_ROLE_RANK[minimumRole]
+}
+
+// Prisma filter for the projects a user can open with at least minimumRole.
+// Trashed projects are excluded; override deletedAt to list the trash.
+// Creating a project only makes its creator owner while it is personal; team
+// projects belong to the team.
+export function projectAccessWhere(userId: string, minimumRole: ProjectRole = ProjectRole.VIEWER): Prisma.ProjectWhereInput {
+  if (minimumRole === ProjectRole.OWNER) {
+    return {
+      deletedAt: null,
+      OR: [
+        { userId, organizationId: null },
+        { organization: { members: { some: { userId, role: { in: MANAGING_ORGANIZATION_ROLES } } } } },
+      ],
+    }
+  }
+
+  const roles = Object.values(ProjectRole).filter(role => role !== ProjectRole.OWNER && hasProjectRole(role, minimumRole))
+  return {
+    deletedAt: null,
+    OR: [
+      { userId, organizationId: null },
+      { members: { some: { userId, role: { in: roles } } } },
+      { organization: { members: { some: { userId } } } },
+    ],
+  }
+}
+
+// Projects listed in a workspace: the team's projects, or for the personal
+// workspace (null) the user's own and directly shared projects
+export function workspaceProjectsWhere(userId: string, organizationId: string | null): Prisma.ProjectWhereInput {
+  if (organizationId) {
+    return { organizationId, deletedAt: null }
+  }
+
+  return {
+    organizationId: null,
+    ...projectAccessWhere(userId),
+  }
+}
+
+export class ProjectAccessError extends Error {
+  constructor(
+    public reason: 'NOT_FOUND' | 'FORBIDDEN',
+    message: string
+  ) {
+    super(message)
+    this.name = 'ProjectAccessError'
+  }
+}
+
+// The user's role on a project, or null if they can't open it (or it is in the trash)
+export async function getProjectRole(projectId: string, userId: string, client: DbClient = db): Promise<ProjectRole | null> {
+  const project = await client.project.findUnique({
+    where: { id: projectId },
+    select: {
+      userId: true,
+      organizationId: true,
+      deletedAt: true,
+      members: {
+        where: { userId },
+        select: { role: true },
+      },
+      organization: {
+        select: {
+          members: {
+            where: { userId },
+            select: { role: true },
+          },
+        },
+      },
+    },
+  })
+
+  if (!project || project.deletedAt) return null
+  // The team's roles decide for team projects, so creators who leave lose access
+  if (!project.organizationId && project.userId === userId) return ProjectRole.OWNER
+
+  const organizationRole = project.organization?.members[0]?.role ?? null
+  if (organizationRole && MANAGING_ORGANIZATION_ROLES.includes(organizationRole)) return ProjectRole.OWNER
+
+  // Team members edit every team project, whatever they were invited as
+  if (organizationRole) return ProjectRole.EDITOR
+  return project.members[0]?.role ?? null
+}
+
+// Shared authorization check for routers and API routes. Users without any
+// access get NOT_FOUND so project ids can't be probed; members whose role is
+// too low get FORBIDDEN.
+export async function assertProjectRole(
+  projectId: string,
+  userId: string,
+  minimumRole: ProjectRole,
+  client: DbClient = db
+): Promise<ProjectRole> {
+  const role = await getProjectRole(projectId, userId, client)
+
+  if (!role) {
+    throw new ProjectAccessError('NOT_FOUND', 'Project not found')
+  }
+
+  if (!hasProjectRole(role, minimumRole)) {
+    throw new ProjectAccessError(
+      'FORBIDDEN',
+      minimumRole === ProjectRole.OWNER
+        ? 'Only the project owner can do this'
+        : `This requires ${minimumRole.toLowerCase()} access to the project`
+    )
+  }
+
+  return role
+}
+
+// Same check for endpoints that only know the sandbox id
+export async function assertSandboxRole(
+  sandboxId: string,
+  userId: string,
+  minimumRole: ProjectRole,
+  client: DbClient = db
+): Promise<ProjectRole> {
+  const sandbox = await client.sandbox.findUnique({
+    where: { id: sandboxId },
+    select: { projectId: true },
+  })
+
+  if (!sandbox) {
+    throw new ProjectAccessError('NOT_FOUND', 'Sandbox not found')
+  }
+
+  try {
+    return await assertProjectRole(sandbox.projectId, userId, minimumRole, client)
+  } catch (error) {
+    if (error instanceof ProjectAccessError && error.reason === 'NOT_FOUND') {
+      throw new ProjectAccessError('NOT_FOUND', 'Sandbox not found')
+    }
+    throw error
+  }
+}
+
+// The user's role in a team workspace, or null if they aren't a member
+export async function getOrganizationRole(organizationId: string, userId: string, client: DbClient = db): Promise<OrganizationRole | null> {
+  const member = await client.organizationMember.findUnique({
+    where: {
+      organizationId_userId: { organizationId, userId },
+    },
+    select: { role: true },
+  })
+
+  return member?.role ?? null
+}
+
+// Same NOT_FOUND / FORBIDDEN split as assertProjectRole, for team workspaces
+export async function assertOrganizationRole(
+  organizationId: string,
+  userId: string,
+  minimumRole: OrganizationRole,
+  client: DbClient = db
+): Promise<OrganizationRole> {
+  const role = await getOrganizationRole(organizationId, userId, client)
+
+  if (!role) {
+    throw new ProjectAccessError('NOT_FOUND', 'Workspace not found')
+  }
+
+  if (!hasOrganizationRole(role, minimumRole)) {
+    throw new ProjectAccessError(
+      'FORBIDDEN',
+      `This requires ${minimumRole.toLowerCase()} access to the workspace`
+    )
+  }
+
+  return role
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest'
+import { getAssetMimeType, isInlineMimeType, normalizeAssetPath } from './project-assets'
+
+// Path handling never touches the database
+vi.mock('./db', () => ({ db: {} }))
+
+describe('normalizeAssetPath', () => {
+  it('joins segments with forward slashes, dropping empty ones', () => {
+    expect(normalizeAssetPath('public/images/logo.png')).toBe('public/images/logo.png')
+    expect(normalizeAssetPath('/public//images/logo.png/')).toBe('public/images/logo.png')
+    expect(normalizeAssetPath('public\\images\\logo.png')).toBe('public/images/logo.png')
+  })
+
+  it('rejects paths that could leave the project', () => {
+    expect(normalizeAssetPath('../secrets.txt')).toBeNull()
+    expect(normalizeAssetPath('public/../../etc/passwd')).toBeNull()
+    expect(normalizeAssetPath('public\\..\\..\\etc\\passwd')).toBeNull()
+    expect(normalizeAssetPath('./logo.png')).toBeNull()
+  })
+
+  it('rejects empty paths', () => {
+    expect(normalizeAssetPath('')).toBeNull()
+    expect(normalizeAssetPath('///')).toBeNull()
+  })
+})
+
+describe('getAssetMimeType', () => {
+  it('knows binary asset extensions only', () => {
+    expect(getAssetMimeType('public/Logo.PNG')).toBe('image/png')
+    expect(getAssetMimeType('public/fonts/inter.woff2')).toBe('font/woff2')
+    expect(getAssetMimeType('public/x.html')).toBeNull()
+    expect(getAssetMimeType('public/icon.svg')).toBeNull()
+    expect(getAssetMimeType('README')).toBeNull()
+  })
+})
+
+describe('isInlineMimeType', () => {
+  it('allows images, fonts and media but not documents or SVG', () => {
+    expect(isInlineMimeType('image/png')).toBe(true)
+    expect(isInlineMimeType('font/woff2')).toBe(true)
+    expect(isInlineMimeType('video/mp4')).toBe(true)
+    expect(isInlineMimeType('image/svg+xml')).toBe(false)
+    expect(isInlineMimeType('text/html')).toBe(false)
+    expect(isInlineMimeType('application/pdf')).toBe(false)
+    expect(isInlineMimeType('application/octet-stream')).toBe(false)
+  })
+})
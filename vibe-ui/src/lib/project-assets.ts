@@ -0,0 +1,247 @@
+import multer from 'multer'
+import { deflateSync } from 'zlib'
+import { db } from './db'
+import type { Prisma } from '@/generated/prisma'
+import { runMulter } from './multipart-upload'
+
+type DbClient = typeof db | Prisma.TransactionClient
+
+export const MAX_ASSET_BYTES = 5 * 1024 * 1024 // 5MB per asset
+const MAX_UPLOAD_FILES = 20
+
+// Extensions stored as binary assets. SVG stays a text file so it can be edited.
+const ASSET_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  pdf: 'application/pdf',
+}
+
+export interface UploadedAsset {
+  originalName: string
+  buffer: Buffer
+}
+
+export interface SaveAssetInput {
+  projectId: string
+  path: string
+  data: Buffer
+}
+
+// Project files without the asset bytes, for listings sent to the browser
+export const ASSET_CONTENT_OMIT = { binaryContent: true } as const
+
+export function getAssetMimeType(path: string): string | null {
+  const extension = path.split('.').pop()?.toLowerCase()
+  return extension ? ASSET_MIME_TYPES[extension] ?? null : null
+}
+
+export function isAssetPath(path: string): boolean {
+  return getAssetMimeType(path) !== null
+}
+
+// Types a browser can't run script from; everything else is served as a download
+export function isInlineMimeType(mimeType: string): boolean {
+  return /^(image|font|audio|video)\//.test(mimeType) && mimeType !== 'image/svg+xml'
+}
+
+// Normalise a user supplied path, rejecting anything that escapes the project root
+export function normalizeAssetPath(path: string): string | null {
+  const segments = path.replace(/\\/g, '/').split('/').filter(Boolean)
+  if (segments.length === 0 || segments.some(segment => segment === '..' || segment === '.')) {
+    return null
+  }
+  return segments.join('/')
+}
+
+// Split project files into the text and binary maps CustomSandboxService.createSandbox expects
+export function toSandboxFiles(files: { path: string; content: string; isBinary?: boolean; binaryContent?: Uint8Array | null }[]) {
+  const textFiles: Record<string, string> = {}
+  const binaryFiles: Record<string, Buffer> = {}
+
+  for (const file of files) {
+    if (file.isBinary) {
+      if (file.binaryContent) binaryFiles[file.path] = Buffer.from(file.binaryContent)
+    } else {
+      textFiles[file.path] = file.content
+    }
+  }
+
+  return { files: textFiles, binaryFiles }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+// Solid rounded square in the brand colour, as an RGBA PNG
+function createIconPng(size: number): Buffer {
+  const radius = Math.round(size * 0.2)
+  const rows: Buffer[] = []
+
+  for (let y = 0; y < size; y++) {
+    const row = Buffer.alloc(1 + size * 4) // leading filter byte 0
+    for (let x = 0; x < size; x++) {
+      const dx = Math.max(radius - x, x - (size - 1 - radius), 0)
+      const dy = Math.max(radius - y, y - (size - 1 - radius), 0)
+      const inside = dx * dx + dy * dy <= radius * radius
+      row.set(inside ? [0x63, 0x66, 0xf1, 0xff] : [0, 0, 0, 0], 1 + x * 4)
+    }
+    rows.push(row)
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(size, 0)
+  header.writeUInt32BE(size, 4)
+  header[8] = 8 // bit depth
+  header[9] = 6 // RGBA
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(Buffer.concat(rows))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+// ICO container with a single embedded PNG image
+function createIconIco(size: number): Buffer {
+  const png = createIconPng(size)
+  const header = Buffer.alloc(22)
+  header.writeUInt16LE(0, 0) // reserved
+  header.writeUInt16LE(1, 2) // type: icon
+  header.writeUInt16LE(1, 4) // image count
+  header[6] = size
+  header[7] = size
+  header.writeUInt16LE(1, 10) // colour planes
+  header.writeUInt16LE(32, 12) // bits per pixel
+  header.writeUInt32LE(png.length, 14)
+  header.writeUInt32LE(22, 18) // image offset
+  return Buffer.concat([header, png])
+}
+
+// Placeholder bytes for icon files the AI project structure asks for
+export function createPlaceholderAsset(path: string): Buffer | null {
+  const filename = path.split('/').pop()?.toLowerCase() || ''
+  if (filename.endsWith('.ico')) return createIconIco(32)
+  if (filename === 'apple-icon.png') return createIconPng(180)
+  if (filename.endsWith('.png')) return createIconPng(512)
+  return null
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_ASSET_BYTES,
+    files: MAX_UPLOAD_FILES,
+  },
+})
+
+// Parse a multipart request with one or more "file" fields
+export async function parseAssetUpload(request: Request): Promise<{ assets: UploadedAsset[]; fields: Record<string, string> } | null> {
+  const parsed = await runMulter(request, upload.array('file', MAX_UPLOAD_FILES))
+  if (!parsed?.files?.length) return null
+
+  return {
+    assets: parsed.files.map(file => ({
+      originalName: file.originalname,
+      buffer: file.buffer,
+    })),
+    fields: parsed.body,
+  }
+}
+
+// Stores images, fonts and other binary files next to the text files of a project
+export class ProjectAssetService {
+  // Create or replace the asset at a path
+  async saveAsset(input: SaveAssetInput, client: DbClient = db) {
+    if (input.data.length > MAX_ASSET_BYTES) {
+      throw new Error(`${input.path} is larger than ${MAX_ASSET_BYTES / 1024 / 1024}MB`)
+    }
+
+    // Never the uploader's claimed type, which could make the asset HTML
+    const mimeType = getAssetMimeType(input.path) || 'application/octet-stream'
+    const data = {
+      content: '',
+      language: null,
+      isBinary: true,
+      mimeType,
+      size: input.data.length,
+      binaryContent: input.data,
+    }
+
+    return client.projectFile.upsert({
+      where: {
+        projectId_path: {
+          projectId: input.projectId,
+          path: input.path,
+        },
+      },
+      create: {
+        ...data,
+        projectId: input.projectId,
+        path: input.path,
+        filename: input.path.split('/').pop() || input.path,
+      },
+      update: {
+        ...data,
+        version: { increment: 1 },
+      },
+      omit: ASSET_CONTENT_OMIT,
+    })
+  }
+
+  async getAsset(fileId: string, projectId: string) {
+    return db.projectFile.findFirst({
+      where: {
+        id: fileId,
+        projectId,
+        isBinary: true,
+      },
+      select: {
+        path: true,
+        mimeType: true,
+        size: true,
+        binaryContent: true,
+        updatedAt: true,
+      },
+    })
+  }
+}
+
+export const projectAssetService = new ProjectAssetService()
@@ -0,0 +1,340 @@
+import { db } from './db'
+import { Prisma, type CheckpointPhase } from '@/generated/prisma'
+import { fileRevisionService } from './file-revisions'
+import { diffText } from './text-diff'
+import { getLanguageFromPath } from './deterministic-skeleton'
+import { realtimeHub } from './realtime-hub'
+
+type DbClient = typeof db | Prisma.TransactionClient
+
+export interface CaptureCheckpointInput {
+  projectId: string
+  label: string
+  source: string // e.g. 'project.createProjectWithAI', 'inngest.generateProjectFiles'
+  phase: CheckpointPhase
+  userId?: string | null
+}
+
+export type CheckpointFileChange = {
+  path: string
+  // What a rollback would do to this path
+  status: 'added' | 'removed' | 'modified' | 'unchanged'
+  additions: number
+  deletions: number
+}
+
+// Bytes of binary assets, text content of everything else
+function sameContent(
+  a: { content: string; isBinary: boolean; binaryContent: Uint8Array | null },
+  b: { content: string; isBinary: boolean; binaryContent: Uint8Array | null }
+): boolean {
+  if (a.isBinary !== b.isBinary) return false
+  if (!a.isBinary) return a.content === b.content
+  return Buffer.from(a.binaryContent ?? []).equals(Buffer.from(b.binaryContent ?? []))
+}
+
+export interface RollbackResult {
+  checkpointId: string
+  checkpointLabel: string
+  safetyCheckpointId: string
+  restoredPaths: string[]
+  createdPaths: string[]
+  removedPaths: string[]
+}
+
+// Whole-project snapshots taken around AI generation runs so an entire AI
+// pass can be previewed and undone in one step.
+export class ProjectCheckpointService {
+  async captureCheckpoint(input: CaptureCheckpointInput, client?: DbClient) {
+    const capture = async (tx: Prisma.TransactionClient) => {
+      const files = await tx.projectFile.findMany({
+        where: { projectId: input.projectId },
+        select: {
+          path: true,
+          content: true,
+          language: true,
+          isBinary: true,
+          mimeType: true,
+          binaryContent: true,
+        },
+      })
+
+      return tx.projectCheckpoint.create({
+        data: {
+          projectId: input.projectId,
+          label: input.label,
+          source: input.source,
+          phase: input.phase,
+          userId: input.userId ?? null,
+          fileCount: files.length,
+          files: {
+            createMany: {
+              data: files,
+            },
+          },
+        },
+        select: {
+          id: true,
+          label: true,
+          phase: true,
+          fileCount: true,
+          createdAt: true,
+        },
+      })
+    }
+
+    // Reuse the caller's transaction when one is passed in
+    if (client && client !== db) {
+      return capture(client as Prisma.TransactionClient)
+    }
+
+    return db.$transaction(capture, {
+      isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+    })
+  }
+
+  // Never let a failed snapshot break the generation run it wraps
+  async safeCaptureCheckpoint(input: CaptureCheckpointInput) {
+    try {
+      return await this.captureCheckpoint(input)
+    } catch (error) {
+      console.error(`❌ Failed to capture checkpoint "${input.label}" for project ${input.projectId}:`, error)
+      return null
+    }
+  }
+
+  async listCheckpoints(projectId: string, limit = 50) {
+    return db.projectCheckpoint.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        label: true,
+        source: true,
+        phase: true,
+        fileCount: true,
+        createdAt: true,
+        user: {
+          select: {
+            id: true,
+            username: true,
+            name: true,
+          },
+        },
+      },
+    })
+  }
+
+  async getCheckpoint(checkpointId: string, projectId: string) {
+    return db.projectCheckpoint.findFirst({
+      where: {
+        id: checkpointId,
+        projectId,
+      },
+      include: {
+        files: {
+          orderBy: { path: 'asc' },
+        },
+      },
+    })
+  }
+
+  // Compare a checkpoint with the project's current files
+  async previewCheckpoint(checkpointId: string, projectId: string) {
+    const checkpoint = await this.getCheckpoint(checkpointId, projectId)
+    if (!checkpoint) return null
+
+    const currentFiles = await db.projectFile.findMany({
+      where: { projectId },
+      select: { path: true, content: true, isBinary: true, binaryContent: true },
+    })
+    const currentByPath = new Map(currentFiles.map(file => [file.path, file]))
+    const checkpointPaths = new Set(checkpoint.files.map(file => file.path))
+
+    const changes: CheckpointFileChange[] = checkpoint.files.map(file => {
+      const current = currentByPath.get(file.path)
+      if (current === undefined) {
+        const diff = diffText('', file.content)
+        return { path: file.path, status: 'added', additions: diff.additions, deletions: 0 }
+      }
+
+      // Assets have no lines to count
+      if (file.isBinary || current.isBinary) {
+        return { path: file.path, status: sameContent(current, file) ? 'unchanged' : 'modified', additions: 0, deletions: 0 }
+      }
+
+      const diff = diffText(current.content, file.content)
+      return {
+        path: file.path,
+        status: diff.identical ? 'unchanged' : 'modified',
+        additions: diff.additions,
+        deletions: diff.deletions,
+      }
+    })
+
+    for (const file of currentFiles) {
+      if (!checkpointPaths.has(file.path)) {
+        const diff = diffText(file.content, '')
+        changes.push({ path: file.path, status: 'removed', additions: 0, deletions: diff.deletions })
+      }
+    }
+
+    changes.sort((a, b) => a.path.localeCompare(b.path))
+
+    return {
+      checkpoint: {
+        id: checkpoint.id,
+        label: checkpoint.label,
+        source: checkpoint.source,
+        phase: checkpoint.phase,
+        fileCount: checkpoint.fileCount,
+        createdAt: checkpoint.createdAt,
+      },
+      changes,
+    }
+  }
+
+  // Replace the project's files with the checkpoint contents. The current
+  // state is captured first so the rollback itself can be undone.
+  async rollbackToCheckpoint(checkpointId: string, projectId: string, userId: string): Promise<RollbackResult | null> {
+    const checkpoint = await this.getCheckpoint(checkpointId, projectId)
+    if (!checkpoint) return null
+
+    const snapshot = await realtimeHub.snapshotFileVersions(projectId)
+
+    const rollback = await db.$transaction(async (tx) => {
+      const safetyCheckpoint = await this.captureCheckpoint({
+        projectId,
+        label: `Before rollback to "${checkpoint.label}"`,
+        source: 'checkpoint.rollback',
+        phase: 'BEFORE',
+        userId,
+      }, tx)
+
+      const currentFiles = await tx.projectFile.findMany({
+        where: { projectId },
+      })
+      const currentByPath = new Map(currentFiles.map(file => [file.path, file]))
+      const checkpointPaths = new Set(checkpoint.files.map(file => file.path))
+
+      const result: RollbackResult = {
+        checkpointId: checkpoint.id,
+        checkpointLabel: checkpoint.label,
+        safetyCheckpointId: safetyCheckpoint.id,
+        restoredPaths: [],
+        createdPaths: [],
+        removedPaths: [],
+      }
+
+      const removedFiles = currentFiles.filter(file => !checkpointPaths.has(file.path))
+      if (removedFiles.length > 0) {
+        await tx.projectFile.deleteMany({
+          where: { id: { in: removedFiles.map(file => file.id) } },
+        })
+        result.removedPaths = removedFiles.map(file => file.path)
+      }
+
+      for (const checkpointFile of checkpoint.files) {
+        const existing = currentByPath.get(checkpointFile.path)
+
+        if (existing) {
+          if (sameContent(existing, checkpointFile)) continue
+
+          // Checkpoints from before assets were captured hold them as empty text
+          if (existing.isBinary && !checkpointFile.isBinary && checkpointFile.content === '') continue
+
+          if (checkpointFile.isBinary) {
+            await tx.projectFile.update({
+              where: { id: existing.id },
+              data: {
+                content: '',
+                language: null,
+                isBinary: true,
+                mimeType: checkpointFile.mimeType,
+                size: checkpointFile.binaryContent?.length ?? 0,
+                binaryContent: checkpointFile.binaryContent,
+                version: { increment: 1 },
+              },
+            })
+            result.restoredPaths.push(checkpointFile.path)
+            continue
+          }
+
+          await tx.projectFile.update({
+            where: { id: existing.id },
+            data: {
+              content: checkpointFile.content,
+              language: checkpointFile.language ?? getLanguageFromPath(checkpointFile.path),
+              isBinary: false,
+              mimeType: null,
+              size: null,
+              binaryContent: null,
+              version: { increment: 1 },
+            },
+          })
+          await fileRevisionService.recordRevision({
+            fileId: existing.id,
+            projectId,
+            path: existing.path,
+            content: checkpointFile.content,
+            author: 'USER',
+            source: 'checkpoint.rollback',
+            userId,
+          }, { path: existing.path, content: existing.content }, tx)
+          result.restoredPaths.push(checkpointFile.path)
+        } else if (checkpointFile.isBinary) {
+          await tx.projectFile.create({
+            data: {
+              projectId,
+              path: checkpointFile.path,
+              filename: checkpointFile.path.split('/').pop() || checkpointFile.path,
+              content: '',
+              isBinary: true,
+              mimeType: checkpointFile.mimeType,
+              size: checkpointFile.binaryContent?.length ?? 0,
+              binaryContent: checkpointFile.binaryContent,
+            },
+            select: { id: true },
+          })
+          result.createdPaths.push(checkpointFile.path)
+        } else {
+          const created = await tx.projectFile.create({
+            data: {
+              projectId,
+              path: checkpointFile.path,
+              filename: checkpointFile.path.split('/').pop() || checkpointFile.path,
+              content: checkpointFile.content,
+              language: checkpointFile.language ?? getLanguageFromPath(checkpointFile.path),
+            },
+          })
+          await fileRevisionService.recordRevision({
+            fileId: created.id,
+            projectId,
+            path: created.path,
+            content: created.content,
+            author: 'USER',
+            source: 'checkpoint.rollback',
+            userId,
+          }, undefined, tx)
+          result.createdPaths.push(checkpointFile.path)
+        }
+      }
+
+      await tx.project.update({
+        where: { id: projectId },
+        data: { updatedAt: new Date() },
+      })
+
+      return result
+    }, {
+      isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+      timeout: 30000,
+    })
+
+    await realtimeHub.publishChangesSince(projectId, snapshot)
+    return rollback
+  }
+}
+
+export const projectCheckpointService = new ProjectCheckpointService()
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest'
+import { PACKAGE_NAME_PATTERN, applyDependencyChanges, findDependencyConflicts } from './project-dependencies'
+
+// Editing package.json never touches the database
+vi.mock('./db', () => ({ db: {} }))
+
+const packageJson = (indent: number | string, body: Record<string, unknown>) => JSON.stringify(body, null, indent) + '\n'
+
+describe('PACKAGE_NAME_PATTERN', () => {
+  it('accepts plain and scoped npm names', () => {
+    for (const name of ['react', 'lodash.merge', '@radix-ui/react-dialog', '@types/node']) {
+      expect(PACKAGE_NAME_PATTERN.test(name)).toBe(true)
+    }
+  })
+
+  it('rejects names npm would refuse or a shell would interpret', () => {
+    for (const name of ['React', '@scope', '@scope/', '.hidden', 'a b', 'left-pad; rm -rf /', '../escape']) {
+      expect(PACKAGE_NAME_PATTERN.test(name)).toBe(false)
+    }
+  })
+})
+
+describe('applyDependencyChanges', () => {
+  it('keeps the indentation, other fields and trailing newline', () => {
+    const content = packageJson(4, { name: 'app', scripts: { dev: 'next dev' }, dependencies: { react: '^18.2.0' } })
+
+    const updated = applyDependencyChanges(content, [{ action: 'add', name: 'zod', version: '^3.23.0', type: 'dependencies' }])
+
+    expect(updated).toBe(packageJson(4, {
+      name: 'app',
+      scripts: { dev: 'next dev' },
+      dependencies: { react: '^18.2.0', zod: '^3.23.0' },
+    }))
+  })
+
+  it('keeps tab indentation and a missing trailing newline', () => {
+    const content = JSON.stringify({ name: 'app' }, null, '\t')
+
+    expect(applyDependencyChanges(content, [{ action: 'add', name: 'zod', version: '^3.23.0', type: 'dependencies' }]))
+      .toBe(JSON.stringify({ name: 'app', dependencies: { zod: '^3.23.0' } }, null, '\t'))
+  })
+
+  it('adds scoped packages in sorted order', () => {
+    const content = packageJson(2, { devDependencies: { typescript: '^5.0.0', eslint: '^8.0.0' } })
+
+    const updated = JSON.parse(applyDependencyChanges(content, [
+      { action: 'add', name: '@types/node', version: '^20.0.0', type: 'devDependencies' },
+    ]))
+
+    expect(Object.keys(updated.devDependencies)).toEqual(['@types/node', 'eslint', 'typescript'])
+  })
+
+  it('moves a package between dependency types', () => {
+    const content = packageJson(2, { dependencies: { typescript: '^5.0.0', react: '^18.2.0' }, devDependencies: {} })
+
+    const updated = JSON.parse(applyDependencyChanges(content, [
+      { action: 'add', name: 'typescript', version: '^5.4.0', type: 'devDependencies' },
+    ]))
+
+    expect(updated.dependencies).toEqual({ react: '^18.2.0' })
+    expect(updated.devDependencies).toEqual({ typescript: '^5.4.0' })
+  })
+
+  it('removes a package from whichever section has it', () => {
+    const content = packageJson(2, { dependencies: { react: '^18.2.0' }, devDependencies: { eslint: '^8.0.0' } })
+
+    const updated = JSON.parse(applyDependencyChanges(content, [
+      { action: 'remove', name: 'eslint', version: '', type: 'dependencies' },
+    ]))
+
+    expect(updated).toEqual({ dependencies: { react: '^18.2.0' }, devDependencies: {} })
+  })
+
+  it('rejects content that is not a JSON object', () => {
+    expect(() => applyDependencyChanges('[]', [])).toThrow('not a valid JSON object')
+    expect(() => applyDependencyChanges('{', [])).toThrow('not a valid JSON object')
+  })
+})
+
+describe('findDependencyConflicts', () => {
+  it('reports majors that differ from the sandbox pins', () => {
+    const conflicts = findDependencyConflicts({ dependencies: { next: '^15.0.0', react: '~18.3.1' } }, 'nextjs')
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({ name: 'next', version: '^15.0.0', pinnedVersion: '^14.0.0', reason: 'major-mismatch' }),
+    ])
+  })
+
+  it('ignores ranges without a major, like latest or *', () => {
+    expect(findDependencyConflicts({ dependencies: { next: 'latest', react: '*' } }, 'nextjs')).toEqual([])
+  })
+
+  it('warns when a pinned package was just removed', () => {
+    const conflicts = findDependencyConflicts({ dependencies: { react: '^18.2.0' } }, 'nextjs', ['next'])
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({ name: 'next', version: null, reason: 'removed-required' }),
+    ])
+  })
+})
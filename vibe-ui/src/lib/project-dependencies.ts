@@ -0,0 +1,326 @@
+import { db } from './db'
+import { customSandboxService } from './custom-sandbox'
+import { fileRevisionService } from './file-revisions'
+import { updateFileAtVersion } from './file-conflicts'
+import { gitRepositoryService } from './git-repository'
+import { realtimeHub } from './realtime-hub'
+import { getLanguageFromPath } from './deterministic-skeleton'
+
+const PACKAGE_JSON_PATH = 'package.json'
+const PACKAGE_LOCK_PATH = 'package-lock.json'
+const NPM_REGISTRY_URL = 'https://registry.npmjs.org'
+
+export type DependencyType = 'dependencies' | 'devDependencies'
+
+// npm's rules for package names, including scopes
+export const PACKAGE_NAME_PATTERN = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/
+
+export interface DependencyChange {
+  action: 'add' | 'remove'
+  name: string
+  version?: string // range to add; latest from the registry when omitted
+  type?: DependencyType
+}
+
+export interface ProjectDependency {
+  name: string
+  version: string
+  type: DependencyType
+}
+
+// Disagreements with the versions the sandbox forces into every package.json
+export interface DependencyConflict {
+  name: string
+  version: string | null
+  pinnedVersion: string
+  reason: 'removed-required' | 'major-mismatch'
+  message: string
+}
+
+export class DependencyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DependencyError'
+  }
+}
+
+type PackageJson = Record<string, unknown> & Partial<Record<DependencyType, Record<string, string>>>
+
+function parsePackageJson(content: string): PackageJson {
+  try {
+    const parsed = JSON.parse(content)
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+  } catch {
+    // fall through
+  }
+  throw new DependencyError('package.json is not a valid JSON object')
+}
+
+// First number of a range like ^14.0.0 or ~5; null for latest, * and tags
+function majorOf(range: string): number | null {
+  const match = range.match(/^[\^~>=<v\s]*(\d+)/)
+  return match ? Number(match[1]) : null
+}
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+export function listDependencies(packageJson: PackageJson): ProjectDependency[] {
+  return (['dependencies', 'devDependencies'] as const).flatMap(type =>
+    Object.entries(packageJson[type] ?? {}).map(([name, version]) => ({ name, version, type }))
+  )
+}
+
+// Edit the dependency sections in place, keeping the rest of the file and its indentation
+export function applyDependencyChanges(content: string, changes: Required<DependencyChange>[]): string {
+  const packageJson = parsePackageJson(content)
+  const indent = content.match(/^([ \t]+)"/m)?.[1] ?? 2
+
+  for (const change of changes) {
+    for (const type of ['dependencies', 'devDependencies'] as const) {
+      if (packageJson[type]?.[change.name] !== undefined && (change.action === 'remove' || type !== change.type)) {
+        const { [change.name]: _, ...rest } = packageJson[type]!
+        packageJson[type] = rest
+      }
+    }
+    if (change.action === 'add') {
+      packageJson[change.type] = sortKeys({ ...packageJson[change.type], [change.name]: change.version })
+    }
+  }
+
+  return JSON.stringify(packageJson, null, indent) + (content.endsWith('\n') ? '\n' : '')
+}
+
+export function findDependencyConflicts(packageJson: PackageJson, framework: string, removedNames: string[] = []): DependencyConflict[] {
+  const required = customSandboxService.getRequiredDependencies(framework)
+  const pinned = { ...required.dependencies, ...required.devDependencies }
+  const current = { ...packageJson.devDependencies, ...packageJson.dependencies }
+
+  return Object.entries(pinned).flatMap(([name, pinnedVersion]): DependencyConflict[] => {
+    const version = current[name]
+    if (version === undefined) {
+      return removedNames.includes(name)
+        ? [{ name, version: null, pinnedVersion, reason: 'removed-required', message: `The sandbox adds ${name}@${pinnedVersion} back when it starts` }]
+        : []
+    }
+
+    const major = majorOf(version)
+    const pinnedMajor = majorOf(pinnedVersion)
+    if (major !== null && pinnedMajor !== null && major !== pinnedMajor) {
+      return [{
+        name,
+        version,
+        pinnedVersion,
+        reason: 'major-mismatch',
+        message: `${name}@${version} differs from the sandbox's ${pinnedVersion}; packages pinned alongside it may not match`,
+      }]
+    }
+    return []
+  })
+}
+
+// ^<latest> from the registry, which also checks the package exists
+async function resolveLatestVersion(name: string): Promise<string> {
+  const response = await fetch(`${NPM_REGISTRY_URL}/${name.replace('/', '%2F')}/latest`)
+  if (response.status === 404) {
+    throw new DependencyError(`Package ${name} was not found on npm`)
+  }
+  if (!response.ok) {
+    throw new DependencyError(`Could not look up ${name} on npm (${response.status})`)
+  }
+  const { version } = await response.json() as { version: string }
+  return `^${version}`
+}
+
+export class ProjectDependencyService {
+  private async getPackageFile(projectId: string) {
+    return db.projectFile.findUnique({
+      where: {
+        projectId_path: { projectId, path: PACKAGE_JSON_PATH },
+      },
+      omit: { binaryContent: true },
+    })
+  }
+
+  // Same default framework the sandbox routes use
+  private async getFramework(projectId: string): Promise<string> {
+    const project = await db.project.findUniqueOrThrow({
+      where: { id: projectId },
+      select: { framework: true },
+    })
+    return project.framework || 'nextjs'
+  }
+
+  async getDependencies(projectId: string) {
+    const file = await this.getPackageFile(projectId)
+    if (!file) {
+      return { fileId: null, version: null, dependencies: [], conflicts: [] }
+    }
+
+    const packageJson = parsePackageJson(file.content)
+    return {
+      fileId: file.id,
+      version: file.version,
+      dependencies: listDependencies(packageJson),
+      conflicts: findDependencyConflicts(packageJson, await this.getFramework(projectId)),
+    }
+  }
+
+  // Edit package.json like a user save: revision, git commit and live editors updated
+  async updateDependencies(input: {
+    projectId: string
+    userId: string
+    changes: DependencyChange[]
+    expectedVersion: number
+  }) {
+    const file = await this.getPackageFile(input.projectId)
+    if (!file) {
+      throw new DependencyError('This project has no package.json')
+    }
+
+    const resolved: Required<DependencyChange>[] = []
+    for (const change of input.changes) {
+      if (!PACKAGE_NAME_PATTERN.test(change.name)) {
+        throw new DependencyError(`${change.name} is not a valid package name`)
+      }
+      resolved.push({
+        action: change.action,
+        name: change.name,
+        type: change.type ?? 'dependencies',
+        version: change.action === 'add' ? change.version || await resolveLatestVersion(change.name) : '',
+      })
+    }
+
+    const content = applyDependencyChanges(file.content, resolved)
+    const updated = await updateFileAtVersion(file.id, input.expectedVersion, { content })
+    if (!updated) {
+      throw new DependencyError('This project has no package.json')
+    }
+
+    await fileRevisionService.recordRevision({
+      fileId: updated.id,
+      projectId: input.projectId,
+      path: updated.path,
+      content: updated.content,
+      author: 'USER',
+      source: 'dependencies.update',
+      userId: input.userId,
+    }, { path: file.path, content: file.content })
+
+    const summary = resolved
+      .map(change => change.action === 'add' ? `add ${change.name}@${change.version}` : `remove ${change.name}`)
+      .join(', ')
+    await gitRepositoryService.safeCommitProjectState(input.projectId, `Update dependencies: ${summary}`, {
+      author: 'USER',
+      userId: input.userId,
+      paths: [updated.path],
+    })
+
+    realtimeHub.publishFileEvent(input.projectId, {
+      type: 'file-updated',
+      fileId: updated.id,
+      path: updated.path,
+      version: updated.version,
+    }, updated.content)
+
+    const packageJson = parsePackageJson(updated.content)
+    return {
+      fileId: updated.id,
+      version: updated.version,
+      dependencies: listDependencies(packageJson),
+      conflicts: findDependencyConflicts(
+        packageJson,
+        await this.getFramework(input.projectId),
+        resolved.filter(change => change.action === 'remove').map(change => change.name)
+      ),
+    }
+  }
+
+  // Push package.json into the running container, npm install there and keep
+  // the regenerated lockfile in the project. Resolves with npm's exit code.
+  async installInSandbox(input: {
+    projectId: string
+    sandboxId: string
+    userId: string
+    onOutput: (chunk: string) => void
+    signal?: AbortSignal
+  }): Promise<number> {
+    const { projectId, sandboxId, onOutput, signal } = input
+    const file = await this.getPackageFile(projectId)
+    if (!file) {
+      throw new DependencyError('This project has no package.json')
+    }
+
+    await customSandboxService.writeSandboxFile(sandboxId, PACKAGE_JSON_PATH, file.content)
+    await customSandboxService.copyToContainer(sandboxId, PACKAGE_JSON_PATH)
+
+    onOutput('$ npm install\n')
+    const exitCode = await customSandboxService.execInContainer(
+      sandboxId,
+      ['npm', 'install', '--no-audit', '--no-fund'],
+      onOutput,
+      signal
+    )
+
+    if (exitCode === 0) {
+      await customSandboxService.copyFromContainer(sandboxId, PACKAGE_LOCK_PATH)
+      await this.saveLockfile(projectId, input.userId, await customSandboxService.readSandboxFile(sandboxId, PACKAGE_LOCK_PATH))
+    }
+    return exitCode
+  }
+
+  // Keep the regenerated lockfile as a project file with history, like package.json
+  private async saveLockfile(projectId: string, userId: string, content: string) {
+    const existing = await db.projectFile.findUnique({
+      where: {
+        projectId_path: { projectId, path: PACKAGE_LOCK_PATH },
+      },
+      omit: { binaryContent: true },
+    })
+    if (existing?.content === content) return
+
+    let file
+    if (existing) {
+      file = await updateFileAtVersion(existing.id, existing.version, {
+        content,
+        size: Buffer.byteLength(content),
+      })
+      if (!file) return
+    } else {
+      file = await db.projectFile.create({
+        data: {
+          filename: PACKAGE_LOCK_PATH,
+          path: PACKAGE_LOCK_PATH,
+          content,
+          language: getLanguageFromPath(PACKAGE_LOCK_PATH),
+          size: Buffer.byteLength(content),
+          projectId,
+        },
+        omit: { binaryContent: true },
+      })
+    }
+
+    await fileRevisionService.recordRevision({
+      fileId: file.id,
+      projectId,
+      path: file.path,
+      content: file.content,
+      author: 'USER',
+      source: 'dependencies.install',
+      userId,
+    }, existing ? { path: existing.path, content: existing.content } : undefined)
+
+    await gitRepositoryService.safeCommitProjectState(projectId, 'Update package-lock.json', {
+      author: 'USER',
+      userId,
+      paths: [file.path],
+    })
+
+    realtimeHub.publishFileEvent(projectId, existing
+      ? { type: 'file-updated', fileId: file.id, path: file.path, version: file.version }
+      : { type: 'file-created', fileId: file.id, path: file.path }, file.content)
+  }
+}
+
+export const projectDependencyService = new ProjectDependencyService()
@@ -0,0 +1,64 @@
+import { Worker } from 'worker_threads'
+import { db } from './db'
+import { TimedWorker } from './timed-worker'
+import { SOURCE_EXTENSIONS, type ProjectDiagnosticsResult } from './project-typecheck'
+
+export type { ProjectDiagnostic, ProjectDiagnosticsResult } from './project-typecheck'
+
+const MAX_CACHED_PROJECTS = 20
+const CHECK_TIMEOUT_MS = 30000
+
+export class DiagnosticsTimeoutError extends Error {
+  constructor() {
+    super(`Type check took longer than ${CHECK_TIMEOUT_MS / 1000}s`)
+    this.name = 'DiagnosticsTimeoutError'
+  }
+}
+
+export class ProjectDiagnosticsService {
+  // Checks run one at a time off the request thread
+  private worker = new TimedWorker<{ files: { path: string; content: string }[]; framework: string }, ProjectDiagnosticsResult>(
+    () => new Worker(new URL('./project-typecheck.worker.ts', import.meta.url)),
+    CHECK_TIMEOUT_MS,
+    () => new DiagnosticsTimeoutError()
+  )
+  // Last result per project, reused until a file changes
+  private cache = new Map<string, { fingerprint: string; result: Promise<ProjectDiagnosticsResult> }>()
+
+  async getDiagnostics(projectId: string): Promise<ProjectDiagnosticsResult> {
+    const [project, files] = await Promise.all([
+      db.project.findUniqueOrThrow({
+        where: { id: projectId },
+        select: { framework: true },
+      }),
+      db.projectFile.findMany({
+        where: { projectId, isBinary: false },
+        select: { id: true, path: true, content: true, version: true },
+        orderBy: { path: 'asc' },
+      }),
+    ])
+
+    const sourceFiles = files.filter(file => SOURCE_EXTENSIONS.test(file.path))
+    const framework = project.framework || 'nextjs'
+    const fingerprint = [framework, ...sourceFiles.map(file => `${file.id}:${file.version}:${file.path}`)].join('|')
+
+    const cached = this.cache.get(projectId)
+    if (cached?.fingerprint === fingerprint) {
+      return cached.result
+    }
+
+    const result = this.worker.run({ files: sourceFiles.map(file => ({ path: file.path, content: file.content })), framework })
+    this.cache.delete(projectId)
+    this.cache.set(projectId, { fingerprint, result })
+    if (this.cache.size > MAX_CACHED_PROJECTS) {
+      this.cache.delete(this.cache.keys().next().value!)
+    }
+
+    result.catch(() => {
+      if (this.cache.get(projectId)?.result === result) this.cache.delete(projectId)
+    })
+    return result
+  }
+}
+
+export const projectDiagnosticsService = new ProjectDiagnosticsService()
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ProjectEnvError, decryptEnvValue, encryptEnvValue, formatEnvFile, maskSecretValues } from './project-env'
+
+// The value helpers never touch the database
+vi.mock('./db', () => ({ db: {} }))
+
+beforeEach(() => {
+  vi.stubEnv('PROJECT_ENV_ENCRYPTION_KEY', 'test-encryption-key')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('encryptEnvValue / decryptEnvValue', () => {
+  it('round-trips values, including unicode and empty ones', () => {
+    for (const value of ['sk_live_1234567890', 'pässwörd 🔑', '']) {
+      expect(decryptEnvValue(encryptEnvValue(value))).toBe(value)
+    }
+  })
+
+  it('uses a fresh IV for every encryption', () => {
+    const first = encryptEnvValue('same value')
+    const second = encryptEnvValue('same value')
+
+    expect(first).not.toBe(second)
+    expect(first.startsWith('v1:')).toBe(true)
+    expect(first).not.toContain('same value')
+  })
+
+  it('detects a tampered ciphertext or auth tag', () => {
+    const [version, iv, tag, encrypted] = encryptEnvValue('sk_live_1234567890').split(':')
+    const flipped = Buffer.from(encrypted, 'base64')
+    flipped[0] ^= 1
+    const otherTag = Buffer.from(tag, 'base64')
+    otherTag[0] ^= 1
+
+    expect(() => decryptEnvValue([version, iv, tag, flipped.toString('base64')].join(':'))).toThrow()
+    expect(() => decryptEnvValue([version, iv, otherTag.toString('base64'), encrypted].join(':'))).toThrow()
+  })
+
+  it('fails to decrypt with a different key', () => {
+    const stored = encryptEnvValue('sk_live_1234567890')
+    vi.stubEnv('PROJECT_ENV_ENCRYPTION_KEY', 'another-key')
+
+    expect(() => decryptEnvValue(stored)).toThrow()
+  })
+
+  it('rejects values in an unknown format', () => {
+    expect(() => decryptEnvValue('plaintext')).toThrow(ProjectEnvError)
+    expect(() => decryptEnvValue('v2:a:b:c')).toThrow(ProjectEnvError)
+  })
+
+  it('refuses to work without a key', () => {
+    vi.stubEnv('PROJECT_ENV_ENCRYPTION_KEY', '')
+
+    expect(() => encryptEnvValue('value')).toThrow('PROJECT_ENV_ENCRYPTION_KEY is not set')
+  })
+})
+
+describe('maskSecretValues', () => {
+  it('masks every occurrence, longest values first', () => {
+    const text = 'token=abcd1234efgh prefix=abcd1234 again abcd1234efgh'
+
+    expect(maskSecretValues(text, ['abcd1234', 'abcd1234efgh'])).toBe('token=******** prefix=******** again ********')
+  })
+
+  it('leaves values shorter than four characters alone', () => {
+    expect(maskSecretValues('id=abc port=3000', ['abc', '3000'])).toBe('id=abc port=********')
+  })
+})
+
+describe('formatEnvFile', () => {
+  it('writes one KEY=value line per variable, values taken literally', () => {
+    expect(formatEnvFile({ API_URL: 'https://example.com/?a=b', QUOTED: '"kept"' }))
+      .toBe('API_URL=https://example.com/?a=b\nQUOTED="kept"\n')
+  })
+})
@@ -0,0 +1,144 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { db } from './db'
+import type { EnvVarScope } from '@/generated/prisma'
+
+const CIPHER = 'aes-256-gcm'
+const VALUE_VERSION = 'v1'
+const MASK = '********'
+
+// Shell-style names, so they work in .env files and process.env alike
+export const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Set by the sandbox itself; user values would break the container
+export const RESERVED_ENV_KEYS = ['NODE_ENV', 'PORT']
+
+export class ProjectEnvError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectEnvError'
+  }
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.PROJECT_ENV_ENCRYPTION_KEY
+  if (!secret) {
+    throw new ProjectEnvError('PROJECT_ENV_ENCRYPTION_KEY is not set, project environment variables are unavailable')
+  }
+  // Accept any secret string and stretch it to a 256-bit key
+  return createHash('sha256').update(secret).digest()
+}
+
+// Stored as v1:<iv>:<auth tag>:<ciphertext>, all base64
+export function encryptEnvValue(value: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(CIPHER, getEncryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()])
+  return [VALUE_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), encrypted.toString('base64')].join(':')
+}
+
+export function decryptEnvValue(stored: string): string {
+  const [version, iv, tag, encrypted] = stored.split(':')
+  if (version !== VALUE_VERSION || !iv || !tag || encrypted === undefined) {
+    throw new ProjectEnvError('Unrecognized encrypted environment value')
+  }
+  const decipher = createDecipheriv(CIPHER, getEncryptionKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8')
+}
+
+// Hint shown in the settings UI instead of the value
+function maskValue(value: string): string {
+  return value.length >= 12 ? `${MASK}${value.slice(-4)}` : MASK
+}
+
+// Replace every occurrence of a secret value in log output. Very short values
+// are skipped, they would mask unrelated text.
+export function maskSecretValues(text: string, values: string[]): string {
+  return values
+    .filter(value => value.length >= 4)
+    .sort((a, b) => b.length - a.length)
+    .reduce((masked, value) => masked.split(value).join(MASK), text)
+}
+
+// KEY=value lines for docker --env-file, which takes values literally
+export function formatEnvFile(environment: Record<string, string>): string {
+  return Object.entries(environment).map(([key, value]) => `${key}=${value}`).join('\n') + '\n'
+}
+
+export class ProjectEnvService {
+  async listVariables(projectId: string) {
+    const variables = await db.projectEnvVar.findMany({
+      where: { projectId },
+      orderBy: [{ key: 'asc' }, { scope: 'asc' }],
+    })
+
+    return variables.map(variable => ({
+      id: variable.id,
+      key: variable.key,
+      scope: variable.scope,
+      maskedValue: maskValue(decryptEnvValue(variable.encryptedValue)),
+      updatedAt: variable.updatedAt,
+    }))
+  }
+
+  async setVariable(projectId: string, key: string, value: string, scope: EnvVarScope) {
+    if (!ENV_KEY_PATTERN.test(key) || RESERVED_ENV_KEYS.includes(key)) {
+      throw new ProjectEnvError(`${key} can't be used as an environment variable name`)
+    }
+
+    const encryptedValue = encryptEnvValue(value)
+    const variable = await db.projectEnvVar.upsert({
+      where: {
+        projectId_key_scope: { projectId, key, scope },
+      },
+      update: { encryptedValue },
+      create: { projectId, key, scope, encryptedValue },
+    })
+
+    return {
+      id: variable.id,
+      key: variable.key,
+      scope: variable.scope,
+      maskedValue: maskValue(value),
+      updatedAt: variable.updatedAt,
+    }
+  }
+
+  async deleteVariable(projectId: string, variableId: string): Promise<boolean> {
+    const { count } = await db.projectEnvVar.deleteMany({
+      where: { id: variableId, projectId },
+    })
+    return count > 0
+  }
+
+  async revealVariable(projectId: string, variableId: string): Promise<string | null> {
+    const variable = await db.projectEnvVar.findFirst({
+      where: { id: variableId, projectId },
+      select: { encryptedValue: true },
+    })
+    return variable ? decryptEnvValue(variable.encryptedValue) : null
+  }
+
+  // Decrypted variables for one scope, ready to inject
+  async getEnvironment(projectId: string, scope: EnvVarScope): Promise<Record<string, string>> {
+    const variables = await db.projectEnvVar.findMany({
+      where: { projectId, scope },
+      select: { key: true, encryptedValue: true },
+    })
+
+    return Object.fromEntries(variables.map(variable => [variable.key, decryptEnvValue(variable.encryptedValue)]))
+  }
+
+  // Mask every value the project has, in any scope
+  async maskSecrets(projectId: string, text: string): Promise<string> {
+    const variables = await db.projectEnvVar.findMany({
+      where: { projectId },
+      select: { encryptedValue: true },
+    })
+    if (variables.length === 0) return text
+
+    return maskSecretValues(text, variables.map(variable => decryptEnvValue(variable.encryptedValue)))
+  }
+}
+
+export const projectEnvService = new ProjectEnvService()
@@ -0,0 +1,135 @@
+import JSZip from 'jszip'
+import { db } from './db'
+import { customSandboxService } from './custom-sandbox'
+
+export interface ProjectArchiveOptions {
+  includeDocker?: boolean // add Dockerfile, .dockerignore and .env.example scaffolding
+}
+
+export interface ProjectArchive {
+  filename: string
+  stream: ReadableStream<Uint8Array>
+}
+
+const ENV_REFERENCE_PATTERN = /(?:process\.env|import\.meta\.env)\.([A-Z_][A-Z0-9_]*)/g
+
+// Environment variables every exported app reads regardless of its source
+const BUILTIN_ENV_VARS = new Set(['NODE_ENV', 'PORT'])
+
+// Map stored framework names ('Next.js', 'nextjs', 'React') onto sandbox template keys
+function normalizeFramework(framework: string | null): string {
+  return (framework || 'nextjs').toLowerCase().replace(/[^a-z]/g, '')
+}
+
+function toArchiveName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return slug || 'project'
+}
+
+// Strip leading slashes and reject paths that would escape the archive root
+function toArchivePath(filePath: string): string | null {
+  const normalized = filePath.replace(/\\/g, '/').replace(/^\/+/, '')
+  if (!normalized || normalized.split('/').some(segment => segment === '..')) {
+    return null
+  }
+  return normalized
+}
+
+export class ProjectExportService {
+  // Collect every env var the project's code references, for .env.example
+  collectEnvVars(files: { content: string }[]): string[] {
+    const names = new Set<string>()
+    for (const file of files) {
+      for (const match of file.content.matchAll(ENV_REFERENCE_PATTERN)) {
+        if (!BUILTIN_ENV_VARS.has(match[1])) {
+          names.add(match[1])
+        }
+      }
+    }
+    return [...names].sort()
+  }
+
+  buildEnvExample(envVars: string[]): string {
+    const lines = [
+      '# Copy this file to .env.local and fill in the values',
+      'PORT=3000',
+    ]
+    if (envVars.length > 0) {
+      lines.push('')
+      lines.push(...envVars.map(name => `${name}=`))
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  // Build a streamed ZIP of all project files. Returns null if the project does not exist.
+  async createProjectArchive(projectId: string, options: ProjectArchiveOptions = {}): Promise<ProjectArchive | null> {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      include: {
+        files: {
+          orderBy: { path: 'asc' },
+        },
+      },
+    })
+
+    if (!project) return null
+
+    const rootName = toArchiveName(project.name)
+    const zip = new JSZip()
+    const root = zip.folder(rootName)!
+
+    for (const file of project.files) {
+      const archivePath = toArchivePath(file.path)
+      if (!archivePath) {
+        console.warn(`⚠️ Skipping unsafe path in export: ${file.path}`)
+        continue
+      }
+      root.file(archivePath, file.isBinary ? Buffer.from(file.binaryContent ?? []) : file.content)
+    }
+
+    if (options.includeDocker) {
+      const existingPaths = new Set(project.files.map(file => toArchivePath(file.path)))
+
+      // Never overwrite files the project already provides
+      if (!existingPaths.has('Dockerfile')) {
+        root.file('Dockerfile', customSandboxService.getDockerfileTemplate(normalizeFramework(project.framework)) + '\n')
+      }
+      if (!existingPaths.has('.dockerignore')) {
+        root.file('.dockerignore', ['node_modules', '.next', '.git', '.env*', '!.env.example', ''].join('\n'))
+      }
+      if (!existingPaths.has('.env.example')) {
+        root.file('.env.example', this.buildEnvExample(this.collectEnvVars(project.files)))
+      }
+    }
+
+    const internal = zip.generateInternalStream({
+      type: 'uint8array',
+      streamFiles: true,
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    })
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        internal
+          .on('data', (chunk) => controller.enqueue(chunk))
+          .on('error', (error) => controller.error(error))
+          .on('end', () => controller.close())
+        internal.resume()
+      },
+      cancel() {
+        internal.pause()
+      },
+    })
+
+    return {
+      filename: `${rootName}.zip`,
+      stream,
+    }
+  }
+}
+
+export const projectExportService = new ProjectExportService()
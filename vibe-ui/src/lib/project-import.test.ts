@@ -0,0 +1,89 @@
+import JSZip from 'jszip'
+import { describe, expect, it, vi } from 'vitest'
+import { ProjectImportService, projectImportService } from './project-import'
+
+// Extraction never touches the database
+vi.mock('./db', () => ({ db: {} }))
+
+async function buildZip(entries: Record<string, string | Uint8Array>): Promise<Buffer> {
+  const zip = new JSZip()
+  for (const [path, content] of Object.entries(entries)) {
+    zip.file(path, content)
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+// Rewrite the uncompressed size in every local and central directory header,
+// the way a zip bomb hides how much its entries inflate to
+function forgeUncompressedSize(buffer: Buffer, size: number): Buffer {
+  const forged = Buffer.from(buffer)
+  for (let offset = 0; offset < forged.length - 4; offset++) {
+    const signature = forged.readUInt32LE(offset)
+    if (signature === 0x04034b50) {
+      forged.writeUInt32LE(size, offset + 22)
+    } else if (signature === 0x02014b50) {
+      forged.writeUInt32LE(size, offset + 24)
+    }
+  }
+  return forged
+}
+
+describe('ProjectImportService.extractArchive', () => {
+  it('extracts source files and assets, stripping a shared root directory', async () => {
+    const archive = await buildZip({
+      'my-app/package.json': '{"name":"my-app"}',
+      'my-app/src/index.ts': 'export {}\n',
+      'my-app/public/logo.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 1, 2]),
+      'my-app/node_modules/react/index.js': 'module.exports = {}',
+    })
+
+    const result = await projectImportService.extractArchive(archive)
+
+    expect(result.files.map(file => file.path)).toEqual(['package.json', 'src/index.ts'])
+    expect(result.assets.map(asset => asset.path)).toEqual(['public/logo.png'])
+    expect(result.skipped).toEqual([])
+  })
+
+  it('skips entries whose declared size is over the per-file limit', async () => {
+    const archive = await buildZip({
+      'big.ts': 'a'.repeat(2 * 1024 * 1024),
+      'small.ts': 'export {}\n',
+    })
+
+    const result = await projectImportService.extractArchive(archive)
+
+    expect(result.files.map(file => file.path)).toEqual(['small.ts'])
+    expect(result.skipped).toEqual(['big.ts'])
+  })
+
+  it('stops inflating an entry that inflates past its declared size', async () => {
+    const archive = forgeUncompressedSize(await buildZip({ 'bomb.ts': 'a'.repeat(8 * 1024 * 1024) }), 10)
+
+    const result = await projectImportService.extractArchive(archive)
+
+    expect(result.files).toEqual([])
+    expect(result.skipped).toEqual(['bomb.ts'])
+  })
+
+  it('rejects archives that extract to more than the total limit', async () => {
+    const service = new ProjectImportService({ maxTotalBytes: 1000, maxFileBytes: 600, maxAssetBytes: 600, maxFiles: 10 })
+    const archive = await buildZip({
+      'a.ts': 'a'.repeat(500),
+      'b.ts': 'b'.repeat(500),
+      'c.ts': 'c'.repeat(500),
+    })
+
+    await expect(service.extractArchive(archive)).rejects.toThrow('too large once extracted')
+  })
+
+  it('rejects a lying entry once it inflates past the remaining total', async () => {
+    const service = new ProjectImportService({ maxTotalBytes: 1000, maxFileBytes: 5000, maxAssetBytes: 5000, maxFiles: 10 })
+    const archive = forgeUncompressedSize(await buildZip({ 'bomb.ts': 'a'.repeat(4000) }), 10)
+
+    await expect(service.extractArchive(archive)).rejects.toThrow('too large once extracted')
+  })
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(projectImportService.extractArchive(Buffer.from('not a zip'))).rejects.toThrow('not a valid ZIP')
+  })
+})
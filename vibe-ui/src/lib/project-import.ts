@@ -0,0 +1,355 @@
+import JSZip from 'jszip'
+import multer from 'multer'
+import { db } from './db'
+import { fileRevisionService } from './file-revisions'
+import { getLanguageFromPath } from './deterministic-skeleton'
+import { runMulter } from './multipart-upload'
+import { MAX_ASSET_BYTES, isAssetPath, projectAssetService } from './project-assets'
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024 // 50MB compressed
+
+export interface ArchiveLimits {
+  maxTotalBytes: number // uncompressed (zip bomb guard)
+  maxFileBytes: number // per source file
+  maxAssetBytes: number
+  maxFiles: number
+}
+
+const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxTotalBytes: 100 * 1024 * 1024, // 100MB
+  maxFileBytes: 1024 * 1024, // 1MB
+  maxAssetBytes: MAX_ASSET_BYTES,
+  maxFiles: 2000,
+}
+
+// Directories that are build output or dependencies, never source
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules',
+  '.next',
+  '.git',
+  '.turbo',
+  '.vercel',
+  '.cache',
+  'coverage',
+  'out',
+])
+
+const IGNORED_FILES = new Set(['.DS_Store', 'Thumbs.db'])
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_UPLOAD_BYTES,
+    files: 1,
+  },
+  fileFilter: (_req, file, callback) => {
+    const isZip = file.originalname.toLowerCase().endsWith('.zip') ||
+      ['application/zip', 'application/x-zip-compressed'].includes(file.mimetype)
+    if (isZip) {
+      callback(null, true)
+    } else {
+      callback(new Error('Only .zip archives can be imported'))
+    }
+  },
+})
+
+export interface UploadedArchive {
+  originalName: string
+  buffer: Buffer
+  fields: Record<string, string>
+}
+
+export interface ImportedFile {
+  path: string
+  content: string
+}
+
+export interface ImportedAsset {
+  path: string
+  data: Buffer
+}
+
+export interface ExtractedArchive {
+  files: ImportedFile[]
+  assets: ImportedAsset[] // images, fonts and other binary files
+  skipped: string[] // paths left out (ignored directories, unknown binaries, oversized files)
+}
+
+export interface DetectedStack {
+  framework: string | null // sandbox template key: 'nextjs', 'react', 'vue'
+  styling: string | null
+  name: string | null
+  description: string | null
+}
+
+// Parse a multipart request with a single "file" field
+export async function parseArchiveUpload(request: Request): Promise<UploadedArchive | null> {
+  const parsed = await runMulter(request, upload.single('file'))
+  if (!parsed?.file) return null
+
+  return {
+    originalName: parsed.file.originalname,
+    buffer: parsed.file.buffer,
+    fields: parsed.body,
+  }
+}
+
+// Treat a file as binary if it has NUL bytes in its first 8KB (same heuristic as git)
+function isBinary(data: Uint8Array): boolean {
+  const length = Math.min(data.length, 8000)
+  for (let i = 0; i < length; i++) {
+    if (data[i] === 0) return true
+  }
+  return false
+}
+
+function normalizeEntryPath(entryName: string): string | null {
+  const normalized = entryName.replace(/\\/g, '/').replace(/^\/+/, '')
+  const segments = normalized.split('/').filter(Boolean)
+  if (segments.length === 0 || segments.some(segment => segment === '..' || segment === '.')) {
+    return null
+  }
+  return segments.join('/')
+}
+
+// Size the archive's central directory claims for an entry. Archives can lie
+// about it, so reading an entry is capped separately.
+function declaredSize(entry: JSZip.JSZipObject): number | null {
+  const size = (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize
+  return typeof size === 'number' && size >= 0 ? size : null
+}
+
+// Inflate an entry chunk by chunk, stopping as soon as it passes the limit.
+// internalStream is the untyped stream behind entry.async().
+function readEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolvePromise, reject) => {
+    const chunks: Buffer[] = []
+    let length = 0
+    let done = false
+    const stream = (entry as unknown as {
+      internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>
+    }).internalStream('uint8array')
+
+    stream
+      .on('data', (chunk) => {
+        if (done) return
+        length += chunk.length
+        if (length > limit) {
+          done = true
+          stream.pause()
+          resolvePromise(null)
+          return
+        }
+        chunks.push(Buffer.from(chunk))
+      })
+      .on('error', (error) => {
+        if (done) return
+        done = true
+        reject(error)
+      })
+      .on('end', () => {
+        if (done) return
+        done = true
+        resolvePromise(Buffer.concat(chunks))
+      })
+      .resume()
+  })
+}
+
+// Archives created by "compress folder" wrap everything in one top-level directory
+function stripCommonRoot(paths: string[]): string | null {
+  if (paths.length === 0) return null
+  const first = paths[0].split('/')[0]
+  const allShareRoot = paths.every(path => path.includes('/') && path.split('/')[0] === first)
+  return allShareRoot ? `${first}/` : null
+}
+
+export class ProjectImportService {
+  constructor(private limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS) {}
+
+  async extractArchive(buffer: Buffer): Promise<ExtractedArchive> {
+    let zip: JSZip
+    try {
+      zip = await JSZip.loadAsync(buffer)
+    } catch {
+      throw new Error('The uploaded file is not a valid ZIP archive')
+    }
+
+    const entries = Object.values(zip.files).filter(entry => !entry.dir)
+    const skipped: string[] = []
+    const candidates: { path: string; entry: JSZip.JSZipObject }[] = []
+
+    for (const entry of entries) {
+      const path = normalizeEntryPath(entry.name)
+      if (!path) {
+        skipped.push(entry.name)
+        continue
+      }
+      // macOS resource forks
+      if (path.startsWith('__MACOSX/')) continue
+      candidates.push({ path, entry })
+    }
+
+    const root = stripCommonRoot(candidates.map(candidate => candidate.path))
+    const files: ImportedFile[] = []
+    const assets: ImportedAsset[] = []
+    let totalBytes = 0
+
+    for (const candidate of candidates) {
+      const path = root ? candidate.path.slice(root.length) : candidate.path
+      const segments = path.split('/')
+
+      if (segments.some(segment => IGNORED_DIRECTORIES.has(segment)) || IGNORED_FILES.has(segments[segments.length - 1])) {
+        continue
+      }
+
+      if (files.length + assets.length >= this.limits.maxFiles) {
+        throw new Error(`Archive contains more than ${this.limits.maxFiles} source files`)
+      }
+
+      // Sizes are checked before anything is inflated, and again while inflating
+      const fileLimit = isAssetPath(path) ? this.limits.maxAssetBytes : this.limits.maxFileBytes
+      const declared = declaredSize(candidate.entry)
+      if (declared !== null && declared > fileLimit) {
+        skipped.push(path)
+        continue
+      }
+      const remaining = this.limits.maxTotalBytes - totalBytes
+      if (declared !== null && declared > remaining) {
+        throw new Error('Archive is too large once extracted')
+      }
+
+      const data = await readEntry(candidate.entry, Math.min(fileLimit, remaining))
+      if (!data) {
+        if (remaining <= fileLimit) {
+          throw new Error('Archive is too large once extracted')
+        }
+        skipped.push(path)
+        continue
+      }
+      totalBytes += data.length
+
+      if (isAssetPath(path)) {
+        assets.push({ path, data })
+        continue
+      }
+
+      if (isBinary(data)) {
+        skipped.push(path)
+        continue
+      }
+
+      files.push({
+        path,
+        content: data.toString('utf8'),
+      })
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path))
+
+    return { files, assets, skipped }
+  }
+
+  // Read framework and styling from the root package.json
+  detectStack(files: ImportedFile[]): DetectedStack {
+    const detected: DetectedStack = { framework: null, styling: null, name: null, description: null }
+    const packageFile = files.find(file => file.path === 'package.json')
+    if (!packageFile) return detected
+
+    let packageJson: {
+      name?: string
+      description?: string
+      dependencies?: Record<string, string>
+      devDependencies?: Record<string, string>
+    }
+    try {
+      packageJson = JSON.parse(packageFile.content)
+    } catch {
+      return detected
+    }
+
+    const deps = { ...packageJson.dependencies, ...packageJson.devDependencies }
+    const has = (name: string) => name in deps
+
+    if (has('next')) {
+      detected.framework = 'nextjs'
+    } else if (has('vue') || has('nuxt')) {
+      detected.framework = 'vue'
+    } else if (has('react')) {
+      detected.framework = 'react'
+    }
+
+    if (has('tailwindcss') || has('@tailwindcss/postcss')) {
+      detected.styling = 'Tailwind CSS'
+    } else if (has('styled-components')) {
+      detected.styling = 'styled-components'
+    } else if (has('@emotion/react') || has('@emotion/styled')) {
+      detected.styling = 'Emotion'
+    } else if (has('sass')) {
+      detected.styling = 'Sass'
+    } else if (files.some(file => file.path.endsWith('.css'))) {
+      detected.styling = 'CSS'
+    }
+
+    detected.name = packageJson.name || null
+    detected.description = packageJson.description || null
+
+    return detected
+  }
+
+  async importProject(
+    userId: string,
+    archive: ExtractedArchive,
+    options: { name?: string; description?: string } = {}
+  ) {
+    const stack = this.detectStack(archive.files)
+
+    return db.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          name: options.name || stack.name || 'Imported project',
+          description: options.description || stack.description,
+          framework: stack.framework,
+          styling: stack.styling,
+          template: 'import',
+          status: 'READY',
+          userId,
+        },
+      })
+
+      const createdFiles = await tx.projectFile.createManyAndReturn({
+        data: archive.files.map(file => ({
+          filename: file.path.split('/').pop() || file.path,
+          path: file.path,
+          content: file.content,
+          language: getLanguageFromPath(file.path),
+          projectId: project.id,
+        })),
+      })
+
+      await fileRevisionService.recordInitialRevisions(createdFiles.map(file => ({
+        fileId: file.id,
+        projectId: project.id,
+        path: file.path,
+        content: file.content,
+        author: 'USER' as const,
+        source: 'import.zip',
+        userId,
+      })), tx)
+
+      for (const asset of archive.assets) {
+        await projectAssetService.saveAsset({ projectId: project.id, path: asset.path, data: asset.data }, tx)
+      }
+
+      return {
+        project,
+        filesImported: createdFiles.length + archive.assets.length,
+        skipped: archive.skipped,
+      }
+    }, {
+      timeout: 60000,
+    })
+  }
+}
+
+export const projectImportService = new ProjectImportService()
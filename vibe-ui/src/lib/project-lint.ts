@@ -0,0 +1,131 @@
+import path from 'path'
+import { ESLint, type Linter } from 'eslint'
+import * as prettier from 'prettier'
+
+// Files are linted under a path inside the app (never written there), so the
+// shared config and its plugins resolve from the app's own node_modules
+const VIRTUAL_ROOT = path.join(process.cwd(), '.project-lint')
+const LINT_CONFIG_FILE = path.join(process.cwd(), 'project-lint.config.mjs')
+
+const LINTED_EXTENSIONS = /\.(jsx?|tsx?|mjs|cjs)$/
+export const PRETTIER_CONFIG_FILES = ['.prettierrc', '.prettierrc.json']
+const MAX_PROBLEMS = 1000
+
+export interface LintFix {
+  range: [number, number] // character offsets in the file
+  text: string
+}
+
+export interface LintProblem {
+  path: string
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+  ruleId: string | null // null for parse errors
+  message: string
+  severity: 'error' | 'warning'
+  fix?: LintFix // applied by --fix
+  suggestions: { description: string; fix: LintFix }[]
+}
+
+export interface LintResult {
+  problems: LintProblem[]
+  fixableCount: number
+  checkedFiles: number
+  truncated: boolean
+}
+
+// Loading the config and plugins takes a second or two, so keep the instances
+const eslintInstances = new Map<boolean, ESLint>()
+
+function getESLint(fix: boolean): ESLint {
+  let eslint = eslintInstances.get(fix)
+  if (!eslint) {
+    eslint = new ESLint({ cwd: process.cwd(), overrideConfigFile: LINT_CONFIG_FILE, fix })
+    eslintInstances.set(fix, eslint)
+  }
+  return eslint
+}
+
+export function isLintablePath(filePath: string): boolean {
+  return LINTED_EXTENSIONS.test(filePath)
+}
+
+function toLintProblem(filePath: string, message: Linter.LintMessage): LintProblem {
+  return {
+    path: filePath,
+    line: message.line,
+    column: message.column,
+    endLine: message.endLine ?? message.line,
+    endColumn: message.endColumn ?? message.column + 1,
+    ruleId: message.ruleId,
+    message: message.message,
+    severity: message.severity === 2 ? 'error' : 'warning',
+    fix: message.fix ? { range: message.fix.range, text: message.fix.text } : undefined,
+    suggestions: (message.suggestions ?? []).map(suggestion => ({
+      description: suggestion.desc,
+      fix: { range: suggestion.fix.range, text: suggestion.fix.text },
+    })),
+  }
+}
+
+// Lint source files with the next/core-web-vitals rules
+export async function lintFiles(files: { path: string; content: string }[]): Promise<LintResult> {
+  const eslint = getESLint(false)
+  const lintable = files.filter(file => isLintablePath(file.path))
+
+  const problems: LintProblem[] = []
+  let truncated = false
+  for (const file of lintable) {
+    const [result] = await eslint.lintText(file.content, { filePath: path.join(VIRTUAL_ROOT, file.path) })
+    for (const message of result?.messages ?? []) {
+      if (problems.length >= MAX_PROBLEMS) {
+        truncated = true
+        break
+      }
+      problems.push(toLintProblem(file.path, message))
+    }
+    if (truncated) break
+  }
+
+  return {
+    problems,
+    fixableCount: problems.filter(problem => problem.fix).length,
+    checkedFiles: lintable.length,
+    truncated,
+  }
+}
+
+// Content with every autofixable problem fixed; unchanged for other files
+export async function fixLintProblems(filePath: string, content: string): Promise<string> {
+  if (!isLintablePath(filePath)) return content
+
+  const [result] = await getESLint(true).lintText(content, { filePath: path.join(VIRTUAL_ROOT, filePath) })
+  return result?.output ?? content
+}
+
+// The project's own JSON Prettier config, if it has one
+export function getPrettierOptions(files: { path: string; content: string }[]): prettier.Options {
+  const configFile = files.find(file => PRETTIER_CONFIG_FILES.includes(file.path))
+  if (!configFile) return {}
+
+  try {
+    const options = JSON.parse(configFile.content)
+    if (!options || typeof options !== 'object' || Array.isArray(options)) return {}
+    // Plugins would have to be installed in the app
+    const { plugins: _, ...rest } = options
+    return rest
+  } catch {
+    return {}
+  }
+}
+
+// Null when Prettier has no parser for the file or it doesn't parse
+export async function formatContent(filePath: string, content: string, options: prettier.Options = {}): Promise<string | null> {
+  try {
+    return await prettier.format(content, { ...options, filepath: filePath })
+  } catch {
+    return null
+  }
+}
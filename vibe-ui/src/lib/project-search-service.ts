@@ -0,0 +1,38 @@
+import { Worker } from 'worker_threads'
+import { TimedWorker } from './timed-worker'
+import type { SearchOptions, SearchResults } from './project-search'
+
+const SEARCH_TIMEOUT_MS = 5000
+
+type SearchFile = { id: string; path: string; content: string }
+
+export type ProjectSearchRequest =
+  | { type: 'search'; files: SearchFile[]; options: SearchOptions; maxResults: number }
+  | { type: 'replace'; files: SearchFile[]; options: SearchOptions; replacement: string }
+
+export class SearchTimeoutError extends Error {
+  constructor() {
+    super(`Search took longer than ${SEARCH_TIMEOUT_MS / 1000}s, try a simpler pattern`)
+    this.name = 'SearchTimeoutError'
+  }
+}
+
+// Runs project-wide search and replace off the request thread, so a pattern
+// with catastrophic backtracking can't block the server
+export class ProjectSearchService {
+  private worker = new TimedWorker<ProjectSearchRequest, unknown>(
+    () => new Worker(new URL('./project-search.worker.ts', import.meta.url)),
+    SEARCH_TIMEOUT_MS,
+    () => new SearchTimeoutError()
+  )
+
+  async search(files: SearchFile[], options: SearchOptions, maxResults: number): Promise<SearchResults> {
+    return await this.worker.run({ type: 'search', files, options, maxResults }) as SearchResults
+  }
+
+  async replace(files: SearchFile[], options: SearchOptions, replacement: string): Promise<{ id: string; content: string; count: number }[]> {
+    return await this.worker.run({ type: 'replace', files, options, replacement }) as { id: string; content: string; count: number }[]
+  }
+}
+
+export const projectSearchService = new ProjectSearchService()
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { compileSearchPattern, createPathFilter, findMatches, globToRegExp, replaceInContent, replaceInFiles, searchFiles, type SearchOptions } from './project-search'
+
+const defaults: SearchOptions = {
+  query: '',
+  isRegex: false,
+  caseSensitive: false,
+  wholeWord: false,
+  include: [],
+  exclude: [],
+}
+
+describe('globToRegExp', () => {
+  it('matches ** across directories and * within one', () => {
+    expect(globToRegExp('src/**/*.tsx').test('src/app/page.tsx')).toBe(true)
+    expect(globToRegExp('src/**/*.tsx').test('src/page.tsx')).toBe(true)
+    expect(globToRegExp('src/*.tsx').test('src/app/page.tsx')).toBe(false)
+  })
+
+  it('matches bare file patterns at any depth', () => {
+    expect(globToRegExp('*.css').test('src/app/globals.css')).toBe(true)
+    expect(globToRegExp('page.{ts,tsx}').test('src/app/page.tsx')).toBe(true)
+    expect(globToRegExp('page.{ts,tsx}').test('src/app/page.js')).toBe(false)
+  })
+
+  it('treats regex characters in globs literally', () => {
+    expect(globToRegExp('src/app/(marketing)/page.tsx').test('src/app/(marketing)/page.tsx')).toBe(true)
+    expect(globToRegExp('a.ts').test('abts')).toBe(false)
+  })
+})
+
+describe('createPathFilter', () => {
+  it('requires an include match and no exclude match', () => {
+    const filter = createPathFilter(['src/**'], ['**/*.test.ts'])
+
+    expect(filter('src/lib/search.ts')).toBe(true)
+    expect(filter('src/lib/search.test.ts')).toBe(false)
+    expect(filter('package.json')).toBe(false)
+  })
+
+  it('lets everything through without patterns', () => {
+    expect(createPathFilter([], [''])('anything/at/all.md')).toBe(true)
+  })
+})
+
+describe('findMatches', () => {
+  it('reports 1-based lines and columns with a preview', () => {
+    const regex = compileSearchPattern({ ...defaults, query: 'Button' })
+
+    expect(findMatches('import x\n  <Button />\n', regex, 10)).toEqual([
+      { line: 2, column: 4, length: 6, preview: '<Button />', previewMatchStart: 1 },
+    ])
+  })
+
+  it('matches whole words only when asked', () => {
+    const content = 'count counter recount count'
+    const wholeWord = compileSearchPattern({ ...defaults, query: 'count', wholeWord: true })
+    const anywhere = compileSearchPattern({ ...defaults, query: 'count' })
+
+    expect(findMatches(content, wholeWord, 10).map(match => match.column)).toEqual([1, 23])
+    expect(findMatches(content, anywhere, 10)).toHaveLength(4)
+  })
+
+  it('skips zero-length matches instead of looping', () => {
+    const regex = compileSearchPattern({ ...defaults, query: 'x*', isRegex: true })
+
+    expect(findMatches('abxxc', regex, 10)).toEqual([expect.objectContaining({ column: 3, length: 2 })])
+  })
+
+  it('escapes the query unless it is a regex', () => {
+    expect(findMatches('a.b axb', compileSearchPattern({ ...defaults, query: 'a.b' }), 10)).toHaveLength(1)
+    expect(findMatches('a.b axb', compileSearchPattern({ ...defaults, query: 'a.b', isRegex: true }), 10)).toHaveLength(2)
+  })
+})
+
+describe('searchFiles', () => {
+  it('stops at maxResults and reports truncation', () => {
+    const files = [
+      { id: '1', path: 'a.ts', content: 'foo foo' },
+      { id: '2', path: 'b.ts', content: 'foo' },
+    ]
+
+    const results = searchFiles(files, { ...defaults, query: 'foo' }, 2)
+
+    expect(results.totalMatches).toBe(2)
+    expect(results.truncated).toBe(true)
+    expect(results.files.map(file => file.path)).toEqual(['a.ts'])
+  })
+})
+
+describe('replaceInContent', () => {
+  it('inserts literal replacements verbatim', () => {
+    const regex = compileSearchPattern({ ...defaults, query: 'price' })
+
+    expect(replaceInContent('price Price', regex, '$1 $&', false)).toEqual({ content: '$1 $& $1 $&', count: 2 })
+  })
+
+  it('expands numbered and named groups in regex mode', () => {
+    const regex = compileSearchPattern({ ...defaults, query: '(?<name>\\w+)=(\\d+)', isRegex: true })
+
+    expect(replaceInContent('a=1 b=2', regex, '$2:$<name>$$', true)).toEqual({ content: '1:a$ 2:b$', count: 2 })
+  })
+
+  it('does not count zero-length matches', () => {
+    const regex = compileSearchPattern({ ...defaults, query: 'x*', isRegex: true })
+
+    expect(replaceInContent('abxxc', regex, '-', true)).toEqual({ content: 'ab-c', count: 1 })
+  })
+})
+
+describe('replaceInFiles', () => {
+  it('returns only changed files that pass the path filter', () => {
+    const files = [
+      { id: '1', path: 'src/a.ts', content: 'old' },
+      { id: '2', path: 'src/b.ts', content: 'nothing here' },
+      { id: '3', path: 'docs/c.md', content: 'old' },
+    ]
+
+    expect(replaceInFiles(files, { ...defaults, query: 'old', include: ['src/**'] }, 'new')).toEqual([
+      { id: '1', content: 'new', count: 1 },
+    ])
+  })
+})
@@ -0,0 +1,244 @@
+// Search and replace over ProjectFile contents. Pure functions so the same
+// matching rules apply to the search results and to the replace that follows.
+
+export interface SearchOptions {
+  query: string
+  isRegex: boolean
+  caseSensitive: boolean
+  wholeWord: boolean
+  include: string[] // glob patterns, e.g. 'src/**/*.tsx'
+  exclude: string[]
+}
+
+export interface SearchMatch {
+  line: number // 1-based
+  column: number // 1-based
+  length: number
+  preview: string
+  previewMatchStart: number // offset of the match inside preview
+}
+
+export interface FileSearchResult {
+  fileId: string
+  path: string
+  matches: SearchMatch[]
+}
+
+export interface SearchResults {
+  files: FileSearchResult[]
+  totalMatches: number
+  truncated: boolean
+}
+
+const PREVIEW_RADIUS = 40
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Convert a glob to a RegExp. Supports **, *, ?, [abc] and {a,b}.
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  let inGroup = false
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // '**/' matches zero or more directories
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?'
+          i += 2
+        } else {
+          pattern += '.*'
+          i += 1
+        }
+      } else {
+        pattern += '[^/]*'
+      }
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i)
+      if (end === -1) {
+        pattern += '\\['
+      } else {
+        pattern += '[' + glob.slice(i + 1, end).replace(/\\/g, '\\\\') + ']'
+        i = end
+      }
+    } else if (char === '{') {
+      inGroup = true
+      pattern += '(?:'
+    } else if (char === '}' && inGroup) {
+      inGroup = false
+      pattern += ')'
+    } else if (char === ',' && inGroup) {
+      pattern += '|'
+    } else {
+      pattern += escapeRegExp(char)
+    }
+  }
+
+  // A pattern without a slash matches the file name at any depth
+  const anchored = glob.includes('/') ? pattern : `(?:.*/)?${pattern}`
+  return new RegExp(`^${anchored}$`)
+}
+
+export function createPathFilter(include: string[], exclude: string[]): (path: string) => boolean {
+  const includes = include.filter(Boolean).map(globToRegExp)
+  const excludes = exclude.filter(Boolean).map(globToRegExp)
+
+  return (path: string) => {
+    if (includes.length > 0 && !includes.some(regex => regex.test(path))) return false
+    return !excludes.some(regex => regex.test(path))
+  }
+}
+
+// Throws if the query is an invalid regular expression
+export function compileSearchPattern(options: Pick<SearchOptions, 'query' | 'isRegex' | 'caseSensitive' | 'wholeWord'>): RegExp {
+  let source = options.isRegex ? options.query : escapeRegExp(options.query)
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`
+  }
+  return new RegExp(source, options.caseSensitive ? 'gm' : 'gim')
+}
+
+function buildPreview(lineText: string, start: number, length: number) {
+  const previewStart = Math.max(0, start - PREVIEW_RADIUS)
+  const previewEnd = Math.min(lineText.length, start + length + PREVIEW_RADIUS)
+  const prefix = previewStart > 0 ? '…' : ''
+  const suffix = previewEnd < lineText.length ? '…' : ''
+  const raw = lineText.slice(previewStart, previewEnd)
+  const trimmed = raw.trimStart()
+  const leading = raw.length - trimmed.length
+
+  return {
+    preview: prefix + trimmed.trimEnd() + suffix,
+    previewMatchStart: prefix.length + Math.max(0, start - previewStart - leading),
+  }
+}
+
+export function findMatches(content: string, regex: RegExp, limit: number): SearchMatch[] {
+  const matches: SearchMatch[] = []
+  const lineStarts = [0]
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1)
+  }
+
+  regex.lastIndex = 0
+  let match: RegExpExecArray | null
+  let lineIndex = 0
+  while (matches.length < limit && (match = regex.exec(content)) !== null) {
+    // Avoid infinite loops on zero-length matches
+    if (match[0].length === 0) {
+      regex.lastIndex++
+      continue
+    }
+
+    while (lineIndex + 1 < lineStarts.length && lineStarts[lineIndex + 1] <= match.index) {
+      lineIndex++
+    }
+    const lineStart = lineStarts[lineIndex]
+    const lineEnd = lineIndex + 1 < lineStarts.length ? lineStarts[lineIndex + 1] - 1 : content.length
+    const lineText = content.slice(lineStart, lineEnd)
+    const column = match.index - lineStart
+
+    matches.push({
+      line: lineIndex + 1,
+      column: column + 1,
+      length: Math.min(match[0].length, lineText.length - column),
+      ...buildPreview(lineText, column, match[0].length),
+    })
+  }
+
+  return matches
+}
+
+export function searchFiles(
+  files: { id: string; path: string; content: string }[],
+  options: SearchOptions,
+  maxResults = 1000
+): SearchResults {
+  const regex = compileSearchPattern(options)
+  const pathFilter = createPathFilter(options.include, options.exclude)
+  const results: FileSearchResult[] = []
+  let totalMatches = 0
+  let truncated = false
+
+  for (const file of files) {
+    if (!pathFilter(file.path)) continue
+
+    const remaining = maxResults - totalMatches
+    if (remaining <= 0) {
+      truncated = true
+      break
+    }
+
+    const matches = findMatches(file.content, regex, remaining + 1)
+    if (matches.length > remaining) {
+      matches.length = remaining
+      truncated = true
+    }
+    if (matches.length > 0) {
+      results.push({ fileId: file.id, path: file.path, matches })
+      totalMatches += matches.length
+    }
+  }
+
+  return { files: results, totalMatches, truncated }
+}
+
+// Expand $$, $&, $1..$99 and $<name> in a regex replacement string
+function expandReplacement(replacement: string, match: string, groups: (string | undefined)[], named?: Record<string, string | undefined>) {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$'
+    if (ref === '&') return match
+    if (name !== undefined) return named?.[name] ?? ''
+    const index = Number(ref)
+    return index > 0 && index <= groups.length ? groups[index - 1] ?? '' : token
+  })
+}
+
+// Replace every match in content. In literal mode the replacement is inserted
+// verbatim; in regex mode capture group references are expanded.
+export function replaceInContent(content: string, regex: RegExp, replacement: string, isRegex: boolean) {
+  let count = 0
+  regex.lastIndex = 0
+  const result = content.replace(regex, (...args: unknown[]) => {
+    const matched = args[0] as string
+    if (matched.length === 0) return matched
+    count++
+    if (!isRegex) return replacement
+
+    // Callback args: match, ...groups, offset, input[, namedGroups]
+    const hasNamed = typeof args[args.length - 1] === 'object' && args[args.length - 1] !== null
+    const named = hasNamed ? args[args.length - 1] as Record<string, string | undefined> : undefined
+    const groups = args.slice(1, hasNamed ? -3 : -2) as (string | undefined)[]
+    return expandReplacement(replacement, matched, groups, named)
+  })
+  return { content: result, count }
+}
+
+// Apply a replace to every file the include/exclude globs let through.
+// Returns only the files whose content changed.
+export function replaceInFiles(
+  files: { id: string; path: string; content: string }[],
+  options: SearchOptions,
+  replacement: string
+): { id: string; content: string; count: number }[] {
+  const regex = compileSearchPattern(options)
+  const pathFilter = createPathFilter(options.include, options.exclude)
+  const changed: { id: string; content: string; count: number }[] = []
+
+  for (const file of files) {
+    if (!pathFilter(file.path)) continue
+
+    const result = replaceInContent(file.content, regex, replacement, options.isRegex)
+    if (result.count > 0 && result.content !== file.content) {
+      changed.push({ id: file.id, content: result.content, count: result.count })
+    }
+  }
+
+  return changed
+}
@@ -0,0 +1,17 @@
+import { parentPort } from 'worker_threads'
+import { replaceInFiles, searchFiles } from './project-search'
+import type { ProjectSearchRequest } from './project-search-service'
+
+// User patterns can backtrack for ever; running them here keeps the request
+// thread free and lets a stuck one be terminated
+parentPort?.on('message', (request: ProjectSearchRequest) => {
+  try {
+    parentPort?.postMessage({
+      result: request.type === 'search'
+        ? searchFiles(request.files, request.options, request.maxResults)
+        : replaceInFiles(request.files, request.options, request.replacement),
+    })
+  } catch (error) {
+    parentPort?.postMessage({ error: error instanceof Error ? error.message : 'Search failed' })
+  }
+})
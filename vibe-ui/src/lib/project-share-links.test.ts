@@ -0,0 +1,66 @@
+import { createHash } from 'crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { projectShareLinkService } from './project-share-links'
+
+const shareLinks = vi.hoisted(() => ({
+  create: vi.fn(),
+  findUnique: vi.fn(),
+  update: vi.fn(),
+}))
+
+vi.mock('./db', () => ({ db: { projectShareLink: shareLinks } }))
+
+function sha256(value: string) {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function storedLink(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'link-1',
+    projectId: 'project-1',
+    createdById: 'user-1',
+    expiresAt: null,
+    revokedAt: null,
+    project: { deletedAt: null },
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.resetAllMocks()
+  shareLinks.create.mockImplementation(async ({ data }) => ({ id: 'link-1', name: data.name, expiresAt: data.expiresAt, createdAt: new Date() }))
+})
+
+describe('ProjectShareLinkService', () => {
+  it('stores only the hash of a new token', async () => {
+    const link = await projectShareLinkService.createLink('project-1', 'user-1')
+
+    expect(link.token).toMatch(/^jvs_[\w-]{32}$/)
+    const { data } = shareLinks.create.mock.calls[0][0]
+    expect(data.tokenHash).toBe(sha256(link.token))
+    expect(JSON.stringify(data)).not.toContain(link.token)
+  })
+
+  it('looks tokens up by their hash', async () => {
+    shareLinks.findUnique.mockResolvedValue(storedLink())
+
+    await expect(projectShareLinkService.verifyToken('jvs_abc')).resolves.toMatchObject({ id: 'link-1', projectId: 'project-1' })
+    expect(shareLinks.findUnique.mock.calls[0][0].where).toEqual({ tokenHash: sha256('jvs_abc') })
+  })
+
+  it('rejects tokens without the prefix before querying', async () => {
+    await expect(projectShareLinkService.verifyToken('abc')).resolves.toBeNull()
+    expect(shareLinks.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('rejects revoked and expired links and trashed projects', async () => {
+    shareLinks.findUnique.mockResolvedValueOnce(storedLink({ revokedAt: new Date() }))
+    shareLinks.findUnique.mockResolvedValueOnce(storedLink({ expiresAt: new Date(Date.now() - 1000) }))
+    shareLinks.findUnique.mockResolvedValueOnce(storedLink({ project: { deletedAt: new Date() } }))
+
+    for (let i = 0; i < 3; i++) {
+      await expect(projectShareLinkService.verifyToken('jvs_abc')).resolves.toBeNull()
+    }
+    expect(shareLinks.update).not.toHaveBeenCalled()
+  })
+})
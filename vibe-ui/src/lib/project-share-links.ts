@@ -0,0 +1,84 @@
+import { createHash, randomBytes } from 'crypto'
+import { db } from './db'
+
+const TOKEN_PREFIX = 'jvs_'
+
+export interface ResolvedShareLink {
+  id: string
+  projectId: string
+  createdById: string
+  expiresAt: Date | null
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export class ProjectShareLinkService {
+  async createLink(projectId: string, userId: string, options: { name?: string; expiresAt?: Date | null } = {}) {
+    const token = TOKEN_PREFIX + randomBytes(24).toString('base64url')
+    const link = await db.projectShareLink.create({
+      data: {
+        name: options.name,
+        tokenHash: hashToken(token),
+        expiresAt: options.expiresAt ?? null,
+        projectId,
+        createdById: userId,
+      },
+      select: {
+        id: true,
+        name: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+    })
+    return { ...link, token }
+  }
+
+  // Resolve a token to its link, or null if it is unknown, revoked or expired
+  // or the project is in the trash
+  async verifyToken(token: string): Promise<ResolvedShareLink | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null
+
+    const link = await db.projectShareLink.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: {
+        id: true,
+        projectId: true,
+        createdById: true,
+        expiresAt: true,
+        revokedAt: true,
+        project: {
+          select: { deletedAt: true },
+        },
+      },
+    })
+    if (!link || link.revokedAt || link.project.deletedAt) return null
+    if (link.expiresAt && link.expiresAt <= new Date()) return null
+
+    await db.projectShareLink.update({
+      where: { id: link.id },
+      data: { lastUsedAt: new Date() },
+    })
+    return {
+      id: link.id,
+      projectId: link.projectId,
+      createdById: link.createdById,
+      expiresAt: link.expiresAt,
+    }
+  }
+
+  async revokeLink(linkId: string, projectId: string): Promise<boolean> {
+    const { count } = await db.projectShareLink.updateMany({
+      where: {
+        id: linkId,
+        projectId,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    })
+    return count > 0
+  }
+}
+
+export const projectShareLinkService = new ProjectShareLinkService()
@@ -0,0 +1,177 @@
+import { z } from 'zod'
+import { db } from './db'
+import type { Prisma } from '@/generated/prisma'
+import { fileRevisionService } from './file-revisions'
+import { updateFileAtVersion } from './file-conflicts'
+import { projectCheckpointService } from './project-checkpoints'
+import { getLanguageFromPath } from './deterministic-skeleton'
+import { resolveModel } from './llm-providers'
+import { normalizeAssetPath } from './project-assets'
+
+// Keep the customization prompt within the model's context window
+const MAX_CUSTOMIZE_FILE_CHARS = 12000
+const MAX_CUSTOMIZE_TOTAL_CHARS = 80000
+
+const customizationSchema = z.object({
+  files: z.array(z.object({
+    path: z.string().min(1),
+    content: z.string(),
+  })),
+})
+
+// Templates a user may see: public ones, their own, and their workspaces'
+export function templateAccessWhere(userId: string): Prisma.TemplateWhereInput {
+  return {
+    OR: [
+      { isPublic: true },
+      { createdById: userId },
+      { organization: { members: { some: { userId } } } },
+    ],
+  }
+}
+
+export interface TemplateCustomizationChange {
+  path: string
+  content: string
+}
+
+export interface AppliedCustomization {
+  customizedPaths: string[]
+  // Paths the model tried to write over a binary asset
+  skippedPaths: string[]
+}
+
+type DbClient = typeof db | Prisma.TransactionClient
+
+export class ProjectTemplateService {
+  // One AI pass over a template's files, adapting them to the prompt. Runs
+  // before the project exists so the result can be applied in the same
+  // transaction that creates it. Returns normalized, de-duplicated changes.
+  async generateCustomization(
+    templateFiles: { path: string; content: string; isBinary: boolean }[],
+    prompt: string
+  ): Promise<TemplateCustomizationChange[]> {
+    const textFiles = templateFiles.filter(file => !file.isBinary)
+
+    let budget = MAX_CUSTOMIZE_TOTAL_CHARS
+    const sources = textFiles.filter(file => {
+      if (file.content.length > MAX_CUSTOMIZE_FILE_CHARS || file.content.length > budget) return false
+      budget -= file.content.length
+      return true
+    })
+
+    // The project doesn't exist yet, so it has no model overrides
+    const { provider, model } = resolveModel('generation')
+    // Throws LLMOutputError when the reply isn't the expected JSON
+    const customization = await provider.structured({
+      model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You adapt starter projects to a user\'s request. Reply with JSON {"files":[{"path","content"}]} containing only the files you changed or added, each with its complete new content. Keep the existing stack, structure and dependencies.',
+        },
+        {
+          role: 'user',
+          content: `Request: ${prompt}\n\n${sources.map(file => `--- ${file.path}\n${file.content}`).join('\n\n')}`,
+        },
+      ],
+      temperature: 0.3,
+    }, customizationSchema)
+
+    // Later entries for the same path win; paths escaping the project are dropped
+    const changes = new Map<string, string>()
+    for (const file of customization.files) {
+      const path = normalizeAssetPath(file.path)
+      if (path) changes.set(path, file.content)
+    }
+
+    const contentByPath = new Map(textFiles.map(file => [file.path, file.content]))
+    return [...changes]
+      .filter(([path, content]) => contentByPath.get(path) !== content)
+      .map(([path, content]) => ({ path, content }))
+  }
+
+  // Writes generated changes into a freshly copied template, wrapped in
+  // checkpoints so the customization can be undone on its own.
+  async applyCustomization(
+    projectId: string,
+    userId: string,
+    changes: TemplateCustomizationChange[],
+    client: DbClient = db
+  ): Promise<AppliedCustomization> {
+    if (changes.length === 0) return { customizedPaths: [], skippedPaths: [] }
+
+    const existingFiles = await client.projectFile.findMany({
+      where: { projectId, path: { in: changes.map(change => change.path) } },
+      omit: { binaryContent: true },
+    })
+    const existingByPath = new Map(existingFiles.map(file => [file.path, file]))
+
+    await projectCheckpointService.captureCheckpoint({
+      projectId,
+      label: 'Before template customization',
+      source: 'template.customize',
+      phase: 'BEFORE',
+      userId,
+    }, client)
+
+    const customizedPaths: string[] = []
+    const skippedPaths: string[] = []
+    for (const change of changes) {
+      const existing = existingByPath.get(change.path)
+      if (existing?.isBinary) {
+        skippedPaths.push(change.path)
+      } else if (existing) {
+        const file = await updateFileAtVersion(existing.id, existing.version, {
+          content: change.content,
+          size: Buffer.byteLength(change.content),
+        }, client)
+        if (!file) continue
+        await fileRevisionService.recordRevision({
+          fileId: file.id,
+          projectId,
+          path: file.path,
+          content: file.content,
+          author: 'AI',
+          source: 'template.customize',
+          userId,
+        }, { path: existing.path, content: existing.content }, client)
+        customizedPaths.push(file.path)
+      } else {
+        const file = await client.projectFile.create({
+          data: {
+            filename: change.path.split('/').pop() || change.path,
+            path: change.path,
+            content: change.content,
+            language: getLanguageFromPath(change.path),
+            size: Buffer.byteLength(change.content),
+            projectId,
+          },
+          omit: { binaryContent: true },
+        })
+        await fileRevisionService.recordRevision({
+          fileId: file.id,
+          projectId,
+          path: file.path,
+          content: file.content,
+          author: 'AI',
+          source: 'template.customize',
+          userId,
+        }, undefined, client)
+        customizedPaths.push(file.path)
+      }
+    }
+
+    await projectCheckpointService.captureCheckpoint({
+      projectId,
+      label: 'After template customization',
+      source: 'template.customize',
+      phase: 'AFTER',
+      userId,
+    }, client)
+
+    return { customizedPaths, skippedPaths }
+  }
+}
+
+export const projectTemplateService = new ProjectTemplateService()
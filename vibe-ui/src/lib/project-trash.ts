@@ -0,0 +1,95 @@
+import { db } from './db'
+import { customSandboxService } from './custom-sandbox'
+import { gitRepositoryService } from './git-repository'
+
+// Days a project stays in the trash before the purge job deletes it for good
+export const TRASH_RETENTION_DAYS = Number(process.env.PROJECT_TRASH_RETENTION_DAYS) || 30
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// When a project trashed at deletedAt will be purged
+export function trashPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * MS_PER_DAY)
+}
+
+// Trashing keeps files, chats and deployments so a project can be restored;
+// only purging removes them.
+export class ProjectTrashService {
+  async moveToTrash(projectId: string) {
+    const project = await db.project.update({
+      where: { id: projectId },
+      data: { deletedAt: new Date() },
+      select: { id: true, deletedAt: true },
+    })
+
+    // Stop live previews, a trashed project shouldn't keep containers running
+    const sandboxes = await db.sandbox.findMany({
+      where: {
+        projectId,
+        status: { in: ['CREATING', 'RUNNING'] },
+      },
+      select: { id: true },
+    })
+    for (const sandbox of sandboxes) {
+      const stopped = await customSandboxService.stopSandbox(sandbox.id)
+      if (!stopped) {
+        await db.sandbox.update({
+          where: { id: sandbox.id },
+          data: { status: 'STOPPED' },
+        })
+      }
+    }
+
+    return project
+  }
+
+  // Returns false if the project isn't in the trash
+  async restore(projectId: string): Promise<boolean> {
+    const { count } = await db.project.updateMany({
+      where: {
+        id: projectId,
+        deletedAt: { not: null },
+      },
+      data: { deletedAt: null },
+    })
+    return count > 0
+  }
+
+  // Delete a trashed project and everything that cascades from it
+  async purgeProject(projectId: string): Promise<boolean> {
+    const { count } = await db.project.deleteMany({
+      where: {
+        id: projectId,
+        deletedAt: { not: null },
+      },
+    })
+    if (count === 0) return false
+
+    try {
+      await gitRepositoryService.deleteRepository(projectId)
+    } catch (error) {
+      console.error(`❌ Failed to remove git repository for project ${projectId}:`, error)
+    }
+    return true
+  }
+
+  // Purge everything trashed longer than the retention window
+  async purgeExpired(now = new Date()): Promise<string[]> {
+    const expired = await db.project.findMany({
+      where: {
+        deletedAt: { lte: new Date(now.getTime() - TRASH_RETENTION_DAYS * MS_PER_DAY) },
+      },
+      select: { id: true },
+    })
+
+    const purged: string[] = []
+    for (const project of expired) {
+      if (await this.purgeProject(project.id)) {
+        purged.push(project.id)
+      }
+    }
+    return purged
+  }
+}
+
+export const projectTrashService = new ProjectTrashService()
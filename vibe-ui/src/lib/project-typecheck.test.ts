@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { checkProjectFiles } from './project-typecheck'
+
+describe('checkProjectFiles', () => {
+  it('reports type errors with 1-based positions', () => {
+    const result = checkProjectFiles([
+      { path: 'src/lib/math.ts', content: 'export const total: number = "a lot"\n' },
+    ], 'nextjs')
+
+    expect(result.checkedFiles).toBe(1)
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ path: 'src/lib/math.ts', line: 1, column: 14, code: 2322, severity: 'error' }),
+    ])
+  })
+
+  it('resolves imports between project files', () => {
+    const result = checkProjectFiles([
+      { path: 'src/lib/math.ts', content: 'export const double = (value: number) => value * 2\n' },
+      { path: 'src/app/page.ts', content: "import { double } from '../lib/math'\nexport const four: number = double(2)\n" },
+    ], 'nextjs')
+
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('does not read files outside the project', () => {
+    // Resolves to the app's own src/lib/text-diff.ts if reads escape the virtual root
+    const result = checkProjectFiles([
+      { path: 'index.ts', content: "import { diffText } from '../src/lib/text-diff'\nexport { diffText }\n" },
+    ], 'nextjs')
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ path: 'index.ts', code: 2307 }),
+    ])
+  })
+}, 60000)
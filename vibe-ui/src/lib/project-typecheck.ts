@@ -0,0 +1,222 @@
+import path from 'path'
+import ts from 'typescript'
+
+// Project files are placed (in memory only) under the app directory, so imports
+// of react and next resolve to the declarations installed with the app
+const VIRTUAL_ROOT = path.join(process.cwd(), '.project-typecheck')
+
+// Declarations outside the project the checker may read: TypeScript's own
+// libs and the packages the app ships types for
+const LIBRARY_ROOTS = [
+  path.dirname(ts.getDefaultLibFilePath({})),
+  ...['@types', 'csstype', 'undici-types', 'next', 'tailwindcss'].map(name => path.join(process.cwd(), 'node_modules', name)),
+]
+
+export const SOURCE_EXTENSIONS = /\.(tsx?|mts|cts|jsx?|mjs|cjs|json)$/
+const CHECKED_EXTENSIONS = /\.(tsx?|mts|cts)$/
+const MAX_DIAGNOSTICS = 500
+
+// "Cannot find module" and "no declaration file"; packages the app doesn't ship
+// types for only resolve inside the sandbox
+const UNRESOLVED_MODULE_CODES = new Set([2307, 7016])
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2017,
+  lib: ['lib.dom.d.ts', 'lib.dom.iterable.d.ts', 'lib.esnext.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  strict: true,
+  allowJs: true,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  isolatedModules: true,
+}
+
+export interface ProjectDiagnostic {
+  path: string
+  line: number // 1-based, like Monaco
+  column: number
+  endLine: number
+  endColumn: number
+  message: string
+  code: number
+  severity: 'error' | 'warning' | 'info'
+}
+
+export interface ProjectDiagnosticsResult {
+  diagnostics: ProjectDiagnostic[]
+  checkedFiles: number
+  truncated: boolean
+  durationMs: number
+}
+
+// lib.dom.d.ts and friends take most of the time to parse; they never change
+// while the server runs, so every check shares them
+const librarySourceFiles = new Map<string, ts.SourceFile>()
+
+function isVirtualPath(fileName: string): boolean {
+  return fileName === VIRTUAL_ROOT || fileName.startsWith(VIRTUAL_ROOT + '/')
+}
+
+function isLibraryPath(fileName: string): boolean {
+  return LIBRARY_ROOTS.some(root => fileName === root || fileName.startsWith(root + path.sep))
+}
+
+// Module resolution walks up through the parents of the library roots
+function isLibraryDirectory(directoryName: string): boolean {
+  return isLibraryPath(directoryName) || LIBRARY_ROOTS.some(root => root.startsWith(directoryName + path.sep))
+}
+
+function toVirtualPath(projectPath: string): string {
+  return path.join(VIRTUAL_ROOT, projectPath.replace(/^\/+/, ''))
+}
+
+function getCompilerOptions(tsconfig: string | undefined, framework: string): ts.CompilerOptions {
+  let projectOptions: ts.CompilerOptions = {}
+  if (tsconfig) {
+    const { config } = ts.parseConfigFileTextToJson('tsconfig.json', tsconfig)
+    if (config?.compilerOptions) {
+      projectOptions = ts.convertCompilerOptionsFromJson(config.compilerOptions, VIRTUAL_ROOT).options
+    }
+  }
+
+  return {
+    ...DEFAULT_COMPILER_OPTIONS,
+    ...projectOptions,
+    // tsconfig paths without a baseUrl are relative to the tsconfig itself
+    baseUrl: projectOptions.baseUrl ?? (projectOptions.paths ? VIRTUAL_ROOT : undefined),
+    // Only the declarations installed with the app are available
+    types: framework === 'nextjs' ? ['react', 'react-dom', 'node', 'next'] : ['react', 'react-dom', 'node'],
+    typeRoots: undefined,
+    noEmit: true,
+    skipLibCheck: true,
+    incremental: false,
+    composite: false,
+    plugins: undefined,
+  }
+}
+
+function createCompilerHost(files: Map<string, string>, options: ts.CompilerOptions): ts.CompilerHost {
+  const host = ts.createCompilerHost(options, true)
+
+  return {
+    ...host,
+    getCurrentDirectory: () => VIRTUAL_ROOT,
+    writeFile: () => {},
+    // Nothing outside the project is read except the bundled declarations
+    fileExists: (fileName) => files.has(fileName) || (isLibraryPath(fileName) && host.fileExists(fileName)),
+    readFile: (fileName) => files.get(fileName) ?? (isLibraryPath(fileName) ? host.readFile(fileName) : undefined),
+    directoryExists: (directoryName) => isVirtualPath(directoryName)
+      ? [...files.keys()].some(fileName => fileName.startsWith(directoryName + '/'))
+      : isLibraryDirectory(directoryName) && (host.directoryExists?.(directoryName) ?? true),
+    getDirectories: (directoryName) => isLibraryPath(directoryName) ? host.getDirectories?.(directoryName) ?? [] : [],
+    realpath: (fileName) => isLibraryPath(fileName) && host.realpath ? host.realpath(fileName) : fileName,
+    getSourceFile: (fileName, languageVersionOrOptions, onError) => {
+      const content = files.get(fileName)
+      if (content !== undefined) {
+        return ts.createSourceFile(fileName, content, languageVersionOrOptions, true)
+      }
+      if (!isLibraryPath(fileName)) return undefined
+
+      const key = typeof languageVersionOrOptions === 'object'
+        ? `${fileName}:${languageVersionOrOptions.languageVersion}:${languageVersionOrOptions.impliedNodeFormat}`
+        : `${fileName}:${languageVersionOrOptions}`
+      let sourceFile = librarySourceFiles.get(key)
+      if (!sourceFile) {
+        sourceFile = host.getSourceFile(fileName, languageVersionOrOptions, onError)
+        if (sourceFile) librarySourceFiles.set(key, sourceFile)
+      }
+      return sourceFile
+    },
+  }
+}
+
+// Imports of third-party packages (and non-code assets) can't be checked here;
+// relative imports and path aliases still are
+function isUncheckableImport(diagnostic: ts.Diagnostic, options: ts.CompilerOptions): boolean {
+  if (!UNRESOLVED_MODULE_CODES.has(diagnostic.code) || !diagnostic.file || diagnostic.start === undefined) {
+    return false
+  }
+
+  const specifier = diagnostic.file.text
+    .slice(diagnostic.start, diagnostic.start + (diagnostic.length ?? 0))
+    .replace(/^['"`]|['"`]$/g, '')
+
+  // Stylesheets, images and the like
+  const fileName = specifier.split('/').pop() ?? ''
+  if (/\.[a-z0-9]+$/i.test(fileName) && !SOURCE_EXTENSIONS.test(fileName)) return true
+
+  if (specifier.startsWith('.') || specifier.startsWith('/')) return false
+  const aliases = Object.keys(options.paths ?? {}).map(pattern => pattern.replace(/\*$/, ''))
+  return !aliases.some(alias => alias && specifier.startsWith(alias))
+}
+
+function toProjectDiagnostic(diagnostic: ts.Diagnostic): ProjectDiagnostic | null {
+  if (!diagnostic.file || diagnostic.start === undefined || !isVirtualPath(diagnostic.file.fileName)) {
+    return null
+  }
+
+  const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+  const end = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start + (diagnostic.length ?? 0))
+
+  return {
+    path: path.relative(VIRTUAL_ROOT, diagnostic.file.fileName),
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    code: diagnostic.code,
+    severity: diagnostic.category === ts.DiagnosticCategory.Error
+      ? 'error'
+      : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info',
+  }
+}
+
+// Type-check a project's stored files with the TypeScript compiler, without a sandbox
+export function checkProjectFiles(
+  projectFiles: { path: string; content: string }[],
+  framework: string
+): ProjectDiagnosticsResult {
+  const startedAt = Date.now()
+  const files = new Map(
+    projectFiles
+      .filter(file => SOURCE_EXTENSIONS.test(file.path))
+      .map(file => [toVirtualPath(file.path), file.content])
+  )
+  const tsconfig = projectFiles.find(file => file.path === 'tsconfig.json')?.content
+  const options = getCompilerOptions(tsconfig, framework)
+  const rootNames = [...files.keys()].filter(fileName => CHECKED_EXTENSIONS.test(fileName))
+
+  const program = ts.createProgram({ rootNames, options, host: createCompilerHost(files, options) })
+
+  const diagnostics: ProjectDiagnostic[] = []
+  let truncated = false
+  for (const sourceFile of program.getSourceFiles()) {
+    if (!isVirtualPath(sourceFile.fileName) || !CHECKED_EXTENSIONS.test(sourceFile.fileName)) continue
+
+    const fileDiagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ]
+    for (const diagnostic of fileDiagnostics) {
+      if (isUncheckableImport(diagnostic, options)) continue
+      const converted = toProjectDiagnostic(diagnostic)
+      if (!converted) continue
+      if (diagnostics.length >= MAX_DIAGNOSTICS) {
+        truncated = true
+        break
+      }
+      diagnostics.push(converted)
+    }
+    if (truncated) break
+  }
+
+  return {
+    diagnostics,
+    checkedFiles: rootNames.length,
+    truncated,
+    durationMs: Date.now() - startedAt,
+  }
+}
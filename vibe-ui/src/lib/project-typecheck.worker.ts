@@ -0,0 +1,12 @@
+import { parentPort } from 'worker_threads'
+import { checkProjectFiles } from './project-typecheck'
+
+// Runs checks off the request thread; the declaration cache in
+// project-typecheck stays warm for as long as the worker lives
+parentPort?.on('message', ({ files, framework }: { files: { path: string; content: string }[]; framework: string }) => {
+  try {
+    parentPort?.postMessage({ result: checkProjectFiles(files, framework) })
+  } catch (error) {
+    parentPort?.postMessage({ error: error instanceof Error ? error.message : 'Type check failed' })
+  }
+})
@@ -0,0 +1,273 @@
+import * as Y from 'yjs'
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate } from 'y-protocols/awareness'
+import type { FileEvent, PresenceClient, PresenceUser, RealtimeEvent } from './realtime-hub'
+
+export type { FileEvent, PresenceClient, PresenceUser }
+
+// Origin for changes that came from the server, so they are not sent back
+export const REMOTE_ORIGIN = 'remote'
+
+const UPDATE_FLUSH_MS = 50
+const AWARENESS_FLUSH_MS = 100
+
+// Remote cursor colours, matched by the .collab-cursor-N classes in globals.css
+export const COLLABORATOR_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e',
+  '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899',
+]
+
+export function getCollaboratorColorIndex(userId: string): number {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return Math.abs(hash) % COLLABORATOR_COLORS.length
+}
+
+// Replace the text of a Y.Text with minimal edits (common prefix and suffix kept),
+// so cursors and concurrent edits outside the changed range are preserved
+export function replaceYText(text: Y.Text, next: string) {
+  const current = text.toString()
+  if (current === next) return
+
+  let start = 0
+  while (start < current.length && start < next.length && current[start] === next[start]) start++
+  let end = 0
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) end++
+
+  text.delete(start, current.length - start - end)
+  text.insert(start, next.slice(start, next.length - end))
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < data.length; i++) binary += String.fromCharCode(data[i])
+  return btoa(binary)
+}
+
+function fromBase64(data: string): Uint8Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+// Shared state of one open file: the Yjs document and everyone's cursors
+export class CollaborativeFileSession {
+  readonly doc = new Y.Doc()
+  readonly text = this.doc.getText('content')
+  readonly awareness = new Awareness(this.doc)
+
+  private pendingUpdates: Uint8Array[] = []
+  private updateTimer: ReturnType<typeof setTimeout> | null = null
+  private awarenessTimer: ReturnType<typeof setTimeout> | null = null
+  private sending: Promise<void> = Promise.resolve()
+  private destroyed = false
+
+  constructor(
+    readonly fileId: string,
+    private connection: ProjectRealtimeConnection
+  ) {
+    this.doc.on('update', this.handleDocUpdate)
+    this.awareness.on('update', this.handleAwarenessUpdate)
+  }
+
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE_ORIGIN || this.destroyed) return
+    this.pendingUpdates.push(update)
+    if (!this.updateTimer) {
+      this.updateTimer = setTimeout(() => this.flushUpdates(), UPDATE_FLUSH_MS)
+    }
+  }
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === REMOTE_ORIGIN || this.destroyed) return
+    const changed = [...added, ...updated, ...removed]
+    if (!changed.includes(this.doc.clientID) || this.awarenessTimer) return
+    this.awarenessTimer = setTimeout(() => {
+      this.awarenessTimer = null
+      if (this.destroyed) return
+      const update = encodeAwarenessUpdate(this.awareness, [this.doc.clientID])
+      void this.connection.send({ type: 'awareness', fileId: this.fileId, update: toBase64(update) })
+    }, AWARENESS_FLUSH_MS)
+  }
+
+  // Batch keystrokes and send them in order
+  private flushUpdates() {
+    this.updateTimer = null
+    if (this.pendingUpdates.length === 0) return
+    const update = Y.mergeUpdates(this.pendingUpdates)
+    this.pendingUpdates = []
+    this.sending = this.sending.then(async () => {
+      await this.connection.send({ type: 'update', fileId: this.fileId, update: toBase64(update) })
+    })
+  }
+
+  applyRemoteUpdate(update: string) {
+    Y.applyUpdate(this.doc, fromBase64(update), REMOTE_ORIGIN)
+  }
+
+  applyRemoteAwareness(update: string) {
+    applyAwarenessUpdate(this.awareness, fromBase64(update), REMOTE_ORIGIN)
+  }
+
+  setLocalUser(user: PresenceUser) {
+    this.awareness.setLocalStateField('user', {
+      ...user,
+      colorIndex: getCollaboratorColorIndex(user.id),
+    })
+  }
+
+  // Resolves once edits typed before the call have reached the server
+  destroy(): Promise<void> {
+    if (!this.destroyed) {
+      if (this.updateTimer) clearTimeout(this.updateTimer)
+      this.flushUpdates()
+      this.destroyed = true
+      if (this.awarenessTimer) clearTimeout(this.awarenessTimer)
+      this.awareness.destroy()
+      this.doc.destroy()
+    }
+    return this.sending.catch(() => undefined)
+  }
+}
+
+interface ConnectionHandlers {
+  onStatusChange?: (connected: boolean) => void
+  onPresence?: (clients: PresenceClient[]) => void
+  onFileEvent?: (event: FileEvent) => void
+  // The stream dropped and came back; open sessions must be joined again
+  onReconnect?: () => void
+}
+
+// One Server-Sent Events stream per editor tab, plus POSTs for outgoing changes
+export class ProjectRealtimeConnection {
+  readonly clientId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2)
+
+  user: PresenceUser | null = null
+
+  private source: EventSource | null = null
+  private session: CollaborativeFileSession | null = null
+  private joining: { fileId: string; updates: RealtimeEvent[] } | null = null
+  private closing: Promise<void> = Promise.resolve() // last edits of the previous session still in flight
+  private welcomed = false
+
+  constructor(private projectId: string, private handlers: ConnectionHandlers = {}) {}
+
+  private get url() {
+    return `/api/projects/${this.projectId}/realtime`
+  }
+
+  connect() {
+    if (this.source) return
+    this.source = new EventSource(`${this.url}?clientId=${encodeURIComponent(this.clientId)}`)
+    this.source.onmessage = (message) => this.handleEvent(JSON.parse(message.data) as RealtimeEvent)
+    this.source.onerror = () => this.handlers.onStatusChange?.(false)
+  }
+
+  disconnect() {
+    void this.session?.destroy()
+    this.session = null
+    this.source?.close()
+    this.source = null
+    this.handlers.onStatusChange?.(false)
+  }
+
+  private handleEvent(event: RealtimeEvent) {
+    switch (event.type) {
+      case 'welcome': {
+        this.user = event.user
+        this.handlers.onStatusChange?.(true)
+        if (this.welcomed) {
+          this.handlers.onReconnect?.()
+        }
+        this.welcomed = true
+        break
+      }
+      case 'presence':
+        this.handlers.onPresence?.(event.clients)
+        break
+      case 'doc-update':
+      case 'awareness': {
+        // Hold updates that arrive while the join request is in flight
+        if (this.joining?.fileId === event.fileId) {
+          this.joining.updates.push(event)
+          break
+        }
+        if (this.session?.fileId !== event.fileId) break
+        if (event.type === 'doc-update') this.session.applyRemoteUpdate(event.update)
+        else this.session.applyRemoteAwareness(event.update)
+        break
+      }
+      default:
+        this.handlers.onFileEvent?.(event)
+    }
+  }
+
+  async send(message: Record<string, unknown>): Promise<Response> {
+    return fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...message, clientId: this.clientId }),
+    })
+  }
+
+  // Join the shared editing session of a text file. Resolves to null if the
+  // file can't be edited together (missing, binary or not connected yet).
+  async openFile(fileId: string): Promise<CollaborativeFileSession | null> {
+    const previous = this.session
+    this.session = null
+    this.joining = { fileId, updates: [] }
+
+    try {
+      // Joining another file leaves the previous one, so let its last edits land first
+      if (previous) this.closing = previous.destroy()
+      await this.closing
+
+      const response = await this.send({ type: 'join', fileId })
+      if (!response.ok || this.joining?.fileId !== fileId) return null
+
+      const { state, awareness } = await response.json() as { state: string; awareness: string | null }
+      const session = new CollaborativeFileSession(fileId, this)
+      session.applyRemoteUpdate(state)
+      if (awareness) session.applyRemoteAwareness(awareness)
+
+      for (const event of this.joining.updates) {
+        if (event.type === 'doc-update') session.applyRemoteUpdate(event.update)
+        else if (event.type === 'awareness') session.applyRemoteAwareness(event.update)
+      }
+      if (this.user) session.setLocalUser(this.user)
+
+      this.session = session
+      return session
+    } catch (error) {
+      console.error('❌ Failed to join collaborative session:', error)
+      return null
+    } finally {
+      if (this.joining?.fileId === fileId) this.joining = null
+    }
+  }
+
+  async closeFile(session: CollaborativeFileSession) {
+    const isCurrent = this.session === session
+    if (isCurrent) this.session = null
+    this.closing = session.destroy()
+    await this.closing
+    if (!isCurrent || this.joining) return
+
+    try {
+      await this.send({ type: 'leave' })
+    } catch {
+      // The server drops the session when the stream closes anyway
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest'
+import { RealtimeClientIdTakenError, RealtimeHub, type RealtimeEvent } from './realtime-hub'
+
+const findMany = vi.hoisted(() => vi.fn())
+
+vi.mock('./db', () => ({ db: { projectFile: { findMany } } }))
+vi.mock('./git-repository', () => ({ gitRepositoryService: {} }))
+vi.mock('./custom-sandbox', () => ({ customSandboxService: {} }))
+
+const alice = { id: 'user-alice', name: 'Alice', avatar: null }
+const mallory = { id: 'user-mallory', name: 'Mallory', avatar: null }
+
+describe('RealtimeHub.connect', () => {
+  it('lets the same user reconnect with a client id', () => {
+    const hub = new RealtimeHub()
+    hub.connect('project-1', 'client-1', alice, new AbortController().signal)
+    hub.connect('project-1', 'client-1', alice, new AbortController().signal)
+
+    expect(hub.isConnected('project-1', 'client-1', alice.id)).toBe(true)
+  })
+
+  it('refuses a client id that belongs to another user', () => {
+    const hub = new RealtimeHub()
+    hub.connect('project-1', 'client-1', alice, new AbortController().signal)
+
+    expect(() => hub.connect('project-1', 'client-1', mallory, new AbortController().signal))
+      .toThrow(RealtimeClientIdTakenError)
+    expect(hub.isConnected('project-1', 'client-1', alice.id)).toBe(true)
+  })
+})
+
+// Collect every event sent to a stream so far
+async function readEvents(stream: ReadableStream<Uint8Array>, count: number): Promise<RealtimeEvent[]> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  const events: RealtimeEvent[] = []
+  let buffer = ''
+  while (events.length < count) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value)
+    const messages = buffer.split('\n\n')
+    buffer = messages.pop() ?? ''
+    for (const message of messages) {
+      if (message.startsWith('data: ')) events.push(JSON.parse(message.slice(6)))
+    }
+  }
+  reader.releaseLock()
+  return events
+}
+
+describe('RealtimeHub.publishChangesSince', () => {
+  it('publishes created, updated, renamed and deleted files', async () => {
+    const hub = new RealtimeHub()
+    const stream = hub.connect('project-1', 'client-1', alice, new AbortController().signal)
+
+    findMany
+      .mockResolvedValueOnce([
+        { id: 'kept', path: 'src/kept.ts', version: 1, isBinary: false },
+        { id: 'edited', path: 'src/edited.ts', version: 3, isBinary: false },
+        { id: 'moved', path: 'src/new-name.ts', version: 1, isBinary: false },
+        { id: 'added', path: 'src/added.ts', version: 1, isBinary: false },
+      ])
+      .mockResolvedValueOnce([{ id: 'edited', content: 'export const edited = true\n', version: 3 }])
+
+    await hub.publishChangesSince('project-1', new Map([
+      ['kept', { path: 'src/kept.ts', version: 1 }],
+      ['edited', { path: 'src/edited.ts', version: 2 }],
+      ['moved', { path: 'src/old-name.ts', version: 1 }],
+      ['gone', { path: 'src/gone.ts', version: 4 }],
+    ]))
+
+    const events = (await readEvents(stream, 6)).filter(event => event.type.startsWith('file-'))
+    expect(events).toEqual([
+      { type: 'file-updated', fileId: 'edited', path: 'src/edited.ts', version: 3 },
+      { type: 'file-renamed', fileId: 'moved', path: 'src/new-name.ts', oldPath: 'src/old-name.ts' },
+      { type: 'file-created', fileId: 'added', path: 'src/added.ts' },
+      { type: 'file-deleted', fileId: 'gone', path: 'src/gone.ts' },
+    ])
+  })
+
+  it('skips the lookup when nobody has the project open', async () => {
+    findMany.mockClear()
+    await new RealtimeHub().publishChangesSince('project-1', new Map())
+
+    expect(findMany).not.toHaveBeenCalled()
+  })
+})
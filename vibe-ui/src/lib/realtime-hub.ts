@@ -0,0 +1,526 @@
+import * as Y from 'yjs'
+import { Awareness, applyAwarenessUpdate, encodeAwarenessUpdate, removeAwarenessStates } from 'y-protocols/awareness'
+import { db } from './db'
+import { SandboxStatus } from '@/generated/prisma'
+import { fileRevisionService } from './file-revisions'
+import { FileConflictError, updateFileAtVersion } from './file-conflicts'
+import { gitRepositoryService } from './git-repository'
+import { customSandboxService } from './custom-sandbox'
+import { replaceYText } from './realtime-client'
+
+const PERSIST_DEBOUNCE_MS = 1500
+const HEARTBEAT_MS = 25000
+
+export interface PresenceUser {
+  id: string
+  name: string
+  avatar: string | null
+}
+
+export interface PresenceClient {
+  clientId: string
+  user: PresenceUser
+  fileId: string | null
+}
+
+// Changes to the file tree, sent to every open FileEditor of the project
+export type FileEvent =
+  | { type: 'file-created'; fileId: string; path: string }
+  | { type: 'file-updated'; fileId: string; path: string; version: number }
+  | { type: 'file-renamed'; fileId: string; path: string; oldPath: string }
+  | { type: 'file-deleted'; fileId: string; path: string }
+
+export type RealtimeEvent =
+  | FileEvent
+  | { type: 'welcome'; clientId: string; user: PresenceUser }
+  | { type: 'presence'; clients: PresenceClient[] }
+  | { type: 'doc-update'; fileId: string; update: string } // base64 Yjs update
+  | { type: 'awareness'; fileId: string; update: string } // base64 awareness update
+
+// File versions before a bulk write, see publishChangesSince
+export type FileVersionSnapshot = Map<string, { path: string; version: number }>
+
+interface Connection {
+  clientId: string
+  user: PresenceUser
+  fileId: string | null
+  awarenessIds: Set<number> // Yjs client ids this connection announced in the file's awareness
+  send: (event: RealtimeEvent) => void
+}
+
+interface FileDocument {
+  fileId: string
+  path: string
+  doc: Y.Doc
+  text: Y.Text
+  awareness: Awareness
+  persistedContent: string
+  version: number // ProjectFile version persistedContent belongs to
+  lastEditorId: string | null
+  persistTimer: NodeJS.Timeout | null
+}
+
+interface ProjectChannel {
+  projectId: string
+  connections: Map<string, Connection>
+  documents: Map<string, FileDocument>
+  closing: Map<string, Promise<void>> // documents still being written back after the last tab left
+}
+
+const SERVER_ORIGIN = 'server'
+
+export class RealtimeClientIdTakenError extends Error {
+  constructor(clientId: string) {
+    super(`Realtime client ${clientId} belongs to another user`)
+    this.name = 'RealtimeClientIdTakenError'
+  }
+}
+
+function toBase64(data: Uint8Array): string {
+  return Buffer.from(data).toString('base64')
+}
+
+function fromBase64(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, 'base64'))
+}
+
+// Relays Yjs edits and presence between everyone who has a project open.
+// State lives in this process, so all clients of a project must reach the
+// same server instance.
+export class RealtimeHub {
+  private channels = new Map<string, ProjectChannel>()
+
+  private getChannel(projectId: string): ProjectChannel {
+    let channel = this.channels.get(projectId)
+    if (!channel) {
+      channel = { projectId, connections: new Map(), documents: new Map(), closing: new Map() }
+      this.channels.set(projectId, channel)
+    }
+    return channel
+  }
+
+  private broadcast(channel: ProjectChannel, event: RealtimeEvent, exceptClientId?: string) {
+    for (const connection of channel.connections.values()) {
+      if (connection.clientId === exceptClientId) continue
+      try {
+        connection.send(event)
+      } catch (error) {
+        console.warn(`⚠️ Failed to send realtime event to ${connection.clientId}:`, error)
+      }
+    }
+  }
+
+  // Document and cursor traffic only goes to tabs that have the file open
+  private broadcastToFile(channel: ProjectChannel, fileId: string, event: RealtimeEvent, exceptClientId?: string) {
+    for (const connection of channel.connections.values()) {
+      if (connection.fileId !== fileId || connection.clientId === exceptClientId) continue
+      try {
+        connection.send(event)
+      } catch (error) {
+        console.warn(`⚠️ Failed to send realtime event to ${connection.clientId}:`, error)
+      }
+    }
+  }
+
+  private broadcastPresence(channel: ProjectChannel) {
+    const clients = [...channel.connections.values()].map(connection => ({
+      clientId: connection.clientId,
+      user: connection.user,
+      fileId: connection.fileId,
+    }))
+    this.broadcast(channel, { type: 'presence', clients })
+  }
+
+  // Server-Sent Events stream for one browser tab
+  connect(projectId: string, clientId: string, user: PresenceUser, signal: AbortSignal): ReadableStream<Uint8Array> {
+    // Only the same user may take over a client id, or anyone could hijack another tab's session
+    const existing = this.channels.get(projectId)?.connections.get(clientId)
+    if (existing && existing.user.id !== user.id) {
+      throw new RealtimeClientIdTakenError(clientId)
+    }
+
+    const encoder = new TextEncoder()
+    let heartbeat: NodeJS.Timeout | null = null
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const connection: Connection = {
+          clientId,
+          user,
+          fileId: null,
+          awarenessIds: new Set(),
+          send: (event) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`)),
+        }
+
+        // A reconnect with the same id replaces the old stream
+        if (this.channels.get(projectId)?.connections.has(clientId)) {
+          this.disconnect(projectId, clientId)
+        }
+        const channel = this.getChannel(projectId)
+        channel.connections.set(clientId, connection)
+
+        connection.send({ type: 'welcome', clientId, user })
+        this.broadcastPresence(channel)
+
+        // Comments keep proxies from closing idle streams
+        heartbeat = setInterval(() => controller.enqueue(encoder.encode(': ping\n\n')), HEARTBEAT_MS)
+
+        signal.addEventListener('abort', () => {
+          if (heartbeat) clearInterval(heartbeat)
+          // Only tear down if this stream is still the registered one
+          if (this.channels.get(projectId)?.connections.get(clientId) === connection) {
+            this.disconnect(projectId, clientId)
+          }
+          try {
+            controller.close()
+          } catch {
+            // Already closed
+          }
+        })
+      },
+      cancel: () => {
+        if (heartbeat) clearInterval(heartbeat)
+      },
+    })
+  }
+
+  private disconnect(projectId: string, clientId: string) {
+    const channel = this.channels.get(projectId)
+    if (!channel) return
+
+    this.leaveFile(projectId, clientId)
+    channel.connections.delete(clientId)
+    this.broadcastPresence(channel)
+    this.dropChannelIfIdle(channel)
+  }
+
+  private dropChannelIfIdle(channel: ProjectChannel) {
+    const idle = channel.connections.size === 0 && channel.documents.size === 0 && channel.closing.size === 0
+    if (idle && this.channels.get(channel.projectId) === channel) {
+      this.channels.delete(channel.projectId)
+    }
+  }
+
+  isConnected(projectId: string, clientId: string, userId: string): boolean {
+    return this.channels.get(projectId)?.connections.get(clientId)?.user.id === userId
+  }
+
+  private async loadDocument(channel: ProjectChannel, fileId: string): Promise<FileDocument | null> {
+    const existing = channel.documents.get(fileId)
+    if (existing) return existing
+
+    // Read the file only after pending edits from a closed session are saved
+    await channel.closing.get(fileId)
+
+    const file = await db.projectFile.findFirst({
+      where: { id: fileId, projectId: channel.projectId, isBinary: false },
+      select: { id: true, path: true, content: true, version: true },
+    })
+    if (!file) return null
+
+    // Another join may have loaded the document while we were reading
+    const raced = channel.documents.get(fileId)
+    if (raced) return raced
+
+    const doc = new Y.Doc()
+    const text = doc.getText('content')
+    text.insert(0, file.content)
+
+    const awareness = new Awareness(doc)
+    awareness.setLocalState(null) // the server itself has no cursor
+
+    const document: FileDocument = {
+      fileId,
+      path: file.path,
+      doc,
+      text,
+      awareness,
+      persistedContent: file.content,
+      version: file.version,
+      lastEditorId: null,
+      persistTimer: null,
+    }
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      // Relay to everyone but the sender (server-made edits go to all)
+      const senderId = typeof origin === 'string' && origin !== SERVER_ORIGIN ? origin : undefined
+      this.broadcastToFile(channel, fileId, { type: 'doc-update', fileId, update: toBase64(update) }, senderId)
+
+      if (senderId) {
+        document.lastEditorId = channel.connections.get(senderId)?.user.id ?? document.lastEditorId
+        this.schedulePersist(channel, document)
+      }
+    })
+
+    channel.documents.set(fileId, document)
+    return document
+  }
+
+  // Join the editing session of a file and get its current state
+  async joinFile(projectId: string, clientId: string, fileId: string) {
+    const channel = this.channels.get(projectId)
+    const connection = channel?.connections.get(clientId)
+    if (!channel || !connection) return null
+
+    if (connection.fileId && connection.fileId !== fileId) {
+      this.leaveFile(projectId, clientId)
+    }
+
+    const document = await this.loadDocument(channel, fileId)
+    if (!document) return null
+
+    connection.fileId = fileId
+    this.broadcastPresence(channel)
+
+    const awarenessClients = [...document.awareness.getStates().keys()]
+    return {
+      state: toBase64(Y.encodeStateAsUpdate(document.doc)),
+      awareness: awarenessClients.length > 0
+        ? toBase64(encodeAwarenessUpdate(document.awareness, awarenessClients))
+        : null,
+    }
+  }
+
+  leaveFile(projectId: string, clientId: string) {
+    const channel = this.channels.get(projectId)
+    const connection = channel?.connections.get(clientId)
+    if (!channel || !connection?.fileId) return
+
+    const document = channel.documents.get(connection.fileId)
+    connection.fileId = null
+
+    if (document) {
+      // Drop this tab's cursor for everyone else
+      const removed = [...connection.awarenessIds].filter(id => document.awareness.getStates().has(id))
+      if (removed.length > 0) {
+        removeAwarenessStates(document.awareness, removed, SERVER_ORIGIN)
+        const update = encodeAwarenessUpdate(document.awareness, removed)
+        this.broadcastToFile(channel, document.fileId, { type: 'awareness', fileId: document.fileId, update: toBase64(update) }, clientId)
+      }
+      connection.awarenessIds.clear()
+
+      const stillOpen = [...channel.connections.values()].some(other => other.fileId === document.fileId)
+      if (!stillOpen) {
+        const closing = this.closeDocument(channel, document).finally(() => {
+          channel.closing.delete(document.fileId)
+          this.dropChannelIfIdle(channel)
+        })
+        channel.closing.set(document.fileId, closing)
+      }
+    }
+
+    this.broadcastPresence(channel)
+  }
+
+  applyUpdate(projectId: string, clientId: string, fileId: string, update: string): boolean {
+    const channel = this.channels.get(projectId)
+    const document = channel?.documents.get(fileId)
+    if (!document || channel?.connections.get(clientId)?.fileId !== fileId) return false
+    Y.applyUpdate(document.doc, fromBase64(update), clientId)
+    return true
+  }
+
+  applyAwareness(projectId: string, clientId: string, fileId: string, update: string): boolean {
+    const channel = this.channels.get(projectId)
+    const connection = channel?.connections.get(clientId)
+    const document = channel?.documents.get(fileId)
+    if (!channel || !connection || !document || connection.fileId !== fileId) return false
+
+    const onUpdate = ({ added, updated }: { added: number[]; updated: number[] }, origin: unknown) => {
+      if (origin !== clientId) return
+      for (const id of [...added, ...updated]) connection.awarenessIds.add(id)
+    }
+    document.awareness.on('update', onUpdate)
+    applyAwarenessUpdate(document.awareness, fromBase64(update), clientId)
+    document.awareness.off('update', onUpdate)
+
+    this.broadcastToFile(channel, fileId, { type: 'awareness', fileId, update }, clientId)
+    return true
+  }
+
+  private schedulePersist(channel: ProjectChannel, document: FileDocument) {
+    if (document.persistTimer) clearTimeout(document.persistTimer)
+    document.persistTimer = setTimeout(() => {
+      document.persistTimer = null
+      void this.persist(channel, document)
+    }, PERSIST_DEBOUNCE_MS)
+  }
+
+  // Write the shared document back to ProjectFile
+  private async persist(channel: ProjectChannel, document: FileDocument) {
+    const content = document.text.toString()
+    if (content === document.persistedContent) return
+
+    const previous = document.persistedContent
+    document.persistedContent = content
+
+    try {
+      // Only overwrite the version this session started from
+      const file = await updateFileAtVersion(document.fileId, document.version, { content })
+      if (!file) return
+      document.version = file.version
+
+      await fileRevisionService.recordRevision({
+        fileId: file.id,
+        projectId: channel.projectId,
+        path: file.path,
+        content,
+        author: 'USER',
+        source: 'realtime.collaboration',
+        userId: document.lastEditorId,
+      }, { path: file.path, content: previous })
+
+      await db.project.update({
+        where: { id: channel.projectId },
+        data: { updatedAt: new Date() },
+      })
+
+      this.broadcast(channel, { type: 'file-updated', fileId: file.id, path: file.path, version: file.version })
+
+      await gitRepositoryService.safeCommitProjectState(channel.projectId, `Update ${file.path}`, {
+        author: 'USER',
+        userId: document.lastEditorId,
+        paths: [file.path],
+      })
+    } catch (error) {
+      if (error instanceof FileConflictError) {
+        // The file was written outside this session; that write wins and
+        // every open editor is reset to it
+        console.warn(`⚠️ ${document.path} changed outside the realtime session, discarding unsaved collaborative edits`)
+        document.version = error.current.version
+        document.persistedContent = error.current.content
+        document.doc.transact(() => replaceYText(document.text, error.current.content), SERVER_ORIGIN)
+        return
+      }
+
+      console.error(`❌ Failed to persist collaborative edits to ${document.path}:`, error)
+      // Retry on the next edit
+      document.persistedContent = previous
+      return
+    }
+
+    // Keep the live preview in step, like saves from the editor do
+    try {
+      const sandbox = await db.sandbox.findFirst({
+        where: { projectId: channel.projectId, status: SandboxStatus.RUNNING },
+        select: { id: true },
+      })
+      if (sandbox) {
+        await customSandboxService.writeSandboxFile(sandbox.id, document.path, content)
+      }
+    } catch (error) {
+      console.error(`❌ Failed to sync collaborative edits to sandbox:`, error)
+    }
+  }
+
+  private async closeDocument(channel: ProjectChannel, document: FileDocument) {
+    if (document.persistTimer) {
+      clearTimeout(document.persistTimer)
+      document.persistTimer = null
+    }
+    channel.documents.delete(document.fileId)
+    await this.persist(channel, document)
+    document.awareness.destroy()
+    document.doc.destroy()
+  }
+
+  // Tell every open editor about a change made outside the realtime session
+  // (tRPC mutations, AI runs, git pushes). Pass the new content for updates so
+  // a live document picks it up.
+  publishFileEvent(projectId: string, event: FileEvent, content?: string) {
+    const channel = this.channels.get(projectId)
+    if (!channel) return
+
+    const document = channel.documents.get(event.fileId)
+    if (document) {
+      if (event.type === 'file-renamed') {
+        document.path = event.path
+      } else if (event.type === 'file-deleted') {
+        channel.documents.delete(event.fileId)
+        if (document.persistTimer) clearTimeout(document.persistTimer)
+        document.awareness.destroy()
+        document.doc.destroy()
+        for (const connection of channel.connections.values()) {
+          if (connection.fileId === event.fileId) connection.fileId = null
+        }
+      } else if (event.type === 'file-updated' && content !== undefined) {
+        document.persistedContent = content
+        document.version = event.version
+        document.doc.transact(() => replaceYText(document.text, content), SERVER_ORIGIN)
+      }
+    }
+
+    this.broadcast(channel, event)
+  }
+
+  async snapshotFileVersions(projectId: string): Promise<FileVersionSnapshot> {
+    const files = await db.projectFile.findMany({
+      where: { projectId },
+      select: { id: true, path: true, version: true },
+    })
+    return new Map(files.map(file => [file.id, { path: file.path, version: file.version }]))
+  }
+
+  // Publish everything a bulk write (rollback, git push, sandbox sync, AI
+  // fixes) changed since the snapshot. Never throws, so reporting can't fail
+  // the write itself.
+  async publishChangesSince(projectId: string, snapshot: FileVersionSnapshot) {
+    if (!this.channels.has(projectId)) return
+
+    try {
+      const files = await db.projectFile.findMany({
+        where: { projectId },
+        select: { id: true, path: true, version: true, isBinary: true },
+      })
+
+      const changedTextIds = files
+        .filter(file => !file.isBinary && snapshot.has(file.id) && snapshot.get(file.id)!.version !== file.version)
+        .map(file => file.id)
+      const contents = changedTextIds.length > 0
+        ? await db.projectFile.findMany({
+            where: { id: { in: changedTextIds } },
+            select: { id: true, content: true, version: true },
+          })
+        : []
+      const contentById = new Map(contents.map(file => [file.id, file]))
+
+      for (const file of files) {
+        const before = snapshot.get(file.id)
+        if (!before) {
+          this.publishFileEvent(projectId, { type: 'file-created', fileId: file.id, path: file.path })
+          continue
+        }
+        if (before.path !== file.path) {
+          this.publishFileEvent(projectId, { type: 'file-renamed', fileId: file.id, path: file.path, oldPath: before.path })
+        }
+        if (before.version !== file.version) {
+          const current = contentById.get(file.id)
+          this.publishFileEvent(projectId, {
+            type: 'file-updated',
+            fileId: file.id,
+            path: file.path,
+            version: current?.version ?? file.version,
+          }, current?.content)
+        }
+      }
+
+      const currentIds = new Set(files.map(file => file.id))
+      for (const [fileId, before] of snapshot) {
+        if (!currentIds.has(fileId)) {
+          this.publishFileEvent(projectId, { type: 'file-deleted', fileId, path: before.path })
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Failed to publish file changes for project ${projectId}:`, error)
+    }
+  }
+}
+
+// Keep one hub across hot reloads in development
+const globalForRealtime = globalThis as unknown as {
+  realtimeHub: RealtimeHub | undefined
+}
+
+export const realtimeHub = globalForRealtime.realtimeHub ?? new RealtimeHub()
+
+if (process.env.NODE_ENV !== 'production') globalForRealtime.realtimeHub = realtimeHub
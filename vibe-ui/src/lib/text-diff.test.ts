@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { applyLineChanges, diffLineChanges, diffText, formatUnifiedDiff } from './text-diff'
+
+describe('diffText', () => {
+  it('reports identical text', () => {
+    expect(diffText('a\nb\n', 'a\nb\n')).toEqual({ hunks: [], additions: 0, deletions: 0, identical: true })
+  })
+
+  it('finds changed lines with their line numbers and context', () => {
+    const diff = diffText('one\ntwo\nthree\nfour\n', 'one\n2\nthree\nfour\nfive\n', 1)
+
+    expect(diff.additions).toBe(2)
+    expect(diff.deletions).toBe(1)
+    expect(formatUnifiedDiff(diff, 'a/file.txt', 'b/file.txt')).toBe([
+      '--- a/file.txt',
+      '+++ b/file.txt',
+      '@@ -1,4 +1,5 @@',
+      ' one',
+      '-two',
+      '+2',
+      ' three',
+      ' four',
+      '+five',
+    ].join('\n'))
+  })
+
+  it('reports a change when only the trailing newline differs', () => {
+    const diff = diffText('first\nlast\n', 'first\nlast')
+
+    expect(diff.identical).toBe(false)
+    expect(diff.hunks).toHaveLength(1)
+    expect(formatUnifiedDiff(diff, 'old', 'new').split('\n').slice(2)).toEqual([
+      '@@ -1,2 +1,2 @@',
+      ' first',
+      '-last',
+      '+last',
+      '\\ No newline at end of file',
+    ])
+  })
+
+  it('marks an unchanged last line without a newline', () => {
+    const diff = diffText('a\nb', 'x\nb')
+
+    expect(diff.hunks[0].lines.at(-1)).toEqual({
+      type: 'context',
+      content: 'b',
+      oldLineNumber: 2,
+      newLineNumber: 2,
+      noNewline: true,
+    })
+  })
+
+  it('falls back to replacing the changed region when the files barely match', () => {
+    const oldText = Array.from({ length: 3000 }, (_, i) => `old ${i}`).join('\n') + '\n'
+    const newText = 'header\n' + Array.from({ length: 3000 }, (_, i) => `new ${i}`).join('\n') + '\n'
+
+    const diff = diffText(oldText, newText)
+
+    expect(diff.deletions).toBe(3000)
+    expect(diff.additions).toBe(3001)
+  })
+
+  it('keeps unchanged ends out of the fallback replacement', () => {
+    const body = (label: string) => Array.from({ length: 2500 }, (_, i) => `${label} ${i}`).join('\n')
+    const diff = diffText(`start\n${body('old')}\nend\n`, `start\n${body('new')}\nend\n`)
+
+    const lines = diff.hunks.flatMap(hunk => hunk.lines)
+    expect(lines[0]).toMatchObject({ type: 'context', content: 'start', oldLineNumber: 1 })
+    expect(lines.at(-1)).toMatchObject({ type: 'context', content: 'end', oldLineNumber: 2502, newLineNumber: 2502 })
+  })
+})
+
+describe('diffLineChanges and applyLineChanges', () => {
+  const oldText = 'import a\n\nfunction f() {\n  return 1\n}\n\nexport default f\n'
+  const newText = 'import a\nimport b\n\nfunction f() {\n  return 2\n}\n\nexport default f\n'
+
+  it('rebuilds the new text from every change', () => {
+    expect(applyLineChanges(oldText, diffLineChanges(oldText, newText))).toBe(newText)
+  })
+
+  it('applies a subset of changes on its own', () => {
+    const [addImport, changeReturn] = diffLineChanges(oldText, newText)
+
+    expect(applyLineChanges(oldText, [changeReturn])).toBe(oldText.replace('return 1', 'return 2'))
+    expect(applyLineChanges(oldText, [addImport])).toBe(oldText.replace('import a\n', 'import a\nimport b\n'))
+  })
+})
@@ -0,0 +1,282 @@
+// Line-based text diffing (Myers' O(ND) algorithm) used to compare file
+// revisions and checkpoints without pulling in a diff dependency.
+
+// The trace kept for backtracking grows with the square of the edit distance;
+// past this many differing lines the changed region is diffed as one replacement
+const MAX_EDIT_DISTANCE = 2000
+
+export type DiffLineType = 'context' | 'add' | 'remove'
+
+export interface DiffLine {
+  type: DiffLineType
+  content: string
+  oldLineNumber: number | null
+  newLineNumber: number | null
+  noNewline?: boolean // last line of its file, with no line break after it
+}
+
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[]
+  additions: number
+  deletions: number
+  identical: boolean
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return []
+  const lines = text.split('\n')
+  // A trailing newline should not produce an extra empty line
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+// Lines with their line breaks, so a missing newline at the end is a change
+function splitLinesKeepingBreaks(text: string): string[] {
+  return text === '' ? [] : text.split(/(?<=\n)/)
+}
+
+// Returns the full edit script between two line arrays
+function computeEditScript(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Matching lines at either end never need the search
+  let prefix = 0
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const context = (from: number, to: number, newFrom: number): DiffLine[] =>
+    oldLines.slice(from, to).map((content, i) => ({
+      type: 'context',
+      content,
+      oldLineNumber: from + i + 1,
+      newLineNumber: newFrom + i + 1,
+    }))
+
+  const middle = computeMiddleScript(
+    oldLines.slice(prefix, oldLines.length - suffix),
+    newLines.slice(prefix, newLines.length - suffix)
+  )
+  for (const line of middle) {
+    if (line.oldLineNumber !== null) line.oldLineNumber += prefix
+    if (line.newLineNumber !== null) line.newLineNumber += prefix
+  }
+
+  return [
+    ...context(0, prefix, 0),
+    ...middle,
+    ...context(oldLines.length - suffix, oldLines.length, newLines.length - suffix),
+  ]
+}
+
+// Everything removed, then everything added
+function replaceAll(oldLines: string[], newLines: string[]): DiffLine[] {
+  return [
+    ...oldLines.map((content, i): DiffLine => ({ type: 'remove', content, oldLineNumber: i + 1, newLineNumber: null })),
+    ...newLines.map((content, i): DiffLine => ({ type: 'add', content, oldLineNumber: null, newLineNumber: i + 1 })),
+  ]
+}
+
+function computeMiddleScript(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length
+  const m = newLines.length
+  const max = n + m
+  const offset = max
+  const v = new Array<number>(2 * max + 2).fill(0)
+  // Only diagonals -d..d are reachable in round d, so each snapshot keeps just those
+  const trace: number[][] = []
+
+  outer: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return replaceAll(oldLines, newLines)
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x: number
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1]
+      } else {
+        x = v[offset + k - 1] + 1
+      }
+      let y = x - k
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        break outer
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the path
+  const script: DiffLine[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d] // vd[k + d] holds diagonal k
+    const k = x - y
+    let prevK: number
+    if (k === -d || (k !== d && vd[k - 1 + d] < vd[k + 1 + d])) {
+      prevK = k + 1
+    } else {
+      prevK = k - 1
+    }
+    const prevX = d > 0 ? vd[prevK + d] : 0
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      script.push({ type: 'context', content: oldLines[x - 1], oldLineNumber: x, newLineNumber: y })
+      x--
+      y--
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        script.push({ type: 'add', content: newLines[y - 1], oldLineNumber: null, newLineNumber: y })
+      } else {
+        script.push({ type: 'remove', content: oldLines[x - 1], oldLineNumber: x, newLineNumber: null })
+      }
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return script.reverse()
+}
+
+// Group an edit script into hunks with the given number of context lines
+function buildHunks(script: DiffLine[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  const changeIndexes = script
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter(index => index !== -1)
+
+  if (changeIndexes.length === 0) return hunks
+
+  let start = Math.max(0, changeIndexes[0] - context)
+  let end = Math.min(script.length - 1, changeIndexes[0] + context)
+
+  const flush = () => {
+    const lines = script.slice(start, end + 1)
+    const firstOld = lines.find(l => l.oldLineNumber !== null)?.oldLineNumber
+    const firstNew = lines.find(l => l.newLineNumber !== null)?.newLineNumber
+    hunks.push({
+      oldStart: firstOld ?? 0,
+      oldLines: lines.filter(l => l.type !== 'add').length,
+      newStart: firstNew ?? 0,
+      newLines: lines.filter(l => l.type !== 'remove').length,
+      lines,
+    })
+  }
+
+  for (const index of changeIndexes.slice(1)) {
+    if (index - context <= end + 1) {
+      end = Math.min(script.length - 1, index + context)
+    } else {
+      flush()
+      start = Math.max(0, index - context)
+      end = Math.min(script.length - 1, index + context)
+    }
+  }
+  flush()
+
+  return hunks
+}
+
+export function diffText(oldText: string, newText: string, context = 3): TextDiff {
+  if (oldText === newText) {
+    return { hunks: [], additions: 0, deletions: 0, identical: true }
+  }
+
+  const script = computeEditScript(splitLinesKeepingBreaks(oldText), splitLinesKeepingBreaks(newText))
+  for (const line of script) {
+    if (line.content.endsWith('\n')) {
+      line.content = line.content.slice(0, -1)
+    } else {
+      line.noNewline = true
+    }
+  }
+
+  return {
+    hunks: buildHunks(script, context),
+    additions: script.filter(l => l.type === 'add').length,
+    deletions: script.filter(l => l.type === 'remove').length,
+    identical: false,
+  }
+}
+
+// A run of adjacent changed lines with no context; proposed edits are accepted
+// or rejected one change at a time
+export interface LineChange {
+  oldStart: number // 0-based index of the first old line it replaces
+  oldLines: string[]
+  newLines: string[]
+}
+
+export function diffLineChanges(oldText: string, newText: string): LineChange[] {
+  if (oldText === newText) return []
+
+  const changes: LineChange[] = []
+  let current: LineChange | null = null
+  let oldIndex = 0
+  for (const line of computeEditScript(splitLines(oldText), splitLines(newText))) {
+    if (line.type === 'context') {
+      current = null
+      oldIndex++
+      continue
+    }
+    if (!current) {
+      current = { oldStart: oldIndex, oldLines: [], newLines: [] }
+      changes.push(current)
+    }
+    if (line.type === 'remove') {
+      current.oldLines.push(line.content)
+      oldIndex++
+    } else {
+      current.newLines.push(line.content)
+    }
+  }
+  return changes
+}
+
+// Apply a subset of the changes diffLineChanges found against oldText
+export function applyLineChanges(oldText: string, changes: LineChange[]): string {
+  const lines = splitLines(oldText)
+  // Back to front, so earlier indexes stay valid
+  for (const change of [...changes].sort((a, b) => b.oldStart - a.oldStart)) {
+    lines.splice(change.oldStart, change.oldLines.length, ...change.newLines)
+  }
+  if (lines.length === 0) return ''
+  return lines.join('\n') + (oldText === '' || oldText.endsWith('\n') ? '\n' : '')
+}
+
+// Render a diff in unified format (useful for logs and AI prompts)
+export function formatUnifiedDiff(diff: TextDiff, oldLabel: string, newLabel: string): string {
+  if (diff.identical) return ''
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`]
+  for (const hunk of diff.hunks) {
+    output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`)
+    for (const line of hunk.lines) {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '
+      output.push(`${prefix}${line.content}`)
+      if (line.noNewline) output.push('\\ No newline at end of file')
+    }
+  }
+  return output.join('\n')
+}
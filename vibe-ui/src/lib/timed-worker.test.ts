@@ -0,0 +1,40 @@
+import { Worker } from 'worker_threads'
+import { describe, expect, it } from 'vitest'
+import { TimedWorker } from './timed-worker'
+
+// Echoes numbers back, spins for ever on 'hang' and reports thrown errors
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads')
+parentPort.on('message', (request) => {
+  if (request === 'hang') for (;;) {}
+  if (request === 'fail') return parentPort.postMessage({ error: 'bad request' })
+  parentPort.postMessage({ result: request * 2 })
+})
+`
+
+function createWorker(timeoutMs = 1000) {
+  return new TimedWorker<number | string, number>(
+    () => new Worker(WORKER_SOURCE, { eval: true }),
+    timeoutMs,
+    () => new Error('timed out')
+  )
+}
+
+describe('TimedWorker', () => {
+  it('answers requests in order', async () => {
+    const worker = createWorker()
+
+    await expect(Promise.all([worker.run(1), worker.run(2), worker.run(3)])).resolves.toEqual([2, 4, 6])
+  })
+
+  it('rejects with the error the worker reports', async () => {
+    await expect(createWorker().run('fail')).rejects.toThrow('bad request')
+  })
+
+  it('terminates a stuck request and recovers with a fresh worker', async () => {
+    const worker = createWorker(200)
+
+    await expect(worker.run('hang')).rejects.toThrow('timed out')
+    await expect(worker.run(21)).resolves.toBe(42)
+  })
+})
@@ -0,0 +1,72 @@
+import type { Worker } from 'worker_threads'
+
+// A long-lived worker thread that handles one request at a time. A request
+// that runs past the timeout takes the worker down with it; the next request
+// starts a fresh one. Workers answer each message with { result } or { error }.
+export class TimedWorker<TRequest, TResult> {
+  private worker: Worker | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+
+  // The factory must call new Worker(new URL(...)) itself so the bundler sees the worker
+  constructor(
+    private createWorker: () => Worker,
+    private timeoutMs: number,
+    private createTimeoutError: () => Error
+  ) {}
+
+  run(request: TRequest): Promise<TResult> {
+    const run = this.queue.then(() => this.send(request))
+    this.queue = run.catch(() => {})
+    return run
+  }
+
+  private send(request: TRequest): Promise<TResult> {
+    if (!this.worker) {
+      this.worker = this.createWorker()
+      // An idle worker must not keep the server process alive
+      this.worker.unref()
+    }
+    const worker = this.worker
+
+    return new Promise((resolve, reject) => {
+      const discard = () => {
+        if (this.worker === worker) this.worker = null
+        void worker.terminate()
+      }
+      const cleanup = () => {
+        clearTimeout(timer)
+        worker.off('message', onMessage)
+        worker.off('error', onError)
+        worker.off('exit', onExit)
+      }
+      const onMessage = (message: { result?: TResult; error?: string }) => {
+        cleanup()
+        if (message.error === undefined) {
+          resolve(message.result as TResult)
+        } else {
+          reject(new Error(message.error))
+        }
+      }
+      const onError = (error: Error) => {
+        cleanup()
+        discard()
+        reject(error)
+      }
+      const onExit = (code: number) => {
+        cleanup()
+        discard()
+        reject(new Error(`Worker exited with code ${code}`))
+      }
+      const timer = setTimeout(() => {
+        cleanup()
+        discard()
+        reject(this.createTimeoutError())
+      }, this.timeoutMs)
+
+      worker.on('message', onMessage)
+      worker.on('error', onError)
+      worker.on('exit', onExit)
+      worker.postMessage(request)
+    })
+  }
+}
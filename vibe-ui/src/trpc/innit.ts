@@ -1,6 +1,9 @@
 import { initTRPC, TRPCError } from '@trpc/server'
 import { type Context, type User } from './context'
 import { ZodError } from 'zod'
+import { FileConflictError } from '@/lib/file-conflicts'
+import { assertOrganizationRole, assertProjectRole, assertSandboxRole, ProjectAccessError } from '@/lib/project-access'
+import type { OrganizationRole, ProjectRole } from '@/generated/prisma'
 
 // Initialize tRPC
 const t = initTRPC.context<Context>().create({
@@ -13,6 +16,11 @@ const t = initTRPC.context<Context>().create({
           error.cause instanceof ZodError
             ? error.cause.flatten()
             : null,
+        // Current state of a file for CONFLICT errors from stale writes
+        conflict:
+          error.cause instanceof FileConflictError
+            ? error.cause.current
+            : null,
       },
     }
   },
@@ -34,3 +42,29 @@ export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
     },
   })
 })
+
+async function withAccessErrors<T>(check: () => Promise<T>): Promise<T> {
+  try {
+    return await check()
+  } catch (error) {
+    if (error instanceof ProjectAccessError) {
+      throw new TRPCError({ code: error.reason, message: error.message, cause: error })
+    }
+    throw error
+  }
+}
+
+// Require at least minimumRole on a project (owner, or member with that role)
+export function requireProjectRole(userId: string, projectId: string, minimumRole: ProjectRole) {
+  return withAccessErrors(() => assertProjectRole(projectId, userId, minimumRole))
+}
+
+// Require at least minimumRole on the project a sandbox belongs to
+export function requireSandboxRole(userId: string, sandboxId: string, minimumRole: ProjectRole) {
+  return withAccessErrors(() => assertSandboxRole(sandboxId, userId, minimumRole))
+}
+
+// Require at least minimumRole in a team workspace
+export function requireOrganizationRole(userId: string, organizationId: string, minimumRole: OrganizationRole) {
+  return withAccessErrors(() => assertOrganizationRole(organizationId, userId, minimumRole))
+}
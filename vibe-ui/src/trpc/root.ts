@@ -6,6 +6,16 @@ import { likeRouter } from './routers/like'
 import { commentRouter } from './routers/comment'
 import { deploymentRouter } from './routers/deployment'
 import { chatRouter } from './routers/chat'
+import { checkpointRouter } from './routers/checkpoint'
+import { gitRouter } from './routers/git'
+import { collaboratorRouter } from './routers/collaborator'
+import { organizationRouter } from './routers/organization'
+import { shareRouter } from './routers/share'
+import { templateRouter } from './routers/template'
+import { envRouter } from './routers/env'
+import { dependencyRouter } from './routers/dependency'
+import { diagnosticsRouter } from './routers/diagnostics'
+import { agentRouter } from './routers/agent'
 
 /**
  * This is the primary router for your server.
@@ -20,6 +30,16 @@ export const appRouter = createTRPCRouter({
   comment: commentRouter,
   deployment: deploymentRouter,
   chat: chatRouter,
+  checkpoint: checkpointRouter,
+  git: gitRouter,
+  collaborator: collaboratorRouter,
+  organization: organizationRouter,
+  share: shareRouter,
+  template: templateRouter,
+  env: envRouter,
+  dependency: dependencyRouter,
+  diagnostics: diagnosticsRouter,
+  agent: agentRouter,
 })
 
 // export type definition of API
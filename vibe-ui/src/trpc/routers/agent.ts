@@ -0,0 +1,94 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { ProjectRole } from '@/generated/prisma'
+import { db } from '@/lib/db'
+import { AgentRunError, aiAgentSystem, DEFAULT_MAX_STEPS, MAX_TIME_LIMIT_MS } from '@/lib/ai-agent-system'
+import { LLMConfigError } from '@/lib/llm-providers'
+
+export const agentRouter = createTRPCRouter({
+  // Let the coding agent work on the project until it finishes or hits a limit
+  runCodingTask: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      task: z.string().trim().min(1).max(10000),
+      sandboxId: z.string().optional(), // defaults to the project's running sandbox
+      maxSteps: z.number().int().min(1).max(50).default(DEFAULT_MAX_STEPS),
+      timeLimitMs: z.number().int().min(10000).max(MAX_TIME_LIMIT_MS).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      try {
+        return await aiAgentSystem.executeCodingTask(input.projectId, ctx.user.id, input.task, {
+          sandboxId: input.sandboxId,
+          maxSteps: input.maxSteps,
+          timeLimitMs: input.timeLimitMs,
+        })
+      } catch (error) {
+        if (error instanceof AgentRunError) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: error.message,
+          })
+        }
+        if (error instanceof LLMConfigError) {
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: error.message,
+          })
+        }
+        throw error
+      }
+    }),
+
+  // Recent runs, without their transcripts
+  getAgentRuns: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      limit: z.number().int().min(1).max(100).default(20),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      return db.agentRun.findMany({
+        where: { projectId: input.projectId },
+        orderBy: { createdAt: 'desc' },
+        take: input.limit,
+        omit: { transcript: true },
+        include: {
+          user: {
+            select: { id: true, username: true, name: true, avatar: true },
+          },
+        },
+      })
+    }),
+
+  // One run with its full transcript
+  getAgentRun: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      runId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const run = await db.agentRun.findFirst({
+        where: { id: input.runId, projectId: input.projectId },
+        include: {
+          user: {
+            select: { id: true, username: true, name: true, avatar: true },
+          },
+        },
+      })
+
+      if (!run) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Agent run not found',
+        })
+      }
+
+      return run
+    }),
+})
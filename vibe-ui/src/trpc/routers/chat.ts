@@ -1,14 +1,13 @@
 import { z } from 'zod';
-import { createTRPCRouter, protectedProcedure } from '../innit';
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '../innit';
 import { TRPCError } from '@trpc/server';
-import OpenAI from 'openai';
+import { ProjectRole, type Prisma } from '@/generated/prisma';
+import { hasProjectRole } from '@/lib/project-access';
+import { FileConflictError } from '@/lib/file-conflicts';
+import { chatChangeService, ProposedChangeError, type ChatMessageMetadata } from '@/lib/chat-changes';
+import { generateAIResponse } from '@/lib/chat-assistant';
 // import { AIPromptProcessor } from '@/lib/ai-processor';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 // Input schemas
 const createChatSessionSchema = z.object({
   projectId: z.string().optional(),
@@ -20,6 +19,12 @@ const sendMessageSchema = z.object({
   content: z.string().min(1),
 });
 
+const resolveProposedChangeSchema = z.object({
+  messageId: z.string(),
+  changeId: z.string(),
+  acceptedHunks: z.array(z.number().int().min(0)), // empty rejects the whole file
+});
+
 const getChatSessionSchema = z.object({
   chatSessionId: z.string(),
 });
@@ -35,21 +40,9 @@ export const chatRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const { db, user } = ctx;
       
-      // If projectId is provided, verify user owns the project
+      // If projectId is provided, verify user can open the project
       if (input.projectId) {
-        const project = await db.project.findFirst({
-          where: {
-            id: input.projectId,
-            userId: user.id,
-          },
-        });
-        
-        if (!project) {
-          throw new TRPCError({
-            code: 'NOT_FOUND',
-            message: 'Project not found',
-          });
-        }
+        await requireProjectRole(user.id, input.projectId, ProjectRole.VIEWER);
       }
 
       const chatSession = await db.chatSession.create({
@@ -131,11 +124,12 @@ export const chatRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const { db, user } = ctx;
 
-      // Verify user owns the project
+      // Verify user can open the project; each collaborator has their own chat
+      await requireProjectRole(user.id, input.projectId, ProjectRole.VIEWER);
+
       const project = await db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: user.id,
         },
       });
 
@@ -249,6 +243,7 @@ export const chatRouter = createTRPCRouter({
               styling: true,
               database: true,
               initialPrompt: true,
+              aiModels: true,
             },
           },
         },
@@ -261,6 +256,12 @@ export const chatRouter = createTRPCRouter({
         });
       }
 
+      // Access to the project may have been revoked since the chat started.
+      // Only editors get file changes proposed, since only they can accept them.
+      const canEdit = chatSession.project
+        ? hasProjectRole(await requireProjectRole(user.id, chatSession.project.id, ProjectRole.VIEWER), ProjectRole.EDITOR)
+        : false;
+
       // Create user message
       const userMessage = await db.message.create({
         data: {
@@ -284,15 +285,29 @@ export const chatRouter = createTRPCRouter({
       // Generate AI response
       try {
         const messages = chatSession.messages.concat(userMessage);
-        const aiResponse = await generateAIResponse(messages, chatSession.project);
-        
+        const projectFiles = canEdit && chatSession.project
+          ? await db.projectFile.findMany({
+              where: { projectId: chatSession.project.id, isBinary: false },
+              select: { path: true, content: true },
+              orderBy: { path: 'asc' },
+            })
+          : undefined;
+        const aiResponse = await generateAIResponse(messages, chatSession.project, projectFiles);
+
+        // File edits become patches the user reviews before anything is written
+        const proposedChanges = chatSession.project && aiResponse.files.length > 0
+          ? await chatChangeService.proposeChanges(chatSession.project.id, aiResponse.files)
+          : [];
+        const metadata: ChatMessageMetadata | undefined = proposedChanges.length > 0 ? { proposedChanges } : undefined;
+
         // Create AI message
         const aiMessage = await db.message.create({
           data: {
             chatSessionId: input.chatSessionId,
             userId: user.id, // System messages still need a userId
-            content: aiResponse,
+            content: aiResponse.content,
             role: 'ASSISTANT',
+            metadata: metadata as unknown as Prisma.InputJsonValue | undefined,
           },
           include: {
             user: {
@@ -340,6 +355,65 @@ export const chatRouter = createTRPCRouter({
       }
     }),
 
+  // Accept some or all hunks of a file change the assistant proposed, or reject it.
+  // Accepted hunks are written to the project and synced to the running sandbox.
+  resolveProposedChange: protectedProcedure
+    .input(resolveProposedChangeSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { db, user } = ctx;
+
+      const message = await db.message.findFirst({
+        where: {
+          id: input.messageId,
+          role: 'ASSISTANT',
+          chatSession: {
+            userId: user.id,
+          },
+        },
+        select: {
+          chatSession: {
+            select: {
+              projectId: true,
+            },
+          },
+        },
+      });
+
+      if (!message?.chatSession.projectId) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Message not found',
+        });
+      }
+
+      await requireProjectRole(user.id, message.chatSession.projectId, ProjectRole.EDITOR);
+
+      try {
+        return await chatChangeService.resolveChange({
+          messageId: input.messageId,
+          changeId: input.changeId,
+          acceptedHunks: input.acceptedHunks,
+          projectId: message.chatSession.projectId,
+          userId: user.id,
+        });
+      } catch (error) {
+        if (error instanceof FileConflictError) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: `${error.current.path} changed since this was proposed; ask for the change again`,
+            cause: error,
+          });
+        }
+        if (error instanceof ProposedChangeError) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+    }),
+
   // Get user's chat sessions
   getUserChatSessions: protectedProcedure
     .query(async ({ ctx }) => {
@@ -406,53 +480,3 @@ export const chatRouter = createTRPCRouter({
       return { success: true };
     }),
 });
-
-// Helper function to generate AI response
-async function generateAIResponse(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  messages: any[],
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  project: any
-): Promise<string> {
-  const systemMessage = `You are an AI assistant helping with software development. ${
-    project 
-      ? `The user is working on a project called "${project.name}" - ${project.description || 'No description provided'}. 
-         Project details: Framework: ${project.framework || 'Not specified'}, 
-         Styling: ${project.styling || 'Not specified'}, 
-         Database: ${project.database || 'Not specified'}.
-         ${project.initialPrompt ? `Original project prompt: "${project.initialPrompt}"` : ''}`
-      : 'The user is having a general conversation about software development.'
-  }
-
-You should:
-- Provide helpful, accurate programming advice
-- Help with debugging and problem-solving
-- Suggest best practices and improvements
-- Answer questions about the project or general development
-- Be encouraging and supportive
-- Keep responses concise but comprehensive
-- Use code examples when helpful
-- Ask clarifying questions when needed
-
-Be conversational and friendly while maintaining technical accuracy.`;
-
-  const openaiMessages = [
-    {
-      role: 'system' as const,
-      content: systemMessage,
-    },
-    ...messages.map((msg) => ({
-      role: msg.role.toLowerCase() === 'user' ? 'user' as const : 'assistant' as const,
-      content: msg.content,
-    })),
-  ];
-
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: openaiMessages,
-    max_tokens: 1000,
-    temperature: 0.7,
-  });
-
-  return response.choices[0]?.message?.content || 'I apologize, but I could not generate a response. Please try again.';
-} 
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { ProjectRole, SandboxStatus } from '@/generated/prisma'
+import { projectCheckpointService } from '@/lib/project-checkpoints'
+import { customSandboxService } from '@/lib/custom-sandbox'
+import { gitRepositoryService } from '@/lib/git-repository'
+
+export const checkpointRouter = createTRPCRouter({
+  // List checkpoints for a project (newest first)
+  listCheckpoints: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      limit: z.number().min(1).max(200).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      // Verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      return projectCheckpointService.listCheckpoints(input.projectId, input.limit)
+    }),
+
+  // Preview what rolling back to a checkpoint would change
+  previewCheckpoint: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      checkpointId: z.string(),
+      path: z.string().optional(), // include both versions of this file
+    }))
+    .query(async ({ ctx, input }) => {
+      // Verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      const preview = await projectCheckpointService.previewCheckpoint(input.checkpointId, input.projectId)
+
+      if (!preview) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Checkpoint not found',
+        })
+      }
+
+      let file: { path: string; current: string; checkpoint: string } | null = null
+      if (input.path) {
+        const [currentFile, checkpointFile] = await Promise.all([
+          ctx.db.projectFile.findFirst({
+            where: { projectId: input.projectId, path: input.path },
+            select: { content: true },
+          }),
+          ctx.db.projectCheckpointFile.findFirst({
+            where: { checkpointId: input.checkpointId, path: input.path },
+            select: { content: true },
+          }),
+        ])
+
+        file = {
+          path: input.path,
+          current: currentFile?.content ?? '',
+          checkpoint: checkpointFile?.content ?? '',
+        }
+      }
+
+      return { ...preview, file }
+    }),
+
+  // Roll every project file back to a checkpoint
+  rollbackToCheckpoint: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      checkpointId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // Verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+        include: {
+          sandboxes: {
+            where: {
+              status: SandboxStatus.RUNNING,
+            },
+            take: 1,
+          },
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      const result = await projectCheckpointService.rollbackToCheckpoint(
+        input.checkpointId,
+        input.projectId,
+        ctx.user.id
+      )
+
+      if (!result) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Checkpoint not found',
+        })
+      }
+
+      await gitRepositoryService.safeCommitProjectState(input.projectId, `Roll back to checkpoint "${result.checkpointLabel}"`, {
+        author: 'USER',
+        userId: ctx.user.id,
+      })
+
+      // If there's a running sandbox, mirror the rollback into it
+      let synced = false
+      if (project.sandboxes.length > 0) {
+        const sandbox = project.sandboxes[0]
+        try {
+          const changedPaths = [...result.restoredPaths, ...result.createdPaths]
+          const changedFiles = await ctx.db.projectFile.findMany({
+            where: {
+              projectId: input.projectId,
+              path: { in: changedPaths },
+            },
+            select: { path: true, content: true, isBinary: true, binaryContent: true },
+          })
+
+          const count = await customSandboxService.syncFilesToSandbox(
+            sandbox.id,
+            changedFiles.map(file => ({
+              path: file.path,
+              content: file.isBinary && file.binaryContent ? Buffer.from(file.binaryContent) : file.content,
+            })),
+            result.removedPaths
+          )
+
+          synced = true
+          console.log(`✅ Synced rollback of ${count} files to sandbox ${sandbox.id}`)
+        } catch (error) {
+          console.error(`❌ Failed to sync rollback to sandbox:`, error)
+          // Don't fail the rollback if sync fails
+        }
+      }
+
+      return { ...result, synced }
+    }),
+})
@@ -0,0 +1,276 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { ProjectRole } from '@/generated/prisma'
+
+// Roles that can be given to collaborators; ownership can't be shared
+const collaboratorRoleSchema = z.enum([ProjectRole.EDITOR, ProjectRole.VIEWER])
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  username: true,
+  email: true,
+  avatar: true,
+} as const
+
+export const collaboratorRouter = createTRPCRouter({
+  // Owner, members and (for the owner) pending invitations of a project
+  listCollaborators: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const role = await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const project = await ctx.db.project.findUnique({
+        where: { id: input.projectId },
+        select: {
+          user: { select: userSummarySelect },
+          members: {
+            orderBy: { createdAt: 'asc' },
+            include: { user: { select: userSummarySelect } },
+          },
+          invitations: role === ProjectRole.OWNER
+            ? { orderBy: { createdAt: 'asc' } }
+            : false,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      return {
+        role,
+        owner: project.user,
+        members: project.members,
+        invitations: project.invitations ?? [],
+      }
+    }),
+
+  // Invite someone by username or email. Existing users see the invitation on
+  // their dashboard; an unknown email is kept until someone signs up with it.
+  inviteCollaborator: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      usernameOrEmail: z.string().trim().min(1).max(254),
+      role: collaboratorRoleSchema.default(ProjectRole.EDITOR),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.OWNER)
+
+      const isEmail = input.usernameOrEmail.includes('@')
+      const invitee = await ctx.db.user.findFirst({
+        where: isEmail
+          ? { email: { equals: input.usernameOrEmail, mode: 'insensitive' } }
+          : { username: input.usernameOrEmail },
+        select: { id: true, email: true },
+      })
+
+      if (!invitee && !isEmail) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No user named ${input.usernameOrEmail}`,
+        })
+      }
+
+      if (invitee?.id === ctx.user.id) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'You already own this project',
+        })
+      }
+
+      if (invitee) {
+        const existingMember = await ctx.db.projectMember.findUnique({
+          where: {
+            projectId_userId: { projectId: input.projectId, userId: invitee.id },
+          },
+        })
+
+        if (existingMember) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: 'This user is already a collaborator',
+          })
+        }
+      }
+
+      const email = (invitee?.email ?? input.usernameOrEmail).toLowerCase()
+
+      // Inviting again just updates the offered role
+      return ctx.db.projectInvitation.upsert({
+        where: {
+          projectId_email: { projectId: input.projectId, email },
+        },
+        create: {
+          projectId: input.projectId,
+          email,
+          role: input.role,
+          invitedById: ctx.user.id,
+        },
+        update: {
+          role: input.role,
+          invitedById: ctx.user.id,
+        },
+      })
+    }),
+
+  cancelInvitation: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      invitationId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.OWNER)
+
+      const { count } = await ctx.db.projectInvitation.deleteMany({
+        where: {
+          id: input.invitationId,
+          projectId: input.projectId,
+        },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Invitation not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  updateCollaboratorRole: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      userId: z.string(),
+      role: collaboratorRoleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.OWNER)
+
+      const { count } = await ctx.db.projectMember.updateMany({
+        where: {
+          projectId: input.projectId,
+          userId: input.userId,
+        },
+        data: {
+          role: input.role,
+        },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Collaborator not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  // The owner can remove anyone; collaborators can remove themselves (leave)
+  removeCollaborator: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      userId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const isLeaving = input.userId === ctx.user.id
+      await requireProjectRole(ctx.user.id, input.projectId, isLeaving ? ProjectRole.VIEWER : ProjectRole.OWNER)
+
+      const { count } = await ctx.db.projectMember.deleteMany({
+        where: {
+          projectId: input.projectId,
+          userId: input.userId,
+        },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: isLeaving ? 'BAD_REQUEST' : 'NOT_FOUND',
+          message: isLeaving ? 'The owner cannot leave their own project' : 'Collaborator not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  // Invitations addressed to the signed-in user's email
+  getMyInvitations: protectedProcedure
+    .query(async ({ ctx }) => {
+      return ctx.db.projectInvitation.findMany({
+        where: {
+          email: ctx.user.email.toLowerCase(),
+        },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          project: {
+            select: {
+              id: true,
+              name: true,
+              description: true,
+            },
+          },
+          invitedBy: {
+            select: {
+              id: true,
+              name: true,
+              username: true,
+              avatar: true,
+            },
+          },
+        },
+      })
+    }),
+
+  respondToInvitation: protectedProcedure
+    .input(z.object({
+      invitationId: z.string(),
+      accept: z.boolean(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const invitation = await ctx.db.projectInvitation.findFirst({
+        where: {
+          id: input.invitationId,
+          email: ctx.user.email.toLowerCase(),
+        },
+      })
+
+      if (!invitation) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Invitation not found',
+        })
+      }
+
+      await ctx.db.$transaction(async (tx) => {
+        if (input.accept) {
+          await tx.projectMember.upsert({
+            where: {
+              projectId_userId: { projectId: invitation.projectId, userId: ctx.user.id },
+            },
+            create: {
+              projectId: invitation.projectId,
+              userId: ctx.user.id,
+              role: invitation.role,
+            },
+            update: {
+              role: invitation.role,
+            },
+          })
+        }
+
+        await tx.projectInvitation.delete({
+          where: { id: invitation.id },
+        })
+      })
+
+      return { success: true, projectId: invitation.projectId }
+    }),
+})
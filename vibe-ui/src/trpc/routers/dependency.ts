@@ -0,0 +1,71 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { ProjectRole } from '@/generated/prisma'
+import { FileConflictError } from '@/lib/file-conflicts'
+import { DependencyError, PACKAGE_NAME_PATTERN, projectDependencyService } from '@/lib/project-dependencies'
+
+const dependencyTypeSchema = z.enum(['dependencies', 'devDependencies'])
+
+export const dependencyRouter = createTRPCRouter({
+  // Packages in package.json plus conflicts with the sandbox's pinned versions
+  getDependencies: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      try {
+        return await projectDependencyService.getDependencies(input.projectId)
+      } catch (error) {
+        if (error instanceof DependencyError) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+          })
+        }
+        throw error
+      }
+    }),
+
+  // Add, upgrade (add with a new version) or remove packages in one package.json edit
+  updateDependencies: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      changes: z.array(z.object({
+        action: z.enum(['add', 'remove']),
+        name: z.string().trim().min(1).max(214).regex(PACKAGE_NAME_PATTERN, 'Invalid package name'),
+        version: z.string().trim().max(100).optional(),
+        type: dependencyTypeSchema.optional(),
+      })).min(1).max(50),
+      expectedVersion: z.number().int(), // package.json version the change was based on
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      try {
+        return await projectDependencyService.updateDependencies({
+          projectId: input.projectId,
+          userId: ctx.user.id,
+          changes: input.changes,
+          expectedVersion: input.expectedVersion,
+        })
+      } catch (error) {
+        if (error instanceof FileConflictError) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: error.message,
+            cause: error,
+          })
+        }
+        if (error instanceof DependencyError) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error.message,
+          })
+        }
+        throw error
+      }
+    }),
+})
@@ -1,6 +1,8 @@
 import { z } from 'zod'
-import { createTRPCRouter, protectedProcedure } from '@/trpc/innit'
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '@/trpc/innit'
 import { TRPCError } from '@trpc/server'
+import { ProjectRole } from '@/generated/prisma'
+import { projectAccessWhere } from '@/lib/project-access'
 import { deploymentService } from '@/lib/deployment-service'
 
 export const deploymentRouter = createTRPCRouter({
@@ -9,13 +11,15 @@ export const deploymentRouter = createTRPCRouter({
     .input(z.object({
       projectId: z.string(),
       customDomain: z.string().optional(),
+      target: z.enum(['PREVIEW', 'PRODUCTION']).default('PRODUCTION'), // which env var scope the build gets
     }))
     .mutation(async ({ ctx, input }) => {
-      // Verify user owns the project
+      // Verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           files: true,
@@ -40,7 +44,8 @@ export const deploymentRouter = createTRPCRouter({
         const deployment = await deploymentService.deployProject(
           input.projectId,
           ctx.user.id,
-          input.customDomain
+          input.customDomain,
+          input.target
         )
 
         return deployment
@@ -58,25 +63,13 @@ export const deploymentRouter = createTRPCRouter({
       projectId: z.string(),
     }))
     .query(async ({ ctx, input }) => {
-      // Verify user owns the project
-      const project = await ctx.db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      })
-
-      if (!project) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Project not found',
-        })
-      }
+      // Verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
 
+      // Deployments by every collaborator
       const deployments = await ctx.db.deployment.findMany({
         where: {
           projectId: input.projectId,
-          userId: ctx.user.id,
         },
         orderBy: {
           createdAt: 'desc',
@@ -122,11 +115,11 @@ export const deploymentRouter = createTRPCRouter({
       deploymentId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
-      // Verify user owns the deployment
+      // Verify user can edit the deployment's project
       const deployment = await ctx.db.deployment.findFirst({
         where: {
           id: input.deploymentId,
-          userId: ctx.user.id,
+          project: projectAccessWhere(ctx.user.id),
         },
       })
 
@@ -137,6 +130,8 @@ export const deploymentRouter = createTRPCRouter({
         })
       }
 
+      await requireProjectRole(ctx.user.id, deployment.projectId, ProjectRole.EDITOR)
+
       if (!deploymentService.isConfigured()) {
         throw new TRPCError({
           code: 'PRECONDITION_FAILED',
@@ -161,11 +156,11 @@ export const deploymentRouter = createTRPCRouter({
       deploymentId: z.string(),
     }))
     .query(async ({ ctx, input }) => {
-      // Verify user owns the deployment
+      // Verify user can view the deployment's project
       const deployment = await ctx.db.deployment.findFirst({
         where: {
           id: input.deploymentId,
-          userId: ctx.user.id,
+          project: projectAccessWhere(ctx.user.id),
         },
       })
 
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { ProjectRole } from '@/generated/prisma'
+import { DiagnosticsTimeoutError, projectDiagnosticsService } from '@/lib/project-diagnostics'
+
+export const diagnosticsRouter = createTRPCRouter({
+  // TypeScript errors in the saved project files, checked on the server
+  getDiagnostics: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      try {
+        return await projectDiagnosticsService.getDiagnostics(input.projectId)
+      } catch (error) {
+        if (error instanceof DiagnosticsTimeoutError) {
+          throw new TRPCError({
+            code: 'TIMEOUT',
+            message: error.message,
+          })
+        }
+        throw error
+      }
+    }),
+})
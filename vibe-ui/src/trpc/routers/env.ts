@@ -0,0 +1,83 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { EnvVarScope, ProjectRole } from '@/generated/prisma'
+import { ENV_KEY_PATTERN, ProjectEnvError, projectEnvService } from '@/lib/project-env'
+
+// Missing encryption key, bad names and undecryptable values
+function toTRPCError(error: unknown): never {
+  if (error instanceof ProjectEnvError) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: error.message,
+    })
+  }
+  throw error
+}
+
+// Values are only readable by editors; viewers never see them
+export const envRouter = createTRPCRouter({
+  listEnvVars: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      return projectEnvService.listVariables(input.projectId).catch(toTRPCError)
+    }),
+
+  // Create or replace the value of a key in one scope
+  setEnvVar: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      key: z.string().trim().min(1).max(128).regex(ENV_KEY_PATTERN, 'Use letters, digits and underscores, not starting with a digit'),
+      value: z.string().max(10000).refine(value => !/[\r\n]/.test(value), 'Values must be on a single line'),
+      scope: z.nativeEnum(EnvVarScope),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      return projectEnvService.setVariable(input.projectId, input.key, input.value, input.scope).catch(toTRPCError)
+    }),
+
+  deleteEnvVar: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      variableId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const deleted = await projectEnvService.deleteVariable(input.projectId, input.variableId)
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Environment variable not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  revealEnvVar: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      variableId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const value = await projectEnvService.revealVariable(input.projectId, input.variableId).catch(toTRPCError)
+
+      if (value === null) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Environment variable not found',
+        })
+      }
+
+      return { value }
+    }),
+})
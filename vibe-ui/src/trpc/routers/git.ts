@@ -0,0 +1,57 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { gitAccessTokenService } from '@/lib/git-repository'
+
+export const gitRouter = createTRPCRouter({
+  // List the caller's git access tokens (the token values are never returned again)
+  listAccessTokens: protectedProcedure
+    .query(async ({ ctx }) => {
+      return ctx.db.gitAccessToken.findMany({
+        where: { userId: ctx.user.id },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          name: true,
+          lastUsedAt: true,
+          createdAt: true,
+        },
+      })
+    }),
+
+  // Create a token to use as the password for git clone/pull/push
+  createAccessToken: protectedProcedure
+    .input(z.object({
+      name: z.string().min(1).max(100),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return gitAccessTokenService.createToken(ctx.user.id, input.name)
+    }),
+
+  // Revoke a token
+  revokeAccessToken: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const token = await ctx.db.gitAccessToken.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.user.id,
+        },
+      })
+
+      if (!token) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Token not found',
+        })
+      }
+
+      await ctx.db.gitAccessToken.delete({
+        where: { id: input.id },
+      })
+
+      return { success: true }
+    }),
+})
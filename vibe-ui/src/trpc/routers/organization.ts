@@ -0,0 +1,259 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireOrganizationRole, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { OrganizationRole, ProjectRole } from '@/generated/prisma'
+import { slugify } from '@/lib/utils'
+
+// Roles that can be given to other members; each workspace has one owner
+const memberRoleSchema = z.enum([OrganizationRole.ADMIN, OrganizationRole.MEMBER])
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  username: true,
+  email: true,
+  avatar: true,
+} as const
+
+export const organizationRouter = createTRPCRouter({
+  // Workspaces the user belongs to, with their role in each
+  listMyOrganizations: protectedProcedure
+    .query(async ({ ctx }) => {
+      const memberships = await ctx.db.organizationMember.findMany({
+        where: { userId: ctx.user.id },
+        orderBy: { createdAt: 'asc' },
+        include: {
+          organization: {
+            include: {
+              _count: {
+                select: {
+                  members: true,
+                  projects: true,
+                },
+              },
+            },
+          },
+        },
+      })
+
+      return memberships.map(({ organization, role }) => ({ ...organization, role }))
+    }),
+
+  createOrganization: protectedProcedure
+    .input(z.object({
+      name: z.string().trim().min(1).max(60),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // Keep slugs unique with a short suffix when the name is taken
+      const baseSlug = slugify(input.name, 'workspace')
+      const taken = await ctx.db.organization.findUnique({ where: { slug: baseSlug } })
+      const slug = taken ? `${baseSlug}-${Math.random().toString(36).slice(2, 8)}` : baseSlug
+
+      return ctx.db.organization.create({
+        data: {
+          name: input.name,
+          slug,
+          members: {
+            create: {
+              userId: ctx.user.id,
+              role: OrganizationRole.OWNER,
+            },
+          },
+        },
+      })
+    }),
+
+  getOrganization: protectedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const role = await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.MEMBER)
+
+      const organization = await ctx.db.organization.findUnique({
+        where: { id: input.organizationId },
+        include: {
+          members: {
+            orderBy: { createdAt: 'asc' },
+            include: { user: { select: userSummarySelect } },
+          },
+          _count: {
+            select: { projects: true },
+          },
+        },
+      })
+
+      if (!organization) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Workspace not found',
+        })
+      }
+
+      return { ...organization, role }
+    }),
+
+  renameOrganization: protectedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      name: z.string().trim().min(1).max(60),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.ADMIN)
+
+      return ctx.db.organization.update({
+        where: { id: input.organizationId },
+        data: { name: input.name },
+      })
+    }),
+
+  // Add an existing user by username or email
+  addMember: protectedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      usernameOrEmail: z.string().trim().min(1).max(254),
+      role: memberRoleSchema.default(OrganizationRole.MEMBER),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const callerRole = await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.ADMIN)
+
+      if (input.role === OrganizationRole.ADMIN && callerRole !== OrganizationRole.OWNER) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only the workspace owner can add admins',
+        })
+      }
+
+      const user = await ctx.db.user.findFirst({
+        where: input.usernameOrEmail.includes('@')
+          ? { email: { equals: input.usernameOrEmail, mode: 'insensitive' } }
+          : { username: input.usernameOrEmail },
+        select: { id: true },
+      })
+
+      if (!user) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `No user found for ${input.usernameOrEmail}`,
+        })
+      }
+
+      const existing = await ctx.db.organizationMember.findUnique({
+        where: {
+          organizationId_userId: { organizationId: input.organizationId, userId: user.id },
+        },
+      })
+
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'This user is already in the workspace',
+        })
+      }
+
+      return ctx.db.organizationMember.create({
+        data: {
+          organizationId: input.organizationId,
+          userId: user.id,
+          role: input.role,
+        },
+        include: { user: { select: userSummarySelect } },
+      })
+    }),
+
+  // Only the owner promotes or demotes admins; the owner's own role is fixed
+  updateMemberRole: protectedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      userId: z.string(),
+      role: memberRoleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.OWNER)
+
+      const { count } = await ctx.db.organizationMember.updateMany({
+        where: {
+          organizationId: input.organizationId,
+          userId: input.userId,
+          role: { not: OrganizationRole.OWNER },
+        },
+        data: {
+          role: input.role,
+        },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Member not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  // Admins remove members, the owner removes anyone, and anyone but the owner can leave
+  removeMember: protectedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      userId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const isLeaving = input.userId === ctx.user.id
+      const callerRole = await requireOrganizationRole(
+        ctx.user.id,
+        input.organizationId,
+        isLeaving ? OrganizationRole.MEMBER : OrganizationRole.ADMIN
+      )
+
+      const removable = isLeaving || callerRole === OrganizationRole.OWNER
+        ? [OrganizationRole.ADMIN, OrganizationRole.MEMBER]
+        : [OrganizationRole.MEMBER]
+
+      const { count } = await ctx.db.organizationMember.deleteMany({
+        where: {
+          organizationId: input.organizationId,
+          userId: input.userId,
+          role: { in: removable },
+        },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: isLeaving ? 'BAD_REQUEST' : 'NOT_FOUND',
+          message: isLeaving ? 'The owner cannot leave their own workspace' : 'Member not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  // Move a project into a team workspace, or back to personal with organizationId null
+  moveProject: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      organizationId: z.string().nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.OWNER)
+
+      // Taking a project away from a team is up to that team's admins
+      const project = await ctx.db.project.findUniqueOrThrow({
+        where: { id: input.projectId },
+        select: { organizationId: true },
+      })
+      if (project.organizationId && project.organizationId !== input.organizationId) {
+        await requireOrganizationRole(ctx.user.id, project.organizationId, OrganizationRole.ADMIN)
+      }
+
+      if (input.organizationId) {
+        await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.MEMBER)
+      }
+
+      return ctx.db.project.update({
+        where: { id: input.projectId },
+        data: { organizationId: input.organizationId },
+        select: { id: true, organizationId: true },
+      })
+    }),
+})
@@ -1,11 +1,27 @@
 import { z } from 'zod'
-import { createTRPCRouter, publicProcedure, protectedProcedure } from '@/trpc/innit'
+import { createTRPCRouter, publicProcedure, protectedProcedure, requireProjectRole, requireSandboxRole, requireOrganizationRole } from '@/trpc/innit'
 import { TRPCError } from '@trpc/server'
 import { aiProcessor } from '@/lib/ai-processor'
 import { customSandboxService } from '../../lib/custom-sandbox'
 import { generateDeterministicProjectSkeleton, getLanguageFromPath, createFallbackFileContent } from '@/lib/deterministic-skeleton'
-import { join, dirname } from 'path'
-import { writeFile, mkdir } from 'fs/promises'
+import { fileRevisionService } from '@/lib/file-revisions'
+import { diffText } from '@/lib/text-diff'
+import { projectCheckpointService } from '@/lib/project-checkpoints'
+import { gitRepositoryService } from '@/lib/git-repository'
+import { compileSearchPattern } from '@/lib/project-search'
+import { SearchTimeoutError, projectSearchService } from '@/lib/project-search-service'
+import { ASSET_CONTENT_OMIT, isAssetPath, toSandboxFiles } from '@/lib/project-assets'
+import { FileConflictError, updateFileAtVersion } from '@/lib/file-conflicts'
+import { projectAccessWhere, workspaceProjectsWhere } from '@/lib/project-access'
+import { realtimeHub } from '@/lib/realtime-hub'
+import { projectTemplateService, templateAccessWhere, type TemplateCustomizationChange } from '@/lib/project-templates'
+import { projectTrashService, trashPurgeDate } from '@/lib/project-trash'
+import { PRETTIER_CONFIG_FILES, fixLintProblems, formatContent, getPrettierOptions, lintFiles } from '@/lib/project-lint'
+import { generationProgressService } from '@/lib/generation-progress'
+import { AI_MODELS_OMIT, LLM_TASKS, getConfiguredProviders, getDefaultModelSpec, getProjectModelSettings, modelSettingsSchema } from '@/lib/llm-providers'
+import { db } from '@/lib/db'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
 
 // Helper function to clean markdown contamination
 function cleanMarkdownContamination(content: string, filePath: string): string {
@@ -121,7 +137,7 @@ function cleanMarkdownContamination(content: string, filePath: string): string {
 
 
 
-import { ProjectStatus, SandboxStatus, SandboxType } from '@/generated/prisma'
+import { OrganizationRole, ProjectRole, ProjectStatus, SandboxStatus, SandboxType } from '@/generated/prisma'
 import { v4 as uuidv4 } from 'uuid'
 
 // Type definitions for AI analysis and project creation
@@ -168,23 +184,90 @@ interface ProjectWithCounts {
   }
 }
 
+// Trashed projects are invisible to requireProjectRole, so check ownership directly
+async function requireTrashedProjectOwner(userId: string, projectId: string) {
+  const project = await db.project.findFirst({
+    where: {
+      ...projectAccessWhere(userId, ProjectRole.OWNER),
+      id: projectId,
+      deletedAt: { not: null },
+    },
+    select: { id: true },
+  })
+
+  if (!project) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Project not found in the trash',
+    })
+  }
+}
+
+// Versioned file write that surfaces stale writes as CONFLICT with the current
+// file attached (exposed to clients as error.data.conflict)
+async function updateFileOrConflict(...args: Parameters<typeof updateFileAtVersion>) {
+  try {
+    const file = await updateFileAtVersion(...args)
+    if (!file) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'File not found',
+      })
+    }
+    return file
+  } catch (error) {
+    if (error instanceof FileConflictError) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: error.message,
+        cause: error,
+      })
+    }
+    throw error
+  }
+}
+
+// Patterns that backtrack for too long come back as TIMEOUT, not a server error
+function rethrowSearchTimeout(error: unknown): never {
+  if (error instanceof SearchTimeoutError) {
+    throw new TRPCError({ code: 'TIMEOUT', message: error.message })
+  }
+  throw error
+}
+
+// Shared by searchProjectFiles and replaceInProjectFiles so both match the same text
+const searchInputSchema = z.object({
+  projectId: z.string(),
+  query: z.string().min(1).max(500),
+  isRegex: z.boolean().default(false),
+  caseSensitive: z.boolean().default(false),
+  wholeWord: z.boolean().default(false),
+  include: z.array(z.string()).default([]),
+  exclude: z.array(z.string()).default([]),
+})
+
 export const projectRouter = createTRPCRouter({
   // Get user projects
   getUserProjects: protectedProcedure
     .input(z.object({
       limit: z.number().min(1).max(100).default(10),
       cursor: z.string().optional(),
+      organizationId: z.string().nullish(), // Team workspace; personal projects when omitted
     }))
     .query(async ({ ctx, input }) => {
+      if (input.organizationId) {
+        await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.MEMBER)
+      }
+
+      // The workspace's projects, including ones shared with the user
       const projects = await ctx.db.project.findMany({
-        where: {
-          userId: ctx.user.id,
-        },
+        where: workspaceProjectsWhere(ctx.user.id, input.organizationId ?? null),
         take: input.limit,
         cursor: input.cursor ? { id: input.cursor } : undefined,
         orderBy: {
           updatedAt: 'desc',
         },
+        omit: AI_MODELS_OMIT,
         include: {
           deployments: {
             select: {
@@ -210,10 +293,17 @@ export const projectRouter = createTRPCRouter({
             },
             take: 1,
           },
+          forkedFrom: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           _count: {
             select: {
               files: true,
               chatSessions: true,
+              forks: true,
             },
           },
         },
@@ -228,16 +318,18 @@ export const projectRouter = createTRPCRouter({
       id: z.string(),
     }))
     .query(async ({ ctx, input }) => {
+      const role = await requireProjectRole(ctx.user.id, input.id, ProjectRole.VIEWER)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.id,
-          userId: ctx.user.id,
         },
         include: {
           files: {
             orderBy: {
               path: 'asc',
             },
+            omit: ASSET_CONTENT_OMIT,
           },
           deployments: {
             orderBy: {
@@ -275,7 +367,8 @@ export const projectRouter = createTRPCRouter({
         })
       }
 
-      return project
+      // The caller's role, so the UI can hide what they aren't allowed to do
+      return { ...project, role }
     }),
 
   // Create custom Docker sandbox for project
@@ -284,10 +377,11 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           files: true,
@@ -346,10 +440,7 @@ export const projectRouter = createTRPCRouter({
           projectId: project.id,
           framework: project.framework || 'nextjs',
           port: 0, // Will be assigned by service
-          files: project.files.reduce((acc, file) => {
-            acc[file.path] = file.content;
-            return acc;
-          }, {} as Record<string, string>),
+          ...toSandboxFiles(project.files),
           environment: {}
         })
 
@@ -413,7 +504,9 @@ export const projectRouter = createTRPCRouter({
     .input(z.object({
       sandboxId: z.string(),
     }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await requireSandboxRole(ctx.user.id, input.sandboxId, ProjectRole.VIEWER)
+
       const sandbox = await customSandboxService.getSandboxStatus(input.sandboxId)
       
       if (!sandbox) {
@@ -432,6 +525,8 @@ export const projectRouter = createTRPCRouter({
       sandboxId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireSandboxRole(ctx.user.id, input.sandboxId, ProjectRole.EDITOR)
+
       try {
         await customSandboxService.stopSandbox(input.sandboxId)
         
@@ -459,6 +554,8 @@ export const projectRouter = createTRPCRouter({
       port: z.number().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireSandboxRole(ctx.user.id, input.sandboxId, ProjectRole.EDITOR)
+
       try {
         await ctx.db.sandbox.update({
           where: { id: input.sandboxId },
@@ -484,10 +581,11 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           files: true,
@@ -521,10 +619,11 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           files: true,
@@ -555,10 +654,7 @@ export const projectRouter = createTRPCRouter({
           projectId: project.id,
           framework: project.framework || 'nextjs',
           port: 0, // Will be assigned by service
-          files: project.files.reduce((acc, file) => {
-            acc[file.path] = file.content;
-            return acc;
-          }, {} as Record<string, string>),
+          ...toSandboxFiles(project.files),
           environment: {}
         })
 
@@ -591,7 +687,9 @@ export const projectRouter = createTRPCRouter({
     .input(z.object({
       sandboxId: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireSandboxRole(ctx.user.id, input.sandboxId, ProjectRole.EDITOR)
+
       try {
         const success = await customSandboxService.restartSandbox(input.sandboxId)
         return { success }
@@ -608,8 +706,13 @@ export const projectRouter = createTRPCRouter({
     .input(z.object({
       prompt: z.string().min(10).max(1000),
       createSandbox: z.boolean().default(true),
+      organizationId: z.string().optional(), // Create in a team workspace
     }))
     .mutation(async ({ ctx, input }) => {
+      if (input.organizationId) {
+        await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.MEMBER)
+      }
+
       let project: ProjectWithCounts | null = null;
       let analysis: AIAnalysis | null = null;
       let projectFiles: ProjectFile[] = [];
@@ -659,6 +762,8 @@ export const projectRouter = createTRPCRouter({
         const existingProject = await ctx.db.project.findFirst({
           where: {
             userId: ctx.user.id,
+            organizationId: input.organizationId ?? null,
+            deletedAt: null, // a trashed project can't be opened, so it is no duplicate
             OR: [
               { name: analysis.projectName },
               { initialPrompt: input.prompt },
@@ -744,6 +849,7 @@ export const projectRouter = createTRPCRouter({
             initialPrompt: input.prompt,
             template: analysis.projectType,
             userId: ctx.user.id,
+            organizationId: input.organizationId,
             status: ProjectStatus.BUILDING, // Set to building since we're processing
           },
           include: {
@@ -761,6 +867,14 @@ export const projectRouter = createTRPCRouter({
           throw new Error('Failed to create project');
         }
 
+        await projectCheckpointService.safeCaptureCheckpoint({
+          projectId: project.id,
+          label: 'Before AI generation',
+          source: 'project.createProjectWithAI',
+          phase: 'BEFORE',
+          userId: ctx.user.id,
+        });
+
         // Step 3: Generate complete project structure (optimized for essential files only)
         let fileStructure: string[] = [];
         try {
@@ -811,12 +925,26 @@ export const projectRouter = createTRPCRouter({
           ];
         }
         
-        // Step 4: Generate all project files with AI
+        // Step 4: Generate all project files with AI, reporting each one to the progress feed
+        const runId = `inline-${randomUUID()}`;
+        await generationProgressService.safeRecordEvents(
+          project.id,
+          runId,
+          fileStructure.map(path => ({ path, status: 'QUEUED' as const }))
+        );
+
         projectFiles = await Promise.all(
           fileStructure.map(async (filePath) => {
+            const startedAt = Date.now();
+            await generationProgressService.safeRecordEvents(project!.id, runId, [{ path: filePath, status: 'STARTED' }]);
             try {
               // @ts-expect-error - AI processor has complex parameter type
               const content = await aiProcessor.generateFileContent(filePath, analysis);
+              await generationProgressService.safeRecordEvents(project!.id, runId, [{
+                path: filePath,
+                status: 'GENERATED',
+                durationMs: Date.now() - startedAt,
+              }]);
               return {
                 filename: filePath.split('/').pop() || 'file',
                 path: filePath,
@@ -826,6 +954,12 @@ export const projectRouter = createTRPCRouter({
               };
             } catch (error) {
               console.error(`Failed to generate content for ${filePath}:`, error);
+              await generationProgressService.safeRecordEvents(project!.id, runId, [{
+                path: filePath,
+                status: 'FAILED',
+                durationMs: Date.now() - startedAt,
+                error: error instanceof Error ? error.message : 'Unknown error',
+              }]);
               // Create a basic file content as fallback
               const fallbackContent = createFallbackFileContent(filePath, analysis!);
               return {
@@ -850,12 +984,35 @@ export const projectRouter = createTRPCRouter({
           const batchSize = 10;
           for (let i = 0; i < cleanedProjectFiles.length; i += batchSize) {
             const batch = cleanedProjectFiles.slice(i, i + batchSize);
-            await ctx.db.projectFile.createMany({
+            const createdFiles = await ctx.db.projectFile.createManyAndReturn({
               data: batch,
             });
+
+            await fileRevisionService.recordInitialRevisions(createdFiles.map(file => ({
+              fileId: file.id,
+              projectId: file.projectId,
+              path: file.path,
+              content: file.content,
+              author: 'AI' as const,
+              source: 'project.createProjectWithAI',
+              userId: ctx.user.id,
+            })));
           }
         }
 
+        await projectCheckpointService.safeCaptureCheckpoint({
+          projectId: project.id,
+          label: 'After AI generation',
+          source: 'project.createProjectWithAI',
+          phase: 'AFTER',
+          userId: ctx.user.id,
+        });
+        await gitRepositoryService.safeCommitProjectState(
+          project.id,
+          `AI: generate ${analysis.projectName}\n\nPrompt: ${input.prompt}`,
+          { author: 'AI' }
+        );
+
         // Step 6: Update project status to READY
         await ctx.db.project.update({
           where: { id: project.id },
@@ -910,7 +1067,7 @@ export const projectRouter = createTRPCRouter({
         // call fails (mirrors Lovable's guarantee).
         // ------------------------------------------------------------------
 
-        return await generateDeterministicProjectSkeleton(ctx, input.prompt);
+        return await generateDeterministicProjectSkeleton(ctx, input.prompt, input.organizationId);
       }
     }),
 
@@ -924,8 +1081,13 @@ export const projectRouter = createTRPCRouter({
       initialPrompt: z.string().optional(),
       screenshots: z.array(z.string()).optional(),
       template: z.string().optional(),
+      organizationId: z.string().optional(), // Create in a team workspace
     }))
     .mutation(async ({ ctx, input }) => {
+      if (input.organizationId) {
+        await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.MEMBER)
+      }
+
       const project = await ctx.db.project.create({
         data: {
           name: input.name,
@@ -936,6 +1098,7 @@ export const projectRouter = createTRPCRouter({
           screenshots: input.screenshots || [],
           template: input.template,
           userId: ctx.user.id,
+          organizationId: input.organizationId,
         },
         include: {
           _count: {
@@ -960,14 +1123,17 @@ export const projectRouter = createTRPCRouter({
       framework: z.string().optional(),
       styling: z.string().optional(),
       database: z.string().optional(),
+      formatOnSave: z.boolean().optional(),
+      aiModels: modelSettingsSchema.optional(), // replaces all overrides; {} goes back to the defaults
     }))
     .mutation(async ({ ctx, input }) => {
       const { id, ...updateData } = input
 
+      await requireProjectRole(ctx.user.id, id, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id,
-          userId: ctx.user.id,
         },
       })
 
@@ -981,6 +1147,7 @@ export const projectRouter = createTRPCRouter({
       const updatedProject = await ctx.db.project.update({
         where: { id },
         data: updateData,
+        omit: AI_MODELS_OMIT,
         include: {
           _count: {
             select: {
@@ -994,31 +1161,328 @@ export const projectRouter = createTRPCRouter({
       return updatedProject
     }),
 
+  // The model each AI task uses for the project, and where it comes from
+  getAIModelSettings: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const project = await ctx.db.project.findUnique({
+        where: { id: input.projectId },
+        select: { aiModels: true },
+      })
+      const overrides = getProjectModelSettings(project?.aiModels)
+
+      return {
+        tasks: LLM_TASKS.map(task => ({
+          task,
+          defaultModel: getDefaultModelSpec(task),
+          override: overrides[task] ?? null,
+        })),
+        configuredProviders: getConfiguredProviders(),
+      }
+    }),
+
   // Delete project
+  // Move a project to the trash; it is purged after the retention window
   deleteProject: protectedProcedure
     .input(z.object({
       id: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const project = await ctx.db.project.findFirst({
+      await requireProjectRole(ctx.user.id, input.id, ProjectRole.OWNER)
+
+      const project = await projectTrashService.moveToTrash(input.id)
+
+      return {
+        success: true,
+        purgeAt: trashPurgeDate(project.deletedAt!),
+      }
+    }),
+
+  // Trashed projects the user owns in a workspace (personal when organizationId is omitted)
+  getTrashedProjects: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().nullish(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const projects = await ctx.db.project.findMany({
         where: {
-          id: input.id,
-          userId: ctx.user.id,
+          ...projectAccessWhere(ctx.user.id, ProjectRole.OWNER),
+          organizationId: input.organizationId ?? null,
+          deletedAt: { not: null },
+        },
+        orderBy: {
+          deletedAt: 'desc',
+        },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          framework: true,
+          deletedAt: true,
+          _count: {
+            select: {
+              files: true,
+            },
+          },
         },
       })
 
-      if (!project) {
+      return projects.map(project => ({
+        ...project,
+        purgeAt: trashPurgeDate(project.deletedAt!),
+      }))
+    }),
+
+  restoreProject: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireTrashedProjectOwner(ctx.user.id, input.id)
+
+      await projectTrashService.restore(input.id)
+
+      return { success: true }
+    }),
+
+  // Skip the retention window; only for projects already in the trash
+  permanentlyDeleteProject: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireTrashedProjectOwner(ctx.user.id, input.id)
+
+      await projectTrashService.purgeProject(input.id)
+
+      return { success: true }
+    }),
+
+  // Fork a public project (or one you have access to) into a new project owned by the caller
+  forkProject: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      name: z.string().min(1).max(100).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const source = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+          OR: [
+            { isPublic: true, status: 'DEPLOYED', deletedAt: null },
+            projectAccessWhere(ctx.user.id),
+          ],
+        },
+        include: {
+          files: {
+            orderBy: { path: 'asc' },
+          },
+        },
+      })
+
+      if (!source) {
         throw new TRPCError({
           code: 'NOT_FOUND',
           message: 'Project not found',
         })
       }
 
-      await ctx.db.project.delete({
-        where: { id: input.id },
+      const fork = await ctx.db.$transaction(async (tx) => {
+        const project = await tx.project.create({
+          data: {
+            name: input.name || `${source.name} (fork)`,
+            description: source.description,
+            framework: source.framework,
+            styling: source.styling,
+            database: source.database,
+            template: source.template,
+            initialPrompt: source.initialPrompt,
+            screenshots: source.screenshots,
+            status: source.files.length > 0 ? ProjectStatus.READY : ProjectStatus.DRAFT,
+            forkedFromId: source.id,
+            userId: ctx.user.id,
+          },
+        })
+
+        if (source.files.length > 0) {
+          const copiedFiles = await tx.projectFile.createManyAndReturn({
+            data: source.files.map(file => ({
+              filename: file.filename,
+              path: file.path,
+              content: file.content,
+              language: file.language,
+              isBinary: file.isBinary,
+              mimeType: file.mimeType,
+              size: file.size,
+              binaryContent: file.binaryContent,
+              projectId: project.id,
+            })),
+            omit: ASSET_CONTENT_OMIT,
+          })
+
+          // Assets have no text history
+          await fileRevisionService.recordInitialRevisions(copiedFiles.filter(file => !file.isBinary).map(file => ({
+            fileId: file.id,
+            projectId: project.id,
+            path: file.path,
+            content: file.content,
+            author: 'SYSTEM' as const,
+            source: 'project.forkProject',
+            userId: ctx.user.id,
+          })), tx)
+        }
+
+        return tx.project.findUniqueOrThrow({
+          where: { id: project.id },
+          include: {
+            forkedFrom: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            _count: {
+              select: {
+                files: true,
+                chatSessions: true,
+              },
+            },
+          },
+        })
+      }, {
+        timeout: 30000,
+      })
+
+      await gitRepositoryService.safeCommitProjectState(fork.id, `Fork ${source.name}`, {
+        author: 'USER',
+        userId: ctx.user.id,
       })
 
-      return { success: true }
+      return fork
+    }),
+
+  // Start a project from a saved template, optionally adapted to a prompt by one AI pass
+  createProjectFromTemplate: protectedProcedure
+    .input(z.object({
+      templateId: z.string(),
+      name: z.string().min(1).max(100).optional(),
+      description: z.string().optional(),
+      organizationId: z.string().optional(), // team workspace to create the project in
+      customizationPrompt: z.string().min(10).max(2000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.organizationId) {
+        await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.MEMBER)
+      }
+
+      const template = await ctx.db.template.findFirst({
+        where: {
+          id: input.templateId,
+          ...templateAccessWhere(ctx.user.id),
+        },
+        include: {
+          files: {
+            orderBy: { path: 'asc' },
+          },
+        },
+      })
+
+      if (!template) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Template not found',
+        })
+      }
+
+      // Generate the customization before creating anything so the project,
+      // its template files and the customized files are written together.
+      // The project is usable even if generation fails, so report rather than throw
+      let customization: TemplateCustomizationChange[] = []
+      let customizationError: string | null = null
+      if (input.customizationPrompt) {
+        try {
+          customization = await projectTemplateService.generateCustomization(template.files, input.customizationPrompt)
+        } catch (error) {
+          console.error(`❌ Template customization failed for template ${template.id}:`, error)
+          customizationError = error instanceof Error ? error.message : 'Customization failed'
+        }
+      }
+
+      const { project, customizedPaths, skippedPaths } = await ctx.db.$transaction(async (tx) => {
+        const created = await tx.project.create({
+          data: {
+            name: input.name || template.name,
+            description: input.description || template.description,
+            framework: template.framework,
+            styling: template.styling,
+            template: template.slug,
+            templateId: template.id,
+            initialPrompt: input.customizationPrompt,
+            status: template.files.length > 0 ? ProjectStatus.READY : ProjectStatus.DRAFT,
+            userId: ctx.user.id,
+            organizationId: input.organizationId,
+          },
+          omit: AI_MODELS_OMIT,
+        })
+
+        if (template.files.length > 0) {
+          const copiedFiles = await tx.projectFile.createManyAndReturn({
+            data: template.files.map(file => ({
+              filename: file.path.split('/').pop() || file.path,
+              path: file.path,
+              content: file.content,
+              language: file.language,
+              isBinary: file.isBinary,
+              mimeType: file.mimeType,
+              size: file.size,
+              binaryContent: file.binaryContent,
+              projectId: created.id,
+            })),
+            omit: ASSET_CONTENT_OMIT,
+          })
+
+          // Assets have no text history
+          await fileRevisionService.recordInitialRevisions(copiedFiles.filter(file => !file.isBinary).map(file => ({
+            fileId: file.id,
+            projectId: created.id,
+            path: file.path,
+            content: file.content,
+            author: 'SYSTEM' as const,
+            source: 'project.createProjectFromTemplate',
+            userId: ctx.user.id,
+          })), tx)
+        }
+
+        const applied = await projectTemplateService.applyCustomization(created.id, ctx.user.id, customization, tx)
+
+        await tx.template.update({
+          where: { id: template.id },
+          data: { useCount: { increment: 1 } },
+        })
+
+        return { project: created, ...applied }
+      }, {
+        timeout: 30000,
+      })
+
+      await gitRepositoryService.safeCommitProjectState(project.id, `Create from template ${template.name}`, {
+        author: 'USER',
+        userId: ctx.user.id,
+      })
+
+      if (skippedPaths.length > 0 && !customizationError) {
+        customizationError = `Skipped changes to binary assets: ${skippedPaths.join(', ')}`
+      }
+
+      return {
+        ...project,
+        customizedPaths,
+        customizationError,
+      }
     }),
 
   // Get public projects (for inspiration/templates)
@@ -1032,6 +1496,7 @@ export const projectRouter = createTRPCRouter({
         where: {
           isPublic: true,
           status: 'DEPLOYED',
+          deletedAt: null,
         },
         take: input.limit,
         cursor: input.cursor ? { id: input.cursor } : undefined,
@@ -1056,9 +1521,16 @@ export const projectRouter = createTRPCRouter({
             },
             take: 1,
           },
+          forkedFrom: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           _count: {
             select: {
               files: true,
+              forks: true,
             },
           },
         },
@@ -1073,11 +1545,12 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
     }))
     .query(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
       })
 
@@ -1095,6 +1568,7 @@ export const projectRouter = createTRPCRouter({
         orderBy: [
           { path: 'asc' },
         ],
+        omit: ASSET_CONTENT_OMIT,
       })
 
       return files
@@ -1105,13 +1579,15 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
       fileId: z.string(),
       content: z.string(),
+      expectedVersion: z.number().int(), // version the client last read; stale writes get CONFLICT
     }))
     .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
       })
 
@@ -1137,20 +1613,43 @@ export const projectRouter = createTRPCRouter({
         })
       }
 
+      if (file.isBinary) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Binary assets cannot be edited as text',
+        })
+      }
+
       // Clean markdown contamination before saving
-      const cleanedContent = cleanMarkdownContamination(input.content, file.path);
+      let cleanedContent = cleanMarkdownContamination(input.content, file.path);
 
-      // Update the file
-      const updatedFile = await ctx.db.projectFile.update({
-        where: {
-          id: input.fileId,
-        },
-        data: {
-          content: cleanedContent,
-          updatedAt: new Date(),
-        },
+      // Files Prettier can't parse are saved as typed
+      if (project.formatOnSave) {
+        const prettierConfigFiles = await ctx.db.projectFile.findMany({
+          where: {
+            projectId: input.projectId,
+            path: { in: PRETTIER_CONFIG_FILES },
+          },
+          select: { path: true, content: true },
+        })
+        cleanedContent = await formatContent(file.path, cleanedContent, getPrettierOptions(prettierConfigFiles)) ?? cleanedContent
+      }
+
+      // Update the file unless someone else wrote it since the client loaded it
+      const updatedFile = await updateFileOrConflict(input.fileId, input.expectedVersion, {
+        content: cleanedContent,
       })
 
+      await fileRevisionService.recordRevision({
+        fileId: updatedFile.id,
+        projectId: input.projectId,
+        path: updatedFile.path,
+        content: updatedFile.content,
+        author: 'USER',
+        source: 'project.updateProjectFile',
+        userId: ctx.user.id,
+      }, { path: file.path, content: file.content })
+
       // Update project's updatedAt timestamp
       await ctx.db.project.update({
         where: {
@@ -1161,6 +1660,19 @@ export const projectRouter = createTRPCRouter({
         },
       })
 
+      await gitRepositoryService.safeCommitProjectState(input.projectId, `Update ${updatedFile.path}`, {
+        author: 'USER',
+        userId: ctx.user.id,
+        paths: [updatedFile.path],
+      })
+
+      realtimeHub.publishFileEvent(input.projectId, {
+        type: 'file-updated',
+        fileId: updatedFile.id,
+        path: updatedFile.path,
+        version: updatedFile.version,
+      }, updatedFile.content)
+
       return updatedFile
     }),
 
@@ -1171,11 +1683,12 @@ export const projectRouter = createTRPCRouter({
       content: z.string().default(''),
     }))
     .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
       })
 
@@ -1216,6 +1729,379 @@ export const projectRouter = createTRPCRouter({
         },
       })
 
+      await fileRevisionService.recordRevision({
+        fileId: newFile.id,
+        projectId: input.projectId,
+        path: newFile.path,
+        content: newFile.content,
+        author: 'USER',
+        source: 'project.createProjectFile',
+        userId: ctx.user.id,
+      })
+
+      // Update project's updatedAt timestamp
+      await ctx.db.project.update({
+        where: {
+          id: input.projectId,
+        },
+        data: {
+          updatedAt: new Date(),
+        },
+      })
+
+      await gitRepositoryService.safeCommitProjectState(input.projectId, `Create ${newFile.path}`, {
+        author: 'USER',
+        userId: ctx.user.id,
+        paths: [newFile.path],
+      })
+
+      realtimeHub.publishFileEvent(input.projectId, { type: 'file-created', fileId: newFile.id, path: newFile.path })
+
+      return newFile
+    }),
+
+  deleteProjectFile: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      fileId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      // Verify file belongs to the project
+      const file = await ctx.db.projectFile.findFirst({
+        where: {
+          id: input.fileId,
+          projectId: input.projectId,
+        },
+      })
+
+      if (!file) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        })
+      }
+
+      // Delete the file
+      await ctx.db.projectFile.delete({
+        where: {
+          id: input.fileId,
+        },
+      })
+
+      // Update project's updatedAt timestamp
+      await ctx.db.project.update({
+        where: {
+          id: input.projectId,
+        },
+        data: {
+          updatedAt: new Date(),
+        },
+      })
+
+      await gitRepositoryService.safeCommitProjectState(input.projectId, `Delete ${file.path}`, {
+        author: 'USER',
+        userId: ctx.user.id,
+        paths: [file.path],
+      })
+
+      realtimeHub.publishFileEvent(input.projectId, { type: 'file-deleted', fileId: file.id, path: file.path })
+
+      return { success: true, deletedPath: file.path }
+    }),
+
+  renameProjectFile: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      fileId: z.string(),
+      newPath: z.string(),
+      expectedVersion: z.number().int(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      // Verify file belongs to the project
+      const file = await ctx.db.projectFile.findFirst({
+        where: {
+          id: input.fileId,
+          projectId: input.projectId,
+        },
+      })
+
+      if (!file) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        })
+      }
+
+      // Check if new path already exists
+      const existingFile = await ctx.db.projectFile.findFirst({
+        where: {
+          projectId: input.projectId,
+          path: input.newPath,
+        },
+      })
+
+      if (existingFile) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'File already exists at the new path',
+        })
+      }
+
+      // Update the file path and language
+      const updatedFile = await updateFileOrConflict(input.fileId, input.expectedVersion, {
+        path: input.newPath,
+        language: getLanguageFromPath(input.newPath),
+      })
+
+      await fileRevisionService.recordRevision({
+        fileId: updatedFile.id,
+        projectId: input.projectId,
+        path: updatedFile.path,
+        content: updatedFile.content,
+        author: 'USER',
+        source: 'project.renameProjectFile',
+        userId: ctx.user.id,
+      }, { path: file.path, content: file.content })
+
+      // Update project's updatedAt timestamp
+      await ctx.db.project.update({
+        where: {
+          id: input.projectId,
+        },
+        data: {
+          updatedAt: new Date(),
+        },
+      })
+
+      await gitRepositoryService.safeCommitProjectState(input.projectId, `Rename ${file.path} to ${updatedFile.path}`, {
+        author: 'USER',
+        userId: ctx.user.id,
+        paths: [file.path, updatedFile.path],
+      })
+
+      realtimeHub.publishFileEvent(input.projectId, {
+        type: 'file-renamed',
+        fileId: updatedFile.id,
+        path: updatedFile.path,
+        oldPath: file.path,
+      })
+
+      return updatedFile
+    }),
+
+  // File revision history
+  getFileRevisions: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      fileId: z.string(),
+      limit: z.number().min(1).max(200).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      // First verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      const file = await ctx.db.projectFile.findFirst({
+        where: {
+          id: input.fileId,
+          projectId: input.projectId,
+        },
+      })
+
+      if (!file) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        })
+      }
+
+      return fileRevisionService.listRevisions(file.id, input.limit)
+    }),
+
+  // Diff two revisions of a file (omit toRevisionId to compare with the current content)
+  diffFileRevisions: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      fileId: z.string(),
+      fromRevisionId: z.string(),
+      toRevisionId: z.string().optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      // First verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      const file = await ctx.db.projectFile.findFirst({
+        where: {
+          id: input.fileId,
+          projectId: input.projectId,
+        },
+      })
+
+      if (!file) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        })
+      }
+
+      const fromRevision = await fileRevisionService.getRevision(input.fromRevisionId, file.id)
+      const toRevision = input.toRevisionId
+        ? await fileRevisionService.getRevision(input.toRevisionId, file.id)
+        : null
+
+      if (!fromRevision || (input.toRevisionId && !toRevision)) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Revision not found',
+        })
+      }
+
+      const from = {
+        revisionId: fromRevision.id,
+        path: fromRevision.path,
+        content: fromRevision.content,
+        createdAt: fromRevision.createdAt,
+      }
+      const to = toRevision
+        ? {
+            revisionId: toRevision.id,
+            path: toRevision.path,
+            content: toRevision.content,
+            createdAt: toRevision.createdAt,
+          }
+        : {
+            revisionId: null,
+            path: file.path,
+            content: file.content,
+            createdAt: file.updatedAt,
+          }
+
+      return {
+        from,
+        to,
+        diff: diffText(from.content, to.content),
+      }
+    }),
+
+  // Restore a file to the content of an earlier revision
+  restoreFileRevision: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      fileId: z.string(),
+      revisionId: z.string(),
+      expectedVersion: z.number().int(), // version of the file the user compared against
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const project = await ctx.db.project.findFirst({
+        where: {
+          id: input.projectId,
+        },
+      })
+
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      const file = await ctx.db.projectFile.findFirst({
+        where: {
+          id: input.fileId,
+          projectId: input.projectId,
+        },
+      })
+
+      if (!file) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        })
+      }
+
+      const revision = await fileRevisionService.getRevision(input.revisionId, file.id)
+
+      if (!revision) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Revision not found',
+        })
+      }
+
+      const restoredFile = await updateFileOrConflict(file.id, input.expectedVersion, {
+        content: revision.content,
+      })
+
+      await fileRevisionService.recordRevision({
+        fileId: restoredFile.id,
+        projectId: input.projectId,
+        path: restoredFile.path,
+        content: restoredFile.content,
+        author: 'USER',
+        source: 'project.restoreFileRevision',
+        userId: ctx.user.id,
+      }, { path: file.path, content: file.content })
+
       // Update project's updatedAt timestamp
       await ctx.db.project.update({
         where: {
@@ -1226,20 +2112,34 @@ export const projectRouter = createTRPCRouter({
         },
       })
 
-      return newFile
+      await gitRepositoryService.safeCommitProjectState(
+        input.projectId,
+        `Restore ${restoredFile.path} to revision from ${revision.createdAt.toISOString()}`,
+        { author: 'USER', userId: ctx.user.id, paths: [restoredFile.path] }
+      )
+
+      realtimeHub.publishFileEvent(input.projectId, {
+        type: 'file-updated',
+        fileId: restoredFile.id,
+        path: restoredFile.path,
+        version: restoredFile.version,
+      }, restoredFile.content)
+
+      return restoredFile
     }),
 
-  deleteProjectFile: protectedProcedure
-    .input(z.object({
-      projectId: z.string(),
-      fileId: z.string(),
+  // Project-wide search
+  searchProjectFiles: protectedProcedure
+    .input(searchInputSchema.extend({
+      maxResults: z.number().min(1).max(5000).default(1000),
     }))
-    .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+    .query(async ({ ctx, input }) => {
+      // First verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
       })
 
@@ -1250,53 +2150,209 @@ export const projectRouter = createTRPCRouter({
         })
       }
 
-      // Verify file belongs to the project
-      const file = await ctx.db.projectFile.findFirst({
+      const files = await ctx.db.projectFile.findMany({
         where: {
-          id: input.fileId,
           projectId: input.projectId,
         },
+        select: {
+          id: true,
+          path: true,
+          content: true,
+        },
+        orderBy: {
+          path: 'asc',
+        },
       })
 
-      if (!file) {
+      try {
+        compileSearchPattern(input)
+      } catch (error) {
         throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'File not found',
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Invalid search pattern',
         })
       }
 
-      // Delete the file
-      await ctx.db.projectFile.delete({
+      return projectSearchService.search(files, input, input.maxResults).catch(rethrowSearchTimeout)
+    }),
+
+  // Project-wide replace, applied in one transaction and synced to the running sandbox
+  replaceInProjectFiles: protectedProcedure
+    .input(searchInputSchema.extend({
+      replacement: z.string(),
+      fileIds: z.array(z.string()).optional(), // limit the replace to these files
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const project = await ctx.db.project.findFirst({
         where: {
-          id: input.fileId,
+          id: input.projectId,
+        },
+        include: {
+          sandboxes: {
+            where: {
+              status: SandboxStatus.RUNNING,
+            },
+            take: 1,
+          },
         },
       })
 
-      // Update project's updatedAt timestamp
-      await ctx.db.project.update({
+      if (!project) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Project not found',
+        })
+      }
+
+      try {
+        compileSearchPattern(input)
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error instanceof Error ? error.message : 'Invalid search pattern',
+        })
+      }
+
+      const changedFiles = await ctx.db.$transaction(async (tx) => {
+        const files = await tx.projectFile.findMany({
+          where: {
+            projectId: input.projectId,
+            isBinary: false,
+            ...(input.fileIds ? { id: { in: input.fileIds } } : {}),
+          },
+          omit: { binaryContent: true },
+        })
+
+        const filesById = new Map(files.map(file => [file.id, file]))
+        const changed: { id: string; path: string; content: string; version: number; replacements: number }[] = []
+        for (const result of await projectSearchService.replace(files, input, input.replacement)) {
+          const file = filesById.get(result.id)!
+
+          const updated = await tx.projectFile.update({
+            where: { id: file.id },
+            data: {
+              content: result.content,
+              updatedAt: new Date(),
+              version: { increment: 1 },
+            },
+            select: { version: true },
+          })
+          await fileRevisionService.recordRevision({
+            fileId: file.id,
+            projectId: input.projectId,
+            path: file.path,
+            content: result.content,
+            author: 'USER',
+            source: 'project.replaceInProjectFiles',
+            userId: ctx.user.id,
+          }, { path: file.path, content: file.content }, tx)
+
+          changed.push({
+            id: file.id,
+            path: file.path,
+            content: result.content,
+            version: updated.version,
+            replacements: result.count,
+          })
+        }
+
+        if (changed.length > 0) {
+          await tx.project.update({
+            where: { id: input.projectId },
+            data: { updatedAt: new Date() },
+          })
+        }
+
+        return changed
+      }, {
+        timeout: 30000,
+      }).catch(rethrowSearchTimeout)
+
+      if (changedFiles.length > 0) {
+        await gitRepositoryService.safeCommitProjectState(
+          input.projectId,
+          `Replace "${input.query}" with "${input.replacement}" in ${changedFiles.length} files`,
+          { author: 'USER', userId: ctx.user.id, paths: changedFiles.map(file => file.path) }
+        )
+      }
+
+      for (const file of changedFiles) {
+        realtimeHub.publishFileEvent(input.projectId, {
+          type: 'file-updated',
+          fileId: file.id,
+          path: file.path,
+          version: file.version,
+        }, file.content)
+      }
+
+      // If there's a running sandbox, sync the changed files to it
+      let synced = false
+      if (project.sandboxes.length > 0 && changedFiles.length > 0) {
+        const sandbox = project.sandboxes[0]
+        try {
+          await customSandboxService.syncFilesToSandbox(sandbox.id, changedFiles)
+          synced = true
+          console.log(`✅ Synced ${changedFiles.length} replaced files to sandbox ${sandbox.id}`)
+        } catch (error) {
+          console.error(`❌ Failed to sync replaced files to sandbox:`, error)
+          // Don't fail the entire operation if sync fails
+        }
+      }
+
+      return {
+        files: changedFiles.map(file => ({ id: file.id, path: file.path, replacements: file.replacements })),
+        totalReplacements: changedFiles.reduce((sum, file) => sum + file.replacements, 0),
+        synced,
+      }
+    }),
+
+  // ESLint problems (next/core-web-vitals) across the project, with their fixes
+  lintProject: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      fileIds: z.array(z.string()).optional(), // lint only these files
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
+      const files = await ctx.db.projectFile.findMany({
         where: {
-          id: input.projectId,
-        },
-        data: {
-          updatedAt: new Date(),
+          projectId: input.projectId,
+          isBinary: false,
+          ...(input.fileIds ? { id: { in: input.fileIds } } : {}),
         },
+        select: { path: true, content: true },
+        orderBy: { path: 'asc' },
       })
 
-      return { success: true, deletedPath: file.path }
+      return lintFiles(files)
     }),
 
-  renameProjectFile: protectedProcedure
+  // Prettier (and optionally ESLint --fix) over the project or the given files
+  formatFiles: protectedProcedure
     .input(z.object({
       projectId: z.string(),
-      fileId: z.string(),
-      newPath: z.string(),
+      fileIds: z.array(z.string()).optional(), // format only these files
+      fixLint: z.boolean().default(false), // apply autofixable lint problems first
     }))
     .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
+        },
+        include: {
+          sandboxes: {
+            where: {
+              status: SandboxStatus.RUNNING,
+            },
+            take: 1,
+          },
         },
       })
 
@@ -1307,59 +2363,105 @@ export const projectRouter = createTRPCRouter({
         })
       }
 
-      // Verify file belongs to the project
-      const file = await ctx.db.projectFile.findFirst({
+      const files = await ctx.db.projectFile.findMany({
         where: {
-          id: input.fileId,
           projectId: input.projectId,
+          isBinary: false,
         },
+        select: { id: true, path: true, content: true, version: true },
       })
+      const prettierOptions = getPrettierOptions(files)
 
-      if (!file) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'File not found',
-        })
+      // Formatting is slow, so do it before taking any locks
+      const formatted: { id: string; path: string; previous: string; content: string; version: number }[] = []
+      for (const file of files) {
+        if (input.fileIds && !input.fileIds.includes(file.id)) continue
+
+        const fixed = input.fixLint ? await fixLintProblems(file.path, file.content) : file.content
+        const content = await formatContent(file.path, fixed, prettierOptions) ?? fixed
+        if (content !== file.content) {
+          formatted.push({ id: file.id, path: file.path, previous: file.content, content, version: file.version })
+        }
       }
 
-      // Check if new path already exists
-      const existingFile = await ctx.db.projectFile.findFirst({
-        where: {
-          projectId: input.projectId,
-          path: input.newPath,
-        },
+      const { changedFiles, skipped } = await ctx.db.$transaction(async (tx) => {
+        const changed: { id: string; path: string; content: string; version: number }[] = []
+        const skippedPaths: string[] = []
+        for (const file of formatted) {
+          // Skip files edited while they were being formatted
+          const { count } = await tx.projectFile.updateMany({
+            where: { id: file.id, version: file.version },
+            data: {
+              content: file.content,
+              updatedAt: new Date(),
+              version: { increment: 1 },
+            },
+          })
+          if (count === 0) {
+            skippedPaths.push(file.path)
+            continue
+          }
+
+          await fileRevisionService.recordRevision({
+            fileId: file.id,
+            projectId: input.projectId,
+            path: file.path,
+            content: file.content,
+            author: 'USER',
+            source: 'project.formatFiles',
+            userId: ctx.user.id,
+          }, { path: file.path, content: file.previous }, tx)
+
+          changed.push({ id: file.id, path: file.path, content: file.content, version: file.version + 1 })
+        }
+
+        if (changed.length > 0) {
+          await tx.project.update({
+            where: { id: input.projectId },
+            data: { updatedAt: new Date() },
+          })
+        }
+
+        return { changedFiles: changed, skipped: skippedPaths }
+      }, {
+        timeout: 30000,
       })
 
-      if (existingFile) {
-        throw new TRPCError({
-          code: 'CONFLICT',
-          message: 'File already exists at the new path',
-        })
+      if (changedFiles.length > 0) {
+        await gitRepositoryService.safeCommitProjectState(
+          input.projectId,
+          `Format ${changedFiles.length} ${changedFiles.length === 1 ? 'file' : 'files'}`,
+          { author: 'USER', userId: ctx.user.id, paths: changedFiles.map(file => file.path) }
+        )
       }
 
-      // Update the file path and language
-      const updatedFile = await ctx.db.projectFile.update({
-        where: {
-          id: input.fileId,
-        },
-        data: {
-          path: input.newPath,
-          language: getLanguageFromPath(input.newPath),
-          updatedAt: new Date(),
-        },
-      })
+      for (const file of changedFiles) {
+        realtimeHub.publishFileEvent(input.projectId, {
+          type: 'file-updated',
+          fileId: file.id,
+          path: file.path,
+          version: file.version,
+        }, file.content)
+      }
 
-      // Update project's updatedAt timestamp
-      await ctx.db.project.update({
-        where: {
-          id: input.projectId,
-        },
-        data: {
-          updatedAt: new Date(),
-        },
-      })
+      // If there's a running sandbox, sync the formatted files to it
+      let synced = false
+      if (project.sandboxes.length > 0 && changedFiles.length > 0) {
+        const sandbox = project.sandboxes[0]
+        try {
+          await customSandboxService.syncFilesToSandbox(sandbox.id, changedFiles)
+          synced = true
+        } catch (error) {
+          console.error(`❌ Failed to sync formatted files to sandbox:`, error)
+          // Don't fail the entire operation if sync fails
+        }
+      }
 
-      return updatedFile
+      return {
+        files: changedFiles.map(file => ({ id: file.id, path: file.path })),
+        skipped,
+        synced,
+      }
     }),
 
   // Verify sandbox is running the correct application
@@ -1369,11 +2471,12 @@ export const projectRouter = createTRPCRouter({
       sandboxId: z.string(),
     }))
     .query(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           files: true,
@@ -1414,7 +2517,10 @@ export const projectRouter = createTRPCRouter({
         }
 
         // Get container logs to see what's actually running
-        const containerLogs = execSync(`docker logs ${sandbox.e2bId} --tail 20`, { encoding: 'utf8' });
+        const containerLogs = await customSandboxService.maskContainerOutput(
+          sandbox.e2bId || '',
+          execSync(`docker logs ${sandbox.e2bId} --tail 20`, { encoding: 'utf8' })
+        );
         
         // Check if the application is responding
         const healthCheck = sandbox.url ? await fetch(`${sandbox.url}/api/health`).catch(() => null) : null;
@@ -1486,11 +2592,12 @@ export const projectRouter = createTRPCRouter({
       sandboxId: z.string(),
     }))
     .query(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can view the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.VIEWER)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           files: true,
@@ -1564,13 +2671,15 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
       fileId: z.string(),
       content: z.string(),
+      expectedVersion: z.number().int(), // version the content was saved or read at
     }))
     .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           sandboxes: {
@@ -1604,15 +2713,30 @@ export const projectRouter = createTRPCRouter({
         })
       }
 
-      // Update the file in database
-      await ctx.db.projectFile.update({
-        where: {
-          id: input.fileId,
-        },
-        data: {
+      if (file.isBinary) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Binary assets cannot be edited as text',
+        })
+      }
+
+      // Update the file in database (saves from the editor have already written it)
+      if (file.content !== input.content) {
+        const updatedFile = await updateFileOrConflict(input.fileId, input.expectedVersion, {
           content: input.content,
-          updatedAt: new Date(),
-        },
+        })
+        realtimeHub.publishFileEvent(input.projectId, {
+          type: 'file-updated',
+          fileId: updatedFile.id,
+          path: updatedFile.path,
+          version: updatedFile.version,
+        }, updatedFile.content)
+      }
+
+      await gitRepositoryService.safeCommitProjectState(input.projectId, `Update ${file.path}`, {
+        author: 'USER',
+        userId: ctx.user.id,
+        paths: [file.path],
       })
 
       // If there's a running sandbox, sync the file to custom sandbox
@@ -1621,19 +2745,8 @@ export const projectRouter = createTRPCRouter({
           const sandbox = project.sandboxes[0];
           console.log(`🔄 Syncing file ${file.path} to sandbox ${sandbox.id}`);
           
-          // Import the custom sandbox service
-          const { customSandboxService: _sandboxService } = await import('@/lib/custom-sandbox');
-          
-          // Update the file in the sandbox directory
-          const sandboxDir = join(process.cwd(), 'sandboxes', sandbox.id);
-          const filePath = join(sandboxDir, file.path);
-          
-          // Ensure directory exists
-          const dir = dirname(filePath);
-          await mkdir(dir, { recursive: true });
-          
-          // Write the updated content to the sandbox file
-          await writeFile(filePath, input.content, 'utf8');
+          // Write the updated content to the sandbox directory
+          const filePath = await customSandboxService.writeSandboxFile(sandbox.id, file.path, input.content);
           
           console.log(`✅ File synced to sandbox: ${filePath}`);
           
@@ -1656,11 +2769,12 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
       })
 
@@ -1671,10 +2785,11 @@ export const projectRouter = createTRPCRouter({
         })
       }
 
-      // Get all files for the project
+      // Get all text files for the project
       const files = await ctx.db.projectFile.findMany({
         where: {
           projectId: input.projectId,
+          isBinary: false,
         },
       })
 
@@ -1687,13 +2802,29 @@ export const projectRouter = createTRPCRouter({
         const cleanedContent = cleanMarkdownContamination(file.content, file.path);
         
         if (originalContent !== cleanedContent) {
-          await ctx.db.projectFile.update({
+          const cleanedFile = await ctx.db.projectFile.update({
             where: { id: file.id },
             data: { 
               content: cleanedContent,
               updatedAt: new Date(),
+              version: { increment: 1 },
             },
           });
+          await fileRevisionService.recordRevision({
+            fileId: file.id,
+            projectId: input.projectId,
+            path: file.path,
+            content: cleanedContent,
+            author: 'SYSTEM',
+            source: 'project.cleanProjectFiles',
+            userId: ctx.user.id,
+          }, { path: file.path, content: originalContent });
+          realtimeHub.publishFileEvent(input.projectId, {
+            type: 'file-updated',
+            fileId: cleanedFile.id,
+            path: cleanedFile.path,
+            version: cleanedFile.version,
+          }, cleanedFile.content);
           cleanedCount++;
           results.push({
             path: file.path,
@@ -1711,6 +2842,12 @@ export const projectRouter = createTRPCRouter({
         }
       }
 
+      if (cleanedCount > 0) {
+        await gitRepositoryService.safeCommitProjectState(input.projectId, `Clean markdown artifacts from ${cleanedCount} files`, {
+          author: 'SYSTEM',
+        })
+      }
+
       return {
         projectId: input.projectId,
         totalFiles: files.length,
@@ -1725,33 +2862,29 @@ export const projectRouter = createTRPCRouter({
       projectId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       try {
         console.log('🧹 Cleaning up port conflicts...');
         
-        const { execSync } = await import('child_process');
-        
-        // Get all running sandbox containers
-        const containers = execSync('docker ps --format "{{.Names}}"', { encoding: 'utf8' })
-          .split('\n')
-          .filter(name => name.trim() && name.includes('sandbox-'));
+        // Only this project's containers, never other users' sandboxes on the host
+        const sandboxes = await ctx.db.sandbox.findMany({
+          where: { projectId: input.projectId, e2bId: { not: null } },
+          select: { id: true, e2bId: true },
+        });
         
-        console.log(`Found ${containers.length} running sandbox containers`);
+        console.log(`Found ${sandboxes.length} sandbox containers for project ${input.projectId}`);
         
         let cleanedCount = 0;
         
-        // Stop and remove all sandbox containers
-        for (const containerName of containers) {
-          try {
-            console.log(`🛑 Stopping container: ${containerName}`);
-            execSync(`docker stop ${containerName}`, { stdio: 'ignore' });
-            
-            console.log(`🗑️ Removing container: ${containerName}`);
-            execSync(`docker rm ${containerName}`, { stdio: 'ignore' });
-            
+        // Stop and remove the containers, releasing their ports
+        for (const sandbox of sandboxes) {
+          console.log(`🛑 Stopping container: ${sandbox.e2bId}`);
+          if (await customSandboxService.stopSandbox(sandbox.id)) {
             cleanedCount++;
-            console.log(`✅ Cleaned up container: ${containerName}`);
-          } catch (error) {
-            console.log(`⚠️ Could not clean up container ${containerName}:`, error);
+            console.log(`✅ Cleaned up container: ${sandbox.e2bId}`);
+          } else {
+            console.log(`⚠️ Could not clean up container ${sandbox.e2bId}`);
           }
         }
         
@@ -1783,10 +2916,11 @@ export const projectRouter = createTRPCRouter({
       sandboxId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           sandboxes: {
@@ -1809,6 +2943,7 @@ export const projectRouter = createTRPCRouter({
         const { readdir, readFile } = await import('fs/promises');
         const { join } = await import('path');
         const sandboxDir = join(process.cwd(), 'sandboxes', input.sandboxId);
+        const snapshot = await realtimeHub.snapshotFileVersions(input.projectId);
         
         let syncedCount = 0;
         
@@ -1822,7 +2957,8 @@ export const projectRouter = createTRPCRouter({
             
             if (entry.isDirectory()) {
               await syncFiles(fullPath, relativePath);
-            } else if (entry.isFile() && !entry.name.startsWith('.') && !entry.name.includes('node_modules')) {
+            } else if (entry.isFile() && !entry.name.startsWith('.') && !entry.name.includes('node_modules') && !isAssetPath(relativePath)) {
+              // Assets are uploaded through the editor, never read back as text
               try {
                 const content = await readFile(fullPath, 'utf8');
                 
@@ -1836,13 +2972,22 @@ export const projectRouter = createTRPCRouter({
                 
                 if (existingFile) {
                   // Update existing file
-                  await ctx.db.projectFile.update({
+                  const updatedFile = await ctx.db.projectFile.update({
                     where: { id: existingFile.id },
-                    data: { content }
+                    data: { content, version: { increment: 1 } }
                   });
+                  await fileRevisionService.recordRevision({
+                    fileId: updatedFile.id,
+                    projectId: input.projectId,
+                    path: updatedFile.path,
+                    content: updatedFile.content,
+                    author: 'SYSTEM',
+                    source: 'project.syncSandboxFiles',
+                    userId: ctx.user.id,
+                  }, { path: existingFile.path, content: existingFile.content });
                 } else {
                   // Create new file
-                  await ctx.db.projectFile.create({
+                  const createdFile = await ctx.db.projectFile.create({
                     data: {
                       projectId: input.projectId,
                       path: relativePath,
@@ -1851,6 +2996,15 @@ export const projectRouter = createTRPCRouter({
                       language: getLanguageFromPath(relativePath),
                     }
                   });
+                  await fileRevisionService.recordRevision({
+                    fileId: createdFile.id,
+                    projectId: input.projectId,
+                    path: createdFile.path,
+                    content: createdFile.content,
+                    author: 'SYSTEM',
+                    source: 'project.syncSandboxFiles',
+                    userId: ctx.user.id,
+                  });
                 }
                 
                 syncedCount++;
@@ -1864,6 +3018,11 @@ export const projectRouter = createTRPCRouter({
         
         await syncFiles(sandboxDir);
         console.log('✅ File synchronization complete');
+        await realtimeHub.publishChangesSince(input.projectId, snapshot);
+
+        await gitRepositoryService.safeCommitProjectState(input.projectId, 'Sync files from sandbox', {
+          author: 'SYSTEM',
+        });
         
         return { 
           success: true, 
@@ -1889,11 +3048,12 @@ export const projectRouter = createTRPCRouter({
       purpose: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           sandboxes: {
@@ -1940,8 +3100,8 @@ export const projectRouter = createTRPCRouter({
 
         const result = {
           success: true,
-          stdout: stdout.trim(),
-          stderr: stderr.trim(),
+          stdout: (await customSandboxService.maskContainerOutput(sandbox.e2bId, stdout)).trim(),
+          stderr: (await customSandboxService.maskContainerOutput(sandbox.e2bId, stderr)).trim(),
           command: input.command,
           purpose: input.purpose,
           timestamp: new Date(),
@@ -1953,10 +3113,11 @@ export const projectRouter = createTRPCRouter({
       } catch (error) {
         console.error(`❌ AI command failed:`, error);
         
+        // exec errors carry the command's output in their message
         return {
           success: false,
           stdout: '',
-          stderr: error instanceof Error ? error.message : 'Unknown error',
+          stderr: error instanceof Error ? await customSandboxService.maskContainerOutput(sandbox.e2bId, error.message) : 'Unknown error',
           command: input.command,
           purpose: input.purpose,
           timestamp: new Date(),
@@ -1971,11 +3132,12 @@ export const projectRouter = createTRPCRouter({
       sandboxId: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
-      // First verify user owns the project
+      // First verify user can edit the project
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
       const project = await ctx.db.project.findFirst({
         where: {
           id: input.projectId,
-          userId: ctx.user.id,
         },
         include: {
           sandboxes: {
@@ -2008,6 +3170,15 @@ export const projectRouter = createTRPCRouter({
         })
       }
 
+      await projectCheckpointService.safeCaptureCheckpoint({
+        projectId: input.projectId,
+        label: 'Before AI auto-fix',
+        source: 'project.aiAutoFixBuildErrors',
+        phase: 'BEFORE',
+        userId: ctx.user.id,
+      })
+      const snapshot = await realtimeHub.snapshotFileVersions(input.projectId)
+
       try {
         // Get build logs to analyze errors
         const { exec } = await import('child_process');
@@ -2017,9 +3188,10 @@ export const projectRouter = createTRPCRouter({
         console.log(`🔍 AI analyzing build errors in sandbox ${sandbox.id}`);
         
         // Get recent build logs
-        const { stdout: logs } = await execAsync(`docker logs ${sandbox.e2bId} --tail 100`, {
+        const { stdout: rawLogs } = await execAsync(`docker logs ${sandbox.e2bId} --tail 100`, {
           timeout: 10000,
         });
+        const logs = await customSandboxService.maskContainerOutput(sandbox.e2bId, rawLogs);
 
         // Analyze logs for common errors
         const fixes = [];
@@ -2386,15 +3558,15 @@ export const projectRouter = createTRPCRouter({
             results.push({
               success: true,
               fix,
-              stdout: stdout.trim(),
-              stderr: stderr.trim(),
+              stdout: (await customSandboxService.maskContainerOutput(sandbox.e2bId, stdout)).trim(),
+              stderr: (await customSandboxService.maskContainerOutput(sandbox.e2bId, stderr)).trim(),
             });
           } catch (error) {
             results.push({
               success: false,
               fix,
               stdout: '',
-              stderr: error instanceof Error ? error.message : 'Unknown error',
+              stderr: error instanceof Error ? await customSandboxService.maskContainerOutput(sandbox.e2bId, error.message) : 'Unknown error',
             });
           }
         }
@@ -2424,8 +3596,17 @@ export const projectRouter = createTRPCRouter({
                   // Update the file in the database
                   await ctx.db.projectFile.update({
                     where: { id: file.id },
-                    data: { content: fixedContent }
+                    data: { content: fixedContent, version: { increment: 1 } }
                   });
+                  await fileRevisionService.recordRevision({
+                    fileId: file.id,
+                    projectId: input.projectId,
+                    path: file.path,
+                    content: fixedContent,
+                    author: 'AI',
+                    source: 'project.aiAutoFixBuildErrors',
+                    userId: ctx.user.id,
+                  }, { path: file.path, content: file.content });
                   
                   // Sync to sandbox
                   const { writeFile, mkdir } = await import('fs/promises');
@@ -2505,8 +3686,17 @@ export const projectRouter = createTRPCRouter({
                 // Update the file in the database
                 await ctx.db.projectFile.update({
                   where: { id: file.id },
-                  data: { content }
+                  data: { content, version: { increment: 1 } }
                 });
+                await fileRevisionService.recordRevision({
+                  fileId: file.id,
+                  projectId: input.projectId,
+                  path: file.path,
+                  content: content,
+                  author: 'AI',
+                  source: 'project.aiAutoFixBuildErrors',
+                  userId: ctx.user.id,
+                }, { path: file.path, content: file.content });
                 
                 // Sync to sandbox
                 const { writeFile, mkdir } = await import('fs/promises');
@@ -2546,7 +3736,7 @@ export const projectRouter = createTRPCRouter({
               if (!existingFile) {
                 const componentContent = '"use client"\n\nimport React from \'react\'\n\nexport default function ' + componentName + '() {\n  return (\n    <div className="p-4 bg-white rounded-lg shadow">\n      <h2 className="text-xl font-semibold mb-4">' + componentName + '</h2>\n      <p className="text-gray-600">\n        This is a placeholder component for ' + componentName + '.\n      </p>\n    </div>\n  )\n}';
                 
-                await ctx.db.projectFile.create({
+                const createdFile = await ctx.db.projectFile.create({
                   data: {
                     projectId: input.projectId,
                     path: componentPath,
@@ -2555,6 +3745,15 @@ export const projectRouter = createTRPCRouter({
                     language: 'typescript',
                   }
                 });
+                await fileRevisionService.recordRevision({
+                  fileId: createdFile.id,
+                  projectId: input.projectId,
+                  path: createdFile.path,
+                  content: createdFile.content,
+                  author: 'AI',
+                  source: 'project.aiAutoFixBuildErrors',
+                  userId: ctx.user.id,
+                });
                 
                 // Sync to sandbox
                 const { writeFile, mkdir } = await import('fs/promises');
@@ -2645,8 +3844,17 @@ export const projectRouter = createTRPCRouter({
                 // Update the file in the database
                 await ctx.db.projectFile.update({
                   where: { id: file.id },
-                  data: { content }
+                  data: { content, version: { increment: 1 } }
                 });
+                await fileRevisionService.recordRevision({
+                  fileId: file.id,
+                  projectId: input.projectId,
+                  path: file.path,
+                  content: content,
+                  author: 'AI',
+                  source: 'project.aiAutoFixBuildErrors',
+                  userId: ctx.user.id,
+                }, { path: file.path, content: file.content });
                 
                 // Sync to sandbox
                 const { writeFile, mkdir } = await import('fs/promises');
@@ -2757,7 +3965,7 @@ body {
               });
               
               if (!existingFile) {
-                await ctx.db.projectFile.create({
+                const createdFile = await ctx.db.projectFile.create({
                   data: {
                     projectId: input.projectId,
                     path: file.path,
@@ -2766,6 +3974,15 @@ body {
                     language: file.path.endsWith('.tsx') ? 'typescript' : file.path.endsWith('.css') ? 'css' : 'javascript',
                   }
                 });
+                await fileRevisionService.recordRevision({
+                  fileId: createdFile.id,
+                  projectId: input.projectId,
+                  path: createdFile.path,
+                  content: createdFile.content,
+                  author: 'AI',
+                  source: 'project.aiAutoFixBuildErrors',
+                  userId: ctx.user.id,
+                });
                 
                 // Sync to sandbox
                 const { writeFile, mkdir } = await import('fs/promises');
@@ -2853,7 +4070,7 @@ module.exports = nextConfig`
               });
               
               if (!existingFile) {
-                await ctx.db.projectFile.create({
+                const createdFile = await ctx.db.projectFile.create({
                   data: {
                     projectId: input.projectId,
                     path: configFile.path,
@@ -2862,6 +4079,15 @@ module.exports = nextConfig`
                     language: 'javascript',
                   }
                 });
+                await fileRevisionService.recordRevision({
+                  fileId: createdFile.id,
+                  projectId: input.projectId,
+                  path: createdFile.path,
+                  content: createdFile.content,
+                  author: 'AI',
+                  source: 'project.aiAutoFixBuildErrors',
+                  userId: ctx.user.id,
+                });
                 
                 // Sync to sandbox
                 const { writeFile, mkdir } = await import('fs/promises');
@@ -3029,8 +4255,17 @@ module.exports = nextConfig`
                   // Update the file in the database
                   await ctx.db.projectFile.update({
                     where: { id: file.id },
-                    data: { content }
+                    data: { content, version: { increment: 1 } }
                   });
+                  await fileRevisionService.recordRevision({
+                    fileId: file.id,
+                    projectId: input.projectId,
+                    path: file.path,
+                    content: content,
+                    author: 'AI',
+                    source: 'project.aiAutoFixBuildErrors',
+                    userId: ctx.user.id,
+                  }, { path: file.path, content: file.content });
                   
                   // Sync to sandbox
                   const { writeFile, mkdir } = await import('fs/promises');
@@ -3091,13 +4326,22 @@ module.exports = nextConfig`
                   
                   if (existingFile) {
                     // Update existing file
-                    await ctx.db.projectFile.update({
+                    const updatedFile = await ctx.db.projectFile.update({
                       where: { id: existingFile.id },
-                      data: { content }
+                      data: { content, version: { increment: 1 } }
                     });
+                    await fileRevisionService.recordRevision({
+                      fileId: updatedFile.id,
+                      projectId: input.projectId,
+                      path: updatedFile.path,
+                      content: updatedFile.content,
+                      author: 'SYSTEM',
+                      source: 'project.aiAutoFixBuildErrors',
+                      userId: ctx.user.id,
+                    }, { path: existingFile.path, content: existingFile.content });
                   } else {
                     // Create new file
-                    await ctx.db.projectFile.create({
+                    const createdFile = await ctx.db.projectFile.create({
                       data: {
                         projectId: input.projectId,
                         path: relativePath,
@@ -3106,6 +4350,15 @@ module.exports = nextConfig`
                         language: getLanguageFromPath(relativePath),
                       }
                     });
+                    await fileRevisionService.recordRevision({
+                      fileId: createdFile.id,
+                      projectId: input.projectId,
+                      path: createdFile.path,
+                      content: createdFile.content,
+                      author: 'SYSTEM',
+                      source: 'project.aiAutoFixBuildErrors',
+                      userId: ctx.user.id,
+                    });
                   }
                   
                   console.log(`✅ Synced: ${relativePath}`);
@@ -3142,6 +4395,18 @@ module.exports = nextConfig`
           results: [],
           error: error instanceof Error ? error.message : 'Unknown error',
         };
+      } finally {
+        await realtimeHub.publishChangesSince(input.projectId, snapshot)
+        await projectCheckpointService.safeCaptureCheckpoint({
+          projectId: input.projectId,
+          label: 'After AI auto-fix',
+          source: 'project.aiAutoFixBuildErrors',
+          phase: 'AFTER',
+          userId: ctx.user.id,
+        })
+        await gitRepositoryService.safeCommitProjectState(input.projectId, 'AI: fix build errors', {
+          author: 'AI',
+        })
       }
     }),
 })
@@ -0,0 +1,146 @@
+import { z } from 'zod'
+import { createTRPCRouter, publicProcedure, protectedProcedure, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { ProjectRole } from '@/generated/prisma'
+import { ASSET_CONTENT_OMIT } from '@/lib/project-assets'
+import { projectShareLinkService } from '@/lib/project-share-links'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+async function resolveShareToken(token: string) {
+  const link = await projectShareLinkService.verifyToken(token)
+
+  if (!link) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'This share link is invalid or has expired',
+    })
+  }
+
+  return link
+}
+
+export const shareRouter = createTRPCRouter({
+  // Share links of a project (token values are never returned again)
+  listShareLinks: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      return ctx.db.projectShareLink.findMany({
+        where: { projectId: input.projectId },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          name: true,
+          expiresAt: true,
+          revokedAt: true,
+          lastUsedAt: true,
+          createdAt: true,
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              username: true,
+            },
+          },
+        },
+      })
+    }),
+
+  createShareLink: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      name: z.string().trim().max(100).optional(),
+      expiresInDays: z.number().int().min(1).max(365).nullable().default(7), // null = never expires
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      return projectShareLinkService.createLink(input.projectId, ctx.user.id, {
+        name: input.name || undefined,
+        expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * MS_PER_DAY) : null,
+      })
+    }),
+
+  revokeShareLink: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      linkId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      const revoked = await projectShareLinkService.revokeLink(input.linkId, input.projectId)
+
+      if (!revoked) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Share link not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  // Files of a shared project, same shape as project.getProjectFiles
+  getSharedProjectFiles: publicProcedure
+    .input(z.object({
+      token: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const link = await resolveShareToken(input.token)
+
+      return ctx.db.projectFile.findMany({
+        where: {
+          projectId: link.projectId,
+        },
+        orderBy: [
+          { path: 'asc' },
+        ],
+        omit: ASSET_CONTENT_OMIT,
+      })
+    }),
+
+  // The AI chat transcript of whoever created the link
+  getSharedChat: publicProcedure
+    .input(z.object({
+      token: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const link = await resolveShareToken(input.token)
+
+      return ctx.db.chatSession.findFirst({
+        where: {
+          projectId: link.projectId,
+          userId: link.createdById,
+        },
+        orderBy: { updatedAt: 'desc' },
+        include: {
+          messages: {
+            orderBy: {
+              createdAt: 'asc',
+            },
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  username: true,
+                  avatar: true,
+                },
+              },
+            },
+          },
+          project: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      })
+    }),
+})
@@ -0,0 +1,153 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure, requireOrganizationRole, requireProjectRole } from '@/trpc/innit'
+import { TRPCError } from '@trpc/server'
+import { OrganizationRole, ProjectRole } from '@/generated/prisma'
+import { getOrganizationRole, hasOrganizationRole } from '@/lib/project-access'
+import { templateAccessWhere } from '@/lib/project-templates'
+import { slugify } from '@/lib/utils'
+
+export const templateRouter = createTRPCRouter({
+  // Gallery: public templates plus the user's own and their workspaces'
+  listTemplates: protectedProcedure
+    .input(z.object({
+      organizationId: z.string().nullish(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      return ctx.db.template.findMany({
+        where: {
+          ...templateAccessWhere(ctx.user.id),
+          ...(input?.organizationId ? { organizationId: input.organizationId } : {}),
+        },
+        orderBy: [
+          { useCount: 'desc' },
+          { createdAt: 'desc' },
+        ],
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              username: true,
+            },
+          },
+          organization: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          _count: {
+            select: { files: true },
+          },
+        },
+      })
+    }),
+
+  // Snapshot a project's current files as a template
+  saveProjectAsTemplate: protectedProcedure
+    .input(z.object({
+      projectId: z.string(),
+      name: z.string().trim().min(1).max(100),
+      description: z.string().trim().max(500).optional(),
+      previewImage: z.string().url().optional(),
+      tags: z.array(z.string().trim().min(1).max(30)).max(10).default([]),
+      isPublic: z.boolean().default(false),
+      organizationId: z.string().optional(), // share with a team workspace
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectRole(ctx.user.id, input.projectId, ProjectRole.EDITOR)
+
+      if (input.organizationId) {
+        await requireOrganizationRole(ctx.user.id, input.organizationId, OrganizationRole.MEMBER)
+      }
+
+      const project = await ctx.db.project.findUniqueOrThrow({
+        where: { id: input.projectId },
+        include: {
+          files: {
+            orderBy: { path: 'asc' },
+          },
+        },
+      })
+
+      if (project.files.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Project has no files to save as a template',
+        })
+      }
+
+      const baseSlug = slugify(input.name, 'template')
+      const taken = await ctx.db.template.findUnique({ where: { slug: baseSlug } })
+      const slug = taken ? `${baseSlug}-${Math.random().toString(36).slice(2, 8)}` : baseSlug
+
+      return ctx.db.template.create({
+        data: {
+          name: input.name,
+          slug,
+          description: input.description || project.description,
+          framework: project.framework,
+          styling: project.styling,
+          tags: input.tags,
+          previewImage: input.previewImage ?? project.screenshots[0] ?? null,
+          isPublic: input.isPublic,
+          createdById: ctx.user.id,
+          organizationId: input.organizationId,
+          files: {
+            createMany: {
+              data: project.files.map(file => ({
+                path: file.path,
+                content: file.content,
+                language: file.language,
+                isBinary: file.isBinary,
+                mimeType: file.mimeType,
+                size: file.size,
+                binaryContent: file.binaryContent,
+              })),
+            },
+          },
+        },
+        include: {
+          _count: {
+            select: { files: true },
+          },
+        },
+      })
+    }),
+
+  // The creator, or an admin of the template's workspace
+  deleteTemplate: protectedProcedure
+    .input(z.object({
+      templateId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const template = await ctx.db.template.findUnique({
+        where: { id: input.templateId },
+        select: { createdById: true, organizationId: true },
+      })
+
+      if (!template) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Template not found',
+        })
+      }
+
+      const canDelete = template.createdById === ctx.user.id ||
+        (template.organizationId !== null &&
+          hasOrganizationRole(await getOrganizationRole(template.organizationId, ctx.user.id), OrganizationRole.ADMIN))
+
+      if (!canDelete) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only the creator or a workspace admin can delete this template',
+        })
+      }
+
+      await ctx.db.template.delete({
+        where: { id: input.templateId },
+      })
+
+      return { success: true }
+    }),
+})